@@ -0,0 +1,37 @@
+-- Story 2.5: Durable Video Generation Queue
+-- Persists queued and in-flight videos so batches survive server restarts
+
+-- CreateTable
+CREATE TABLE "generation_jobs" (
+    "id" TEXT NOT NULL,
+    "notion_page_id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "combination_id" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "aspect_ratio" TEXT,
+    "loop" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "sora_video_id" TEXT,
+    "error" TEXT,
+    "queued_at" TIMESTAMP(3) NOT NULL,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generation_jobs_notion_page_id_key" ON "generation_jobs"("notion_page_id");
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_batch_id_idx" ON "generation_jobs"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_status_queued_at_idx" ON "generation_jobs"("status", "queued_at");
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_sora_video_id_idx" ON "generation_jobs"("sora_video_id");
@@ -0,0 +1,37 @@
+-- Story 2.5: Sora Rate Limiting
+-- Per-tenant concurrency ceilings per model, and tenant ownership of queued jobs
+
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN "tenant_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_tenant_id_idx" ON "generation_jobs"("tenant_id");
+
+-- CreateTable
+CREATE TABLE "tenant_concurrency_limits" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "max_concurrent" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_concurrency_limits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_concurrency_limits_tenant_id_model_key" ON "tenant_concurrency_limits"("tenant_id", "model");
+
+-- AddForeignKey
+ALTER TABLE "tenant_concurrency_limits" ADD CONSTRAINT "tenant_concurrency_limits_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable Row-Level Security (same policies as other tenant-scoped tables)
+ALTER TABLE "tenant_concurrency_limits" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_policy" ON "tenant_concurrency_limits"
+  FOR ALL
+  USING ("tenant_id" = current_setting('app.current_tenant_id', TRUE)::TEXT);
+
+CREATE POLICY "admin_all_concurrency_limits_policy" ON "tenant_concurrency_limits"
+  FOR ALL
+  USING (current_setting('app.user_role', TRUE) = 'admin');
@@ -0,0 +1,5 @@
+-- Story 2.5: Fair Queue Scheduling
+-- Dispatch lane per job so rush revisions keep their place across restarts
+
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN "priority" TEXT NOT NULL DEFAULT 'standard';
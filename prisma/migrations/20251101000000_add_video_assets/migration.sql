@@ -0,0 +1,37 @@
+-- Story 2.6: Asset Catalogue
+-- Downloaded assets with SHA-256 hashes, sizes, MIME types and version lineage
+
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN "lineage" TEXT NOT NULL DEFAULT 'original';
+
+-- CreateTable
+CREATE TABLE "video_assets" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "notion_page_id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "sora_video_id" TEXT NOT NULL,
+    "asset_type" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "lineage" TEXT NOT NULL DEFAULT 'original',
+    "parent_asset_id" TEXT,
+    "sha256" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "storage_backend" TEXT NOT NULL,
+    "storage_path" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "verified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "video_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_assets_notion_page_id_asset_type_version_key" ON "video_assets"("notion_page_id", "asset_type", "version");
+
+-- CreateIndex
+CREATE INDEX "video_assets_batch_id_idx" ON "video_assets"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "video_assets_tenant_id_sha256_idx" ON "video_assets"("tenant_id", "sha256");
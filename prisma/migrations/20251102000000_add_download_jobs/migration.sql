@@ -0,0 +1,32 @@
+-- Story 2.6: Durable Download Jobs
+-- Persists asset downloads so a restart inside the one-hour Sora window can resume them
+
+-- CreateTable
+CREATE TABLE "download_jobs" (
+    "id" TEXT NOT NULL,
+    "notion_page_id" TEXT NOT NULL,
+    "sora_video_id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "lineage" TEXT NOT NULL DEFAULT 'original',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "retry_count" INTEGER NOT NULL DEFAULT 0,
+    "max_retries" INTEGER NOT NULL DEFAULT 3,
+    "error" TEXT,
+    "completed_at" TIMESTAMP(3) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "expiry_alerted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "download_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "download_jobs_notion_page_id_key" ON "download_jobs"("notion_page_id");
+
+-- CreateIndex
+CREATE INDEX "download_jobs_status_expires_at_idx" ON "download_jobs"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "download_jobs_batch_id_idx" ON "download_jobs"("batch_id");
@@ -0,0 +1,76 @@
+-- Story 2.6: Storage Tiering and Retention
+-- Per-tenant retention rules, an audit trail of every move/delete, and review state on catalogued assets
+
+-- AlterTable
+ALTER TABLE "video_assets" ADD COLUMN "review_status" TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN "reviewed_at" TIMESTAMP(3),
+ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "video_assets_tenant_id_storage_backend_storage_path_idx" ON "video_assets"("tenant_id", "storage_backend", "storage_path");
+
+-- CreateTable
+CREATE TABLE "storage_retention_rules" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "applies_to" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "after_days" INTEGER NOT NULL,
+    "target_backend" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "storage_retention_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "storage_moves" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "asset_id" TEXT NOT NULL,
+    "rule_id" TEXT,
+    "action" TEXT NOT NULL,
+    "from_backend" TEXT NOT NULL,
+    "from_path" TEXT NOT NULL,
+    "to_backend" TEXT,
+    "to_path" TEXT,
+    "size_bytes" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "storage_moves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "storage_retention_rules_tenant_id_applies_to_action_key" ON "storage_retention_rules"("tenant_id", "applies_to", "action");
+
+-- CreateIndex
+CREATE INDEX "storage_moves_tenant_id_created_at_idx" ON "storage_moves"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "storage_moves_asset_id_idx" ON "storage_moves"("asset_id");
+
+-- AddForeignKey
+ALTER TABLE "storage_retention_rules" ADD CONSTRAINT "storage_retention_rules_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable Row-Level Security (same policies as other tenant-scoped tables)
+ALTER TABLE "storage_retention_rules" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_policy" ON "storage_retention_rules"
+  FOR ALL
+  USING ("tenant_id" = current_setting('app.current_tenant_id', TRUE)::TEXT);
+
+CREATE POLICY "admin_all_retention_rules_policy" ON "storage_retention_rules"
+  FOR ALL
+  USING (current_setting('app.user_role', TRUE) = 'admin');
+
+ALTER TABLE "storage_moves" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_policy" ON "storage_moves"
+  FOR ALL
+  USING ("tenant_id" = current_setting('app.current_tenant_id', TRUE)::TEXT);
+
+CREATE POLICY "admin_all_storage_moves_policy" ON "storage_moves"
+  FOR ALL
+  USING (current_setting('app.user_role', TRUE) = 'admin');
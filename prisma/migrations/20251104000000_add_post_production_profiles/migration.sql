@@ -0,0 +1,24 @@
+-- Story 2.6: Post-Production
+-- Per-batch hook, CTA and watermark assets plus render settings
+
+-- CreateTable
+CREATE TABLE "post_production_profiles" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "hook_path" TEXT,
+    "cta_path" TEXT,
+    "watermark_path" TEXT,
+    "platforms" TEXT[] DEFAULT ARRAY['9:16', '1:1', '16:9']::TEXT[],
+    "loudness_target" DOUBLE PRECISION NOT NULL DEFAULT -14,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_production_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_production_profiles_batch_id_key" ON "post_production_profiles"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "post_production_profiles_tenant_id_idx" ON "post_production_profiles"("tenant_id");
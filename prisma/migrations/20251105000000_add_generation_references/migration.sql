@@ -0,0 +1,37 @@
+-- Story 2.4: Image References
+-- Product images and per-combination reference frames sent to Sora as input_reference,
+-- recorded on generation jobs, download jobs and the asset catalogue
+
+-- CreateTable
+CREATE TABLE "generation_references" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "combination_key" TEXT,
+    "file_name" TEXT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "storage_backend" TEXT NOT NULL,
+    "storage_path" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "generation_references_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_references_batch_id_idx" ON "generation_references"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "generation_references_tenant_id_idx" ON "generation_references"("tenant_id");
+
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN "reference_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "download_jobs" ADD COLUMN "reference_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "video_assets" ADD COLUMN "reference_id" TEXT;
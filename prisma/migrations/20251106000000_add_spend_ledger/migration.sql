@@ -0,0 +1,56 @@
+-- Story 1.5: Spend Ledger and Budgets
+-- Actual cost of every Sora job and LLM call, and prepaid per-provider budgets per tenant
+
+-- CreateTable
+CREATE TABLE "spend_ledger" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "batch_id" TEXT,
+    "notion_page_id" TEXT,
+    "provider" TEXT NOT NULL,
+    "service" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "input_tokens" INTEGER,
+    "output_tokens" INTEGER,
+    "seconds" INTEGER,
+    "cost_usd" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "spend_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tenant_budgets" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "amount_usd" DOUBLE PRECISION NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "spend_ledger_tenant_id_provider_created_at_idx" ON "spend_ledger"("tenant_id", "provider", "created_at");
+
+-- CreateIndex
+CREATE INDEX "spend_ledger_batch_id_idx" ON "spend_ledger"("batch_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_budgets_tenant_id_provider_key" ON "tenant_budgets"("tenant_id", "provider");
+
+-- AddForeignKey
+ALTER TABLE "tenant_budgets" ADD CONSTRAINT "tenant_budgets_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable Row-Level Security (same policies as other tenant-scoped tables)
+ALTER TABLE "tenant_budgets" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_policy" ON "tenant_budgets"
+  FOR ALL
+  USING ("tenant_id" = current_setting('app.current_tenant_id', TRUE)::TEXT);
+
+CREATE POLICY "admin_all_tenant_budgets_policy" ON "tenant_budgets"
+  FOR ALL
+  USING (current_setting('app.user_role', TRUE) = 'admin');
@@ -0,0 +1,48 @@
+-- Story 1.5: Spend Caps and Batch Approvals
+-- Monthly and per-campaign spend caps, and admin approval of batches above a cost threshold
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "monthly_cap_usd" DOUBLE PRECISION,
+ADD COLUMN "approval_threshold_usd" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "budget_cap_usd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "batch_approvals" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "requested_by" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "total_batch_cost" DOUBLE PRECISION NOT NULL,
+    "video_count" INTEGER NOT NULL,
+    "payload" JSONB NOT NULL,
+    "decided_by" TEXT,
+    "decided_at" TIMESTAMP(3),
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "batch_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "batch_approvals_batch_id_key" ON "batch_approvals"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "batch_approvals_tenant_id_status_idx" ON "batch_approvals"("tenant_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "batch_approvals" ADD CONSTRAINT "batch_approvals_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable Row-Level Security (same policies as other tenant-scoped tables)
+ALTER TABLE "batch_approvals" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_policy" ON "batch_approvals"
+  FOR ALL
+  USING ("tenant_id" = current_setting('app.current_tenant_id', TRUE)::TEXT);
+
+CREATE POLICY "admin_all_batch_approvals_policy" ON "batch_approvals"
+  FOR ALL
+  USING (current_setting('app.user_role', TRUE) = 'admin');
@@ -0,0 +1,28 @@
+-- Story 1.5: Cost Reconciliation
+-- Submission-time cost estimate per batch, reconciled against the spend ledger
+
+-- CreateTable
+CREATE TABLE "batch_cost_estimates" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "model" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "video_count" INTEGER NOT NULL,
+    "openai_usd" DOUBLE PRECISION NOT NULL,
+    "anthropic_usd" DOUBLE PRECISION NOT NULL,
+    "google_usd" DOUBLE PRECISION NOT NULL,
+    "perplexity_usd" DOUBLE PRECISION NOT NULL,
+    "storage_usd" DOUBLE PRECISION NOT NULL,
+    "total_usd" DOUBLE PRECISION NOT NULL,
+    "pricing_version" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "batch_cost_estimates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "batch_cost_estimates_batch_id_key" ON "batch_cost_estimates"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "batch_cost_estimates_tenant_id_created_at_idx" ON "batch_cost_estimates"("tenant_id", "created_at");
@@ -0,0 +1,26 @@
+-- Story 1.5: Versioned Rate Cards
+-- Admin-published pricing with effective dates; every ledger entry records the rate card it was priced with
+
+-- CreateTable
+CREATE TABLE "rate_cards" (
+    "id" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "effective_from" TIMESTAMP(3) NOT NULL,
+    "sora" JSONB NOT NULL,
+    "llm" JSONB NOT NULL,
+    "tokens" JSONB NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rate_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rate_cards_version_key" ON "rate_cards"("version");
+
+-- CreateIndex
+CREATE INDEX "rate_cards_effective_from_idx" ON "rate_cards"("effective_from");
+
+-- AlterTable: existing entries were priced with the built-in rate card
+ALTER TABLE "spend_ledger" ADD COLUMN "rate_card_version" TEXT NOT NULL DEFAULT '1.0.0';
+ALTER TABLE "spend_ledger" ALTER COLUMN "rate_card_version" DROP DEFAULT;
@@ -0,0 +1,31 @@
+-- Story 2.8: Retry History
+-- Every retry of a video, manual or automatic, and the per-tenant retry limit
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "max_retry_attempts" INTEGER NOT NULL DEFAULT 3;
+
+-- CreateTable
+CREATE TABLE "video_retry_attempts" (
+    "id" TEXT NOT NULL,
+    "notion_page_id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "attempt_number" INTEGER NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "previous_error" TEXT NOT NULL,
+    "error_category" TEXT NOT NULL,
+    "modified_prompt" TEXT,
+    "requested_by" TEXT,
+    "outcome" TEXT NOT NULL DEFAULT 'pending',
+    "new_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "video_retry_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_retry_attempts_notion_page_id_attempt_number_key" ON "video_retry_attempts"("notion_page_id", "attempt_number");
+
+-- CreateIndex
+CREATE INDEX "video_retry_attempts_batch_id_idx" ON "video_retry_attempts"("batch_id");
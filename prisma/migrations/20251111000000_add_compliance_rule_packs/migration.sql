@@ -0,0 +1,40 @@
+-- Story 2.1: Compliance Rule Packs
+-- Versioned, tenant- and brand-specific compliance rules layered over the built-in rules
+
+-- CreateTable
+CREATE TABLE "compliance_rule_packs" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "brand_id" TEXT,
+    "version" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "rules" JSONB NOT NULL,
+    "notes" TEXT,
+    "created_by" TEXT NOT NULL,
+    "published_by" TEXT,
+    "published_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "compliance_rule_packs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "compliance_rule_packs_tenant_id_brand_id_version_key" ON "compliance_rule_packs"("tenant_id", "brand_id", "version");
+
+-- CreateIndex
+CREATE INDEX "compliance_rule_packs_tenant_id_status_idx" ON "compliance_rule_packs"("tenant_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "compliance_rule_packs" ADD CONSTRAINT "compliance_rule_packs_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable Row-Level Security (same policies as other tenant-scoped tables)
+ALTER TABLE "compliance_rule_packs" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_policy" ON "compliance_rule_packs"
+  FOR ALL
+  USING ("tenant_id" = current_setting('app.current_tenant_id', TRUE)::TEXT);
+
+CREATE POLICY "admin_all_compliance_rule_packs_policy" ON "compliance_rule_packs"
+  FOR ALL
+  USING (current_setting('app.user_role', TRUE) = 'admin');
@@ -0,0 +1,54 @@
+-- Story 2.1: Prompt Remediation
+-- Every compliance round of a generated prompt, and prompts escalated to human review
+
+-- CreateTable
+CREATE TABLE "prompt_compliance_attempts" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "combination_key" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "dialog" TEXT,
+    "valid" BOOLEAN NOT NULL,
+    "errors" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_compliance_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prompt_reviews" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "brand_id" TEXT NOT NULL,
+    "notion_page_id" TEXT NOT NULL,
+    "combination_key" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "dialog" TEXT,
+    "errors" JSONB NOT NULL,
+    "rounds" INTEGER NOT NULL,
+    "video" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "final_prompt" TEXT,
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_compliance_attempts_batch_id_combination_key_idx" ON "prompt_compliance_attempts"("batch_id", "combination_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_reviews_notion_page_id_key" ON "prompt_reviews"("notion_page_id");
+
+-- CreateIndex
+CREATE INDEX "prompt_reviews_tenant_id_status_idx" ON "prompt_reviews"("tenant_id", "status");
+
+-- CreateIndex
+CREATE INDEX "prompt_reviews_batch_id_idx" ON "prompt_reviews"("batch_id");
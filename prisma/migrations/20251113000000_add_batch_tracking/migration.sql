@@ -0,0 +1,62 @@
+-- Story 2.3: Batch Tracking
+-- Batches and their video variations, previously tracked only as Notion pages (Notion is now an optional mirror)
+
+-- CreateTable
+CREATE TABLE "batches" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "brand_id" TEXT NOT NULL,
+    "big_idea" TEXT NOT NULL,
+    "product_category" TEXT,
+    "model" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "aspect_ratio" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'generating',
+    "total_variations" INTEGER NOT NULL,
+    "completed_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "video_variations" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "combination_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "dimensions" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "prompt" TEXT NOT NULL,
+    "cost" DOUBLE PRECISION NOT NULL,
+    "progress" INTEGER,
+    "sora_video_id" TEXT,
+    "video_url" TEXT,
+    "error_type" TEXT,
+    "error" TEXT,
+    "retry_count" INTEGER NOT NULL DEFAULT 0,
+    "last_retry_at" TIMESTAMP(3),
+    "notion_page_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_variations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "batches_tenant_id_created_at_idx" ON "batches"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_variations_notion_page_id_key" ON "video_variations"("notion_page_id");
+
+-- CreateIndex
+CREATE INDEX "video_variations_batch_id_position_idx" ON "video_variations"("batch_id", "position");
+
+-- CreateIndex
+CREATE INDEX "video_variations_tenant_id_idx" ON "video_variations"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "video_variations" ADD CONSTRAINT "video_variations_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Story 2.6: Post-Production
+-- Storage backend of each uploaded hook, CTA and watermark, so renders read them from where they were stored
+
+-- AlterTable
+ALTER TABLE "post_production_profiles" ADD COLUMN "hook_backend" TEXT,
+ADD COLUMN "cta_backend" TEXT,
+ADD COLUMN "watermark_backend" TEXT;
@@ -0,0 +1,5 @@
+-- Story 2.8: Retry Failed Videos
+-- Provider video a remix is generated from, so a remix queued before a restart is still sent as a remix
+
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN "remix_of" TEXT;
@@ -0,0 +1,28 @@
+-- Story 2.6: Post-Production
+-- Persists queued platform renders so videos downloaded before a restart are still rendered
+
+-- CreateTable
+CREATE TABLE "post_production_renders" (
+    "id" TEXT NOT NULL,
+    "notion_page_id" TEXT NOT NULL,
+    "sora_video_id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "version" INTEGER NOT NULL,
+    "lineage" TEXT NOT NULL DEFAULT 'original',
+    "video_backend" TEXT NOT NULL,
+    "video_path" TEXT NOT NULL,
+    "video_asset_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_production_renders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_production_renders_notion_page_id_version_key" ON "post_production_renders"("notion_page_id", "version");
+
+-- CreateIndex
+CREATE INDEX "post_production_renders_status_created_at_idx" ON "post_production_renders"("status", "created_at");
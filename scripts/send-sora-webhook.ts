@@ -0,0 +1,58 @@
+// Sends a locally signed Sora webhook event to the running dev server
+// Run with: npx tsx scripts/send-sora-webhook.ts <soraVideoId> [completed|failed]
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { Webhook } from 'svix';
+
+// Load environment variables
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function sendSoraWebhook() {
+  const [videoId, outcome = 'completed'] = process.argv.slice(2);
+  const secret = process.env.SORA_WEBHOOK_SECRET;
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+
+  if (!videoId || !['completed', 'failed'].includes(outcome)) {
+    console.error('Usage: npx tsx scripts/send-sora-webhook.ts <soraVideoId> [completed|failed]');
+    process.exit(1);
+  }
+
+  if (!secret) {
+    console.error('❌ SORA_WEBHOOK_SECRET is not set in .env.local');
+    process.exit(1);
+  }
+
+  const messageId = `evt_${randomUUID().replace(/-/g, '')}`;
+  const timestamp = new Date();
+  const body = JSON.stringify({
+    id: messageId,
+    object: 'event',
+    type: `video.${outcome}`,
+    created_at: Math.floor(timestamp.getTime() / 1000),
+    data: { id: videoId },
+  });
+
+  const signature = new Webhook(secret).sign(messageId, timestamp, body);
+
+  console.log(`Sending video.${outcome} for ${videoId} to ${baseUrl}/api/webhooks/sora`);
+
+  const response = await fetch(`${baseUrl}/api/webhooks/sora`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'webhook-id': messageId,
+      'webhook-timestamp': Math.floor(timestamp.getTime() / 1000).toString(),
+      'webhook-signature': signature,
+    },
+    body,
+  });
+
+  console.log(`${response.ok ? '✅' : '❌'} ${response.status}:`, await response.json().catch(() => null));
+}
+
+sendSoraWebhook().catch((error) => {
+  console.error('❌ Failed to send webhook:', error);
+  process.exit(1);
+});
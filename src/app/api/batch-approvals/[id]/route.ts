@@ -0,0 +1,138 @@
+// Story 1.5: Batch Approvals API - Approve or deny a held batch
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma';
+import {
+  decideBatchApproval,
+  failBatchApproval,
+  getBatchApproval,
+  reopenBatchApproval,
+} from '@/lib/database/batch-approvals';
+import { prepareBatch, runBatchGeneration, type BatchGenerationRequest } from '@/lib/batch-generation';
+import { SoraParameterError } from '@/lib/sora-request-mapper';
+
+const decisionSchema = z.object({
+  decision: z.enum(['approve', 'deny']),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/batch-approvals/[id]
+ * Admin decision on a held batch
+ *
+ * - approve: the stored generate-batch request is run now (campaign, prompts, batch records, queue);
+ *   if it fails to start, the request goes back to pending
+ * - deny: nothing is generated
+ * Body: { decision: 'approve' | 'deny', reason? }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Only admins decide on held batches
+    if (user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only admins can approve or deny batches' },
+        { status: 403 }
+      );
+    }
+
+    const approval = await getBatchApproval(params.id, user.tenantId);
+    if (!approval) {
+      return NextResponse.json(
+        { error: 'Approval request not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const validationResult = decisionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { decision, reason } = validationResult.data;
+    const status = decision === 'approve' ? 'approved' : 'denied';
+
+    // Claim the request so two admins cannot both start the batch
+    if (!(await decideBatchApproval(approval.id, status, userId, reason))) {
+      // Re-read - another admin may have decided it after it was loaded above
+      const decided = await getBatchApproval(approval.id, user.tenantId);
+      return NextResponse.json(
+        { error: `Batch ${approval.batchId} has already been ${decided?.status ?? 'decided'}` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Batch Approvals] Batch ${approval.batchId} ${status} by ${userId}`);
+
+    if (status === 'denied') {
+      return NextResponse.json({ approvalId: approval.id, batchId: approval.batchId, status });
+    }
+
+    const request = approval.payload as unknown as BatchGenerationRequest;
+
+    // Nothing has been created yet, so the request can be decided again
+    let prepared;
+    try {
+      prepared = prepareBatch(request);
+    } catch (error) {
+      console.error(`[Batch Approvals] Approved batch ${approval.batchId} could not be prepared:`, error);
+      await reopenBatchApproval(approval.id);
+
+      return NextResponse.json(
+        {
+          error: 'Approved batch failed to start and is pending again',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: error instanceof SoraParameterError ? 400 : 500 }
+      );
+    }
+
+    try {
+      const result = await runBatchGeneration(request, prepared, approval.tenantId);
+
+      return NextResponse.json({ ...result, approvalId: approval.id });
+    } catch (error) {
+      // The campaign or batch records may already exist - replaying the request would fail on them
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Batch Approvals] Approved batch ${approval.batchId} failed to start:`, error);
+      await failBatchApproval(approval.id, message);
+
+      return NextResponse.json(
+        {
+          error: 'Approved batch failed to start; submit it again',
+          details: message,
+        },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    console.error('[Batch Approvals] Error deciding approval:', error);
+    return NextResponse.json(
+      { error: 'Failed to decide batch approval' },
+      { status: 500 }
+    );
+  }
+}
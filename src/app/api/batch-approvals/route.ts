@@ -0,0 +1,92 @@
+// Story 1.5: Batch Approvals API
+// Lists batches held for admin approval because their estimate is above the tenant's threshold
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { BatchApproval } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma';
+import { listBatchApprovals } from '@/lib/database/batch-approvals';
+import type { BatchGenerationRequest } from '@/lib/batch-generation';
+
+export type BatchApprovalSummary = {
+  id: string;
+  batchId: string;
+  status: 'pending' | 'approved' | 'denied' | 'failed';
+  brand: string;
+  bigIdea: string;
+  totalBatchCost: number;
+  videoCount: number;
+  requestedBy: string;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;
+};
+
+const statusSchema = z.enum(['pending', 'approved', 'denied', 'failed']).optional();
+
+/**
+ * Maps an approval record to its summary (the stored request body stays server-side)
+ */
+function toApprovalSummary(approval: BatchApproval): BatchApprovalSummary {
+  const payload = approval.payload as unknown as BatchGenerationRequest;
+
+  return {
+    id: approval.id,
+    batchId: approval.batchId,
+    status: approval.status as BatchApprovalSummary['status'],
+    brand: payload.formData.brand,
+    bigIdea: payload.formData.bigIdea,
+    totalBatchCost: approval.totalBatchCost,
+    videoCount: approval.videoCount,
+    requestedBy: approval.requestedBy,
+    requestedAt: approval.createdAt.toISOString(),
+    decidedBy: approval.decidedBy ?? undefined,
+    decidedAt: approval.decidedAt?.toISOString(),
+    reason: approval.reason ?? undefined,
+  };
+}
+
+/**
+ * GET /api/batch-approvals?status=pending
+ * Lists the tenant's approval requests, newest first (all statuses when status is omitted)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const status = statusSchema.safeParse(req.nextUrl.searchParams.get('status') ?? undefined);
+    if (!status.success) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: status.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const approvals = await listBatchApprovals(user.tenantId, status.data);
+
+    return NextResponse.json({
+      approvals: approvals.map(toApprovalSummary),
+      canDecide: user.role === 'admin',
+    });
+  } catch (error) {
+    console.error('[Batch Approvals] Error listing approvals:', error);
+    return NextResponse.json(
+      { error: 'Failed to list batch approvals' },
+      { status: 500 }
+    );
+  }
+}
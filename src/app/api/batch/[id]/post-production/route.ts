@@ -0,0 +1,210 @@
+// Story 2.6: Post-Production Assets
+// Uploads the hook, CTA and watermark for a batch and returns its platform renders
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import path from 'path';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma';
+import { createStorageAdapter, type StoredFile } from '@/lib/storage-adapters';
+import { authorizeBatch } from '@/lib/auth/batch-access';
+import {
+  getPostProductionProfile,
+  loadBatchRenders,
+  savePostProductionProfile,
+} from '@/lib/database/post-production';
+import { DEFAULT_LOUDNESS_TARGET, PLATFORM_FORMAT_KEYS, type PlatformFormat } from '@/lib/post-production';
+
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024; // 200MB per file
+const WATERMARK_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const settingsSchema = z.object({
+  platforms: z
+    .array(z.enum(PLATFORM_FORMAT_KEYS as [PlatformFormat, ...PlatformFormat[]]))
+    .min(1, 'At least one platform format is required'),
+  loudnessTarget: z.number().min(-70).max(-5),
+});
+
+/**
+ * Resolves the signed-in user and checks the batch belongs to their tenant
+ * @returns The user, or the error response to send
+ */
+async function authorizeRequest(batchId: string, requireEditor: boolean) {
+  const { userId } = await auth();
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { response: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  if (requireEditor && user.role !== 'admin' && user.role !== 'editor') {
+    return {
+      response: NextResponse.json(
+        { error: 'Insufficient permissions to configure post-production' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  // Settings are uploaded before the batch is submitted
+  const profile = await getPostProductionProfile(batchId);
+  if (!(await authorizeBatch(batchId, user, { allowUnsubmitted: true, claimedTenantId: profile?.tenantId }))) {
+    return {
+      response: NextResponse.json({ error: 'Batch not found or access denied' }, { status: 404 }),
+    };
+  }
+
+  return { user, profile };
+}
+
+/**
+ * GET /api/batch/[id]/post-production
+ * Returns the batch's post-production settings and the renders stored so far
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchId = params.id;
+    const { response, profile } = await authorizeRequest(batchId, false);
+    if (response) return response;
+
+    const renders = await loadBatchRenders(batchId);
+
+    return NextResponse.json({
+      batchId,
+      profile,
+      renders: renders.map((render) => ({
+        notionPageId: render.notionPageId,
+        soraVideoId: render.soraVideoId,
+        format: render.assetType.replace('render_', '').replace('x', ':'),
+        version: render.version,
+        url: render.url,
+        sizeBytes: render.sizeBytes,
+        createdAt: render.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Post-Production] Error loading post-production settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to load post-production settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/batch/[id]/post-production
+ * Multipart form: hookVideo, ctaVideo, watermark (files, all optional),
+ * platforms (comma-separated, e.g. "9:16,1:1") and loudnessTarget (LUFS)
+ *
+ * Files not sent keep their previous upload, so settings can be changed without re-uploading.
+ * Upload before generation starts - videos downloaded earlier are not re-rendered.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchId = params.id;
+    const { response, user, profile } = await authorizeRequest(batchId, true);
+    if (response) return response;
+
+    const formData = await req.formData();
+
+    const platformsValue = formData.get('platforms');
+    const loudnessValue = formData.get('loudnessTarget');
+    const validationResult = settingsSchema.safeParse({
+      platforms:
+        typeof platformsValue === 'string' && platformsValue.trim()
+          ? platformsValue.split(',').map((format) => format.trim())
+          : profile?.platforms ?? PLATFORM_FORMAT_KEYS,
+      loudnessTarget:
+        typeof loudnessValue === 'string' && loudnessValue.trim()
+          ? Number(loudnessValue)
+          : profile?.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const uploads = {
+      hookPath: { field: 'hookVideo', name: 'hook', backendKey: 'hookBackend', accepts: (type: string) => type.startsWith('video/') },
+      ctaPath: { field: 'ctaVideo', name: 'cta', backendKey: 'ctaBackend', accepts: (type: string) => type.startsWith('video/') },
+      watermarkPath: { field: 'watermark', name: 'watermark', backendKey: 'watermarkBackend', accepts: (type: string) => WATERMARK_MIME_TYPES.includes(type) },
+    } as const;
+
+    // Validate every file before storing any of them
+    const files: Partial<Record<keyof typeof uploads, File>> = {};
+    for (const [key, upload] of Object.entries(uploads) as [keyof typeof uploads, (typeof uploads)[keyof typeof uploads]][]) {
+      const file = formData.get(upload.field);
+      if (!(file instanceof File) || file.size === 0) continue;
+
+      if (!upload.accepts(file.type)) {
+        return NextResponse.json(
+          { error: `Unsupported file type for ${upload.field}: ${file.type || 'unknown'}` },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { error: `${upload.field} exceeds the ${MAX_UPLOAD_BYTES / 1024 / 1024}MB limit` },
+          { status: 400 }
+        );
+      }
+      files[key] = file;
+    }
+
+    const storage = createStorageAdapter(user.tenantId);
+    const paths = {
+      hookPath: profile?.hookPath ?? undefined,
+      ctaPath: profile?.ctaPath ?? undefined,
+      watermarkPath: profile?.watermarkPath ?? undefined,
+    };
+    const backends: Record<(typeof uploads)[keyof typeof uploads]['backendKey'], StoredFile['backend'] | undefined> = {
+      hookBackend: (profile?.hookBackend as StoredFile['backend'] | null) ?? undefined,
+      ctaBackend: (profile?.ctaBackend as StoredFile['backend'] | null) ?? undefined,
+      watermarkBackend: (profile?.watermarkBackend as StoredFile['backend'] | null) ?? undefined,
+    };
+
+    for (const [key, file] of Object.entries(files) as [keyof typeof uploads, File][]) {
+      const extension = path.extname(file.name).toLowerCase() || (key === 'watermarkPath' ? '.png' : '.mp4');
+      const stored = await storage.saveFile(
+        path.join(batchId, 'post-production', `${uploads[key].name}${extension}`),
+        Buffer.from(await file.arrayBuffer())
+      );
+      paths[key] = stored.path;
+      backends[uploads[key].backendKey] = stored.backend;
+    }
+
+    const saved = await savePostProductionProfile({
+      batchId,
+      tenantId: user.tenantId,
+      ...paths,
+      ...backends,
+      platforms: validationResult.data.platforms,
+      loudnessTarget: validationResult.data.loudnessTarget,
+    });
+
+    console.log(`[Post-Production] Saved settings for batch ${batchId} (${saved.platforms.join(', ')})`);
+
+    return NextResponse.json({ batchId, profile: saved });
+  } catch (error) {
+    console.error('[Post-Production] Error saving post-production settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save post-production settings' },
+      { status: 500 }
+    );
+  }
+}
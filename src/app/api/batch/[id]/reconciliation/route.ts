@@ -0,0 +1,60 @@
+// Story 1.5: Cost Reconciliation - Batch Reconciliation API
+// Estimated vs. actual spend of a batch by provider
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/database/prisma';
+import { authorizeBatch } from '@/lib/auth/batch-access';
+import { reconcileBatch } from '@/lib/cost-reconciliation';
+
+/**
+ * GET /api/batch/[id]/reconciliation
+ * Compares the estimate recorded at submission with ledger spend (including retries),
+ * per provider, and flags drift beyond PRICING_DRIFT_THRESHOLD_PERCENT
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Ownership comes from the batch records - estimates recorded without a tenant carry no owner of their own
+    if (!(await authorizeBatch(params.id, user))) {
+      return NextResponse.json(
+        { error: 'No cost estimate recorded for this batch' },
+        { status: 404 }
+      );
+    }
+
+    const reconciliation = await reconcileBatch(params.id);
+
+    // Batch must have an estimate, and one recorded with a tenant must be the same tenant
+    if (!reconciliation || (reconciliation.tenantId && reconciliation.tenantId !== user.tenantId)) {
+      return NextResponse.json(
+        { error: 'No cost estimate recorded for this batch' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(reconciliation);
+  } catch (error) {
+    console.error('[Cost Reconciliation] Error reconciling batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile batch cost' },
+      { status: 500 }
+    );
+  }
+}
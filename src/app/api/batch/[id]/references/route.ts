@@ -0,0 +1,136 @@
+// Story 2.4: Image References
+// Uploads the product image and optional per-combination reference frames for a batch
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/database/prisma';
+import { authorizeBatch } from '@/lib/auth/batch-access';
+import { loadBatchReferences } from '@/lib/database/generation-references';
+import { ReferenceImageError, storeReferenceImage } from '@/lib/generation-references';
+
+const FRAME_FIELD_PREFIX = 'frame:'; // frame:<combination key>, see getCombinationKey
+
+/**
+ * Resolves the signed-in user and checks the batch belongs to their tenant
+ * @returns The user, or the error response to send
+ */
+async function authorizeRequest(batchId: string, requireEditor: boolean) {
+  const { userId } = await auth();
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { response: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  if (requireEditor && user.role !== 'admin' && user.role !== 'editor') {
+    return {
+      response: NextResponse.json(
+        { error: 'Insufficient permissions to upload reference images' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  // References are uploaded before the batch is submitted
+  const references = await loadBatchReferences(batchId);
+  if (!(await authorizeBatch(batchId, user, { allowUnsubmitted: true, claimedTenantId: references[0]?.tenantId }))) {
+    return {
+      response: NextResponse.json({ error: 'Batch not found or access denied' }, { status: 404 }),
+    };
+  }
+
+  return { user, references };
+}
+
+/**
+ * GET /api/batch/[id]/references
+ * Lists the batch's product image and reference frames
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchId = params.id;
+    const { response, references } = await authorizeRequest(batchId, false);
+    if (response) return response;
+
+    return NextResponse.json({ batchId, references });
+  } catch (error) {
+    console.error('[References] Error loading reference images:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reference images' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/batch/[id]/references
+ * Multipart form: productImage (sent with every video of the batch) and
+ * frame:<combination key> files (sent instead of the product image for that combination)
+ *
+ * Upload before calling /api/generate-batch - references are attached when videos are queued.
+ * Uploading again replaces the earlier image for the same slot.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchId = params.id;
+    const { response, user } = await authorizeRequest(batchId, true);
+    if (response) return response;
+
+    const formData = await req.formData();
+    const uploads: { combinationKey?: string; file: File }[] = [];
+
+    for (const [field, value] of formData.entries()) {
+      if (!(value instanceof File)) continue;
+
+      if (field === 'productImage') {
+        uploads.push({ file: value });
+      } else if (field.startsWith(FRAME_FIELD_PREFIX) && field.length > FRAME_FIELD_PREFIX.length) {
+        uploads.push({ combinationKey: field.slice(FRAME_FIELD_PREFIX.length), file: value });
+      }
+    }
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: 'No productImage or frame:<combination key> files in the request' },
+        { status: 400 }
+      );
+    }
+
+    const stored = [];
+    for (const upload of uploads) {
+      stored.push(
+        await storeReferenceImage({
+          batchId,
+          tenantId: user.tenantId,
+          combinationKey: upload.combinationKey,
+          fileName: upload.file.name,
+          data: Buffer.from(await upload.file.arrayBuffer()),
+        })
+      );
+    }
+
+    return NextResponse.json({ batchId, references: stored });
+  } catch (error) {
+    if (error instanceof ReferenceImageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('[References] Error uploading reference images:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload reference images' },
+      { status: 500 }
+    );
+  }
+}
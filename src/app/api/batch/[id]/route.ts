@@ -1,31 +1,65 @@
 // Story 1.6: Batch Status API
 // Returns real-time batch generation status with video variations
+// Batches are read from the batch tracking tables (Story 2.3); older batches from the campaign and Notion records
+// PATCH pauses, resumes or cancels generation for the batch
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma';
 import { campaignApi, combinationApi } from '@/lib/campaign-api';
 import { getBatchVariations } from '@/lib/notion-client';
+import { loadBatchWithVariations, type BatchWithVariations, type VideoVariationStatus } from '@/lib/database/batches';
+import { loadLatestAssets } from '@/lib/database/video-assets';
+import { videoGenerationQueue, type VideoGenerationStatus } from '@/lib/video-generation-queue';
+import { assetDownloadManager } from '@/lib/asset-download-manager';
+import { authorizeBatch } from '@/lib/auth/batch-access';
+import type { VideoCombination } from '@/types/dashboard';
 
 export type BatchStatusResponse = {
   batchId: string;
   brand: string;
   bigIdea: string;
-  status: 'initializing' | 'generating' | 'completed' | 'failed' | 'partial';
+  status: 'initializing' | 'generating' | 'paused' | 'completed' | 'failed' | 'partial' | 'cancelled';
   totalVideos: number;
   queuedCount: number;
   inProgressCount: number;
   completedCount: number;
   failedCount: number;
+  cancelledCount: number;
+  downloadedCount: number;
   progressPercentage: number;
   estimatedCompletionTime?: string;
+  spendSoFar: number;
+  estimatedTotalCost: number;
+  spendCapReached?: 'monthly' | 'campaign'; // Batch was paused by a spend cap (Story 1.5)
   videos: VideoStatus[];
+  downloadAlerts: DownloadAlert[]; // Videos whose assets expire at Sora within 10 minutes, not yet downloaded
   createdAt: string;
 };
 
+export type DownloadAlert = {
+  notionPageId: string;
+  soraVideoId: string;
+  expiresAt: string;
+  minutesRemaining: number;
+};
+
+/**
+ * Batch details and videos, before live queue progress is added
+ */
+type BatchSummary = {
+  batchId: string;
+  brand: string;
+  bigIdea: string;
+  createdAt: Date;
+  videos: VideoStatus[];
+};
+
 export type VideoStatus = {
   combinationId: string;
-  notionPageId?: string;
-  status: 'Queued' | 'In Progress' | 'Completed' | 'Failed';
+  notionPageId?: string; // Video ID
+  status: 'Queued' | 'In Progress' | 'Completed' | 'Failed' | 'Cancelled' | 'Rejected';
   funnelLevel: string;
   aesthetic: string;
   contentType: string;
@@ -62,46 +96,34 @@ export async function GET(
 
     const batchId = params.id;
 
-    // Fetch campaign data
-    const campaign = await campaignApi.getById(batchId);
-    if (!campaign) {
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    // Batch must belong to the user's tenant
+    if (!user || !(await authorizeBatch(batchId, user))) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const [batch, thumbnails] = await Promise.all([
+      loadBatchWithVariations(batchId),
+      loadThumbnailUrls(batchId),
+    ]);
+
+    const summary = batch
+      ? summarizeBatch(batch, thumbnails)
+      : await summarizeNotionBatch(batchId, thumbnails);
+    if (!summary) {
       return NextResponse.json(
         { error: 'Batch not found' },
         { status: 404 }
       );
     }
 
-    // Fetch all combinations for this batch
-    const combinations = await combinationApi.getByCampaign(batchId);
-
-    // Fetch Notion records for detailed status
-    const notionRecords = await getBatchVariations(batchId);
+    const { videos } = summary;
 
-    // Map combinations to video status
-    const videos: VideoStatus[] = combinations.map((combo) => {
-      // Find matching Notion record for additional details
-      const notionRecord = notionRecords.find(
-        (n) => n.combinationId === combo.combination_id
-      );
-
-      return {
-        combinationId: combo.combination_id || '',
-        notionPageId: combo.notion_record_id || undefined,
-        status: mapWinnerStatusToVideoStatus(combo.winner_status),
-        funnelLevel: combo.dimension_values.funnelLevel || '',
-        aesthetic: combo.dimension_values.aesthetic || '',
-        contentType: combo.dimension_values.type || '',
-        intention: combo.dimension_values.intention || '',
-        mood: combo.dimension_values.mood || '',
-        demographic: buildDemographic(combo.dimension_values),
-        videoUrl: combo.video_url || notionRecord?.videoUrl,
-        thumbnailUrl: undefined, // TODO: Add thumbnail support
-        errorMessage: notionRecord?.errorLogs,
-        cost: calculateCost(combo),
-        progress: notionRecord?.status === 'In Progress' ? 50 : undefined,
-        soraVideoId: notionRecord?.soraVideoId,
-      };
-    });
+    // Per-batch progress tracked by the generation queue
+    const queueBatch = videoGenerationQueue.getBatchStatus(batchId);
 
     // Calculate status counts
     const statusCounts = videos.reduce(
@@ -114,21 +136,26 @@ export async function GET(
             acc.inProgress++;
             break;
           case 'Completed':
+          case 'Rejected': // Generated, then rejected in review
             acc.completed++;
             break;
           case 'Failed':
             acc.failed++;
             break;
+          case 'Cancelled':
+            acc.cancelled++;
+            break;
         }
         return acc;
       },
-      { queued: 0, inProgress: 0, completed: 0, failed: 0 }
+      { queued: 0, inProgress: 0, completed: 0, failed: 0, cancelled: 0 }
     );
 
     // Calculate overall batch status
     const batchStatus = calculateBatchStatus(
       statusCounts,
-      videos.length
+      videos.length,
+      queueBatch.paused
     );
 
     // Calculate progress percentage
@@ -136,29 +163,44 @@ export async function GET(
       ? Math.round((statusCounts.completed / videos.length) * 100)
       : 0;
 
-    // Estimate completion time (assuming 4 videos concurrently at ~4 min each)
+    // Estimate completion time from the queue (falls back to 4 concurrent videos at ~4 min each)
     const remainingVideos = statusCounts.queued + statusCounts.inProgress;
     const estimatedMinutes = remainingVideos > 0
       ? Math.ceil(remainingVideos / 4) * 4
       : 0;
-    const estimatedCompletionTime = remainingVideos > 0
-      ? new Date(Date.now() + estimatedMinutes * 60000).toISOString()
+    const estimatedCompletionTime = remainingVideos > 0 && !queueBatch.paused
+      ? queueBatch.estimatedCompletionTime ||
+        new Date(Date.now() + estimatedMinutes * 60000).toISOString()
       : undefined;
 
     const response: BatchStatusResponse = {
-      batchId: campaign.campaign_id,
-      brand: campaign.brand_id,
-      bigIdea: campaign.big_idea,
+      batchId: summary.batchId,
+      brand: summary.brand,
+      bigIdea: summary.bigIdea,
       status: batchStatus,
       totalVideos: videos.length,
       queuedCount: statusCounts.queued,
       inProgressCount: statusCounts.inProgress,
       completedCount: statusCounts.completed,
       failedCount: statusCounts.failed,
+      cancelledCount: statusCounts.cancelled,
+      downloadedCount: queueBatch.downloaded,
       progressPercentage,
       estimatedCompletionTime,
+      spendSoFar: queueBatch.spendSoFar,
+      estimatedTotalCost:
+        queueBatch.total > 0
+          ? queueBatch.estimatedTotalCost
+          : videos.reduce((sum, video) => sum + video.cost, 0),
+      spendCapReached: queueBatch.spendCapReached,
       videos,
-      createdAt: campaign.created_at.toISOString(),
+      downloadAlerts: assetDownloadManager.getExpiringDownloads(batchId).map((job) => ({
+        notionPageId: job.notionPageId,
+        soraVideoId: job.soraVideoId,
+        expiresAt: job.expiresAt.toISOString(),
+        minutesRemaining: Math.floor((job.expiresAt.getTime() - Date.now()) / (60 * 1000)),
+      })),
+      createdAt: summary.createdAt.toISOString(),
     };
 
     return NextResponse.json(response);
@@ -174,6 +216,260 @@ export async function GET(
   }
 }
 
+/**
+ * Batch control request schema
+ */
+const batchActionSchema = z.object({
+  action: z.enum(['pause', 'resume', 'cancel']),
+  cancelInProgress: z.boolean().optional(), // cancel only: also stop videos already generating at Sora
+});
+
+/**
+ * Campaign status after each batch action
+ */
+const CAMPAIGN_STATUS_BY_ACTION: Record<z.infer<typeof batchActionSchema>['action'], string> = {
+  pause: 'paused',
+  resume: 'active',
+  cancel: 'cancelled',
+};
+
+/**
+ * PATCH /api/batch/[id]
+ * Pauses, resumes or cancels batch generation
+ *
+ * - pause: queued videos are held; videos already generating finish normally
+ * - resume: held videos are dispatched again in their original order
+ * - cancel: queued videos are dropped; with cancelInProgress, videos already
+ *   generating are cancelled at Sora (DELETE /videos/{id}) so they are not billed
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const batchId = params.id;
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Only admin and editor can control generation
+    if (user.role !== 'admin' && user.role !== 'editor') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to control batch generation' },
+        { status: 403 }
+      );
+    }
+
+    // Batch must belong to the user's tenant (its database record - the queue forgets finished batches)
+    if (!(await authorizeBatch(batchId, user))) {
+      return NextResponse.json(
+        { error: 'Batch not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const validationResult = batchActionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { action, cancelInProgress } = validationResult.data;
+
+    let result: Record<string, unknown>;
+    switch (action) {
+      case 'pause':
+        result = { heldVideos: await videoGenerationQueue.pauseBatch(batchId) };
+        break;
+      case 'resume':
+        result = { releasedVideos: await videoGenerationQueue.resumeBatch(batchId) };
+        break;
+      case 'cancel':
+        result = await videoGenerationQueue.cancelBatch(batchId, { cancelInProgress });
+        break;
+    }
+
+    // Keep the campaign record in step (log and continue - queue state is authoritative)
+    try {
+      await prisma.campaign.updateMany({
+        where: { id: batchId, tenantId: user.tenantId },
+        data: { status: CAMPAIGN_STATUS_BY_ACTION[action] },
+      });
+    } catch (error) {
+      console.error(`[Batch Control] Failed to update campaign status for ${batchId}:`, error);
+    }
+
+    console.log(`[Batch Control] ${action} batch ${batchId} by ${userId}`);
+
+    return NextResponse.json({
+      batchId,
+      action,
+      ...result,
+      batch: videoGenerationQueue.getBatchStatus(batchId),
+    });
+  } catch (error) {
+    console.error('[Batch Control] Error updating batch:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update batch',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * URLs of the latest downloaded thumbnail of each video in a batch, by video ID
+ */
+async function loadThumbnailUrls(batchId: string): Promise<Map<string, string>> {
+  const assets = await loadLatestAssets({ batchId });
+  return new Map(
+    assets
+      .filter((asset) => asset.assetType === 'thumbnail')
+      .map((asset) => [asset.notionPageId, asset.url])
+  );
+}
+
+/**
+ * Builds the batch summary from its video variations, with live queue state where the queue tracks the video
+ */
+function summarizeBatch(batch: BatchWithVariations, thumbnails: Map<string, string>): BatchSummary {
+  const videos: VideoStatus[] = batch.variations.map((variation) => {
+    const dimensions = variation.dimensions as unknown as VideoCombination;
+    const queueStatus = videoGenerationQueue.getStatus(variation.id);
+
+    return {
+      combinationId: variation.combinationId,
+      notionPageId: variation.id,
+      // The queue only knows a rejected video as completed
+      status: queueStatus && variation.status !== 'rejected'
+        ? mapQueueStatusToVideoStatus(queueStatus.status)
+        : mapVariationStatusToVideoStatus(variation.status as VideoVariationStatus),
+      funnelLevel: dimensions.funnelLevel || '',
+      aesthetic: dimensions.aesthetic || '',
+      contentType: dimensions.type || '',
+      intention: dimensions.intention || '',
+      mood: dimensions.mood || '',
+      demographic: buildDemographic(dimensions),
+      videoUrl: variation.videoUrl ?? undefined,
+      thumbnailUrl: thumbnails.get(variation.id),
+      errorMessage: queueStatus?.error || variation.error || undefined,
+      cost: variation.cost,
+      progress: variation.status === 'in_progress' ? (variation.progress ?? 50) : undefined,
+      soraVideoId: queueStatus?.soraVideoId || variation.soraVideoId || undefined,
+    };
+  });
+
+  return {
+    batchId: batch.id,
+    brand: batch.brandId,
+    bigIdea: batch.bigIdea,
+    createdAt: batch.createdAt,
+    videos,
+  };
+}
+
+/**
+ * Builds the summary of a batch submitted before batch tracking from its campaign, combinations and Notion records
+ * @returns null if the campaign does not exist
+ */
+async function summarizeNotionBatch(
+  batchId: string,
+  thumbnails: Map<string, string>
+): Promise<BatchSummary | null> {
+  // Fetch campaign data
+  const campaign = await campaignApi.getById(batchId);
+  if (!campaign) {
+    return null;
+  }
+
+  // Fetch all combinations for this batch
+  const combinations = await combinationApi.getByCampaign(batchId);
+
+  // Fetch Notion records for detailed status
+  const notionRecords = await getBatchVariations(batchId);
+
+  // Map combinations to video status
+  const videos: VideoStatus[] = combinations.map((combo) => {
+    // Find matching Notion record for additional details
+    const notionRecord = notionRecords.find(
+      (n) => n.combinationId === combo.combination_id
+    );
+
+    // Live queue state is authoritative while the queue is tracking the video
+    const queueStatus = combo.notion_record_id
+      ? videoGenerationQueue.getStatus(combo.notion_record_id)
+      : undefined;
+
+    return {
+      combinationId: combo.combination_id || '',
+      notionPageId: combo.notion_record_id || undefined,
+      status: queueStatus
+        ? mapQueueStatusToVideoStatus(queueStatus.status)
+        : mapWinnerStatusToVideoStatus(combo.winner_status),
+      funnelLevel: combo.dimension_values.funnelLevel || '',
+      aesthetic: combo.dimension_values.aesthetic || '',
+      contentType: combo.dimension_values.type || '',
+      intention: combo.dimension_values.intention || '',
+      mood: combo.dimension_values.mood || '',
+      demographic: buildDemographic(combo.dimension_values),
+      videoUrl: combo.video_url || notionRecord?.videoUrl,
+      thumbnailUrl: combo.notion_record_id ? thumbnails.get(combo.notion_record_id) : undefined,
+      errorMessage: queueStatus?.error || notionRecord?.errorLogs,
+      cost: calculateCost(combo),
+      progress: notionRecord?.status === 'In Progress' ? 50 : undefined,
+      soraVideoId: queueStatus?.soraVideoId || notionRecord?.soraVideoId,
+    };
+  });
+
+  return {
+    batchId: campaign.campaign_id,
+    brand: campaign.brand_id,
+    bigIdea: campaign.big_idea,
+    createdAt: campaign.created_at,
+    videos,
+  };
+}
+
+/**
+ * Maps video variation status to video status
+ */
+function mapVariationStatusToVideoStatus(status: VideoVariationStatus): VideoStatus['status'] {
+  switch (status) {
+    case 'in_progress':
+      return 'In Progress';
+    case 'completed':
+      return 'Completed';
+    case 'failed':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'rejected':
+      return 'Rejected';
+    case 'pending':
+    case 'paused':
+    case 'needs_review':
+    default:
+      return 'Queued';
+  }
+}
+
 /**
  * Maps database winner_status to video status
  */
@@ -192,6 +488,27 @@ function mapWinnerStatusToVideoStatus(
   }
 }
 
+/**
+ * Maps generation queue status to video status
+ */
+function mapQueueStatusToVideoStatus(
+  queueStatus: VideoGenerationStatus['status']
+): VideoStatus['status'] {
+  switch (queueStatus) {
+    case 'in_progress':
+      return 'In Progress';
+    case 'completed':
+      return 'Completed';
+    case 'failed':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'queued':
+    default:
+      return 'Queued';
+  }
+}
+
 /**
  * Builds demographic string from dimension values
  */
@@ -223,8 +540,9 @@ function calculateCost(combination: any): number {
  * Calculates overall batch status based on video counts
  */
 function calculateBatchStatus(
-  counts: { queued: number; inProgress: number; completed: number; failed: number },
-  total: number
+  counts: { queued: number; inProgress: number; completed: number; failed: number; cancelled: number },
+  total: number,
+  paused: boolean
 ): BatchStatusResponse['status'] {
   // All completed
   if (counts.completed === total) {
@@ -246,6 +564,16 @@ function calculateBatchStatus(
     return 'partial';
   }
 
+  // Cancelled before everything finished
+  if (counts.cancelled > 0 && counts.queued === 0 && counts.inProgress === 0) {
+    return 'cancelled';
+  }
+
+  // Held by the user
+  if (paused && counts.queued > 0) {
+    return 'paused';
+  }
+
   // Currently generating
   if (counts.inProgress > 0 || counts.queued > 0) {
     return 'generating';
@@ -11,7 +11,8 @@ import { z } from "zod";
 const updateCampaignSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
-  status: z.enum(["active", "paused", "completed"]).optional(),
+  status: z.enum(["active", "paused", "completed", "cancelled"]).optional(),
+  budgetCapUsd: z.number().min(0).max(1_000_000).nullable().optional(), // Story 1.5: admin only, null removes the cap
 });
 
 /**
@@ -88,6 +89,7 @@ export async function GET(
         description: campaign.description,
         brandId: campaign.brandId,
         status: campaign.status,
+        budgetCapUsd: campaign.budgetCapUsd,
         createdBy: campaign.user.email,
         createdAt: campaign.createdAt,
         updatedAt: campaign.updatedAt,
@@ -165,6 +167,14 @@ export async function PUT(
       );
     }
 
+    // Spend caps are set by admins only (Story 1.5)
+    if (validationResult.data.budgetCapUsd !== undefined && user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can set campaign spend caps" },
+        { status: 403 }
+      );
+    }
+
     // Update campaign
     const updatedCampaign = await prisma.campaign.update({
       where: { id },
@@ -188,6 +198,7 @@ export async function PUT(
         description: updatedCampaign.description,
         brandId: updatedCampaign.brandId,
         status: updatedCampaign.status,
+        budgetCapUsd: updatedCampaign.budgetCapUsd,
         createdBy: updatedCampaign.user.email,
         createdAt: updatedCampaign.createdAt,
         updatedAt: updatedCampaign.updatedAt,
@@ -13,7 +13,7 @@ const createCampaignSchema = z.object({
   brandId: z.string().min(1, "Brand ID is required"),
   name: z.string().min(1, "Campaign name is required"),
   description: z.string().optional(),
-  status: z.enum(["active", "paused", "completed"]).default("active"),
+  status: z.enum(["active", "paused", "completed", "cancelled"]).default("active"),
 });
 
 /**
@@ -21,7 +21,9 @@ export async function GET(request: NextRequest) {
       expiringDownloads: expiring.map((job) => ({
         notionPageId: job.notionPageId,
         soraVideoId: job.soraVideoId,
+        status: job.status,
         expiresAt: job.expiresAt,
+        alertedAt: job.expiryAlertedAt,
         minutesRemaining: Math.floor((job.expiresAt.getTime() - Date.now()) / (60 * 1000)),
       })),
     });
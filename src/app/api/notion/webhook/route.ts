@@ -2,13 +2,14 @@
 // Receives status updates from Notion or Sora 2 API polling
 
 import { NextRequest, NextResponse } from 'next/server';
-import { updateVideoVariationStatus, logVideoError } from '@/lib/notion-client';
+import { updateVariationStatus, recordVariationError } from '@/lib/batch-tracking';
+import type { VideoVariationStatus } from '@/lib/database/batches';
 
 /**
  * Webhook payload from Sora 2 polling or Notion updates
  */
 type WebhookPayload = {
-  notionPageId: string;
+  notionPageId: string; // Video ID
   soraVideoId?: string;
   status: 'queued' | 'in_progress' | 'completed' | 'failed';
   progress?: number; // 0-100 for in_progress
@@ -39,29 +40,29 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Webhook] Processing status update for ${payload.notionPageId}: ${payload.status}`);
 
-    // Map Sora 2 status to Notion status (Story 2.3, AC#3)
-    let notionStatus: 'Pending' | 'In Progress' | 'Completed' | 'Failed';
+    // Map Sora 2 status to video variation status (Story 2.3, AC#3)
+    let variationStatus: VideoVariationStatus;
 
     switch (payload.status) {
       case 'queued':
-        notionStatus = 'Pending';
+        variationStatus = 'pending';
         break;
       case 'in_progress':
-        notionStatus = 'In Progress';
+        variationStatus = 'in_progress';
         break;
       case 'completed':
-        notionStatus = 'Completed';
+        variationStatus = 'completed';
         break;
       case 'failed':
-        notionStatus = 'Failed';
+        variationStatus = 'failed';
         break;
       default:
-        notionStatus = 'Pending';
+        variationStatus = 'pending';
     }
 
     // Handle error case (Story 2.3, AC#4)
     if (payload.error) {
-      await logVideoError(
+      await recordVariationError(
         payload.notionPageId,
         payload.error.type,
         payload.error.message,
@@ -74,8 +75,8 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Update status in Notion
-    const success = await updateVideoVariationStatus(payload.notionPageId, notionStatus, {
+    // Update the video variation (mirrored to Notion)
+    const success = await updateVariationStatus(payload.notionPageId, variationStatus, {
       videoUrl: payload.videoUrl,
       soraVideoId: payload.soraVideoId,
       progress: payload.progress,
@@ -83,14 +84,14 @@ export async function POST(request: NextRequest) {
 
     if (!success) {
       return NextResponse.json(
-        { error: 'Failed to update Notion record' },
+        { error: 'Failed to update video variation' },
         { status: 500 }
       );
     }
 
     return NextResponse.json({
       success: true,
-      message: `Status updated to ${notionStatus}`,
+      message: `Status updated to ${variationStatus}`,
     });
   } catch (error) {
     console.error('[Webhook] Error processing webhook:', error);
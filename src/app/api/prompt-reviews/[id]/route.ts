@@ -0,0 +1,142 @@
+// Story 2.1: Prompt Reviews API - Approve or reject a held prompt
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma';
+import { Permission, Role, hasPermission } from '@/lib/auth/permissions';
+import { decidePromptReview, getPromptReview, reopenPromptReview } from '@/lib/database/prompt-reviews';
+import { validateReviewedPrompt } from '@/lib/prompt-remediation';
+import { updateVariationStatus } from '@/lib/batch-tracking';
+import { videoGenerationQueue, type QueuedVideo } from '@/lib/video-generation-queue';
+
+const decisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  prompt: z.string().trim().min(1).max(4000).optional(), // Edited prompt (defaults to the generated one)
+  dialog: z.string().max(2000).optional(),
+  override: z.boolean().optional(), // Admins only: queue a prompt that still fails validation
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/prompt-reviews/[id]
+ * Reviewer decision on a prompt held after failed remediation
+ *
+ * - approve: the prompt (edited or as generated) is re-validated with the brand's current rules and
+ *   queued for generation; a prompt that still fails is rejected with 422 unless an admin overrides
+ * - reject: the video is cancelled and nothing is generated
+ * Body: { decision: 'approve' | 'reject', prompt?, dialog?, override?, reason? }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(user.role as Role, Permission.EDIT_CAMPAIGNS)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const review = await getPromptReview(params.id, user.tenantId);
+    if (!review) {
+      return NextResponse.json(
+        { error: 'Prompt review not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const validationResult = decisionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { decision, override, reason } = validationResult.data;
+    const prompt = validationResult.data.prompt ?? review.prompt;
+    const dialog = validationResult.data.dialog ?? review.dialog ?? undefined;
+    const video = review.video as unknown as QueuedVideo;
+
+    if (decision === 'approve') {
+      if (override && user.role !== 'admin') {
+        return NextResponse.json(
+          { error: 'Only admins can approve prompts that fail compliance' },
+          { status: 403 }
+        );
+      }
+
+      const validation = await validateReviewedPrompt(prompt, review.brandId, user.tenantId, dialog, video.duration);
+      if (!validation.valid && !override) {
+        return NextResponse.json(
+          { error: 'Prompt still fails compliance validation', validation },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Claim the review so two reviewers cannot both queue the video
+    const status = decision === 'approve' ? 'approved' : 'rejected';
+    if (!(await decidePromptReview(review.id, status, userId, decision === 'approve' ? prompt : undefined, reason))) {
+      // Re-read - the review was decided after it was loaded above
+      const decided = await getPromptReview(review.id, user.tenantId);
+      return NextResponse.json(
+        { error: `Prompt for ${review.notionPageId} has already been ${decided?.status ?? 'decided'}` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Prompt Reviews] Prompt for ${review.notionPageId} ${status} by ${userId}${override ? ' (override)' : ''}`);
+
+    if (status === 'rejected') {
+      await updateVariationStatus(review.notionPageId, 'cancelled');
+      return NextResponse.json({ reviewId: review.id, notionPageId: review.notionPageId, status });
+    }
+
+    // Marked pending before submitting - the queue may start the video straight away
+    await updateVariationStatus(review.notionPageId, 'pending', {
+      modifiedPrompt: prompt !== review.prompt ? prompt : undefined,
+    });
+
+    try {
+      await videoGenerationQueue.submitVideo({ ...video, prompt, queuedAt: new Date() });
+
+      return NextResponse.json({ reviewId: review.id, notionPageId: review.notionPageId, status });
+    } catch (error) {
+      console.error(`[Prompt Reviews] Approved prompt for ${review.notionPageId} failed to queue:`, error);
+      await reopenPromptReview(review.id);
+      await updateVariationStatus(review.notionPageId, 'needs_review', {
+        modifiedPrompt: prompt !== review.prompt ? review.prompt : undefined,
+      });
+
+      return NextResponse.json(
+        {
+          error: 'Approved prompt failed to queue and is pending again',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    console.error('[Prompt Reviews] Error deciding review:', error);
+    return NextResponse.json(
+      { error: 'Failed to decide prompt review' },
+      { status: 500 }
+    );
+  }
+}
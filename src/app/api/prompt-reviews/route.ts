@@ -0,0 +1,99 @@
+// Story 2.1: Prompt Reviews API
+// Lists prompts that still failed compliance after automatic remediation and wait for a reviewer
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { PromptReview } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/database/prisma';
+import { Permission, Role, hasPermission } from '@/lib/auth/permissions';
+import { listPromptReviews } from '@/lib/database/prompt-reviews';
+import type { ValidationError } from '@/lib/compliance-validator';
+
+export type PromptReviewSummary = {
+  id: string;
+  batchId: string;
+  notionPageId: string;
+  combinationKey: string;
+  status: 'pending' | 'approved' | 'rejected';
+  prompt: string;
+  dialog?: string;
+  errors: ValidationError[];
+  rounds: number;
+  finalPrompt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reason?: string;
+  createdAt: string;
+};
+
+const statusSchema = z.enum(['pending', 'approved', 'rejected']).optional();
+
+/**
+ * Maps a review record to its summary (the stored queue entry stays server-side)
+ */
+function toReviewSummary(review: PromptReview): PromptReviewSummary {
+  return {
+    id: review.id,
+    batchId: review.batchId,
+    notionPageId: review.notionPageId,
+    combinationKey: review.combinationKey,
+    status: review.status as PromptReviewSummary['status'],
+    prompt: review.prompt,
+    dialog: review.dialog ?? undefined,
+    errors: review.errors as unknown as ValidationError[],
+    rounds: review.rounds,
+    finalPrompt: review.finalPrompt ?? undefined,
+    reviewedBy: review.reviewedBy ?? undefined,
+    reviewedAt: review.reviewedAt?.toISOString(),
+    reason: review.reason ?? undefined,
+    createdAt: review.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/prompt-reviews?status=pending&batchId=...
+ * Lists the tenant's prompt reviews, oldest first (all statuses when status is omitted)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const status = statusSchema.safeParse(req.nextUrl.searchParams.get('status') ?? undefined);
+    if (!status.success) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: status.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const reviews = await listPromptReviews(user.tenantId, {
+      status: status.data,
+      batchId: req.nextUrl.searchParams.get('batchId') ?? undefined,
+    });
+
+    return NextResponse.json({
+      reviews: reviews.map(toReviewSummary),
+      canReview: hasPermission(user.role as Role, Permission.EDIT_CAMPAIGNS),
+      canOverride: user.role === 'admin',
+    });
+  } catch (error) {
+    console.error('[Prompt Reviews] Error listing reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to list prompt reviews' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,22 +2,78 @@
 // Real-time queue position and status tracking for dashboard
 
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/database/prisma';
+import { authorizeBatch, authorizeVideo } from '@/lib/auth/batch-access';
+import { isPlatformAdmin } from '@/lib/auth/permissions';
 import { videoGenerationQueue } from '@/lib/video-generation-queue';
 
+/**
+ * Resolves the signed-in user, or the response to return instead
+ */
+async function getRequestUser() {
+  const { userId } = await auth();
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({ where: { clerkId: userId } });
+  if (!user) {
+    return { response: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  return { user, platformAdmin: isPlatformAdmin(userId) };
+}
+
 /**
  * GET /api/queue/status
- * Returns overall queue status summary
+ * Returns the caller's tenant queue depth and positions with per-batch progress of its batches
+ * Platform admins get the whole queue: summary, every queued and generating video, batch and tenant
+ * Optional query: ?batchId={batchId} to return a single batch's progress
+ * Optional query: ?tenantId={tenantId} to return another tenant's queue depth and positions (platform admins)
  */
 export async function GET(request: NextRequest) {
   try {
+    const { response, user, platformAdmin } = await getRequestUser();
+    if (response) return response;
+
+    const batchId = request.nextUrl.searchParams.get('batchId');
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+
+    if (batchId) {
+      if (!platformAdmin && !(await authorizeBatch(batchId, user))) {
+        return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+      }
+      return NextResponse.json(videoGenerationQueue.getBatchStatus(batchId));
+    }
+
+    if (tenantId) {
+      if (!platformAdmin && tenantId !== user.tenantId) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+      return NextResponse.json(videoGenerationQueue.getTenantQueueStatus(tenantId));
+    }
+
+    // Other tenants' batches and videos are visible to platform admins only
+    if (!platformAdmin) {
+      return NextResponse.json({
+        tenant: videoGenerationQueue.getTenantQueueStatus(user.tenantId),
+        batches: videoGenerationQueue.getAllBatchStatuses(user.tenantId),
+      });
+    }
+
     const summary = videoGenerationQueue.getQueueSummary();
     const inProgress = videoGenerationQueue.getInProgressVideos();
     const queued = videoGenerationQueue.getQueuedVideos();
+    const batches = videoGenerationQueue.getAllBatchStatuses();
+    const tenants = videoGenerationQueue.getTenantQueueStatuses();
 
     return NextResponse.json({
       summary,
       inProgress,
       queued,
+      batches,
+      tenants,
     });
   } catch (error) {
     console.error('[Queue API] Error getting queue status:', error);
@@ -38,6 +94,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const { response, user, platformAdmin } = await getRequestUser();
+    if (response) return response;
+
     const body = await request.json();
     const { notionPageId } = body;
 
@@ -45,6 +104,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'notionPageId is required' }, { status: 400 });
     }
 
+    if (!platformAdmin && !(await authorizeVideo(notionPageId, user))) {
+      return NextResponse.json({ error: 'Video not found in queue' }, { status: 404 });
+    }
+
     const status = videoGenerationQueue.getStatus(notionPageId);
 
     if (!status) {
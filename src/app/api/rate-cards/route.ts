@@ -0,0 +1,110 @@
+// Story 1.5: Rate Cards - Versioned Pricing API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isPlatformAdmin } from "@/lib/auth/permissions";
+import { RateCardError, getActiveRateCard, listRateCards, publishRateCard } from "@/lib/rate-cards";
+import { z } from "zod";
+
+const priceSchema = z.number().min(0).max(10_000);
+
+const soraPricesSchema = z
+  .object({ "5": priceSchema, "10": priceSchema, "20": priceSchema })
+  .partial();
+
+/**
+ * Rate card schema - omitted prices are carried over from the card in effect at effectiveFrom
+ */
+const publishRateCardSchema = z.object({
+  version: z.string().trim().min(1).max(50),
+  effectiveFrom: z.coerce.date().optional(),
+  sora: z
+    .object({ "sora-2": soraPricesSchema, "sora-2-pro": soraPricesSchema })
+    .partial()
+    .optional(),
+  llm: z
+    .object({
+      gpt5PromptGeneration: priceSchema,
+      perplexityResearch: priceSchema,
+      claudeValidation: priceSchema,
+      geminiFallback: priceSchema,
+      averagePerVideo: priceSchema,
+    })
+    .partial()
+    .optional(),
+  tokens: z
+    .record(
+      z.string().min(1),
+      z.object({ input: priceSchema, output: priceSchema, perRequest: priceSchema.optional() })
+    )
+    .optional(),
+});
+
+/**
+ * GET /api/rate-cards
+ * Returns every rate card version (newest first) and the one in effect now
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [rateCards, active] = await Promise.all([listRateCards(), getActiveRateCard()]);
+
+    return NextResponse.json({ activeVersion: active.version, active, rateCards });
+  } catch (error) {
+    console.error("Error fetching rate cards:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rate cards" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/rate-cards
+ * Publishes a new rate card version (platform admins only - rate cards price every tenant's costs)
+ * Body: { version, effectiveFrom?, sora?, llm?, tokens? }
+ * Published cards are immutable and cannot take effect in the past, so historical costs never change
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isPlatformAdmin(userId)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const validationResult = publishRateCardSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const rateCard = await publishRateCard(validationResult.data, userId);
+
+    return NextResponse.json(rateCard, { status: 201 });
+  } catch (error) {
+    if (error instanceof RateCardError) {
+      const status = error.reason === "duplicate_version" ? 409 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    console.error("Error publishing rate card:", error);
+    return NextResponse.json(
+      { error: "Failed to publish rate card" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// Stored Asset Redirect API
+// Stable links for stored assets (saved to Notion) that redirect to a fresh,
+// short-lived URL from the configured storage backend (presigned on S3)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getTenantForUser } from '@/lib/auth/tenant-manager';
+import { createStorageAdapter } from '@/lib/storage-adapters';
+
+/**
+ * GET /api/storage/{batchId}/{fileName}
+ * Redirects to the asset in the signed-in user's tenant storage
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { path } = await params;
+    if (path.includes('..')) {
+      return NextResponse.json({ error: 'Invalid path' }, { status: 400 });
+    }
+
+    const relativePath = path.join('/');
+
+    const tenant = await getTenantForUser(userId);
+    const storage = createStorageAdapter(tenant?.id);
+
+    if (!(await storage.fileExists(relativePath))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    return NextResponse.redirect(await storage.getFileUrl(relativePath));
+  } catch (error) {
+    console.error('[Storage API] Error resolving file URL:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to resolve file URL',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
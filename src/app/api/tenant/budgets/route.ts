@@ -0,0 +1,132 @@
+// Story 1.5: Spend Ledger and Budgets - Tenant Budgets API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { getSpendTotals, setTenantBudgets } from "@/lib/database/spend-ledger";
+import { getAllProviderBalances, type ApiProvider } from "@/lib/wallet-balance";
+import { z } from "zod";
+
+const API_PROVIDERS = ["openai", "anthropic", "google", "perplexity"] as const satisfies readonly ApiProvider[];
+
+/**
+ * Budgets schema - one prepaid budget per provider
+ */
+const updateBudgetsSchema = z.object({
+  budgets: z
+    .array(
+      z.object({
+        provider: z.enum(API_PROVIDERS),
+        amountUsd: z.number().min(0).max(1_000_000),
+        startsAt: z.coerce.date().optional(),
+      })
+    )
+    .max(API_PROVIDERS.length)
+    .refine(
+      (budgets) => new Set(budgets.map((budget) => budget.provider)).size === budgets.length,
+      { message: "Only one budget per provider" }
+    ),
+});
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * Budget, spend and remaining balance per provider (balance is null for unbudgeted providers)
+ */
+async function loadBalances(tenantId: string) {
+  const balances = await getAllProviderBalances(tenantId);
+
+  return balances.map((balance) => ({
+    provider: balance.provider,
+    budget: balance.budget ?? null,
+    spent: balance.spent,
+    reserved: balance.reserved,
+    balance: balance.budgeted ? balance.balance : null,
+    currency: balance.currency,
+  }));
+}
+
+/**
+ * GET /api/tenant/budgets
+ * Returns the tenant's budgets with spend and remaining balance, plus spend per service
+ */
+export async function GET() {
+  try {
+    const { user, error } = await authorize(Permission.VIEW_TENANT_SETTINGS);
+    if (error) return error;
+
+    const [balances, spend] = await Promise.all([
+      loadBalances(user.tenantId),
+      getSpendTotals({ tenantId: user.tenantId }),
+    ]);
+
+    return NextResponse.json({ tenantId: user.tenantId, balances, spend });
+  } catch (error) {
+    console.error("Error fetching budgets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch budgets" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tenant/budgets
+ * Replaces the tenant's prepaid budgets (admin only)
+ * Body: { budgets: [{ provider, amountUsd, startsAt? }] }
+ * Providers without a budget are not limited; pass startsAt to top up a budget from a new date
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json();
+    const validationResult = updateBudgetsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const budgets = await setTenantBudgets(user.tenantId, validationResult.data.budgets);
+
+    return NextResponse.json({
+      tenantId: user.tenantId,
+      budgets,
+      balances: await loadBalances(user.tenantId),
+    });
+  } catch (error) {
+    console.error("Error updating budgets:", error);
+    return NextResponse.json(
+      { error: "Failed to update budgets" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+// Story 2.5: Sora Rate Limiting - Tenant Concurrency Settings API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import {
+  getTenantConcurrencyLimits,
+  setTenantConcurrencyLimits,
+} from "@/lib/database/tenant-concurrency-limits";
+import { soraRateLimiter } from "@/lib/sora-rate-limiter";
+import { z } from "zod";
+
+/**
+ * Concurrency update schema - null clears a model's ceiling (org default applies)
+ */
+const limitSchema = z.number().int().min(1).max(100).nullable().optional();
+
+const updateLimitsSchema = z.object({
+  "sora-2": limitSchema,
+  "sora-2-pro": limitSchema,
+});
+
+/**
+ * Builds the response body: tenant ceilings next to the effective limits
+ */
+function buildResponse(tenantId: string, limits: Awaited<ReturnType<typeof getTenantConcurrencyLimits>>) {
+  return {
+    tenantId,
+    limits,
+    effective: {
+      "sora-2": soraRateLimiter.getConcurrencyLimit("sora-2", tenantId),
+      "sora-2-pro": soraRateLimiter.getConcurrencyLimit("sora-2-pro", tenantId),
+    },
+  };
+}
+
+/**
+ * GET /api/tenant/concurrency
+ * Returns the tenant's per-model concurrency ceilings
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!hasPermission(user.role as Role, Permission.VIEW_TENANT_SETTINGS)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const limits = await getTenantConcurrencyLimits(user.tenantId);
+    soraRateLimiter.setTenantLimits(user.tenantId, limits);
+
+    return NextResponse.json(buildResponse(user.tenantId, limits));
+  } catch (error) {
+    console.error("Error fetching concurrency limits:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch concurrency limits" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tenant/concurrency
+ * Sets the tenant's per-model concurrency ceilings (admin only)
+ * Ceilings above the org-wide limit have no effect
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!hasPermission(user.role as Role, Permission.EDIT_TENANT_SETTINGS)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const validationResult = updateLimitsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const limits = await setTenantConcurrencyLimits(user.tenantId, validationResult.data);
+
+    // Apply immediately instead of waiting for the queue's cache to expire
+    soraRateLimiter.setTenantLimits(user.tenantId, limits);
+
+    return NextResponse.json(buildResponse(user.tenantId, limits));
+  } catch (error) {
+    console.error("Error updating concurrency limits:", error);
+    return NextResponse.json(
+      { error: "Failed to update concurrency limits" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+// Story 1.5: Cost Reconciliation - Month-End Reconciliation API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import {
+  buildReconciliationReport,
+  formatReconciliationCsv,
+  getReportingMonth,
+} from "@/lib/cost-reconciliation";
+
+/**
+ * GET /api/tenant/cost-reconciliation?month=YYYY-MM&format=csv
+ * Estimated vs. actual spend of every batch (campaign) submitted in the month, per provider,
+ * with tenant totals. Defaults to the previous month; format=csv downloads one row per batch and provider.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!hasPermission(user.role as Role, Permission.VIEW_TENANT_SETTINGS)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const month = req.nextUrl.searchParams.get("month") ?? undefined;
+    let period: { from: Date; to: Date };
+    try {
+      period = getReportingMonth(month);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid month" },
+        { status: 400 }
+      );
+    }
+
+    const report = await buildReconciliationReport(user.tenantId, period.from, period.to);
+
+    if (req.nextUrl.searchParams.get("format") === "csv") {
+      const fileMonth = period.from.toISOString().slice(0, 7);
+      return new NextResponse(formatReconciliationCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="cost-reconciliation-${fileMonth}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error building cost reconciliation:", error);
+    return NextResponse.json(
+      { error: "Failed to build cost reconciliation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// Story 1.5: Cost Reconciliation - Pricing Drift API
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { getPricingDrift } from "@/lib/cost-reconciliation";
+
+/**
+ * GET /api/tenant/pricing-drift
+ * Providers whose actual spend over the last 30 days of settled batches drifted from the rate card;
+ * the dashboard cost estimate shows them as a pricing staleness warning
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!hasPermission(user.role as Role, Permission.VIEW_TENANT_SETTINGS)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    return NextResponse.json({ tenantId: user.tenantId, ...(await getPricingDrift(user.tenantId)) });
+  } catch (error) {
+    console.error("Error fetching pricing drift:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch pricing drift" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+// Story 2.6: Storage Tiering and Retention - Tenant Retention Rules API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import {
+  getRetentionRules,
+  getStorageUsage,
+  loadRecentStorageMoves,
+  setRetentionRules,
+} from "@/lib/database/storage-retention";
+import { RETENTION_CLASSES, storageRetentionManager } from "@/lib/storage-retention";
+import { z } from "zod";
+
+const STORAGE_BACKENDS = ["local", "nas", "google-drive", "s3"] as const;
+
+/**
+ * Retention rules schema - at most one delete and one move rule per asset class
+ */
+const retentionRuleSchema = z
+  .object({
+    appliesTo: z.enum(RETENTION_CLASSES),
+    action: z.enum(["delete", "move"]),
+    afterDays: z.number().int().min(0).max(3650),
+    targetBackend: z.enum(STORAGE_BACKENDS).optional(),
+  })
+  .refine((rule) => rule.action !== "move" || rule.targetBackend, {
+    message: "targetBackend is required for move rules",
+  });
+
+const updateRulesSchema = z.object({
+  rules: z
+    .array(retentionRuleSchema)
+    .max(RETENTION_CLASSES.length * 2)
+    .refine(
+      (rules) => new Set(rules.map((rule) => `${rule.appliesTo}:${rule.action}`)).size === rules.length,
+      { message: "Only one rule per asset class and action" }
+    ),
+});
+
+const runSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * GET /api/tenant/retention
+ * Returns the tenant's retention rules, storage usage per backend and recent moves/deletes
+ */
+export async function GET() {
+  try {
+    const { user, error } = await authorize(Permission.VIEW_TENANT_SETTINGS);
+    if (error) return error;
+
+    const [rules, usage, recentMoves] = await Promise.all([
+      getRetentionRules(user.tenantId),
+      getStorageUsage(user.tenantId),
+      loadRecentStorageMoves(user.tenantId),
+    ]);
+
+    return NextResponse.json({ tenantId: user.tenantId, rules, usage, recentMoves });
+  } catch (error) {
+    console.error("Error fetching retention rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch retention rules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tenant/retention
+ * Replaces the tenant's retention rules (admin only)
+ * Body: { rules: [{ appliesTo, action, afterDays, targetBackend? }] }
+ * Asset classes without rules are kept forever
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json();
+    const validationResult = updateRulesSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const rules = await setRetentionRules(user.tenantId, validationResult.data.rules);
+
+    return NextResponse.json({ tenantId: user.tenantId, rules });
+  } catch (error) {
+    console.error("Error updating retention rules:", error);
+    return NextResponse.json(
+      { error: "Failed to update retention rules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tenant/retention
+ * Runs the tenant's retention rules now (admin only)
+ * Body: { dryRun?: boolean } - a dry run reports what would move or be deleted
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = runSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await storageRetentionManager.runForTenant(user.tenantId, {
+      dryRun: validationResult.data.dryRun,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running retention rules:", error);
+    return NextResponse.json(
+      { error: "Failed to run retention rules" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+// Story 2.8: Retry Policy - Tenant Retry Policy API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { getTenantMaxRetryAttempts, setTenantMaxRetryAttempts } from "@/lib/database/retry-attempts";
+import { z } from "zod";
+
+/**
+ * Retry policy schema - 0 disables retries, including automatic ones
+ */
+const updateRetryPolicySchema = z.object({
+  maxRetryAttempts: z.number().int().min(0).max(10),
+});
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * GET /api/tenant/retry-policy
+ * Returns how many times each of the tenant's videos may be retried
+ */
+export async function GET() {
+  try {
+    const { user, error } = await authorize(Permission.VIEW_TENANT_SETTINGS);
+    if (error) return error;
+
+    return NextResponse.json({
+      tenantId: user.tenantId,
+      maxRetryAttempts: await getTenantMaxRetryAttempts(user.tenantId),
+    });
+  } catch (error) {
+    console.error("Error fetching retry policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch retry policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tenant/retry-policy
+ * Updates the tenant's retry limit (admin only)
+ * Body: { maxRetryAttempts: number }
+ * The limit covers manual and automatic retries; videos already over a lowered limit are not retried again
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json();
+    const validationResult = updateRetryPolicySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const maxRetryAttempts = await setTenantMaxRetryAttempts(
+      user.tenantId,
+      validationResult.data.maxRetryAttempts
+    );
+
+    return NextResponse.json({ tenantId: user.tenantId, maxRetryAttempts });
+  } catch (error) {
+    console.error("Error updating retry policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update retry policy" },
+      { status: 500 }
+    );
+  }
+}
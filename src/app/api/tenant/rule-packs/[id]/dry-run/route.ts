@@ -0,0 +1,80 @@
+// Story 2.1: Compliance Rule Packs - Dry Run a Rule Pack
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { dryRunRulePack } from "@/lib/rule-packs";
+import { z } from "zod";
+
+/**
+ * Dry-run schema - number of most recent prompts to re-validate
+ */
+const dryRunSchema = z.object({
+  limit: z.number().int().min(1).max(500).default(50),
+});
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * POST /api/tenant/rule-packs/[id]/dry-run
+ * Re-validates the tenant's (or the pack's brand's) last N prompts with the published rules and with
+ * this pack, and reports which prompts would newly fail or pass (admin only)
+ * Body: { limit? } (default 50, max 500)
+ * Nothing is saved; rules that only check dialog are listed but not exercised
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = dryRunSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await dryRunRulePack(user.tenantId, params.id, validationResult.data.limit);
+    if (!result) {
+      return NextResponse.json({ error: "Rule pack not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error dry-running rule pack:", error);
+    return NextResponse.json(
+      { error: "Failed to dry-run rule pack" },
+      { status: 500 }
+    );
+  }
+}
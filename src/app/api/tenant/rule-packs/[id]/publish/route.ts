@@ -0,0 +1,69 @@
+// Story 2.1: Compliance Rule Packs - Publish a Draft
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { getRulePack } from "@/lib/database/compliance-rule-packs";
+import { publishDraft } from "@/lib/rule-packs";
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user, userId };
+}
+
+/**
+ * POST /api/tenant/rule-packs/[id]/publish
+ * Publishes a draft (admin only); the tenant's (or brand's) previous pack is archived
+ * New prompts are validated with the published rules within a minute
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, userId, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const existing = await getRulePack(user.tenantId, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Rule pack not found" }, { status: 404 });
+    }
+
+    const rulePack = await publishDraft(user.tenantId, params.id, userId);
+    if (!rulePack) {
+      return NextResponse.json(
+        { error: `Rule pack v${existing.version} is already ${existing.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(rulePack);
+  } catch (error) {
+    console.error("Error publishing rule pack:", error);
+    return NextResponse.json(
+      { error: "Failed to publish rule pack" },
+      { status: 500 }
+    );
+  }
+}
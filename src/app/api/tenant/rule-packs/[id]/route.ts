@@ -0,0 +1,121 @@
+// Story 2.1: Compliance Rule Packs - View and Edit a Rule Pack
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { ComplianceRuleError, complianceRuleSchema } from "@/lib/compliance-rules";
+import { getRulePack } from "@/lib/database/compliance-rule-packs";
+import { updateDraft } from "@/lib/rule-packs";
+import { z } from "zod";
+
+/**
+ * Draft changes - rules replace the draft's whole rule list
+ */
+const updateRulePackSchema = z.object({
+  rules: z.array(complianceRuleSchema).max(200).optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * GET /api/tenant/rule-packs/[id]
+ * Returns one of the tenant's rule packs
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error } = await authorize(Permission.VIEW_TENANT_SETTINGS);
+    if (error) return error;
+
+    const rulePack = await getRulePack(user.tenantId, params.id);
+    if (!rulePack) {
+      return NextResponse.json({ error: "Rule pack not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(rulePack);
+  } catch (error) {
+    console.error("Error fetching rule pack:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rule pack" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tenant/rule-packs/[id]
+ * Edits a draft rule pack (admin only)
+ * Body: { rules?, notes? }
+ * Published and archived packs cannot be edited - create a new draft instead
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json();
+    const validationResult = updateRulePackSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getRulePack(user.tenantId, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Rule pack not found" }, { status: 404 });
+    }
+
+    const rulePack = await updateDraft(user.tenantId, params.id, validationResult.data);
+    if (!rulePack) {
+      return NextResponse.json(
+        { error: `Rule pack v${existing.version} is ${existing.status} and can no longer be edited` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(rulePack);
+  } catch (error) {
+    if (error instanceof ComplianceRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating rule pack:", error);
+    return NextResponse.json(
+      { error: "Failed to update rule pack" },
+      { status: 500 }
+    );
+  }
+}
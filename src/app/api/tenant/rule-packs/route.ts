@@ -0,0 +1,111 @@
+// Story 2.1: Compliance Rule Packs - Tenant and Brand Rule Packs API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { ComplianceRuleError, DEFAULT_COMPLIANCE_RULES, complianceRuleSchema } from "@/lib/compliance-rules";
+import { listRulePacks } from "@/lib/database/compliance-rule-packs";
+import { createDraft } from "@/lib/rule-packs";
+import { z } from "zod";
+
+/**
+ * Draft schema - omit brandId for a pack that applies to every brand of the tenant
+ */
+const createRulePackSchema = z.object({
+  brandId: z.string().trim().min(1).optional(),
+  rules: z.array(complianceRuleSchema).max(200),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user, userId };
+}
+
+/**
+ * GET /api/tenant/rule-packs
+ * Returns the tenant's rule packs (newest version first) and the built-in rules they build on
+ * Query params: brandId (optional) - only that brand's packs
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { user, error } = await authorize(Permission.VIEW_TENANT_SETTINGS);
+    if (error) return error;
+
+    const brandId = req.nextUrl.searchParams.get("brandId") ?? undefined;
+
+    return NextResponse.json({
+      tenantId: user.tenantId,
+      defaultRules: DEFAULT_COMPLIANCE_RULES,
+      rulePacks: await listRulePacks(user.tenantId, brandId),
+    });
+  } catch (error) {
+    console.error("Error fetching rule packs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rule packs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tenant/rule-packs
+ * Creates a draft rule pack with the next version number (admin only)
+ * Body: { brandId?, rules: ComplianceRule[], notes? }
+ * Rules replace built-in (or tenant-wide) rules with the same id; enabled: false switches one off
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { user, userId, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json();
+    const validationResult = createRulePackSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const rulePack = await createDraft({
+      tenantId: user.tenantId,
+      ...validationResult.data,
+      createdBy: userId,
+    });
+
+    return NextResponse.json(rulePack, { status: 201 });
+  } catch (error) {
+    if (error instanceof ComplianceRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error creating rule pack:", error);
+    return NextResponse.json(
+      { error: "Failed to create rule pack" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+// Story 1.5: Spend Caps - Tenant Spend Caps API
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { Permission, Role, hasPermission } from "@/lib/auth/permissions";
+import { getTenantSpendCaps, setTenantSpendCaps } from "@/lib/database/spend-ledger";
+import { getMonthlyCapUsage } from "@/lib/spend-caps";
+import { z } from "zod";
+
+/**
+ * Spend caps schema - null removes a cap, omitted fields are left unchanged
+ */
+const updateSpendCapsSchema = z
+  .object({
+    monthlyCapUsd: z.number().min(0).max(1_000_000).nullable().optional(),
+    approvalThresholdUsd: z.number().min(0).max(1_000_000).nullable().optional(),
+  })
+  .refine((caps) => Object.keys(caps).length > 0, { message: "No spend caps provided" });
+
+/**
+ * Loads the signed-in user and checks a tenant settings permission
+ */
+async function authorize(permission: Permission) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  if (!hasPermission(user.role as Role, permission)) {
+    return { error: NextResponse.json({ error: "Insufficient permissions" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * GET /api/tenant/spend-caps
+ * Returns the tenant's monthly cap and approval threshold, with this month's spend against the cap
+ */
+export async function GET() {
+  try {
+    const { user, error } = await authorize(Permission.VIEW_TENANT_SETTINGS);
+    if (error) return error;
+
+    const [caps, monthly] = await Promise.all([
+      getTenantSpendCaps(user.tenantId),
+      getMonthlyCapUsage(user.tenantId),
+    ]);
+
+    return NextResponse.json({ tenantId: user.tenantId, ...caps, monthly });
+  } catch (error) {
+    console.error("Error fetching spend caps:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch spend caps" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tenant/spend-caps
+ * Updates the tenant's spend caps (admin only)
+ * Body: { monthlyCapUsd?: number | null, approvalThresholdUsd?: number | null }
+ * Batches held by a cap stay paused until resumed from the batch page
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { user, error } = await authorize(Permission.EDIT_TENANT_SETTINGS);
+    if (error) return error;
+
+    const body = await req.json();
+    const validationResult = updateSpendCapsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const caps = await setTenantSpendCaps(user.tenantId, validationResult.data);
+
+    return NextResponse.json({
+      tenantId: user.tenantId,
+      ...caps,
+      monthly: await getMonthlyCapUsage(user.tenantId),
+    });
+  } catch (error) {
+    console.error("Error updating spend caps:", error);
+    return NextResponse.json(
+      { error: "Failed to update spend caps" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// Story 2.6: Storage Tiering and Retention - Measured Storage Usage API
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/database/prisma";
+import { getStorageUsage } from "@/lib/database/storage-retention";
+import { getStorageCostProfile } from "@/lib/storage-retention";
+
+/**
+ * GET /api/tenant/storage-usage
+ * Returns the tenant's stored bytes per backend and the measured storage cost profile
+ * used by the dashboard cost estimate (costProfile is null until videos have been downloaded)
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const [usage, costProfile] = await Promise.all([
+      getStorageUsage(user.tenantId),
+      getStorageCostProfile(user.tenantId),
+    ]);
+
+    return NextResponse.json({ tenantId: user.tenantId, usage, costProfile: costProfile ?? null });
+  } catch (error) {
+    console.error("Error fetching storage usage:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch storage usage" },
+      { status: 500 }
+    );
+  }
+}
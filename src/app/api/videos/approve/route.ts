@@ -1,12 +1,16 @@
 // Video Approve API (Story 2.7, AC#5)
-// Marks videos as approved in Notion
+// Marks videos as approved (mirrored to Notion)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { updateVideoVariationStatus } from '@/lib/notion-client';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/database/prisma';
+import { authorizeVideo } from '@/lib/auth/batch-access';
+import { updateVariationStatus } from '@/lib/batch-tracking';
+import { setAssetReviewStatus } from '@/lib/database/video-assets';
 
 /**
  * POST /api/videos/approve
- * Approves a video and marks it in Notion
+ * Approves a video
  * Body: { notionPageId: string }
  */
 export async function POST(request: NextRequest) {
@@ -18,15 +22,29 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'notionPageId is required' }, { status: 400 });
     }
 
-    // Update Notion record with approved status
-    // In production, this would add an "Approved" property
-    // For now, we'll use a placeholder approach
-    const success = await updateVideoVariationStatus(notionPageId, 'Completed', {
-      // Could add custom properties like approved: true
-    });
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Review decisions drive retention deletes, so the video must belong to the reviewer's tenant
+    const user = await prisma.user.findUnique({ where: { clerkId: userId } });
+    if (!user || !(await authorizeVideo(notionPageId, user))) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // Approval itself is recorded on the assets below; the variation stays completed
+    const success = await updateVariationStatus(notionPageId, 'completed');
 
     if (!success) {
-      throw new Error('Failed to update Notion');
+      throw new Error('Failed to update video variation');
+    }
+
+    // Retention rules keep or tier assets by review decision
+    try {
+      await setAssetReviewStatus(notionPageId, user.tenantId, 'approved');
+    } catch (error) {
+      console.error(`[Video API] Failed to record approval for ${notionPageId}:`, error);
     }
 
     return NextResponse.json({
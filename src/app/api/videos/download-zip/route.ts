@@ -0,0 +1,85 @@
+// Video ZIP Export API (Story 2.7, AC#6)
+// Streams selected videos with thumbnails, spritesheets and a CSV/JSON manifest as a ZIP
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { getTenantForUser } from '@/lib/auth/tenant-manager';
+import { planVideoExport, createVideoExportStream } from '@/lib/video-export';
+
+/**
+ * Export request schema - selected videos, or every approved video in a batch
+ */
+const downloadZipSchema = z
+  .object({
+    videoIds: z.array(z.string().min(1)).max(500).optional(), // Notion page IDs
+    batchId: z.string().min(1).optional(),
+  })
+  .refine((body) => (body.videoIds && body.videoIds.length > 0) || body.batchId, {
+    message: 'videoIds or batchId is required',
+  });
+
+/**
+ * POST /api/videos/download-zip
+ * Streams a ZIP of the selected videos from the configured storage backend
+ * Body: { videoIds?: string[], batchId?: string }
+ *
+ * Archive layout: {batchId}/{file} for each asset, plus manifest.json and manifest.csv
+ * (prompt, dimension values, model, duration and cost per file)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = downloadZipSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { videoIds, batchId } = validationResult.data;
+    const tenant = await getTenantForUser(userId);
+
+    const plan = await planVideoExport(
+      videoIds && videoIds.length > 0 ? { notionPageIds: videoIds } : { batchId },
+      tenant?.id
+    );
+
+    if (plan.files.length === 0) {
+      return NextResponse.json(
+        { error: 'No downloadable videos found', skipped: plan.skipped },
+        { status: 404 }
+      );
+    }
+
+    console.log(
+      `[Download ZIP] Exporting ${plan.files.length} files (${plan.skipped.length} videos skipped)`
+    );
+
+    const fileName = `approved-videos-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    return new NextResponse(createVideoExportStream(plan, tenant?.id), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Download ZIP] Error creating ZIP:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create ZIP',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,16 @@
 // Video Reject API (Story 2.7, AC#5)
-// Marks videos as rejected in Notion with optional reason
+// Marks videos as rejected with optional reason (mirrored to Notion)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { logVideoError } from '@/lib/notion-client';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/database/prisma';
+import { authorizeVideo } from '@/lib/auth/batch-access';
+import { recordVariationRejection } from '@/lib/batch-tracking';
+import { setAssetReviewStatus } from '@/lib/database/video-assets';
 
 /**
  * POST /api/videos/reject
- * Rejects a video and logs reason in Notion
+ * Rejects a video and records the reason
  * Body: { notionPageId: string, reason?: string }
  */
 export async function POST(request: NextRequest) {
@@ -18,21 +22,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'notionPageId is required' }, { status: 400 });
     }
 
-    // Log rejection in Notion as an error with reason
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Review decisions drive retention deletes, so the video must belong to the reviewer's tenant
+    const user = await prisma.user.findUnique({ where: { clerkId: userId } });
+    if (!user || !(await authorizeVideo(notionPageId, user))) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
     const errorMessage = reason || 'Video rejected by reviewer';
 
-    const success = await logVideoError(
-      notionPageId,
-      'download_failed', // Using existing error type, could add 'rejected' type
-      errorMessage,
-      {
-        rejectedAt: new Date().toISOString(),
-        rejectedBy: 'user', // Could add user ID from auth
-      }
-    );
+    const success = await recordVariationRejection(notionPageId, errorMessage, {
+      rejectedAt: new Date().toISOString(),
+      rejectedBy: userId,
+    });
 
     if (!success) {
-      throw new Error('Failed to update Notion');
+      throw new Error('Failed to update video variation');
+    }
+
+    // Retention rules delete rejected assets after the tenant's grace period
+    try {
+      await setAssetReviewStatus(notionPageId, user.tenantId, 'rejected');
+    } catch (error) {
+      console.error(`[Video API] Failed to record rejection for ${notionPageId}:`, error);
     }
 
     return NextResponse.json({
@@ -1,69 +1,202 @@
 // Video Retry API (Story 2.8, AC#3, AC#5)
 // Retries failed video generation with optional prompt modification
+// Every retry is recorded, and the tenant's retry limit is enforced here rather than in the UI
 
 import { NextRequest, NextResponse } from 'next/server';
-import { soraClient, SoraModel, SoraDuration } from '@/lib/sora-client';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { validateGenerationSettings, SoraParameterError } from '@/lib/sora-request-mapper';
 import { videoGenerationQueue } from '@/lib/video-generation-queue';
-import { updateVideoVariationStatus } from '@/lib/notion-client';
+import { getTenantForUser } from '@/lib/auth/tenant-manager';
+import { updateVariationStatus } from '@/lib/batch-tracking';
+import { categorizeError, createRetryAttempt } from '@/lib/video-error-handler';
+import { getJob } from '@/lib/database/generation-jobs';
+import { getBatchBrandId } from '@/lib/database/batches';
+import { isVideoRejected } from '@/lib/database/video-assets';
+import { validateReviewedPrompt } from '@/lib/prompt-remediation';
 import {
-  categorizeError,
-  createRetryAttempt,
-  shouldAutoRetry,
-  getRetryDelay,
-} from '@/lib/video-error-handler';
+  countRetryAttempts,
+  getTenantMaxRetryAttempts,
+  loadRetryHistory,
+  recordRetryAttempt,
+} from '@/lib/database/retry-attempts';
+
+const retrySchema = z.object({
+  notionPageId: z.string().min(1),
+  modifiedPrompt: z.string().trim().min(1).max(4000).optional(), // Same limit as a reviewer's edited prompt
+});
+
+// Only videos that ended without a result can be retried; completed videos only if they were rejected (remix)
+const RETRYABLE_STATUSES = ['failed', 'cancelled'];
 
 /**
  * POST /api/videos/retry
- * Retries a failed video with optional prompt modification
- * Body: { notionPageId: string, modifiedPrompt?: string, batchId: string, model: string, duration: number }
+ * Retries a failed or cancelled video with optional prompt modification, or remixes a rejected one
+ * The video is regenerated with its persisted prompt and settings (or the modified prompt, which must pass
+ * the brand's compliance rules). A rejected video is remixed from its rejected take with the modified prompt.
+ * Body: { notionPageId: string, modifiedPrompt?: string }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { notionPageId, modifiedPrompt, batchId, combinationId, model, duration, aspectRatio } =
-      body;
+    const validationResult = retrySchema.safeParse(body);
 
-    if (!notionPageId || !batchId) {
+    if (!validationResult.success) {
       return NextResponse.json(
-        { error: 'notionPageId and batchId are required' },
+        { error: 'Invalid request data', details: validationResult.error.issues },
         { status: 400 }
       );
     }
 
-    // Get current retry count from Notion (Story 2.8, AC#5)
-    // In production, this would fetch from Notion metadata
-    const currentRetryCount = 0; // Placeholder
+    const { notionPageId, modifiedPrompt } = validationResult.data;
+
+    // Tenant scopes the retry limit and the per-tenant concurrency ceilings
+    const { userId } = await auth();
+    const tenant = userId ? await getTenantForUser(userId) : null;
+
+    // The persisted job has the prompt and settings the video was generated with
+    const job = await getJob(notionPageId);
+    if (!job || (job.tenantId && job.tenantId !== tenant?.id)) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // Validate generation settings before resubmitting (Story 2.4, AC#6)
+    let settings;
+    try {
+      settings = validateGenerationSettings({
+        model: job.model,
+        duration: job.duration,
+        aspectRatio: job.aspectRatio ?? undefined,
+      });
+    } catch (error) {
+      if (error instanceof SoraParameterError) {
+        return NextResponse.json(
+          { error: error.message, field: error.field, allowed: error.allowed },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (
+      ['queued', 'paused', 'in_progress'].includes(job.status) ||
+      videoGenerationQueue.isRetryScheduled(notionPageId)
+    ) {
+      return NextResponse.json(
+        { error: 'Video is already queued or generating' },
+        { status: 409 }
+      );
+    }
+
+    // A rejected take is remixed with the modified prompt instead of being generated again from scratch
+    const remixOf =
+      job.status === 'completed' && job.soraVideoId && (await isVideoRejected(notionPageId))
+        ? job.soraVideoId
+        : undefined;
+
+    if (!RETRYABLE_STATUSES.includes(job.status) && !remixOf) {
+      return NextResponse.json(
+        { error: `Only failed, cancelled or rejected videos can be retried (video is ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    if (remixOf && !modifiedPrompt) {
+      return NextResponse.json(
+        { error: 'Rejected videos are remixed: describe the change in modifiedPrompt' },
+        { status: 400 }
+      );
+    }
+
+    // Critical errors (e.g. content policy) repeat unless the prompt is changed (Story 2.8, AC#4)
+    const previousError = remixOf ? 'Rejected in review' : job.error || 'Previous generation failed';
+    const videoError = categorizeError(previousError);
+    if (!videoError.retryable && !modifiedPrompt) {
+      return NextResponse.json(
+        {
+          error: `${videoError.category}: edit the prompt before retrying`,
+          category: videoError.category,
+        },
+        { status: 400 }
+      );
+    }
+
+    // A modified prompt goes straight to Sora, so it is held to the same rules as a reviewed prompt
+    if (modifiedPrompt) {
+      const brandId = await getBatchBrandId(job.batchId);
+      const validation = await validateReviewedPrompt(modifiedPrompt, brandId, tenant?.id, undefined, settings.duration);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Modified prompt fails compliance validation', validation },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Retries made so far, manual and automatic (Story 2.8, AC#5)
+    const [currentRetryCount, maxRetryAttempts] = await Promise.all([
+      countRetryAttempts(notionPageId),
+      getTenantMaxRetryAttempts(tenant?.id),
+    ]);
+
+    if (currentRetryCount >= maxRetryAttempts) {
+      return NextResponse.json(
+        {
+          error: `Retry limit reached (${currentRetryCount} of ${maxRetryAttempts} retries used)`,
+          retryCount: currentRetryCount,
+          maxRetryAttempts,
+        },
+        { status: 409 }
+      );
+    }
 
     // Create retry attempt record (Story 2.8, AC#5)
     const retryAttempt = createRetryAttempt(
       currentRetryCount + 1,
-      'Previous generation failed',
-      modifiedPrompt
+      previousError,
+      modifiedPrompt,
+      'manual'
     );
 
+    await recordRetryAttempt({
+      notionPageId,
+      batchId: job.batchId,
+      tenantId: tenant?.id,
+      attemptNumber: retryAttempt.attemptNumber,
+      trigger: 'manual',
+      previousError,
+      errorCategory: videoError.category,
+      modifiedPrompt: modifiedPrompt || undefined,
+      requestedBy: userId ?? undefined,
+    });
+
     console.log(
-      `[Retry API] Retry attempt #${retryAttempt.attemptNumber} for ${notionPageId}${modifiedPrompt ? ' (with modified prompt)' : ''}`
+      `[Retry API] Retry attempt #${retryAttempt.attemptNumber} for ${notionPageId}${remixOf ? ` (remix of ${remixOf})` : modifiedPrompt ? ' (with modified prompt)' : ''}`
     );
 
-    // Update Notion with retry attempt (Story 2.8, AC#5)
-    await updateVideoVariationStatus(notionPageId, 'In Progress', {
+    // Record the retry attempt on the video (Story 2.8, AC#5)
+    await updateVariationStatus(notionPageId, 'in_progress', {
       retryCount: retryAttempt.attemptNumber,
       lastRetryAt: retryAttempt.timestamp.toISOString(),
       modifiedPrompt: modifiedPrompt || undefined,
     });
 
-    // Get the prompt to use
-    const promptToUse = modifiedPrompt || body.originalPrompt || 'Default video prompt';
+    const promptToUse = modifiedPrompt || job.prompt;
 
     // Resubmit to generation queue (Story 2.8, AC#3)
     await videoGenerationQueue.submitVideo({
       notionPageId,
-      batchId,
-      combinationId: combinationId || notionPageId,
+      batchId: job.batchId,
+      combinationId: job.combinationId,
+      tenantId: tenant?.id,
+      priority: 'rush', // Client revisions jump ahead of bulk matrix generations
+      lineage: modifiedPrompt ? 'remix' : 'retry',
+      referenceId: job.referenceId ?? undefined, // Same product, new take
+      remixOf,
       prompt: promptToUse,
-      model: (model as SoraModel) || 'sora-2',
-      duration: (duration as SoraDuration) || 10,
-      aspectRatio: aspectRatio || '16:9',
+      model: settings.model,
+      duration: settings.duration,
+      aspectRatio: settings.aspectRatio,
       queuedAt: new Date(),
     });
 
@@ -72,6 +205,7 @@ export async function POST(request: NextRequest) {
       message: 'Video retry queued',
       notionPageId,
       retryAttempt: retryAttempt.attemptNumber,
+      maxRetryAttempts,
       modifiedPrompt: modifiedPrompt || null,
     });
   } catch (error) {
@@ -87,8 +221,8 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/videos/retry/:id/status
- * Gets retry history for a video
+ * GET /api/videos/retry?notionPageId=...
+ * Gets retry history for a video, oldest attempt first
  */
 export async function GET(request: NextRequest) {
   try {
@@ -99,29 +233,35 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'notionPageId is required' }, { status: 400 });
     }
 
-    // In production, fetch retry history from Notion
-    // For now, return mock data
-    const retryHistory = [
-      {
-        attemptNumber: 1,
-        timestamp: new Date().toISOString(),
-        previousError: 'API timeout',
-        outcome: 'failed',
-        newError: 'Connection timeout',
-      },
-      {
-        attemptNumber: 2,
-        timestamp: new Date().toISOString(),
-        previousError: 'Connection timeout',
-        modifiedPrompt: 'Updated prompt with better phrasing',
-        outcome: 'pending',
-      },
-    ];
+    const { userId } = await auth();
+    const tenant = userId ? await getTenantForUser(userId) : null;
+
+    const job = await getJob(notionPageId);
+    if (job?.tenantId && job.tenantId !== tenant?.id) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const [attempts, maxRetryAttempts] = await Promise.all([
+      loadRetryHistory(notionPageId),
+      getTenantMaxRetryAttempts(tenant?.id),
+    ]);
+
+    const retryHistory = attempts.map((attempt) => ({
+      attemptNumber: attempt.attemptNumber,
+      timestamp: attempt.createdAt.toISOString(),
+      trigger: attempt.trigger,
+      previousError: attempt.previousError,
+      modifiedPrompt: attempt.modifiedPrompt ?? undefined,
+      outcome: attempt.outcome,
+      newError: attempt.newError ?? undefined,
+    }));
 
     return NextResponse.json({
       notionPageId,
       retryHistory,
       totalAttempts: retryHistory.length,
+      maxRetryAttempts,
+      retryScheduled: videoGenerationQueue.isRetryScheduled(notionPageId),
     });
   } catch (error) {
     console.error('[Retry API] Error fetching retry history:', error);
@@ -0,0 +1,85 @@
+// Sora Webhook Handler (Story 2.4, 2.5, 2.6 integration)
+// Receives signed video completion events from the Sora 2 API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Webhook } from 'svix';
+import { soraStatusPoller } from '@/lib/sora-status-poller';
+
+/**
+ * Sora webhook event (Standard Webhooks format)
+ */
+type SoraWebhookPayload = {
+  id: string;
+  object: 'event';
+  type: string;
+  created_at: number;
+  data: {
+    id: string; // Sora video ID
+  };
+};
+
+const HANDLED_EVENT_TYPES = ['video.completed', 'video.failed'] as const;
+
+/**
+ * POST /api/webhooks/sora
+ * Verifies the webhook-id/webhook-timestamp/webhook-signature headers against
+ * SORA_WEBHOOK_SECRET and completes the matching video
+ */
+export async function POST(request: NextRequest) {
+  const webhookSecret = process.env.SORA_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    console.error('[Sora Webhook] Missing SORA_WEBHOOK_SECRET environment variable');
+    return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 500 });
+  }
+
+  const webhookId = request.headers.get('webhook-id');
+  const webhookTimestamp = request.headers.get('webhook-timestamp');
+  const webhookSignature = request.headers.get('webhook-signature');
+
+  if (!webhookId || !webhookTimestamp || !webhookSignature) {
+    return NextResponse.json({ error: 'Missing webhook signature headers' }, { status: 400 });
+  }
+
+  // Verify against the raw body - re-serialized JSON would not match the signature
+  const body = await request.text();
+
+  let event: SoraWebhookPayload;
+  try {
+    event = new Webhook(webhookSecret).verify(body, {
+      'webhook-id': webhookId,
+      'webhook-timestamp': webhookTimestamp,
+      'webhook-signature': webhookSignature,
+    }) as SoraWebhookPayload;
+  } catch (error) {
+    console.error('[Sora Webhook] Signature verification failed:', error);
+    return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 400 });
+  }
+
+  if (!HANDLED_EVENT_TYPES.includes(event.type as (typeof HANDLED_EVENT_TYPES)[number])) {
+    console.log(`[Sora Webhook] Ignoring event type ${event.type}`);
+    return NextResponse.json({ success: true, handled: false });
+  }
+
+  if (!event.data?.id) {
+    return NextResponse.json({ error: 'Missing video ID in event data' }, { status: 400 });
+  }
+
+  try {
+    const handled = await soraStatusPoller.handleWebhookEvent({
+      type: event.type as (typeof HANDLED_EVENT_TYPES)[number],
+      videoId: event.data.id,
+    });
+
+    return NextResponse.json({ success: true, handled });
+  } catch (error) {
+    console.error(`[Sora Webhook] Failed to process ${event.type} for ${event.data.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,13 +9,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, CheckCircle2, XCircle, Clock, Download, ArrowLeft, RefreshCw, LayoutGrid, LayoutList } from 'lucide-react';
+import { Loader2, CheckCircle2, XCircle, Clock, Download, ArrowLeft, RefreshCw, LayoutGrid, LayoutList, HardDriveDownload, Pause, Play, Ban, AlertTriangle } from 'lucide-react';
 import type { BatchStatusResponse, VideoStatus } from '@/app/api/batch/[id]/route';
 
 const POLL_INTERVAL = 10000; // Poll every 10 seconds
 
 type ViewMode = 'list' | 'grid';
 
+type BatchAction = 'pause' | 'resume' | 'cancel';
+
 export default function BatchStatusPage() {
   const params = useParams();
   const router = useRouter();
@@ -26,6 +28,7 @@ export default function BatchStatusPage() {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [actionPending, setActionPending] = useState<BatchAction | null>(null);
 
   // Fetch batch status
   const fetchBatchStatus = async () => {
@@ -48,14 +51,48 @@ export default function BatchStatusPage() {
     }
   };
 
+  // Pause, resume or cancel generation
+  const updateBatch = async (action: BatchAction) => {
+    let cancelInProgress = false;
+
+    if (action === 'cancel') {
+      if (!window.confirm('Cancel all queued videos in this batch?')) {
+        return;
+      }
+      cancelInProgress = window.confirm(
+        'Also cancel videos that are already generating? Completed work on them will be lost.'
+      );
+    }
+
+    setActionPending(action);
+    try {
+      const response = await fetch(`/api/batch/${batchId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, cancelInProgress }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to ${action} batch`);
+      }
+
+      await fetchBatchStatus();
+    } catch (err) {
+      console.error('[Batch Status] Action error:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setActionPending(null);
+    }
+  };
+
   // Initial fetch
   useEffect(() => {
     fetchBatchStatus();
   }, [batchId]);
 
-  // Auto-refresh while generating
+  // Auto-refresh while generating (and while downloads are about to expire)
   useEffect(() => {
-    if (!batch || batch.status === 'completed' || batch.status === 'failed') {
+    if (!batch || (isBatchFinished(batch.status) && batch.downloadAlerts.length === 0)) {
       return; // Stop polling when batch is complete
     }
 
@@ -92,6 +129,7 @@ export default function BatchStatusPage() {
   }
 
   const isGenerating = batch.status === 'generating' || batch.status === 'initializing';
+  const isPaused = batch.status === 'paused';
 
   return (
     <main className="min-h-screen bg-[#0a0a0a] p-4 text-[#f5f5f5] md:p-8">
@@ -110,14 +148,48 @@ export default function BatchStatusPage() {
             <h1 className="text-3xl font-bold">Batch Status</h1>
             <p className="text-[#f5f5f5]/60">Batch ID: {batch.batchId}</p>
           </div>
-          <Button
-            onClick={fetchBatchStatus}
-            variant="outline"
-            className="border-[#8B7355] text-[#f5f5f5]"
-          >
-            <RefreshCw className="mr-2 h-4 w-4" />
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            {isGenerating && (
+              <Button
+                onClick={() => updateBatch('pause')}
+                disabled={actionPending !== null}
+                variant="outline"
+                className="border-[#8B7355] text-[#f5f5f5]"
+              >
+                <Pause className="mr-2 h-4 w-4" />
+                Pause
+              </Button>
+            )}
+            {isPaused && (
+              <Button
+                onClick={() => updateBatch('resume')}
+                disabled={actionPending !== null}
+                className="bg-[#8B7355] hover:bg-[#A0826D]"
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Resume
+              </Button>
+            )}
+            {(isGenerating || isPaused) && (
+              <Button
+                onClick={() => updateBatch('cancel')}
+                disabled={actionPending !== null}
+                variant="outline"
+                className="border-red-500/40 text-red-500"
+              >
+                <Ban className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+            <Button
+              onClick={fetchBatchStatus}
+              variant="outline"
+              className="border-[#8B7355] text-[#f5f5f5]"
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Batch Overview */}
@@ -146,7 +218,7 @@ export default function BatchStatusPage() {
             </div>
 
             {/* Status Counts */}
-            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
               <StatusCard
                 label="Total Videos"
                 count={batch.totalVideos}
@@ -171,8 +243,48 @@ export default function BatchStatusPage() {
                 icon={<CheckCircle2 className="h-5 w-5" />}
                 color="text-green-500"
               />
+              <StatusCard
+                label="Downloaded"
+                count={batch.downloadedCount}
+                icon={<HardDriveDownload className="h-5 w-5" />}
+                color="text-green-500"
+              />
+            </div>
+
+            {/* Spend */}
+            <div className="flex justify-between rounded-md border border-[#2a2a2a] bg-[#0a0a0a] p-4 text-sm">
+              <span className="text-[#f5f5f5]/60">Spend so far</span>
+              <span className="text-[#f5f5f5]">
+                ${batch.spendSoFar.toFixed(2)} of ${batch.estimatedTotalCost.toFixed(2)} estimated
+              </span>
             </div>
 
+            {/* Spend Cap Alert (if any) */}
+            {batch.spendCapReached && (
+              <div className="rounded-md border border-yellow-500/20 bg-yellow-500/10 p-4">
+                <div className="flex items-center">
+                  <AlertTriangle className="mr-2 h-5 w-5 text-yellow-500" />
+                  <span className="text-yellow-500">
+                    {batch.spendCapReached === 'monthly' ? 'Monthly' : 'Campaign'} spend cap reached - queued
+                    videos are on hold until an admin raises the cap and resumes the batch
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {/* Download Expiry Alert (if any) */}
+            {batch.downloadAlerts.length > 0 && (
+              <div className="rounded-md border border-yellow-500/20 bg-yellow-500/10 p-4">
+                <div className="flex items-center">
+                  <AlertTriangle className="mr-2 h-5 w-5 text-yellow-500" />
+                  <span className="text-yellow-500">
+                    {batch.downloadAlerts.length} videos not downloaded yet - Sora deletes them in{' '}
+                    {Math.min(...batch.downloadAlerts.map((alert) => alert.minutesRemaining))} minutes
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Failed Count (if any) */}
             {batch.failedCount > 0 && (
               <div className="rounded-md border border-red-500/20 bg-red-500/10 p-4">
@@ -183,6 +295,16 @@ export default function BatchStatusPage() {
               </div>
             )}
 
+            {/* Cancelled Count (if any) */}
+            {batch.cancelledCount > 0 && (
+              <div className="rounded-md border border-[#2a2a2a] bg-[#0a0a0a] p-4">
+                <div className="flex items-center">
+                  <Ban className="mr-2 h-5 w-5 text-[#f5f5f5]/60" />
+                  <span className="text-[#f5f5f5]/60">{batch.cancelledCount} videos cancelled</span>
+                </div>
+              </div>
+            )}
+
             {/* Estimated Completion */}
             {batch.estimatedCompletionTime && isGenerating && (
               <div className="rounded-md border border-[#2a2a2a] bg-[#0a0a0a] p-4">
@@ -257,14 +379,21 @@ export default function BatchStatusPage() {
   );
 }
 
+// Batch is finished once nothing is queued or generating
+function isBatchFinished(status: BatchStatusResponse['status']): boolean {
+  return status === 'completed' || status === 'failed' || status === 'partial' || status === 'cancelled';
+}
+
 // Batch Status Badge
 function BatchStatusBadge({ status }: { status: BatchStatusResponse['status'] }) {
   const config = {
     initializing: { label: 'Initializing', className: 'bg-blue-500/20 text-blue-500' },
     generating: { label: 'Generating', className: 'bg-yellow-500/20 text-yellow-500' },
+    paused: { label: 'Paused', className: 'bg-[#8B7355]/20 text-[#A0826D]' },
     completed: { label: 'Completed', className: 'bg-green-500/20 text-green-500' },
     failed: { label: 'Failed', className: 'bg-red-500/20 text-red-500' },
     partial: { label: 'Partial', className: 'bg-orange-500/20 text-orange-500' },
+    cancelled: { label: 'Cancelled', className: 'bg-[#2a2a2a] text-[#f5f5f5]/60' },
   };
 
   const { label, className } = config[status];
@@ -357,6 +486,10 @@ function VideoStatusIcon({ status }: { status: VideoStatus['status'] }) {
       return <CheckCircle2 className="h-5 w-5 text-green-500" />;
     case 'Failed':
       return <XCircle className="h-5 w-5 text-red-500" />;
+    case 'Cancelled':
+      return <Ban className="h-5 w-5 text-[#f5f5f5]/40" />;
+    case 'Rejected':
+      return <XCircle className="h-5 w-5 text-[#f5f5f5]/40" />;
   }
 }
 
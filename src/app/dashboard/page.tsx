@@ -1,5 +1,6 @@
 'use client';
 
+import { BatchApprovalsPanel } from '@/components/batch-approvals-panel';
 import { DashboardForm } from '@/components/dashboard-form';
 import type { DashboardFormData } from '@/types/dashboard';
 import * as React from 'react';
@@ -9,6 +10,7 @@ const STORAGE_KEY = 'sacos-dashboard-form-data';
 export default function DashboardPage() {
     const [isLoading, setIsLoading] = React.useState(false);
     const [isMounted, setIsMounted] = React.useState(false);
+    const [approvalsRefreshKey, setApprovalsRefreshKey] = React.useState(0);
 
     // Hydration safety: only access sessionStorage after mount
     React.useEffect(() => {
@@ -20,6 +22,40 @@ export default function DashboardPage() {
         setIsLoading(true);
 
         try {
+            // Product image is attached to every queued video as the Sora input reference (Story 2.4)
+            if (data.productImage) {
+                const references = new FormData();
+                references.append('productImage', data.productImage);
+
+                const referenceResponse = await fetch(`/api/batch/${batchData.batchId}/references`, {
+                    method: 'POST',
+                    body: references,
+                });
+
+                if (!referenceResponse.ok) {
+                    const error = await referenceResponse.json();
+                    throw new Error(error.error || 'Failed to upload product image');
+                }
+            }
+
+            // Upload post-production assets first so the first downloads are rendered with them (Story 2.6)
+            if (data.hookVideo || data.ctaVideo || data.watermark) {
+                const postProduction = new FormData();
+                if (data.hookVideo) postProduction.append('hookVideo', data.hookVideo);
+                if (data.ctaVideo) postProduction.append('ctaVideo', data.ctaVideo);
+                if (data.watermark) postProduction.append('watermark', data.watermark);
+
+                const uploadResponse = await fetch(`/api/batch/${batchData.batchId}/post-production`, {
+                    method: 'POST',
+                    body: postProduction,
+                });
+
+                if (!uploadResponse.ok) {
+                    const error = await uploadResponse.json();
+                    throw new Error(error.error || 'Failed to upload hook, CTA and watermark');
+                }
+            }
+
             // Call batch generation API (Epic 2 Story 2.1)
             const response = await fetch('/api/generate-batch', {
                 method: 'POST',
@@ -43,6 +79,13 @@ export default function DashboardPage() {
                 sessionStorage.removeItem(STORAGE_KEY);
             }
 
+            // Expensive batches wait for an admin (Story 1.5)
+            if (result.status === 'pending_approval') {
+                setApprovalsRefreshKey((key) => key + 1);
+                alert(result.message);
+                return;
+            }
+
             // Navigate to batch status page (Story 1.6)
             window.location.href = `/batch/${result.batchId}`;
         } catch (error) {
@@ -74,6 +117,8 @@ export default function DashboardPage() {
                     <p className='mt-2 text-[#f5f5f5]/60'>Multi-Brand Video Batch Configuration</p>
                 </div>
 
+                <BatchApprovalsPanel refreshKey={approvalsRefreshKey} />
+
                 <DashboardForm onSubmit={handleSubmit} isLoading={isLoading} />
             </div>
         </main>
@@ -0,0 +1,125 @@
+/**
+ * Batch Approvals Panel (Story 1.5)
+ *
+ * Lists batches held for admin approval because their estimate is above the tenant's threshold.
+ * Editors see what is waiting; admins can approve (the batch starts) or deny.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { formatCurrency } from '@/lib/cost-calculator';
+import type { BatchApprovalSummary } from '@/app/api/batch-approvals/route';
+
+export type BatchApprovalsPanelProps = {
+  refreshKey?: number; // Bump to reload after submitting a batch
+};
+
+export function BatchApprovalsPanel({ refreshKey }: BatchApprovalsPanelProps) {
+  const [approvals, setApprovals] = React.useState<BatchApprovalSummary[]>([]);
+  const [canDecide, setCanDecide] = React.useState(false);
+  const [decidingId, setDecidingId] = React.useState<string | null>(null);
+
+  const loadApprovals = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/batch-approvals?status=pending');
+      if (!response.ok) return;
+
+      const result = await response.json();
+      setApprovals(result.approvals);
+      setCanDecide(result.canDecide);
+    } catch (error) {
+      console.error('[Batch Approvals] Failed to load pending approvals:', error);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals, refreshKey]);
+
+  const decide = async (approval: BatchApprovalSummary, decision: 'approve' | 'deny') => {
+    const reason = decision === 'deny' ? window.prompt('Reason for denying (optional)') ?? undefined : undefined;
+    setDecidingId(approval.id);
+
+    try {
+      const response = await fetch(`/api/batch-approvals/${approval.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to ${decision} batch`);
+      }
+
+      if (decision === 'approve') {
+        window.location.href = `/batch/${approval.batchId}`;
+        return;
+      }
+
+      await loadApprovals();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Unknown error');
+      await loadApprovals();
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (approvals.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className='border-[#f5f5f5]/20 bg-[#1a1a1a]'>
+      <CardHeader>
+        <CardTitle className='text-lg font-semibold text-[#f5f5f5]'>
+          Batches Awaiting Approval ({approvals.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {approvals.map((approval) => (
+          <div
+            key={approval.id}
+            className='flex flex-col gap-3 rounded-md border border-[#2a2a2a] bg-[#0a0a0a] p-4 md:flex-row md:items-center md:justify-between'
+          >
+            <div className='text-sm'>
+              <p className='font-medium text-[#f5f5f5]'>
+                {approval.brand}: {approval.bigIdea}
+              </p>
+              <p className='text-[#f5f5f5]/60'>
+                {approval.videoCount} videos · {formatCurrency(approval.totalBatchCost)} estimated · submitted{' '}
+                {new Date(approval.requestedAt).toLocaleString()}
+              </p>
+            </div>
+
+            {canDecide ? (
+              <div className='flex gap-2'>
+                <Button
+                  size='sm'
+                  disabled={decidingId !== null}
+                  onClick={() => decide(approval, 'approve')}
+                >
+                  {decidingId === approval.id ? 'Starting...' : 'Approve'}
+                </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  disabled={decidingId !== null}
+                  onClick={() => decide(approval, 'deny')}
+                >
+                  Deny
+                </Button>
+              </div>
+            ) : (
+              <span className='text-sm text-[#A0826D]'>Waiting for an admin</span>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,7 @@ import { Alert, AlertDescription } from './ui/alert';
 import { formatCurrency, formatCostSummary, formatPerVideoAverage } from '@/lib/cost-calculator';
 import { type CostResult, type WalletValidationResult } from '@/types/dashboard';
 import { formatProviderName, getAddCreditsUrl } from '@/lib/wallet-balance';
+import { PRICING_DRIFT_THRESHOLD_PERCENT } from '@/lib/pricing-config';
 
 export type CostSummaryProps = {
   costResult: CostResult | null;
@@ -68,6 +69,7 @@ export function CostSummary({ costResult, walletValidation, isLoading }: CostSum
             <div className='text-center'>
               <p className='text-3xl font-bold text-[#f5f5f5]'>{summary}</p>
               <p className='mt-1 text-sm text-[#f5f5f5]/70'>{perVideoAvg}</p>
+              <p className='mt-1 text-xs text-[#f5f5f5]/50'>Rate card v{costResult.rateCardVersion}</p>
             </div>
           </div>
 
@@ -109,8 +111,18 @@ export function CostSummary({ costResult, walletValidation, isLoading }: CostSum
       {showStalenessWarning && (
         <Alert className='border-[#B7410E] bg-[#B7410E]/10'>
           <AlertDescription className='text-sm text-[#f5f5f5]'>
-            ⚠️ Pricing data may be outdated (last updated &gt;30 days ago). Please verify current
-            API rates before proceeding.
+            {costResult.driftedProviders.length > 0 ? (
+              <>
+                ⚠️ Recent batches cost more than {PRICING_DRIFT_THRESHOLD_PERCENT}% more or less than estimated for{' '}
+                {costResult.driftedProviders.map(formatProviderName).join(', ')}. Please verify current API
+                rates before proceeding.
+              </>
+            ) : (
+              <>
+                ⚠️ Pricing data may be outdated (last updated &gt;30 days ago). Please verify current
+                API rates before proceeding.
+              </>
+            )}
           </AlertDescription>
         </Alert>
       )}
@@ -23,6 +23,8 @@ import { MatrixPreview } from '@/components/matrix-preview';
 import { MatrixPreviewTable } from '@/components/matrix-preview-table';
 import { calculateMatrixCombinations } from '@/lib/matrix-calculator';
 import { calculateBatchCost } from '@/lib/cost-calculator';
+import type { RateCard, StorageCostProfile } from '@/lib/pricing-config';
+import type { ApiProvider } from '@/lib/wallet-balance';
 import { CostSummary } from '@/components/cost-summary';
 import { CostBreakdown } from '@/components/cost-breakdown';
 import { v4 as uuidv4 } from 'uuid';
@@ -173,6 +175,7 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
     const [ost, setOst] = React.useState(false);
     const [soraModel, setSoraModel] = React.useState<'sora-2' | 'sora-2-pro'>('sora-2');
     const [videoDuration, setVideoDuration] = React.useState<5 | 10 | 20>(10);
+    const [aspectRatio, setAspectRatio] = React.useState<'16:9' | '9:16' | '1:1'>('16:9');
 
     // DEMOGRAPHICS
     const [ageGeneration, setAgeGeneration] = React.useState<string[]>([]);
@@ -190,6 +193,9 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
 
     // Cost calculation state (Story 1.5)
     const [costResult, setCostResult] = React.useState<import('@/types/dashboard').CostResult | null>(null);
+    const [storageProfile, setStorageProfile] = React.useState<StorageCostProfile | undefined>(undefined);
+    const [driftedProviders, setDriftedProviders] = React.useState<ApiProvider[]>([]);
+    const [rateCard, setRateCard] = React.useState<RateCard | undefined>(undefined);
 
     // Screen navigation state (Story 1.6, AC#5)
     const [activeScreen, setActiveScreen] = React.useState<'form' | 'preview'>('form');
@@ -233,6 +239,30 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
         }
     }, [soraModel, videoDuration, durationOptions]);
 
+    // Load measured storage usage for the storage cost line (falls back to the static estimate)
+    React.useEffect(() => {
+        fetch('/api/tenant/storage-usage')
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data) => setStorageProfile(data?.costProfile ?? undefined))
+            .catch((error) => console.error('Storage usage fetch error:', error));
+    }, []);
+
+    // Load providers whose recent actual spend drifted from the rate card (staleness warning)
+    React.useEffect(() => {
+        fetch('/api/tenant/pricing-drift')
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data) => setDriftedProviders(data?.driftedProviders ?? []))
+            .catch((error) => console.error('Pricing drift fetch error:', error));
+    }, []);
+
+    // Load the rate card in effect so estimates use the current published prices (falls back to the built-in card)
+    React.useEffect(() => {
+        fetch('/api/rate-cards')
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data) => setRateCard(data?.active ?? undefined))
+            .catch((error) => console.error('Rate card fetch error:', error));
+    }, []);
+
     // Track dirty state when any field changes
     React.useEffect(() => {
         const hasChanges = !!(bigIdea.trim() || funnelLevel.length > 0 || aesthetic.length > 0 ||
@@ -281,7 +311,10 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
                 const cost = calculateBatchCost(
                     soraModel,
                     videoDuration,
-                    activeCount
+                    activeCount,
+                    storageProfile,
+                    driftedProviders,
+                    rateCard
                 );
                 setCostResult(cost);
             } catch (error) {
@@ -292,7 +325,7 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
         } else {
             setCostResult(null);
         }
-    }, [matrixResult, soraModel, videoDuration, excludedCombinations]);
+    }, [matrixResult, soraModel, videoDuration, excludedCombinations, storageProfile, driftedProviders, rateCard]);
 
     // Clear exclusions when matrix changes (Story 1.6, Task 2)
     React.useEffect(() => {
@@ -480,6 +513,7 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
             ost,
             soraModel,
             videoDuration,
+            aspectRatio,
             ageGeneration,
             gender,
             orientation,
@@ -491,11 +525,6 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
         onSubmit(formData);
     };
 
-    // Helper function to generate unique combination ID (Story 1.8, Task 2)
-    const generateCombinationId = (combo: MatrixResult['combinations'][0]) => {
-        return `${combo.funnelLevel}-${combo.aesthetic}-${combo.type}-${combo.intention}-${combo.mood}-${combo.audioStyle}-${combo.ageGeneration}-${combo.gender}-${combo.orientation}-${combo.lifeStage}-${combo.ethnicity}`;
-    };
-
     // Batch submission handler (Story 1.7, AC#4; Story 1.8, Task 2)
     const handleBatchSubmit = async () => {
         if (!matrixResult || !costResult) {
@@ -536,6 +565,7 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
             ost,
             soraModel,
             videoDuration,
+            aspectRatio,
             ageGeneration,
             gender,
             orientation,
@@ -1269,6 +1299,28 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
                                     Both models: 5, 10, or 20 seconds
                                 </p>
                             </div>
+
+                            <div className='space-y-2'>
+                                <Label className='text-[#f5f5f5]'>Aspect Ratio</Label>
+                                <RadioGroup
+                                    value={aspectRatio}
+                                    onValueChange={(value) => setAspectRatio(value as '16:9' | '9:16' | '1:1')}
+                                    disabled={isLoading}
+                                    className='flex gap-4'>
+                                    {[
+                                        { value: '16:9', label: 'Landscape (16:9)' },
+                                        { value: '9:16', label: 'Vertical (9:16)' },
+                                        { value: '1:1', label: 'Square (1:1)' },
+                                    ].map((ratio) => (
+                                        <div key={ratio.value} className='flex items-center space-x-2'>
+                                            <RadioGroupItem value={ratio.value} id={`aspect-${ratio.value}`} className='border-[rgba(245,245,220,0.4)] text-[#3b82f6]' />
+                                            <Label htmlFor={`aspect-${ratio.value}`} className='cursor-pointer text-[#f5f5f5]/80'>
+                                                {ratio.label}
+                                            </Label>
+                                        </div>
+                                    ))}
+                                </RadioGroup>
+                            </div>
                         </div>
 
                         {/* DEMOGRAPHICS */}
@@ -1609,7 +1661,7 @@ export function DashboardForm({ onSubmit, isLoading }: DashboardFormProps) {
                             {/* Configuration Details */}
                             <div className='text-sm text-[#f5f5f5]/60'>
                                 <p>Brand: {currentBrandCanon?.brand_name || brand}</p>
-                                <p>Model: {soraModel}, Duration: {videoDuration} seconds</p>
+                                <p>Model: {soraModel}, Duration: {videoDuration} seconds, Aspect Ratio: {aspectRatio}</p>
                             </div>
 
                             <p className='text-sm text-[#f5f5f5]/70'>
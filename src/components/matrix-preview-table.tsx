@@ -12,7 +12,8 @@ import * as React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Checkbox } from './ui/checkbox';
 import { Alert, AlertDescription } from './ui/alert';
-import { type MatrixResult, type VideoCombination } from '@/types/dashboard';
+import { type MatrixResult } from '@/types/dashboard';
+import { getCombinationKey } from '@/lib/matrix-calculator';
 
 export type MatrixPreviewTableProps = {
   matrixResult: MatrixResult;
@@ -20,11 +21,6 @@ export type MatrixPreviewTableProps = {
   onToggleExclusion: (combinationId: string) => void;
 };
 
-// Generate unique ID for each combination
-function generateCombinationId(combo: VideoCombination): string {
-  return `${combo.funnelLevel}-${combo.aesthetic}-${combo.type}-${combo.intention}-${combo.mood}-${combo.audioStyle}-${combo.ageGeneration}-${combo.gender}-${combo.orientation}-${combo.lifeStage}-${combo.ethnicity}`;
-}
-
 // Format field values to human-readable labels
 function formatFieldValue(value: string): string {
   // Convert kebab-case to Title Case
@@ -120,7 +116,7 @@ export function MatrixPreviewTable({
               </thead>
               <tbody className='divide-y divide-[#f5f5f5]/5'>
                 {combinations.map((combo, index) => {
-                  const comboId = generateCombinationId(combo);
+                  const comboId = getCombinationKey(combo);
                   const isExcluded = excludedCombinations.has(comboId);
 
                   return (
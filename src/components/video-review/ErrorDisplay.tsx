@@ -7,6 +7,7 @@ import { useState } from 'react';
 import {
   ErrorCategory,
   ErrorSeverity,
+  RetryAttempt,
   VideoError,
   getUserFriendlyMessage,
 } from '@/lib/video-error-handler';
@@ -15,14 +16,17 @@ type ErrorDisplayProps = {
   error: VideoError;
   onRetry?: () => void;
   retrying?: boolean;
+  retryHistory?: RetryAttempt[]; // Story 2.8, AC#5: earlier retries, oldest first
+  maxRetryAttempts?: number; // Tenant retry limit; Retry is hidden once it is reached
 };
 
 /**
  * Error Display Component (Story 2.8, AC#1, AC#2)
  * Shows categorized video generation errors with full details
  */
-export function ErrorDisplay({ error, onRetry, retrying }: ErrorDisplayProps) {
+export function ErrorDisplay({ error, onRetry, retrying, retryHistory = [], maxRetryAttempts }: ErrorDisplayProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const retryLimitReached = maxRetryAttempts !== undefined && retryHistory.length >= maxRetryAttempts;
 
   // Get severity styling
   const getSeverityStyles = () => {
@@ -79,7 +83,7 @@ export function ErrorDisplay({ error, onRetry, retrying }: ErrorDisplayProps) {
         </div>
 
         {/* Retry button (AC#3) */}
-        {error.retryable && onRetry && (
+        {error.retryable && onRetry && !retryLimitReached && (
           <button
             onClick={onRetry}
             disabled={retrying}
@@ -123,6 +127,43 @@ export function ErrorDisplay({ error, onRetry, retrying }: ErrorDisplayProps) {
         </p>
       </div>
 
+      {/* Retry chain (AC#5) */}
+      {retryHistory.length > 0 && (
+        <div className="mt-3 border-t border-gray-300 pt-3">
+          <p className="text-xs font-semibold text-gray-700 mb-2">
+            Retry History ({retryHistory.length}
+            {maxRetryAttempts !== undefined ? ` of ${maxRetryAttempts}` : ''} retries used)
+          </p>
+          <ol className="space-y-1">
+            {retryHistory.map((attempt) => (
+              <li key={attempt.attemptNumber} className="text-xs text-gray-700">
+                <strong>#{attempt.attemptNumber}</strong>{' '}
+                {attempt.trigger === 'auto' ? 'Automatic' : 'Manual'} retry ·{' '}
+                {attempt.timestamp.toLocaleString()} ·{' '}
+                <span
+                  className={
+                    attempt.outcome === 'success'
+                      ? 'text-green-700'
+                      : attempt.outcome === 'failed'
+                        ? 'text-red-700'
+                        : 'text-gray-500'
+                  }
+                >
+                  {attempt.outcome}
+                </span>
+                {attempt.modifiedPrompt && ' (edited prompt)'}
+                {attempt.newError && <span className="block text-gray-500">{attempt.newError}</span>}
+              </li>
+            ))}
+          </ol>
+          {retryLimitReached && (
+            <p className="mt-2 text-xs text-gray-600">
+              Retry limit reached. Ask an admin to raise the limit to retry this video again.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Details toggle (AC#2 - full API response) */}
       {error.details && (
         <div className="mt-3 border-t border-gray-300 pt-3">
@@ -4,10 +4,10 @@
 
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { SpritesheetScrubber } from './SpritesheetScrubber';
 import { ErrorDisplay } from './ErrorDisplay';
-import { categorizeError } from '@/lib/video-error-handler';
+import { categorizeError, type RetryAttempt } from '@/lib/video-error-handler';
 import type { VideoVariation } from './VideoReviewGrid';
 
 type VideoCardProps = {
@@ -38,6 +38,8 @@ export function VideoCard({
   const [retrying, setRetrying] = useState(false);
   const [showRetryDialog, setShowRetryDialog] = useState(false);
   const [modifiedPrompt, setModifiedPrompt] = useState(video.prompt || '');
+  const [retryHistory, setRetryHistory] = useState<RetryAttempt[]>([]);
+  const [maxRetryAttempts, setMaxRetryAttempts] = useState<number | undefined>(undefined);
   const videoRef = useRef<HTMLVideoElement>(null);
 
   // Categorize error if video failed (Story 2.8, AC#1, AC#4)
@@ -46,6 +48,27 @@ export function VideoCard({
       ? categorizeError(video.errorMessage)
       : null;
 
+  const retryLimitReached = maxRetryAttempts !== undefined && retryHistory.length >= maxRetryAttempts;
+
+  // Load the retry chain for failed videos (Story 2.8, AC#5)
+  useEffect(() => {
+    if (video.status !== 'Failed') return;
+
+    fetch(`/api/videos/retry?notionPageId=${encodeURIComponent(video.notionPageId)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setRetryHistory(
+          data.retryHistory.map((attempt: RetryAttempt & { timestamp: string }) => ({
+            ...attempt,
+            timestamp: new Date(attempt.timestamp),
+          }))
+        );
+        setMaxRetryAttempts(data.maxRetryAttempts);
+      })
+      .catch((error) => console.error('Error loading retry history:', error));
+  }, [video.notionPageId, video.status]);
+
   // Handle thumbnail click (Story 2.7, AC#2)
   const handleThumbnailClick = () => {
     setIsPlaying(true);
@@ -143,6 +166,8 @@ export function VideoCard({
             error={videoError}
             onRetry={videoError.retryable && onRetry ? handleQuickRetry : undefined}
             retrying={retrying}
+            retryHistory={retryHistory}
+            maxRetryAttempts={maxRetryAttempts}
           />
         </div>
       ) : (
@@ -241,7 +266,7 @@ export function VideoCard({
       </div>
 
       {/* Action Buttons (Story 2.7, AC#4 + Story 2.8, AC#3) */}
-      {video.status === 'Failed' && videoError?.retryable && onRetry ? (
+      {video.status === 'Failed' && videoError?.retryable && onRetry && !retryLimitReached ? (
         // Show retry options for failed retryable videos (Story 2.8, AC#3)
         <div className="p-3 pt-0 flex space-x-2">
           <button
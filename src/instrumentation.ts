@@ -0,0 +1,25 @@
+// Server startup hook (Next.js instrumentation)
+// Restores durable background work that was in flight before the last restart
+
+export async function register() {
+  // Queue, poller and Prisma only run in the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Story 2.5: Resume persisted video generation queue
+  const { videoGenerationQueue } = await import('@/lib/video-generation-queue');
+  await videoGenerationQueue.restore();
+
+  // Story 2.6: Re-queue platform renders that had not finished (before recovered downloads add new ones)
+  const { postProductionPipeline } = await import('@/lib/post-production');
+  await postProductionPipeline.restore();
+
+  // Story 2.6: Recover asset downloads still inside their one-hour Sora window
+  const { assetDownloadManager } = await import('@/lib/asset-download-manager');
+  await assetDownloadManager.restore();
+
+  // Story 2.6: Scheduled storage tiering and retention
+  const { storageRetentionManager } = await import('@/lib/storage-retention');
+  storageRetentionManager.start();
+}
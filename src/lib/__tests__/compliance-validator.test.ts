@@ -2,6 +2,15 @@
 
 import { describe, it, expect } from 'vitest';
 import { complianceValidator, type ScriptContent } from '../compliance-validator';
+import { compileBrandRules } from '../brand-rule-compiler';
+import {
+  DEFAULT_COMPLIANCE_RULES,
+  ComplianceRuleError,
+  mergeRules,
+  validateRules,
+  type ComplianceRule
+} from '../compliance-rules';
+import { countSyllables, estimateSpeechDuration } from '../speech-timing';
 
 describe('ComplianceValidator', () => {
   describe('Layer 1: OpenAI Content Policy', () => {
@@ -235,6 +244,231 @@ describe('ComplianceValidator', () => {
     });
   });
 
+  describe('Brand Rules', () => {
+    const brand = {
+      prohibited_content: [
+        'No real people or recognizable individuals',
+        'Max 30 spoken words if voiceover included',
+        'Banned terms: Tide, Gain',
+        'No mentions of "plastic-free forever"',
+        'Required disclaimer: Results may vary',
+      ],
+    };
+
+    it('should compile limits, banned terms and disclaimers from prohibited_content', () => {
+      const rules = compileBrandRules(brand);
+
+      expect(rules.maxSpokenWords).toBe(30);
+      expect(rules.bannedTerms.map((banned) => banned.term)).toEqual(['Tide', 'Gain', 'plastic-free forever']);
+      expect(rules.requiredDisclaimers).toEqual(['Results may vary']);
+      expect(rules.unenforced).toEqual(['No real people or recognizable individuals']);
+    });
+
+    it('should keep the stricter limit when structured rules are also given', () => {
+      const rules = compileBrandRules({
+        ...brand,
+        compliance_rules: { max_spoken_words: 40, max_syllables: 50, banned_terms: ['Persil'] },
+      });
+
+      expect(rules.maxSpokenWords).toBe(30);
+      expect(rules.maxSyllables).toBe(50);
+      expect(rules.bannedTerms.map((banned) => banned.term)).toContain('Persil');
+    });
+
+    it('should reject scripts that mention a banned term', () => {
+      const script: ScriptContent = {
+        prompt: 'A laundry room with a bottle of tide on the shelf',
+        visualDescription: 'Laundry room',
+        spokenWords: 'Fresh laundry, every time. Results may vary.'
+      };
+
+      const result = complianceValidator.validate(script, brand);
+
+      expect(result.valid).toBe(false);
+      expect(result.layer2Passed).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe('brand_prohibited_term');
+      expect(result.errors[0].details?.term).toBe('Tide');
+    });
+
+    it('should not match banned terms inside other words', () => {
+      const script: ScriptContent = {
+        prompt: 'A tidy laundry room at high tide',
+        visualDescription: 'Bargain hunters folding towels',
+        spokenWords: 'Results may vary.'
+      };
+
+      const result = complianceValidator.validate(script, {
+        prohibited_content: ['Banned terms: Gain'],
+        compliance_rules: { required_disclaimers: ['Results may vary'] },
+      });
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject scripts missing a required disclaimer', () => {
+      const script: ScriptContent = {
+        prompt: 'A bright laundry room',
+        visualDescription: 'Laundry room',
+        spokenWords: 'Fresh laundry, every time.'
+      };
+
+      const result = complianceValidator.validate(script, brand);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].type).toBe('missing_disclaimer');
+    });
+
+    it('should apply the brand word limit instead of the default', () => {
+      const script: ScriptContent = {
+        prompt: 'A bright laundry room',
+        visualDescription: 'Laundry room',
+        spokenWords: Array(35).fill('word').join(' ') + ' Results may vary'
+      };
+
+      const result = complianceValidator.validate(script, brand);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].type).toBe('script_length_exceeded');
+      expect(result.errors[0].details?.maxWords).toBe(30);
+    });
+  });
+
+  describe('Rule Packs', () => {
+    const supplementClaims: ComplianceRule = {
+      id: 'supplements-health-claims',
+      layer: 2,
+      type: 'brand_prohibited_term',
+      pattern: '\\b(cures?|treats?|prevents? disease)\\b',
+      scopes: ['prompt', 'dialog'],
+      severity: 'error',
+      message: 'Script makes a health claim',
+      remediation: 'Remove claims that the product cures, treats, or prevents disease.'
+    };
+
+    it('should enforce rules added by a pack', () => {
+      const rules = mergeRules(DEFAULT_COMPLIANCE_RULES, [supplementClaims]);
+      const script: ScriptContent = {
+        prompt: 'A woman drinks a green smoothie in a sunny kitchen',
+        visualDescription: 'Sunny kitchen',
+        spokenWords: 'This blend cures tiredness'
+      };
+
+      const result = complianceValidator.validate(script, undefined, rules);
+
+      expect(result.valid).toBe(false);
+      expect(result.layer2Passed).toBe(false);
+      expect(result.errors[0].details?.ruleId).toBe('supplements-health-claims');
+      expect(result.errors[0].details?.matches).toContain('cures');
+    });
+
+    it('should let a pack disable a built-in rule', () => {
+      const rules = mergeRules(DEFAULT_COMPLIANCE_RULES, [
+        { ...DEFAULT_COMPLIANCE_RULES.find((rule) => rule.id === 'brand-no-graphics')!, enabled: false }
+      ]);
+      const script: ScriptContent = {
+        prompt: 'Product spinning on a table with animated graphics',
+        visualDescription: 'Product on table',
+        spokenWords: 'Meet the new blender'
+      };
+
+      expect(complianceValidator.validate(script).valid).toBe(false);
+      expect(complianceValidator.validate(script, undefined, rules).valid).toBe(true);
+    });
+
+    it('should report warning-severity rules without failing the script', () => {
+      const rules = mergeRules(DEFAULT_COMPLIANCE_RULES, [{ ...supplementClaims, severity: 'warning' }]);
+      const script: ScriptContent = {
+        prompt: 'A runner stretches at dawn',
+        visualDescription: 'Runner at dawn',
+        spokenWords: 'It treats your muscles right'
+      };
+
+      const result = complianceValidator.validate(script, undefined, rules);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings.some((warning) => warning.includes('health claim'))).toBe(true);
+    });
+
+    it('should let a brand pack override a tenant pack rule with the same id', () => {
+      const rules = mergeRules(DEFAULT_COMPLIANCE_RULES, [supplementClaims], [
+        { ...supplementClaims, pattern: '\\bmiracle\\b' }
+      ]);
+      const script: ScriptContent = {
+        prompt: 'A smoothie on a counter',
+        visualDescription: 'Counter',
+        spokenWords: 'It cures the morning slump'
+      };
+
+      expect(complianceValidator.validate(script, undefined, rules).valid).toBe(true);
+    });
+
+    it('should reject packs with invalid patterns or duplicate ids', () => {
+      expect(() => validateRules([{ ...supplementClaims, pattern: '(unclosed' }])).toThrow(ComplianceRuleError);
+      expect(() => validateRules([supplementClaims, supplementClaims])).toThrow(ComplianceRuleError);
+      expect(() => validateRules([supplementClaims])).not.toThrow();
+    });
+
+    it('should reject patterns that can backtrack catastrophically', () => {
+      for (const pattern of ['(a+)+$', '(a|aa)*b', '(?:\\w+\\s?){2,}x', '(\\w)\\1']) {
+        expect(() => validateRules([{ ...supplementClaims, pattern }])).toThrow(ComplianceRuleError);
+      }
+      expect(() => validateRules(DEFAULT_COMPLIANCE_RULES)).not.toThrow();
+      expect(() => validateRules([{ ...supplementClaims, pattern: '\\b(cures?|heals?)\\b[(+]{1,2}' }])).not.toThrow();
+    });
+  });
+
+  describe('Speech Timing', () => {
+    it('should count syllables from the pronunciation dictionary', () => {
+      // The vowel-group heuristic counts these as 2, 3, 2, 2
+      expect(countSyllables('idea')).toBe(3);
+      expect(countSyllables('business')).toBe(2);
+      expect(countSyllables('used')).toBe(1);
+      expect(countSyllables('makes')).toBe(1);
+    });
+
+    it('should fall back to the heuristic and read out numbers and symbols', () => {
+      expect(countSyllables('jumped')).toBe(1);
+      expect(countSyllables('wanted')).toBe(2);
+      expect(countSyllables('Save 50% today')).toBe(7); // save fif-ty per-cent to-day
+    });
+
+    it('should reject dialog that does not fit the clip length', () => {
+      const script: ScriptContent = {
+        prompt: 'A woman applies serum in a bright bathroom, close-up, soft lighting',
+        visualDescription: 'Bathroom close-up',
+        spokenWords: 'Tired of dull skin? Meet the serum that changes everything, one drop at a time, every single morning.',
+        durationSeconds: 5
+      };
+
+      const result = complianceValidator.validate(script);
+
+      expect(result.valid).toBe(false);
+      const error = result.errors.find((e) => e.type === 'dialog_duration_exceeded');
+      expect(error?.details?.estimatedSeconds).toBeGreaterThan(5);
+      expect(error?.remediation).toContain('longer video duration');
+    });
+
+    it('should pass the same dialog in a longer clip', () => {
+      const script: ScriptContent = {
+        prompt: 'A woman applies serum in a bright bathroom, close-up, soft lighting',
+        visualDescription: 'Bathroom close-up',
+        spokenWords: 'Tired of dull skin? Meet the serum that changes everything, one drop at a time, every single morning.',
+        durationSeconds: 10
+      };
+
+      expect(complianceValidator.validate(script).valid).toBe(true);
+    });
+
+    it('should add pauses for sentence and clause breaks', () => {
+      const plain = estimateSpeechDuration('Try it today see the difference');
+      const paused = estimateSpeechDuration('Try it. Today, see the difference.');
+
+      expect(paused.syllables).toBe(plain.syllables);
+      expect(paused.seconds).toBeGreaterThan(plain.seconds);
+    });
+  });
+
   describe('Batch Validation', () => {
     it('should validate multiple scripts efficiently', () => {
       const scripts: ScriptContent[] = [
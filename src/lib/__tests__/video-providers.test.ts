@@ -0,0 +1,100 @@
+// Video Provider Tests (local fake provider)
+
+import { describe, it, expect } from 'vitest';
+import { FakeVideoProvider, type VideoGenerationRequest, type VideoProvider } from '../video-providers';
+import { SoraAPIError } from '../sora-client';
+
+const request: VideoGenerationRequest = {
+  prompt: 'A bright laundry room at sunrise',
+  model: 'sora-2',
+  durationSeconds: 10,
+  size: '1280x720',
+};
+
+/**
+ * Reads a downloaded placeholder back as a buffer
+ */
+async function readBlob(blob: Blob): Promise<Buffer> {
+  return Buffer.from(await blob.arrayBuffer());
+}
+
+describe('FakeVideoProvider', () => {
+  it('should queue a video and keep it generating until the generation time has passed', async () => {
+    const provider = new FakeVideoProvider(60 * 1000);
+
+    const response = await provider.generateVideo(request);
+    expect(response.status).toBe('queued');
+    expect(response.model).toBe('sora-2');
+    expect(response.duration).toBe(10);
+    expect(response.prompt).toBe(request.prompt);
+
+    const status = await provider.getVideoStatus(response.video_id);
+    expect(['queued', 'in_progress']).toContain(status.status);
+    await expect(provider.downloadVideo(response.video_id)).rejects.toThrow(SoraAPIError);
+  });
+
+  it('should complete videos and download placeholders with real file signatures', async () => {
+    const provider = new FakeVideoProvider(1);
+    const { video_id } = await provider.generateVideo(request);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const status = await provider.getVideoStatus(video_id);
+    expect(status.status).toBe('completed');
+    expect(status.progress).toBe(100);
+
+    const video = await provider.downloadVideo(video_id);
+    expect(video.type).toBe('video/mp4');
+    expect((await readBlob(video)).toString('latin1', 4, 8)).toBe('ftyp');
+
+    const thumbnail = await readBlob(await provider.downloadVideo(video_id, 'thumbnail'));
+    expect(thumbnail.toString('latin1', 8, 12)).toBe('WEBP');
+  });
+
+  it('should fail prompts containing the failure marker', async () => {
+    const provider = new FakeVideoProvider(1);
+    const { video_id } = await provider.generateVideo({ ...request, prompt: 'A kitchen [fail]' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const status = await provider.getVideoStatus(video_id);
+    expect(status.status).toBe('failed');
+    expect(status.error?.type).toBe('generation_failed');
+  });
+
+  it('should reject models outside its capabilities', async () => {
+    const provider = new FakeVideoProvider(1);
+
+    expect(provider.getCapabilities().models['sora-2']?.durations).toContain(10);
+    await expect(provider.generateVideo({ ...request, model: 'veo-3' })).rejects.toThrow(SoraAPIError);
+  });
+
+  it('should remix a video with the source model and duration and the new prompt', async () => {
+    const provider = new FakeVideoProvider(1);
+    const source = await provider.generateVideo({ ...request, model: 'sora-2-pro', durationSeconds: 20 });
+
+    expect(provider.getCapabilities().supportsRemix).toBe(true);
+    const remix = await provider.remixVideo({ sourceVideoId: source.video_id, prompt: 'Same room at night' });
+
+    expect(remix.video_id).not.toBe(source.video_id);
+    expect(remix.model).toBe('sora-2-pro');
+    expect(remix.duration).toBe(20);
+    expect(remix.prompt).toBe('Same room at night');
+  });
+
+  it('should not remix unknown videos', async () => {
+    const provider = new FakeVideoProvider(1);
+
+    await expect(provider.remixVideo({ sourceVideoId: 'video_unknown', prompt: 'Anything' })).rejects.toThrow(
+      SoraAPIError
+    );
+  });
+
+  it('should recover videos created before a restart from their ID', async () => {
+    const provider: VideoProvider = new FakeVideoProvider(1000);
+    const videoId = `fake_${Date.now() - 5000}_999999`;
+
+    const status = await provider.getVideoStatus(videoId);
+    expect(status.status).toBe('completed');
+    expect(status.video_id).toBe(videoId);
+    expect(provider.getEstimatedCost('sora-2', 10)).toBe(0);
+  });
+});
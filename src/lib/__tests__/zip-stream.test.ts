@@ -0,0 +1,108 @@
+// ZIP Stream Writer Tests (Story 2.7, AC#6)
+
+import { describe, it, expect } from 'vitest';
+import { ZipStreamWriter, crc32 } from '../zip-stream';
+
+/**
+ * Central directory entry as read back from a finished archive
+ */
+type ParsedEntry = {
+  name: string;
+  crc: number;
+  size: number;
+  offset: number;
+};
+
+/**
+ * Reads the end record and central directory of a (non-ZIP64) archive
+ */
+function readCentralDirectory(archive: Buffer): { entries: ParsedEntry[]; directoryOffset: number } {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(end + 10);
+  const directorySize = archive.readUInt32LE(end + 12);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const entries: ParsedEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    entries.push({
+      crc: archive.readUInt32LE(position + 16),
+      size: archive.readUInt32LE(position + 24),
+      name: archive.toString('utf8', position + 46, position + 46 + nameLength),
+      offset: archive.readUInt32LE(position + 42),
+    });
+    position += 46 + nameLength + extraLength;
+  }
+
+  return { entries, directoryOffset };
+}
+
+describe('crc32', () => {
+  it('should match the standard CRC-32 check values', () => {
+    expect(crc32(Buffer.from('123456789', 'utf8'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('ZipStreamWriter', () => {
+  it('should write an archive whose local headers, offsets and CRCs match the central directory', () => {
+    const zip = new ZipStreamWriter();
+    const files = [
+      { name: 'batch/video.mp4', data: Buffer.from('first video', 'utf8') },
+      { name: 'batch/video.mp4', data: Buffer.from('second video, same file name', 'utf8') },
+    ];
+
+    const added = files.map((file) => zip.addFile(file.name, file.data));
+    const archive = Buffer.concat([...added.map((entry) => entry.chunk), zip.finish()]);
+
+    expect(added[0].name).toBe('batch/video.mp4');
+    expect(added[1].name).toBe('batch/video (2).mp4');
+
+    const { entries, directoryOffset } = readCentralDirectory(archive);
+    expect(entries).toHaveLength(2);
+
+    let expectedOffset = 0;
+    entries.forEach((entry, index) => {
+      const data = files[index].data;
+      expect(entry.name).toBe(added[index].name);
+      expect(entry.offset).toBe(expectedOffset);
+      expect(entry.size).toBe(data.length);
+      expect(entry.crc).toBe(crc32(data));
+
+      // Local header repeats the central directory's CRC, size and name, followed by the data
+      expect(archive.readUInt32LE(entry.offset)).toBe(0x04034b50);
+      expect(archive.readUInt32LE(entry.offset + 14)).toBe(entry.crc);
+      expect(archive.readUInt32LE(entry.offset + 18)).toBe(data.length);
+      const nameLength = archive.readUInt16LE(entry.offset + 26);
+      const dataStart = entry.offset + 30 + nameLength + archive.readUInt16LE(entry.offset + 28);
+      expect(archive.toString('utf8', entry.offset + 30, entry.offset + 30 + nameLength)).toBe(entry.name);
+      expect(archive.subarray(dataStart, dataStart + data.length).equals(data)).toBe(true);
+
+      expectedOffset = dataStart + data.length;
+    });
+
+    expect(directoryOffset).toBe(expectedOffset);
+  });
+
+  it('should suffix duplicate names without an extension', () => {
+    const zip = new ZipStreamWriter();
+
+    expect(zip.addFile('notes', Buffer.from('a')).name).toBe('notes');
+    expect(zip.addFile('notes', Buffer.from('b')).name).toBe('notes (2)');
+    expect(zip.addFile('notes', Buffer.from('c')).name).toBe('notes (3)');
+  });
+
+  it('should reject files added after the archive is finished', () => {
+    const zip = new ZipStreamWriter();
+    zip.finish();
+
+    expect(() => zip.addFile('late.txt', Buffer.from('late'))).toThrow();
+    expect(() => zip.finish()).toThrow();
+  });
+});
@@ -3,6 +3,7 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { recordLlmSpend } from './spend-ledger';
 
 // Initialize AI clients
 const anthropic = new Anthropic({
@@ -37,6 +38,17 @@ async function callPerplexity(query: string) {
   });
 
   const data = await response.json();
+
+  // Spend ledger (Story 1.5) - pipeline calls are not tied to a tenant
+  await recordLlmSpend(
+    'perplexity',
+    'perplexity_research',
+    'llama-3.1-sonar-large-128k-online',
+    data.usage
+      ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+      : undefined
+  );
+
   return data.choices[0].message.content;
 }
 
@@ -153,6 +165,11 @@ export async function humanizeWithClaude(
       ],
     });
 
+    await recordLlmSpend('anthropic', 'claude', message.model, {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    });
+
     return message.content[0].type === 'text' ? message.content[0].text : '';
   } catch (error) {
     console.error('Claude humanization error:', error);
@@ -196,6 +213,14 @@ export async function optimizeWithGemini(
     `;
 
     const result = await model.generateContent(prompt);
+
+    const usage = result.response.usageMetadata;
+    await recordLlmSpend(
+      'google',
+      'gemini',
+      'gemini-2.5-flash',
+      usage ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount } : undefined
+    );
     const response = result.response.text();
 
     return parseGeminiResponse(response, platform);
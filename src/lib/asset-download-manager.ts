@@ -1,10 +1,22 @@
 // Asset Download and Storage System (Story 2.6)
 // Downloads MP4, thumbnail, spritesheet within 1-hour window with versioning
 // Enhanced with multi-backend storage support (local, NAS, Google Drive)
+// Every asset is hashed, deduplicated per tenant, verified in storage and recorded in the asset catalogue
+// Jobs are persisted to PostgreSQL and recovered on boot, so a redeploy inside the window loses nothing
+// Completed videos are handed to the post-production pipeline for hook/CTA/watermark platform renders
 
-import { soraClient } from './sora-client';
-import { updateVideoVariationStatus, logVideoError } from './notion-client';
+import { createVideoProvider, type VideoProvider } from './video-providers';
+import { updateVariationStatus, recordVariationError, recordDownloadExpiryWarning } from './batch-tracking';
 import { StorageAdapter, createStorageAdapter, StoredFile } from './storage-adapters';
+import { inspectAsset, sha256Hex, verifyStoredAsset } from './asset-integrity';
+import {
+  findAssetByHash,
+  findLatestAsset,
+  getNextAssetVersion,
+  recordVideoAssets,
+} from './database/video-assets';
+import { saveDownloadJob, loadUnfinishedDownloadJobs } from './database/download-jobs';
+import { postProductionPipeline, type PostProductionPipeline } from './post-production';
 import path from 'path';
 
 /**
@@ -12,12 +24,24 @@ import path from 'path';
  */
 export type AssetType = 'video' | 'thumbnail' | 'spritesheet';
 
+/**
+ * How a version came about
+ * - original: first generation of the variation
+ * - remix: regenerated with a modified prompt
+ * - retry: regenerated with the same prompt
+ */
+export type AssetLineage = 'original' | 'remix' | 'retry';
+
 /**
  * Downloaded asset metadata
  */
 export type DownloadedAsset = StoredFile & {
   type: AssetType;
   version: number;
+  sha256: string;
+  mimeType: string;
+  deduplicated: boolean; // Identical content was already stored, so the existing file is reused
+  assetId?: string; // Asset catalogue record
 };
 
 /**
@@ -27,6 +51,9 @@ export type DownloadJob = {
   notionPageId: string;
   soraVideoId: string;
   batchId: string;
+  tenantId?: string; // Scopes the storage location (tenant prefixes on S3)
+  lineage: AssetLineage;
+  referenceId?: string; // Product image or reference frame the video was generated from
   completedAt: Date; // When video completed generation
   expiresAt: Date; // 1-hour expiration (completedAt + 1 hour)
   downloadedAssets: DownloadedAsset[];
@@ -34,6 +61,7 @@ export type DownloadJob = {
   retryCount: number;
   maxRetries: number;
   error?: string;
+  expiryAlertedAt?: Date; // Approaching-expiration alert sent (Notion + in-app)
 };
 
 /**
@@ -50,6 +78,7 @@ export type DownloadSummary = {
 
 const ONE_HOUR_MS = 60 * 60 * 1000; // 1 hour in milliseconds
 const EXPIRATION_WARNING_MS = 10 * 60 * 1000; // 10 minutes before expiration
+const EXPIRATION_CHECK_INTERVAL_MS = 60 * 1000; // Well inside the warning window, so alerts go out early
 const MAX_RETRY_ATTEMPTS = 3; // Story 2.6 retry logic
 
 /**
@@ -59,12 +88,18 @@ const MAX_RETRY_ATTEMPTS = 3; // Story 2.6 retry logic
  */
 export class AssetDownloadManager {
   private downloadJobs: Map<string, DownloadJob> = new Map(); // notionPageId -> job
-  private storage: StorageAdapter;
+  private storage?: StorageAdapter; // Injected adapter, used for every tenant
+  private tenantStorage: Map<string, StorageAdapter> = new Map(); // tenantId -> adapter from config
+  private provider: VideoProvider;
+  private postProduction: PostProductionPipeline;
   private expirationCheckInterval?: NodeJS.Timeout;
+  private restorePromise?: Promise<void>; // Set once persisted jobs have been loaded
 
-  constructor(storage?: StorageAdapter) {
-    // Use provided storage adapter or create one from environment config
-    this.storage = storage || createStorageAdapter();
+  constructor(storage?: StorageAdapter, provider?: VideoProvider, postProduction?: PostProductionPipeline) {
+    // Use provided storage adapter or create one per tenant from environment config
+    this.storage = storage;
+    this.provider = provider || createVideoProvider();
+    this.postProduction = postProduction || postProductionPipeline;
 
     // Start expiration checker (Story 2.6, AC#6)
     this.startExpirationChecker();
@@ -77,7 +112,10 @@ export class AssetDownloadManager {
     notionPageId: string,
     soraVideoId: string,
     batchId: string,
-    completedAt: Date
+    completedAt: Date,
+    tenantId?: string,
+    lineage: AssetLineage = 'original',
+    referenceId?: string
   ): Promise<void> {
     console.log(`[Download Manager] Queueing download for ${soraVideoId}`);
 
@@ -87,6 +125,9 @@ export class AssetDownloadManager {
       notionPageId,
       soraVideoId,
       batchId,
+      tenantId,
+      lineage,
+      referenceId,
       completedAt,
       expiresAt,
       downloadedAssets: [],
@@ -96,11 +137,88 @@ export class AssetDownloadManager {
     };
 
     this.downloadJobs.set(notionPageId, job);
+    await this.persistJob(job);
 
     // Start download immediately (AC#1)
     await this.startDownload(notionPageId);
   }
 
+  /**
+   * Recovers downloads that were pending or in flight before the last shutdown
+   * Jobs still inside their window are resumed in the background, soonest expiry first;
+   * the rest are marked expired. Safe to call multiple times - jobs are only loaded once per process.
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadPersistedJobs();
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * Loads unfinished download jobs from the database and starts the recovery sweep
+   */
+  private async loadPersistedJobs(): Promise<void> {
+    let records;
+    try {
+      records = await loadUnfinishedDownloadJobs();
+    } catch (error) {
+      console.error('[Download Manager] Failed to load persisted download jobs:', error);
+      return;
+    }
+
+    const recoverable: string[] = [];
+
+    for (const record of records) {
+      // A job queued again since boot (e.g. by a resumed poller) is newer than the stored copy
+      if (this.downloadJobs.has(record.notionPageId)) continue;
+
+      const job: DownloadJob = {
+        notionPageId: record.notionPageId,
+        soraVideoId: record.soraVideoId,
+        batchId: record.batchId,
+        tenantId: record.tenantId || undefined,
+        lineage: record.lineage as AssetLineage,
+        referenceId: record.referenceId || undefined,
+        completedAt: record.completedAt,
+        expiresAt: record.expiresAt,
+        downloadedAssets: [],
+        status: 'pending', // Downloads interrupted mid-flight start over
+        retryCount: record.retryCount,
+        maxRetries: record.maxRetries,
+        error: record.error || undefined,
+        expiryAlertedAt: record.expiryAlertedAt || undefined,
+      };
+
+      this.downloadJobs.set(job.notionPageId, job);
+      recoverable.push(job.notionPageId);
+    }
+
+    console.log(`[Download Manager] Recovering ${recoverable.length} downloads from before the restart`);
+
+    // Run the sweep in the background so server startup is not held up by downloads
+    void this.recoverDownloads(recoverable);
+  }
+
+  /**
+   * Resumes recovered downloads one at a time (expired jobs are marked and logged by startDownload)
+   */
+  private async recoverDownloads(notionPageIds: string[]): Promise<void> {
+    for (const notionPageId of notionPageIds) {
+      const job = this.downloadJobs.get(notionPageId);
+      if (job?.status !== 'pending') continue;
+
+      try {
+        await this.startDownload(notionPageId);
+      } catch (error) {
+        console.error(`[Download Manager] Recovery failed for ${notionPageId}:`, error);
+      }
+    }
+
+    // Alert on anything recovered too close to expiry to be sure of finishing
+    await this.checkExpirations();
+  }
+
   /**
    * Starts downloading all assets for a video (Story 2.6, AC#1-3)
    */
@@ -113,9 +231,10 @@ export class AssetDownloadManager {
       console.warn(`[Download Manager] Download window expired for ${job.soraVideoId}`);
       job.status = 'expired';
       job.error = 'Download window expired (>1 hour since completion)';
+      await this.persistJob(job);
 
-      // Log error to Notion
-      await logVideoError(
+      // Record the error on the video
+      await recordVariationError(
         notionPageId,
         'download_failed',
         job.error,
@@ -125,25 +244,39 @@ export class AssetDownloadManager {
     }
 
     job.status = 'downloading';
+    await this.persistJob(job);
     console.log(`[Download Manager] Starting download for ${job.soraVideoId}`);
 
     try {
       // Determine version number (AC#4 - versioning)
-      const version = await this.getNextVersion(job.batchId, job.soraVideoId);
+      const version = await this.getNextVersion(job);
 
       // Download all three assets (AC#1-3)
       const videoAsset = await this.downloadAsset(job, 'video', version);
       const thumbnailAsset = await this.downloadAsset(job, 'thumbnail', version);
       const spritesheetAsset = await this.downloadAsset(job, 'spritesheet', version);
 
-      // Store asset metadata
-      job.downloadedAssets = [videoAsset, thumbnailAsset, spritesheetAsset];
+      // Catalogue only complete, verified downloads so a partial attempt never claims a version
+      job.downloadedAssets = await this.recordAssets(job, [videoAsset, thumbnailAsset, spritesheetAsset]);
       job.status = 'completed';
 
       console.log(`[Download Manager] Download completed for ${job.soraVideoId}`);
 
-      // Update Notion with file paths/URLs (AC#5)
-      await this.updateNotionWithAssets(job);
+      // Record the video URL on the variation (AC#5)
+      await this.updateVariationWithAssets(job);
+      await this.persistJob(job);
+
+      // Platform renders run in the background; the raw video is already usable
+      await this.postProduction.enqueue({
+        notionPageId: job.notionPageId,
+        soraVideoId: job.soraVideoId,
+        batchId: job.batchId,
+        tenantId: job.tenantId,
+        version: videoAsset.version,
+        lineage: job.lineage,
+        video: { backend: videoAsset.backend, path: videoAsset.path },
+        videoAssetId: job.downloadedAssets.find((asset) => asset.type === 'video')?.assetId,
+      });
     } catch (error) {
       console.error(`[Download Manager] Download failed for ${job.soraVideoId}:`, error);
 
@@ -154,6 +287,7 @@ export class AssetDownloadManager {
       if (job.retryCount < job.maxRetries && !this.isExpired(job)) {
         console.log(`[Download Manager] Retrying download (${job.retryCount}/${job.maxRetries})`);
         job.status = 'pending';
+        await this.persistJob(job); // Still pending in the database, so a restart picks it up
 
         // Exponential backoff: 1s, 2s, 4s
         const delayMs = Math.pow(2, job.retryCount - 1) * 1000;
@@ -161,9 +295,10 @@ export class AssetDownloadManager {
       } else {
         job.status = 'failed';
         job.error = errorMessage;
+        await this.persistJob(job);
 
-        // Log error to Notion
-        await logVideoError(notionPageId, 'download_failed', errorMessage, {
+        // Record the error on the video
+        await recordVariationError(notionPageId, 'download_failed', errorMessage, {
           soraVideoId: job.soraVideoId,
           retryCount: job.retryCount,
         });
@@ -173,6 +308,8 @@ export class AssetDownloadManager {
 
   /**
    * Downloads a single asset (video, thumbnail, or spritesheet)
+   * Stores it unless the tenant already has identical content on the backend,
+   * then reads it back and checks the hash
    */
   private async downloadAsset(
     job: DownloadJob,
@@ -181,28 +318,120 @@ export class AssetDownloadManager {
   ): Promise<DownloadedAsset> {
     console.log(`[Download Manager] Downloading ${assetType} for ${job.soraVideoId}`);
 
-    // Call Sora 2 API to download asset (Story 2.4 integration, AC#1-3)
-    const blob = await soraClient.downloadVideo(job.soraVideoId, assetType);
-
-    // Generate file name with version (AC#4)
-    const fileName = this.generateFileName(job.soraVideoId, assetType, version);
-    const relativePath = path.join(job.batchId, fileName);
+    // Download asset from video provider (Story 2.4 integration, AC#1-3)
+    const blob = await this.provider.downloadVideo(job.soraVideoId, assetType);
 
     // Convert blob to buffer
     const buffer = Buffer.from(await blob.arrayBuffer());
 
-    // Save using storage adapter
-    const storedFile = await this.storage.saveFile(relativePath, buffer);
+    // Reject empty or corrupt downloads before anything is stored
+    const mimeType = inspectAsset(assetType, buffer);
+    const sha256 = sha256Hex(buffer);
+    const storage = this.getStorage(job.tenantId);
+
+    let storedFile = await this.findDuplicate(job, storage, sha256);
+    const deduplicated = storedFile !== undefined;
 
-    console.log(`[Download Manager] Saved ${assetType} to storage (${storedFile.backend})`);
+    if (storedFile) {
+      console.log(`[Download Manager] ${assetType} matches stored file ${storedFile.path}, reusing it`);
+    } else {
+      // Generate file name with version (AC#4)
+      const fileName = this.generateFileName(job.soraVideoId, assetType, version);
+      const relativePath = path.join(job.batchId, fileName);
+
+      // Save using storage adapter
+      storedFile = await storage.saveFile(relativePath, buffer);
+      console.log(`[Download Manager] Saved ${assetType} to storage (${storedFile.backend})`);
+    }
+
+    // Verify what the backend holds, not what we sent
+    verifyStoredAsset(storedFile.path, await storage.readFile(storedFile.path), {
+      sha256,
+      sizeBytes: buffer.length,
+    });
 
     return {
       ...storedFile,
+      size: buffer.length,
       type: assetType,
       version,
+      sha256,
+      mimeType,
+      deduplicated,
     };
   }
 
+  /**
+   * Stored file with the same content for the job's tenant on this backend, if it still exists
+   */
+  private async findDuplicate(
+    job: DownloadJob,
+    storage: StorageAdapter,
+    sha256: string
+  ): Promise<StoredFile | undefined> {
+    const existing = await findAssetByHash(job.tenantId, sha256, storage.backend);
+    if (!existing || !(await storage.fileExists(existing.storagePath))) {
+      return undefined;
+    }
+
+    return {
+      path: existing.storagePath,
+      url: existing.url,
+      size: existing.sizeBytes,
+      storedAt: existing.createdAt,
+      backend: storage.backend,
+    };
+  }
+
+  /**
+   * Records verified assets in the catalogue, linked to the previous version of each type
+   */
+  private async recordAssets(job: DownloadJob, assets: DownloadedAsset[]): Promise<DownloadedAsset[]> {
+    const verifiedAt = new Date();
+    const parents = await Promise.all(
+      assets.map((asset) => findLatestAsset(job.notionPageId, asset.type))
+    );
+
+    const records = await recordVideoAssets(
+      assets.map((asset, index) => ({
+        tenantId: job.tenantId,
+        notionPageId: job.notionPageId,
+        batchId: job.batchId,
+        soraVideoId: job.soraVideoId,
+        assetType: asset.type,
+        version: asset.version,
+        lineage: job.lineage,
+        parentAssetId: parents[index]?.id,
+        referenceId: job.referenceId,
+        sha256: asset.sha256,
+        sizeBytes: asset.size,
+        mimeType: asset.mimeType,
+        storageBackend: asset.backend,
+        storagePath: asset.path,
+        url: asset.url,
+        verifiedAt,
+      }))
+    );
+
+    return assets.map((asset, index) => ({ ...asset, assetId: records[index].id }));
+  }
+
+  /**
+   * Storage adapter for a tenant (the injected adapter wins when provided)
+   */
+  private getStorage(tenantId?: string): StorageAdapter {
+    if (this.storage) return this.storage;
+
+    const key = tenantId || '';
+    let storage = this.tenantStorage.get(key);
+    if (!storage) {
+      storage = createStorageAdapter(tenantId);
+      this.tenantStorage.set(key, storage);
+    }
+
+    return storage;
+  }
+
   /**
    * Generates file name with version (Story 2.6, AC#4)
    */
@@ -218,53 +447,31 @@ export class AssetDownloadManager {
   }
 
   /**
-   * Gets next version number for a video (AC#4 - versioning)
+   * Gets next version number for a video from the asset catalogue (AC#4 - versioning)
    */
-  private async getNextVersion(batchId: string, soraVideoId: string): Promise<number> {
-    try {
-      // List files in batch directory using storage adapter
-      const files = await this.storage.listFiles(batchId);
-
-      // Find highest version number for this video
-      const versionRegex = new RegExp(`${soraVideoId}_V(\\d+)`);
-      let maxVersion = 0;
-
-      for (const file of files) {
-        const match = file.match(versionRegex);
-        if (match) {
-          const version = parseInt(match[1]);
-          if (version > maxVersion) {
-            maxVersion = version;
-          }
-        }
-      }
-
-      return maxVersion + 1; // Next version
-    } catch (error) {
-      // Directory doesn't exist or is empty, start at V1
-      return 1;
-    }
+  private async getNextVersion(job: DownloadJob): Promise<number> {
+    return getNextAssetVersion(job.notionPageId);
   }
 
   /**
-   * Updates Notion record with asset file paths/URLs (Story 2.6, AC#5)
+   * Updates the video variation (and its Notion mirror) with asset file paths/URLs (Story 2.6, AC#5)
    */
-  private async updateNotionWithAssets(job: DownloadJob): Promise<void> {
-    console.log(`[Download Manager] Updating Notion with asset URLs for ${job.notionPageId}`);
+  private async updateVariationWithAssets(job: DownloadJob): Promise<void> {
+    console.log(`[Download Manager] Updating video variation with asset URLs for ${job.notionPageId}`);
 
     try {
       // Get video asset URL from storage adapter
       const videoAsset = job.downloadedAssets.find((a) => a.type === 'video');
       const videoUrl = videoAsset?.url;
 
-      // Update Notion (Story 2.3 integration, AC#5)
-      await updateVideoVariationStatus(job.notionPageId, 'Completed', {
+      // Story 2.3 integration, AC#5
+      await updateVariationStatus(job.notionPageId, 'completed', {
         videoUrl,
       });
 
-      console.log(`[Download Manager] Notion updated with video URL: ${videoUrl}`);
+      console.log(`[Download Manager] Video variation updated with video URL: ${videoUrl}`);
     } catch (error) {
-      console.error(`[Download Manager] Failed to update Notion:`, error);
+      console.error(`[Download Manager] Failed to update video variation:`, error);
       throw error;
     }
   }
@@ -288,44 +495,65 @@ export class AssetDownloadManager {
    * Starts periodic expiration checker (Story 2.6, AC#6)
    */
   private startExpirationChecker(): void {
-    // Check every 5 minutes
     this.expirationCheckInterval = setInterval(() => {
       this.checkExpirations();
-    }, 5 * 60 * 1000);
+    }, EXPIRATION_CHECK_INTERVAL_MS);
   }
 
   /**
    * Checks for expired or expiring downloads (Story 2.6, AC#6)
+   * Each expiring job is alerted once: a warning on the Notion mirror, and
+   * expiryAlertedAt for the in-app banner (batch status and download status APIs)
    */
-  private checkExpirations(): void {
+  private async checkExpirations(): Promise<void> {
     for (const [notionPageId, job] of this.downloadJobs.entries()) {
-      if (job.status === 'pending' || job.status === 'downloading') {
-        if (this.isExpired(job)) {
-          console.warn(`[Download Manager] Download EXPIRED for ${job.soraVideoId}`);
-          job.status = 'expired';
-          job.error = 'Download window expired (>1 hour since completion)';
-
-          // Log to Notion
-          logVideoError(
-            notionPageId,
-            'download_failed',
-            job.error,
-            { soraVideoId: job.soraVideoId, expiresAt: job.expiresAt }
-          );
-        } else if (this.isApproachingExpiration(job)) {
-          const minutesRemaining = Math.floor(
-            (job.expiresAt.getTime() - Date.now()) / (60 * 1000)
-          );
-          console.warn(
-            `[Download Manager] Download EXPIRING SOON for ${job.soraVideoId} (${minutesRemaining} minutes remaining)`
-          );
-
-          // Could send alert/notification here
-        }
+      if (job.status !== 'pending' && job.status !== 'downloading') continue;
+
+      if (this.isExpired(job)) {
+        console.warn(`[Download Manager] Download EXPIRED for ${job.soraVideoId}`);
+        job.status = 'expired';
+        job.error = 'Download window expired (>1 hour since completion)';
+        await this.persistJob(job);
+
+        // Record the error on the video
+        await recordVariationError(
+          notionPageId,
+          'download_failed',
+          job.error,
+          { soraVideoId: job.soraVideoId, expiresAt: job.expiresAt }
+        );
+      } else if (this.isApproachingExpiration(job) && !job.expiryAlertedAt) {
+        const minutesRemaining = Math.floor(
+          (job.expiresAt.getTime() - Date.now()) / (60 * 1000)
+        );
+        console.warn(
+          `[Download Manager] Download EXPIRING SOON for ${job.soraVideoId} (${minutesRemaining} minutes remaining)`
+        );
+
+        job.expiryAlertedAt = new Date();
+        await this.persistJob(job);
+        await recordDownloadExpiryWarning(notionPageId, minutesRemaining, {
+          soraVideoId: job.soraVideoId,
+          status: job.status,
+          retryCount: job.retryCount,
+          expiresAt: job.expiresAt,
+        });
       }
     }
   }
 
+  /**
+   * Mirrors a job's state to the database
+   * Database errors are logged, not thrown - the in-memory download carries on
+   */
+  private async persistJob(job: DownloadJob): Promise<void> {
+    try {
+      await saveDownloadJob(job);
+    } catch (error) {
+      console.error(`[Download Manager] Failed to persist download job for ${job.notionPageId}:`, error);
+    }
+  }
+
   /**
    * Gets download status for a specific video
    */
@@ -389,12 +617,13 @@ export class AssetDownloadManager {
   }
 
   /**
-   * Gets all downloads approaching expiration
+   * Gets all downloads approaching expiration, optionally for one batch
    */
-  getExpiringDownloads(): DownloadJob[] {
+  getExpiringDownloads(batchId?: string): DownloadJob[] {
     return Array.from(this.downloadJobs.values()).filter(
       (job) =>
         (job.status === 'pending' || job.status === 'downloading') &&
+        (!batchId || job.batchId === batchId) &&
         this.isApproachingExpiration(job)
     );
   }
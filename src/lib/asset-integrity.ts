@@ -0,0 +1,94 @@
+// Asset Integrity Checks (Story 2.6)
+// Hashes downloaded assets, checks their file signatures and verifies what the
+// storage backend actually holds before a video is marked Completed
+
+import { createHash } from 'crypto';
+import type { AssetType } from './asset-download-manager';
+
+/**
+ * Raised when a downloaded or stored asset is empty, truncated or the wrong format
+ * Download failures are retried, so a corrupt asset is fetched again
+ */
+export class AssetIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetIntegrityError';
+  }
+}
+
+// Accepted MIME types per asset type (the provider may send either image format)
+const EXPECTED_MIME_TYPES: Record<AssetType, string[]> = {
+  video: ['video/mp4'],
+  thumbnail: ['image/webp', 'image/jpeg'],
+  spritesheet: ['image/jpeg', 'image/webp'],
+};
+
+/**
+ * SHA-256 of the content, hex encoded
+ */
+export function sha256Hex(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Detects the MIME type from the file signature (undefined if unrecognised)
+ * - MP4: "ftyp" box at byte 4
+ * - WebP: "RIFF" .... "WEBP"
+ * - JPEG: FF D8 FF
+ * - PNG: 89 "PNG" (uploaded reference images)
+ */
+export function sniffMimeType(data: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) => Buffer.from(data.subarray(start, end)).toString('latin1');
+
+  if (data.length >= 12 && ascii(4, 8) === 'ftyp') {
+    return 'video/mp4';
+  }
+  if (data.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 8 && data[0] === 0x89 && ascii(1, 4) === 'PNG') {
+    return 'image/png';
+  }
+  return undefined;
+}
+
+/**
+ * Checks a downloaded asset and returns its MIME type
+ * @throws AssetIntegrityError if the asset is empty or not the expected format
+ */
+export function inspectAsset(assetType: AssetType, data: Uint8Array): string {
+  if (data.length === 0) {
+    throw new AssetIntegrityError(`Downloaded ${assetType} is empty`);
+  }
+
+  const mimeType = sniffMimeType(data);
+  if (!mimeType || !EXPECTED_MIME_TYPES[assetType].includes(mimeType)) {
+    throw new AssetIntegrityError(
+      `Downloaded ${assetType} is not a valid ${EXPECTED_MIME_TYPES[assetType].join(' or ')} file`
+    );
+  }
+
+  return mimeType;
+}
+
+/**
+ * Compares stored content with the hash recorded at download time
+ * @throws AssetIntegrityError on a size or hash mismatch
+ */
+export function verifyStoredAsset(
+  relativePath: string,
+  stored: Uint8Array,
+  expected: { sha256: string; sizeBytes: number }
+): void {
+  if (stored.length !== expected.sizeBytes) {
+    throw new AssetIntegrityError(
+      `Stored file ${relativePath} is ${stored.length} bytes, expected ${expected.sizeBytes}`
+    );
+  }
+  if (sha256Hex(stored) !== expected.sha256) {
+    throw new AssetIntegrityError(`Stored file ${relativePath} does not match its SHA-256 hash`);
+  }
+}
@@ -0,0 +1,39 @@
+// Story 3.4: Tenant Isolation - Batch Access
+// Batch routes take a client-supplied batch ID, so every one of them checks the batch's owning tenant
+
+import type { User } from "@prisma/client";
+import { getBatchOwnerTenantId, getVideoBatchId } from "@/lib/database/batches";
+
+/**
+ * Checks a batch belongs to the user's tenant
+ * The owner is the batch's database record, never in-memory queue state, so finished batches stay protected.
+ * Batches not submitted yet have no record: they are denied unless allowUnsubmitted is set, and then belong
+ * to the tenant that already attached something to them (claimedTenantId), if any.
+ * @param options.allowUnsubmitted - The route prepares batches before /api/generate-batch (uploads)
+ * @param options.claimedTenantId - Tenant of data already stored for the unsubmitted batch
+ */
+export async function authorizeBatch(
+  batchId: string,
+  user: Pick<User, "tenantId">,
+  options: { allowUnsubmitted?: boolean; claimedTenantId?: string | null } = {}
+): Promise<boolean> {
+  const ownerTenantId = await getBatchOwnerTenantId(batchId);
+
+  if (ownerTenantId === undefined) {
+    if (!options.allowUnsubmitted) {
+      return false;
+    }
+    return !options.claimedTenantId || options.claimedTenantId === user.tenantId;
+  }
+
+  return ownerTenantId === user.tenantId;
+}
+
+/**
+ * Checks a video belongs to the user's tenant, through the batch it was generated in
+ * Unknown videos are denied
+ */
+export async function authorizeVideo(videoId: string, user: Pick<User, "tenantId">): Promise<boolean> {
+  const batchId = await getVideoBatchId(videoId);
+  return batchId !== undefined && authorizeBatch(batchId, user);
+}
@@ -105,6 +105,17 @@ export function hasAllPermissions(role: Role, permissions: Permission[]): boolea
   return permissions.every((permission) => hasPermission(role, permission));
 }
 
+/**
+ * Platform operators, by Clerk user ID (PLATFORM_ADMIN_USER_IDS, comma-separated)
+ * Tenant roles never grant platform-wide changes such as publishing rate cards
+ */
+export function isPlatformAdmin(clerkId: string): boolean {
+  return (process.env.PLATFORM_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(clerkId);
+}
+
 /**
  * User authorization context
  */
@@ -0,0 +1,415 @@
+// Batch Generation (Epic 2 Story 2.1)
+// Dashboard batch → campaign, GPT-5 prompts, batch records (mirrored to Notion) and queued Sora jobs
+// Shared by /api/generate-batch and the admin approval of batches held for approval (Story 1.5)
+
+import { campaignApi, combinationApi } from './campaign-api';
+import { createBatchTracking, recordVariationError } from './batch-tracking';
+import { videoGenerationQueue, type QueuedVideo } from './video-generation-queue';
+import type { PromptGenerationInput } from './gpt-5-prompt-builder';
+import { generateCompliantPrompt, validateReviewedPrompt } from './prompt-remediation';
+import type { ValidationError } from './compliance-validator';
+import { mapDashboardSettings, type VideoGenerationSettings } from './sora-request-mapper';
+import { selectReference } from './generation-references';
+import { getCombinationKey } from './matrix-calculator';
+import { loadBatchReferences } from './database/generation-references';
+import { createPromptReview } from './database/prompt-reviews';
+import type { NewVideoVariation } from './database/batches';
+import { recordBatchEstimate } from './cost-reconciliation';
+import { getSoraCost } from './pricing-config';
+import { getActiveRateCard } from './rate-cards';
+import type { DashboardFormData, VideoCombination } from '@/types/dashboard';
+import type { VideoVariation } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * generate-batch request body
+ */
+export type BatchGenerationRequest = {
+  formData: DashboardFormData;
+  matrixResult: { combinations: VideoCombination[] };
+  excludedCombinations: string[];
+  batchId: string;
+};
+
+/**
+ * Validated settings and the combinations that will be generated
+ */
+export type PreparedBatch = {
+  generationSettings: VideoGenerationSettings;
+  activeCombinations: VideoCombination[];
+};
+
+/**
+ * Submitted batch summary
+ */
+export type BatchGenerationResult = {
+  success: true;
+  batchId: string;
+  totalVideos: number;
+  notionRecords: number; // Videos mirrored to Notion (0 without Notion)
+  status: 'queued';
+  compliance: {
+    compliantVideos: number;
+    totalVideos: number;
+    complianceRate: number;
+    remediatedVideos: number; // Compliant only after one or more remediation rounds
+    heldForReview: number; // Still non-compliant after remediation; not queued until reviewed
+    failedToHold: number; // Non-compliant and the review queue was unavailable; marked failed, not queued
+  };
+  message: string;
+};
+
+/**
+ * A batch step that cannot be skipped failed
+ */
+export class BatchGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchGenerationError';
+  }
+}
+
+/**
+ * Validates generation settings and drops excluded combinations
+ * @throws SoraParameterError if the form asks for settings Sora does not support (Story 2.4, AC#6)
+ */
+export function prepareBatch(request: BatchGenerationRequest): PreparedBatch {
+  const generationSettings = mapDashboardSettings(request.formData);
+  const excluded = new Set(request.excludedCombinations);
+
+  return {
+    generationSettings,
+    activeCombinations: request.matrixResult.combinations.filter(
+      (combo) => !excluded.has(getCombinationKey(combo))
+    ),
+  };
+}
+
+/**
+ * Creates the campaign, prompts, batch and combination records, then queues every video
+ * Notion mirror and combination record failures are logged and skipped
+ * @throws BatchGenerationError if the campaign or batch records cannot be created or the videos cannot be queued
+ */
+export async function runBatchGeneration(
+  request: BatchGenerationRequest,
+  prepared: PreparedBatch,
+  tenantId?: string
+): Promise<BatchGenerationResult> {
+  const { formData, batchId } = request;
+  const { generationSettings, activeCombinations } = prepared;
+
+  // Submission-time estimate, reconciled against actual spend later (Story 1.5)
+  await recordBatchEstimate(
+    batchId,
+    generationSettings.model,
+    generationSettings.duration,
+    activeCombinations.length,
+    tenantId
+  );
+
+  // Step 1: Create campaign in database (Epic 3 integration)
+  try {
+    await campaignApi.create({
+      campaign_id: batchId,
+      brand_id: formData.brand,
+      big_idea: formData.bigIdea,
+      product_category: formData.productCategory || '',
+      created_at: new Date(),
+      status: 'generating',
+      total_variations: activeCombinations.length,
+      winner_count: 0,
+    });
+
+    console.log(`[Batch Gen] Campaign ${batchId} created in database`);
+  } catch (error) {
+    console.error('[Batch Gen] Failed to create campaign:', error);
+    throw new BatchGenerationError('Failed to create campaign');
+  }
+
+  // Step 2: Generate brand-aligned prompts with GPT-5 builder
+  console.log(`[Batch Gen] Generating ${activeCombinations.length} brand-aligned prompts...`);
+  const promptResults = await Promise.all(
+    activeCombinations.map(async (combo, index) => {
+      const input: PromptGenerationInput = {
+        batchId,
+        tenantId,
+        brandId: formData.brand,
+        productCategory: formData.productCategory || '',
+        bigIdea: formData.bigIdea,
+        combination: combo,
+        visualMessaging: formData.visualMessaging,
+        audioMessaging: formData.audioMessaging,
+        heroVoDescription: formData.heroVoDescription,
+        videoDuration: generationSettings.duration,
+      };
+
+      // Non-compliant prompts are regenerated with the validator's feedback (Story 2.1)
+      const result = await generateCompliantPrompt(input);
+
+      if (result.status === 'failed') {
+        console.warn(`[Batch Gen] Prompt generation failed for combination ${index}:`, result.error);
+        // Fallback to simple prompt if GPT-5 fails - it reaches Sora only if it passes compliance too
+        const prompt = buildSoraPromptFallback(formData, combo);
+        let compliant = false;
+        let complianceErrors: ValidationError[] = [];
+        try {
+          const validation = await validateReviewedPrompt(
+            prompt,
+            formData.brand,
+            tenantId,
+            undefined,
+            generationSettings.duration
+          );
+          compliant = validation.valid;
+          complianceErrors = validation.errors;
+        } catch (validationError) {
+          // Unvalidated prompts are held for review rather than sent to Sora
+          console.error(`[Batch Gen] Failed to validate fallback prompt for combination ${index}:`, validationError);
+        }
+
+        return {
+          prompt,
+          compliant,
+          escalated: !compliant,
+          rounds: 0,
+          complianceErrors,
+          error: result.error,
+        };
+      }
+
+      // Still failing after remediation - held for human review instead of being sent to Sora
+      if (result.status === 'escalated') {
+        console.warn(
+          `[Batch Gen] Compliance validation failed for combination ${index} after ${result.rounds} remediation round(s):`,
+          result.errors
+        );
+        return {
+          prompt: result.prompt.fullPrompt,
+          spokenDialog: result.prompt.spokenDialog,
+          compliant: false,
+          escalated: true,
+          rounds: result.rounds,
+          complianceErrors: result.errors,
+        };
+      }
+
+      console.log(
+        `[Batch Gen] ✓ Generated compliant prompt for ${combo.funnelLevel}-${combo.aesthetic}-${combo.type}`
+      );
+
+      return {
+        prompt: result.prompt.fullPrompt,
+        spokenDialog: result.prompt.spokenDialog,
+        compliant: true,
+        rounds: result.rounds,
+        brandCanonUsed: result.prompt.brandCanon.brand_id,
+        trendContext: result.prompt.trendContext,
+      };
+    })
+  );
+
+  // Calculate compliance metrics
+  const compliantCount = promptResults.filter(r => r.compliant).length;
+  const complianceRate = ((compliantCount / promptResults.length) * 100).toFixed(1);
+  const remediatedCount = promptResults.filter(r => r.compliant && r.rounds > 0).length;
+
+  console.log(`[Batch Gen] Compliance rate: ${complianceRate}% (${compliantCount}/${promptResults.length})`);
+
+  // Step 3: Create batch and video variation records with generated prompts (Story 2.3)
+  // These are the source of truth for the batch pages; Notion only mirrors them
+  const rateCard = await getActiveRateCard();
+  const newVariations: NewVideoVariation[] = activeCombinations.map((combo, index) => {
+    const promptResult = promptResults[index];
+
+    return {
+      combinationId: uuidv4(),
+      combination: combo,
+      status: promptResult.escalated ? ('needs_review' as const) : ('pending' as const),
+      prompt: promptResult.prompt,
+      cost: getSoraCost(generationSettings.model, generationSettings.duration, rateCard),
+    };
+  });
+
+  let variations: VideoVariation[];
+  try {
+    variations = await createBatchTracking(
+      {
+        batchId,
+        tenantId,
+        brandId: formData.brand,
+        bigIdea: formData.bigIdea,
+        productCategory: formData.productCategory || undefined,
+        model: generationSettings.model,
+        duration: generationSettings.duration,
+        aspectRatio: generationSettings.aspectRatio,
+      },
+      newVariations
+    );
+  } catch (error) {
+    console.error('[Batch Gen] Failed to create batch records:', error);
+    throw new BatchGenerationError('Failed to create batch records');
+  }
+
+  const notionRecordCount = variations.filter((variation) => variation.notionPageId).length;
+
+  // Step 4: Create tested combination records in database
+  for (let i = 0; i < activeCombinations.length; i++) {
+    const combo = activeCombinations[i];
+    const variation = variations[i];
+
+    try {
+      await combinationApi.add({
+        combination_id: variation.combinationId,
+        campaign_id: batchId,
+        brand_id: formData.brand,
+        dimension_values: combo,
+        dimension_hash: '', // Will be calculated by backend
+        organic_metrics: {},
+        winner_status: 'pending',
+        video_url: undefined,
+        notion_record_id: variation.notionPageId ?? undefined,
+        created_at: new Date(),
+      });
+    } catch (error) {
+      console.error(`[Batch Gen] Failed to create combination record:`, error);
+      // Non-blocking - continue with other videos
+    }
+  }
+
+  console.log(`[Batch Gen] Created ${activeCombinations.length} combination records`);
+
+  // Step 5: Queue videos for generation (Epic 2 Story 2.5)
+  // Product image and reference frames uploaded for the batch (Story 2.4)
+  const references = await loadBatchReferences(batchId);
+  if (references.length > 0) {
+    console.log(`[Batch Gen] Attaching ${references.length} reference image(s) to queued videos`);
+  }
+
+  const videos = variations.map((variation, index) => {
+    const video: QueuedVideo = {
+      notionPageId: variation.id,
+      batchId,
+      combinationId: variation.combinationId,
+      tenantId,
+      priority: 'bulk' as const, // Matrix generations yield to revisions and remixes
+      referenceId: selectReference(references, getCombinationKey(activeCombinations[index]))?.id,
+      prompt: promptResults[index].prompt,
+      model: generationSettings.model,
+      duration: generationSettings.duration,
+      aspectRatio: generationSettings.aspectRatio,
+      loop: false,
+      queuedAt: new Date(),
+    };
+    return { video, index };
+  });
+
+  // Escalated prompts wait in the review queue; a reviewer approves (or fixes) them before they reach Sora
+  const queuedVideos: QueuedVideo[] = [];
+  let heldCount = 0;
+  let failedToHoldCount = 0;
+  for (const { video, index } of videos) {
+    const promptResult = promptResults[index];
+
+    if (!promptResult.escalated) {
+      queuedVideos.push(video);
+      continue;
+    }
+
+    try {
+      await createPromptReview({
+        batchId,
+        tenantId,
+        brandId: formData.brand,
+        combinationKey: getCombinationKey(activeCombinations[index]),
+        prompt: promptResult.prompt,
+        dialog: promptResult.spokenDialog,
+        errors: promptResult.complianceErrors ?? [],
+        rounds: promptResult.rounds,
+        video,
+      });
+      heldCount++;
+    } catch (error) {
+      // Never send a known non-compliant prompt to Sora just because the review queue is unavailable
+      console.error(`[Batch Gen] Failed to hold video ${video.notionPageId} for prompt review:`, error);
+      await recordVariationError(
+        video.notionPageId,
+        'compliance_failed',
+        'Prompt failed compliance and could not be held for review',
+        { errors: promptResult.complianceErrors ?? [] }
+      );
+      failedToHoldCount++;
+    }
+  }
+
+  if (heldCount > 0) {
+    console.log(`[Batch Gen] Held ${heldCount} video(s) for prompt review`);
+  }
+
+  // Submit to video generation queue
+  try {
+    await videoGenerationQueue.submitBatch(queuedVideos);
+    console.log(`[Batch Gen] Queued ${queuedVideos.length} videos for generation`);
+  } catch (error) {
+    console.error('[Batch Gen] Failed to queue videos:', error);
+    throw new BatchGenerationError('Failed to queue videos for generation');
+  }
+
+  // Return success with batch info
+  return {
+    success: true,
+    batchId,
+    totalVideos: activeCombinations.length,
+    notionRecords: notionRecordCount,
+    status: 'queued',
+    compliance: {
+      compliantVideos: compliantCount,
+      totalVideos: promptResults.length,
+      complianceRate: parseFloat(complianceRate),
+      remediatedVideos: remediatedCount,
+      heldForReview: heldCount,
+      failedToHold: failedToHoldCount,
+    },
+    message:
+      `Batch ${batchId} submitted successfully. ${queuedVideos.length} videos queued for generation (${complianceRate}% brand-compliant).` +
+      (heldCount > 0 ? ` ${heldCount} video(s) held for prompt review.` : '') +
+      (failedToHoldCount > 0 ? ` ${failedToHoldCount} non-compliant video(s) failed because the review queue was unavailable.` : ''),
+  };
+}
+
+/**
+ * Fallback: Simple prompt builder (used only when GPT-5 builder fails)
+ * This is a basic implementation without brand canon or compliance validation
+ */
+function buildSoraPromptFallback(formData: DashboardFormData, combo: VideoCombination): string {
+  console.warn('[Batch Gen] Using fallback prompt builder (no brand alignment)');
+
+  // Combine form data with combination to create detailed prompt
+  const parts: string[] = [];
+
+  // Big idea as foundation
+  parts.push(formData.bigIdea);
+
+  // Visual messaging
+  if (formData.visualMessaging) {
+    parts.push(formData.visualMessaging);
+  }
+
+  // Combination dimensions
+  parts.push(`Style: ${combo.aesthetic}`);
+  parts.push(`Type: ${combo.type}`);
+  parts.push(`Mood: ${combo.mood}`);
+  parts.push(`Intention: ${combo.intention}`);
+
+  // Target demographic if specified
+  if (combo.ageGeneration !== 'any') {
+    parts.push(`Target: ${combo.ageGeneration}`);
+  }
+  if (combo.gender !== 'any') {
+    parts.push(`Gender: ${combo.gender}`);
+  }
+
+  // Funnel level context
+  parts.push(`Funnel: ${combo.funnelLevel}`);
+
+  return parts.join('. ');
+}
@@ -0,0 +1,211 @@
+// Batch Tracking (Story 2.3)
+// Batches and their video variations are tracked in PostgreSQL. Notion is an optional one-way mirror:
+// pages are created and updated only when Notion is configured, and Notion failures never fail a batch.
+
+import type { VideoVariation } from '@prisma/client';
+import {
+  createBatchRecords,
+  isNotionConfigured,
+  logDownloadExpiryWarning,
+  logVideoError,
+  updateVideoVariationStatus,
+  type VideoVariationRecord,
+} from './notion-client';
+import {
+  createBatchWithVariations,
+  getVideoVariation,
+  refreshBatchProgress,
+  setVariationNotionPage,
+  updateVideoVariation,
+  type NewBatch,
+  type NewVideoVariation,
+  type VideoVariationStatus,
+  type VideoVariationUpdate,
+} from './database/batches';
+
+export type VideoErrorType = Parameters<typeof logVideoError>[1];
+
+/**
+ * Details recorded with a status change
+ */
+export type VariationStatusDetails = {
+  videoUrl?: string;
+  soraVideoId?: string;
+  progress?: number;
+  retryCount?: number;
+  lastRetryAt?: string;
+  modifiedPrompt?: string; // Replaces the variation's prompt
+};
+
+const NOTION_STATUS: Record<VideoVariationStatus, VideoVariationRecord['status']> = {
+  pending: 'Pending',
+  needs_review: 'Needs Review',
+  paused: 'Paused',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected',
+};
+
+/**
+ * Creates the batch and its variations, then mirrors the variations to Notion
+ * @returns Variations in matrix order; notionPageId is set where a Notion page was created
+ * @throws if the database records cannot be created
+ */
+export async function createBatchTracking(
+  batch: NewBatch,
+  variations: NewVideoVariation[]
+): Promise<VideoVariation[]> {
+  const created = await createBatchWithVariations(batch, variations);
+  console.log(`[Batch Tracking] Created batch ${batch.batchId} with ${created.length} variations`);
+
+  if (!isNotionConfigured()) {
+    return created;
+  }
+
+  try {
+    const { records } = await createBatchRecords(
+      batch.batchId,
+      variations.map((variation) => ({
+        combinationId: variation.combinationId,
+        bigIdea: batch.bigIdea,
+        brand: batch.brandId,
+        aesthetic: variation.combination.aesthetic,
+        type: variation.combination.type,
+        demographic: `${variation.combination.ageGeneration} | ${variation.combination.gender} | ${variation.combination.ethnicity}`,
+        status: NOTION_STATUS[variation.status],
+        prompt: variation.prompt,
+        cost: variation.cost,
+      }))
+    );
+
+    const pages = new Map(records.map((record) => [record.combinationId, record.notionPageId]));
+    for (const variation of created) {
+      const notionPageId = pages.get(variation.combinationId);
+      if (notionPageId) {
+        await setVariationNotionPage(variation.id, notionPageId);
+        variation.notionPageId = notionPageId;
+      }
+    }
+  } catch (error) {
+    // Log and continue - the database records are authoritative
+    console.error(`[Batch Tracking] Failed to mirror batch ${batch.batchId} to Notion:`, error);
+  }
+
+  return created;
+}
+
+/**
+ * Saves an update to a variation, then mirrors it to the variation's Notion page
+ * Videos from batches submitted before batch tracking have no variation; their video ID is the Notion page ID
+ * @returns false if the update could not be saved (or, for those older videos, mirrored)
+ */
+async function applyUpdate(
+  videoId: string,
+  update: VideoVariationUpdate,
+  mirror: (notionPageId: string) => Promise<boolean>
+): Promise<boolean> {
+  let variation: VideoVariation | null;
+  try {
+    variation = await getVideoVariation(videoId);
+    if (variation && Object.keys(update).length > 0) {
+      variation = await updateVideoVariation(videoId, update);
+    }
+  } catch (error) {
+    console.error(`[Batch Tracking] Failed to update video ${videoId}:`, error);
+    return false;
+  }
+
+  if (!variation) {
+    return isNotionConfigured() ? mirror(videoId) : false;
+  }
+
+  if (update.status) {
+    try {
+      await refreshBatchProgress(variation.batchId);
+    } catch (error) {
+      console.error(`[Batch Tracking] Failed to refresh progress of batch ${variation.batchId}:`, error);
+    }
+  }
+
+  // Notion failures are logged by the Notion client
+  if (variation.notionPageId && isNotionConfigured()) {
+    await mirror(variation.notionPageId);
+  }
+
+  return true;
+}
+
+/**
+ * Moves a video to a new status (Story 2.3, AC#3 + Story 2.8, AC#5)
+ * Requeued and restarted videos drop the error of their previous attempt
+ */
+export async function updateVariationStatus(
+  videoId: string,
+  status: VideoVariationStatus,
+  details: VariationStatusDetails = {}
+): Promise<boolean> {
+  const retrying = status === 'pending' || status === 'in_progress';
+
+  return applyUpdate(
+    videoId,
+    {
+      status,
+      videoUrl: details.videoUrl,
+      soraVideoId: details.soraVideoId,
+      progress: details.progress,
+      retryCount: details.retryCount,
+      lastRetryAt: details.lastRetryAt ? new Date(details.lastRetryAt) : undefined,
+      prompt: details.modifiedPrompt,
+      ...(retrying ? { errorType: null, error: null } : {}),
+    },
+    (notionPageId) => updateVideoVariationStatus(notionPageId, NOTION_STATUS[status], details)
+  );
+}
+
+/**
+ * Marks a video as failed with the error that caused it (Story 2.3, AC#4 + Story 2.8, AC#2)
+ */
+export async function recordVariationError(
+  videoId: string,
+  errorType: VideoErrorType,
+  errorMessage: string,
+  errorDetails?: Record<string, unknown>
+): Promise<boolean> {
+  return applyUpdate(
+    videoId,
+    { status: 'failed', errorType, error: errorMessage },
+    (notionPageId) => logVideoError(notionPageId, errorType, errorMessage, errorDetails)
+  );
+}
+
+/**
+ * Marks a completed video as rejected by a reviewer, with the reason (Story 2.7, AC#5)
+ * Rejection is a review decision, not a failure - the video was generated and is not retried
+ */
+export async function recordVariationRejection(
+  videoId: string,
+  reason: string,
+  details?: Record<string, unknown>
+): Promise<boolean> {
+  return applyUpdate(
+    videoId,
+    { status: 'rejected', errorType: 'rejected', error: reason },
+    (notionPageId) => logVideoError(notionPageId, 'rejected', reason, details)
+  );
+}
+
+/**
+ * Mirrors a warning that a video's assets expire at Sora before they were downloaded (Story 2.6, AC#6)
+ * Nothing is saved - the batch status API reports expiring downloads from the download manager
+ */
+export async function recordDownloadExpiryWarning(
+  videoId: string,
+  minutesRemaining: number,
+  details?: Record<string, unknown>
+): Promise<boolean> {
+  return applyUpdate(videoId, {}, (notionPageId) =>
+    logDownloadExpiryWarning(notionPageId, minutesRemaining, details)
+  );
+}
@@ -0,0 +1,163 @@
+// Brand Rule Compiler (Story 2.1)
+// Turns a brand's prohibited_content list and structured compliance_rules into checks
+// the compliance validator can run, so brand-specific bans are enforced instead of only prompted
+
+import type { BrandCanon, BrandComplianceRules } from '@/types/brand-canon';
+
+/**
+ * Brand fields the compiler reads
+ */
+export type BrandRuleSource = Pick<BrandCanon, 'prohibited_content'> & {
+  compliance_rules?: BrandComplianceRules;
+};
+
+/**
+ * A banned word or phrase and the brand rule it came from
+ */
+export type BannedTerm = {
+  term: string;
+  source: string; // prohibited_content line or "compliance_rules.banned_terms"
+};
+
+/**
+ * A brand's rules in checkable form
+ */
+export type CompiledBrandRules = {
+  maxSpokenWords?: number;
+  maxSyllables?: number;
+  bannedTerms: BannedTerm[];
+  requiredDisclaimers: string[]; // Must appear in the spoken words (or the prompt when there is no dialog)
+  unenforced: string[]; // Free-text rules that cannot be checked mechanically (still sent to GPT-5)
+};
+
+const STRUCTURED_SOURCE = 'compliance_rules';
+
+// "Max 45 spoken words", "Maximum of 30 words"
+const MAX_WORDS_PATTERN = /\bmax(?:imum)?(?:\s+of)?\s+(\d+)\s+(?:spoken\s+)?words?\b/i;
+
+// "Max 65 syllables total"
+const MAX_SYLLABLES_PATTERN = /\bmax(?:imum)?(?:\s+of)?\s+(\d+)\s+syllables?\b/i;
+
+// "Banned terms: Tide, Gain" / "Never say: cheap, budget"
+const BANNED_LIST_PATTERN = /^\s*(?:banned(?:\s+terms?|\s+words?)?|never\s+(?:say|mention|use)|do\s+not\s+(?:say|mention|use))\s*:\s*(.+)$/i;
+
+// "Required disclaimer: Results may vary" / "Must include: ..."
+const DISCLAIMER_PATTERN = /^\s*(?:required\s+disclaimer|disclaimer|must\s+(?:include|say))\s*:\s*(.+)$/i;
+
+// Quoted terms inside a prohibition, e.g. No mentions of "Tide" or "Gain"
+// (double quotes only - apostrophes in "don't" or "competitor's" are not quotes)
+const QUOTED_TERM_PATTERN = /["“”]([^"“”]{2,})["“”]/g;
+
+/**
+ * Splits a comma/semicolon separated list, dropping quotes and blanks
+ */
+function splitList(list: string): string[] {
+  return list
+    .split(/[,;]|\s+or\s+/)
+    .map((item) => item.trim().replace(/^["“”']|["“”']$/g, '').trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Escapes a term for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word, case-insensitive matcher for a banned term
+ */
+function termPattern(term: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Keeps the stricter of two limits
+ */
+function stricter(current: number | undefined, next: number): number {
+  return current === undefined ? next : Math.min(current, next);
+}
+
+/**
+ * Compiles a brand's rules
+ * Structured compliance_rules are taken as written; prohibited_content lines are parsed for
+ * word/syllable limits, banned term lists, quoted terms and required disclaimers
+ */
+export function compileBrandRules(brand: BrandRuleSource): CompiledBrandRules {
+  const compiled: CompiledBrandRules = {
+    bannedTerms: [],
+    requiredDisclaimers: [],
+    unenforced: [],
+  };
+
+  for (const line of brand.prohibited_content ?? []) {
+    const rule = line.trim();
+    if (!rule) continue;
+
+    const maxWords = MAX_WORDS_PATTERN.exec(rule);
+    const maxSyllables = MAX_SYLLABLES_PATTERN.exec(rule);
+    const bannedList = BANNED_LIST_PATTERN.exec(rule);
+    const disclaimer = DISCLAIMER_PATTERN.exec(rule);
+    const quotedTerms = Array.from(rule.matchAll(QUOTED_TERM_PATTERN), (match) => match[1].trim());
+
+    if (maxWords) {
+      compiled.maxSpokenWords = stricter(compiled.maxSpokenWords, parseInt(maxWords[1], 10));
+    } else if (maxSyllables) {
+      compiled.maxSyllables = stricter(compiled.maxSyllables, parseInt(maxSyllables[1], 10));
+    } else if (disclaimer) {
+      compiled.requiredDisclaimers.push(disclaimer[1].trim().replace(/^["“”']|["“”']$/g, ''));
+    } else if (bannedList) {
+      for (const term of splitList(bannedList[1])) {
+        compiled.bannedTerms.push({ term, source: rule });
+      }
+    } else if (quotedTerms.length > 0 && /^\s*(?:no|never|avoid|don'?t|do\s+not)\b/i.test(rule)) {
+      for (const term of quotedTerms) {
+        compiled.bannedTerms.push({ term, source: rule });
+      }
+    } else {
+      compiled.unenforced.push(rule);
+    }
+  }
+
+  const structured = brand.compliance_rules;
+  if (structured) {
+    if (structured.max_spoken_words !== undefined) {
+      compiled.maxSpokenWords = stricter(compiled.maxSpokenWords, structured.max_spoken_words);
+    }
+    if (structured.max_syllables !== undefined) {
+      compiled.maxSyllables = stricter(compiled.maxSyllables, structured.max_syllables);
+    }
+    for (const term of structured.banned_terms ?? []) {
+      if (term.trim()) {
+        compiled.bannedTerms.push({ term: term.trim(), source: `${STRUCTURED_SOURCE}.banned_terms` });
+      }
+    }
+    for (const text of structured.required_disclaimers ?? []) {
+      if (text.trim()) compiled.requiredDisclaimers.push(text.trim());
+    }
+  }
+
+  return compiled;
+}
+
+/**
+ * Banned terms that appear in a text, each reported once
+ */
+export function findBannedTerms(text: string, bannedTerms: BannedTerm[]): BannedTerm[] {
+  const seen = new Set<string>();
+  return bannedTerms.filter((banned) => {
+    const key = banned.term.toLowerCase();
+    if (seen.has(key) || !termPattern(banned.term).test(text)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Whether a required disclaimer appears in a text (case and whitespace insensitive)
+ */
+export function containsDisclaimer(text: string, disclaimer: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+  return normalize(text).includes(normalize(disclaimer));
+}
@@ -0,0 +1,361 @@
+// Compliance Rules (Story 2.1)
+// Declarative pattern rules behind Layer 1 (OpenAI) and Layer 2 (brand) validation.
+// The built-in rules below apply to every tenant; published tenant and brand rule packs
+// override them by id, disable them, or add their own (e.g. for supplements or finance clients)
+
+import { z } from 'zod';
+import type { ScriptContent, ValidationError, ValidationErrorType } from './compliance-validator';
+
+/**
+ * Part of a script a rule is matched against
+ */
+export type ComplianceRuleScope = 'prompt' | 'dialog' | 'visual';
+
+/**
+ * Errors fail validation; warnings are reported but let the prompt through
+ */
+export type ComplianceRuleSeverity = 'error' | 'warning';
+
+/**
+ * One pattern rule
+ */
+export type ComplianceRule = {
+  id: string; // Stable key - a pack rule with a built-in rule's id replaces it
+  layer: 1 | 2; // 1 = OpenAI restriction, 2 = brand/client policy
+  type: ValidationErrorType;
+  pattern: string; // Regular expression source, matched case-insensitively
+  scopes: ComplianceRuleScope[];
+  severity: ComplianceRuleSeverity;
+  message: string;
+  remediation: string;
+  enabled?: boolean; // false switches off an inherited rule (default true)
+};
+
+/**
+ * Errors and warnings raised by pattern rules
+ */
+export type RuleEvaluation = {
+  errors: ValidationError[];
+  warnings: string[];
+};
+
+/**
+ * A rule pack cannot be used as submitted
+ */
+export class ComplianceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComplianceRuleError';
+  }
+}
+
+export const RULE_SCOPES: ComplianceRuleScope[] = ['prompt', 'dialog', 'visual'];
+
+/**
+ * Built-in rules, in effect for every tenant unless a published pack overrides them
+ */
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRule[] = [
+  {
+    id: 'openai-real-people',
+    layer: 1,
+    type: 'content_policy_violation',
+    pattern: '\\b(person named|celebrity|president|CEO|founder|named character)\\b',
+    scopes: ['prompt', 'visual'],
+    severity: 'error',
+    message: 'Script references real people by name or title',
+    remediation:
+      'Remove references to real people, celebrities, or named individuals. Use generic descriptions like "a person" or "a professional".',
+  },
+  {
+    id: 'openai-copyrighted-content',
+    layer: 1,
+    type: 'content_policy_violation',
+    pattern:
+      '\\b(Mickey Mouse|Superman|Batman|Spider-Man|Disney|Marvel|Coca-Cola|McDonald|Nike|Apple|Microsoft|trademarked|copyrighted song|licensed music)\\b',
+    scopes: ['prompt', 'visual'],
+    severity: 'error',
+    message: 'Script contains copyrighted characters, brands, or music references',
+    remediation:
+      'Remove all trademarked characters, brand names, and copyrighted music references. Use generic equivalents.',
+  },
+  {
+    id: 'openai-visible-text',
+    layer: 1,
+    type: 'visual_restriction',
+    pattern:
+      '\\b(text on screen|subtitle|caption|words appear|text displays|showing text|readable text|written words|sign with text|text overlay)\\b',
+    scopes: ['prompt', 'visual'],
+    severity: 'error',
+    message: 'Script describes visible text or on-screen text elements',
+    remediation:
+      'Remove descriptions of visible text, captions, subtitles, or text overlays. Sora 2 cannot reliably generate readable text.',
+  },
+  {
+    id: 'openai-logos',
+    layer: 1,
+    type: 'visual_restriction',
+    pattern: '\\b(logo on|branded clothing|shirt with logo|hat with brand|logo visible)\\b',
+    scopes: ['prompt', 'visual'],
+    severity: 'error',
+    message: 'Script describes logos on clothing or objects',
+    remediation: 'Remove descriptions of logos, brand marks, or branded clothing/objects.',
+  },
+  {
+    id: 'brand-no-captions',
+    layer: 2,
+    type: 'visual_restriction',
+    pattern: '\\b(with captions|subtitle|subtitles|on-screen text|text caption|with text overlay)\\b',
+    scopes: ['prompt', 'visual'],
+    severity: 'error',
+    message: 'Script describes captions, subtitles, or on-screen text',
+    remediation:
+      'Remove all references to captions, subtitles, or text overlays. Brand policy prohibits on-screen text.',
+  },
+  {
+    id: 'brand-no-graphics',
+    layer: 2,
+    type: 'visual_restriction',
+    pattern:
+      '\\b(with graphics|animated graphics|overlay graphic|infographic|chart on screen|graph displays)\\b',
+    scopes: ['prompt', 'visual'],
+    severity: 'error',
+    message: 'Script describes on-screen graphics or visual overlays',
+    remediation:
+      'Remove descriptions of graphics, charts, or visual overlays. Focus on pure video storytelling.',
+  },
+];
+
+const VALIDATION_ERROR_TYPES = [
+  'content_policy_violation',
+  'script_length_exceeded',
+  'syllable_count_exceeded',
+  'visual_restriction',
+  'brand_prohibited_term',
+  'missing_disclaimer',
+  'dialog_duration_exceeded',
+] as const satisfies readonly ValidationErrorType[];
+
+/**
+ * Request schema for a rule as submitted by an admin (patterns are checked by validateRules)
+ */
+export const complianceRuleSchema = z.object({
+  id: z.string().trim().min(1).max(100),
+  layer: z.union([z.literal(1), z.literal(2)]),
+  type: z.enum(VALIDATION_ERROR_TYPES),
+  pattern: z.string().min(1).max(2000),
+  scopes: z.array(z.enum(['prompt', 'dialog', 'visual'])).min(1),
+  severity: z.enum(['error', 'warning']),
+  message: z.string().trim().min(1).max(500),
+  remediation: z.string().trim().min(1).max(1000),
+  enabled: z.boolean().optional(),
+});
+
+// Patterns run synchronously on the shared server, so tenant patterns are restricted to constructs
+// that cannot backtrack catastrophically, and the text they run on is bounded
+const MAX_RULE_INPUT_LENGTH = 10_000; // Characters of one scope (prompts are far shorter)
+const PATTERN_CACHE_SIZE = 500;
+
+// Compiled patterns by source, shared by every validation
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Finds a construct that can make a pattern backtrack exponentially: a repeated group containing
+ * a quantifier or an alternation (e.g. (a+)+ or (a|aa)*), or a backreference
+ * @returns The offending construct, or undefined if the pattern is safe to run
+ */
+export function findUnsafePatternConstruct(source: string): string | undefined {
+  // Open groups: where each starts and whether it contains a quantifier or alternation
+  const groups: { start: number; complex: boolean }[] = [];
+  // Only matters inside a group - a top-level quantifier or alternation is never repeated
+  const markComplex = () => {
+    if (groups.length > 0) groups[groups.length - 1].complex = true;
+  };
+
+  // Length of the quantifier at i (0 if none) and whether it repeats more than once
+  const readQuantifier = (i: number): { length: number; repeats: boolean } => {
+    const char = source[i];
+    if (char === '*' || char === '+') return { length: source[i + 1] === '?' ? 2 : 1, repeats: true };
+    if (char === '?') return { length: 1, repeats: false };
+    const braces = /^\{(\d*)(,?)(\d*)\}/.exec(source.slice(i));
+    if (!braces) return { length: 0, repeats: false };
+    const max = braces[2] ? (braces[3] ? Number(braces[3]) : Infinity) : Number(braces[1]);
+    return { length: braces[0].length + (source[i + braces[0].length] === '?' ? 1 : 0), repeats: max > 1 };
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(source[i + 1] ?? '')) return source.slice(i, i + 2);
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ start: i, complex: false });
+      continue;
+    } else if (char === '|') {
+      markComplex();
+      continue;
+    } else if (char === ')') {
+      const group = groups.pop();
+      if (!group) continue; // Unbalanced - the RegExp constructor reports it
+
+      const quantifier = readQuantifier(i + 1);
+      if (quantifier.repeats && group.complex) {
+        return source.slice(group.start, i + 1 + quantifier.length);
+      }
+      if (group.complex || quantifier.length > 0) markComplex();
+      i += quantifier.length;
+      continue;
+    }
+
+    // Quantifier on a single character, escape or class
+    const quantifier = readQuantifier(i + 1);
+    if (quantifier.length > 0) {
+      markComplex();
+      i += quantifier.length;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Case-insensitive, global matcher for a rule pattern
+ * @returns undefined for patterns that could backtrack catastrophically (saved before they were rejected)
+ */
+function getPattern(source: string): RegExp | undefined {
+  let pattern = patternCache.get(source);
+  if (!pattern) {
+    if (findUnsafePatternConstruct(source)) return undefined;
+
+    pattern = new RegExp(source, 'gi');
+    if (patternCache.size >= PATTERN_CACHE_SIZE) {
+      const oldest = patternCache.keys().next().value;
+      if (oldest !== undefined) patternCache.delete(oldest);
+    }
+    patternCache.set(source, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+/**
+ * Text of a script for one scope
+ */
+function getScopeText(script: ScriptContent, scope: ComplianceRuleScope): string {
+  switch (scope) {
+    case 'prompt':
+      return script.prompt;
+    case 'dialog':
+      return script.spokenWords ?? '';
+    case 'visual':
+      return script.visualDescription;
+  }
+}
+
+/**
+ * Applies rule packs on top of a base rule set: a rule replaces the base rule with the same id,
+ * new ids are appended, and disabled rules are dropped
+ * @param packs - Rule lists in precedence order (e.g. tenant-wide pack, then brand pack)
+ */
+export function mergeRules(base: ComplianceRule[], ...packs: ComplianceRule[][]): ComplianceRule[] {
+  const merged = new Map(base.map((rule) => [rule.id, rule]));
+  for (const pack of packs) {
+    for (const rule of pack) {
+      merged.set(rule.id, rule);
+    }
+  }
+  return Array.from(merged.values()).filter((rule) => rule.enabled !== false);
+}
+
+/**
+ * Checks a pack's rules before it is saved
+ * @throws ComplianceRuleError naming the first invalid rule
+ */
+export function validateRules(rules: ComplianceRule[]): void {
+  const ids = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule.id || ids.has(rule.id)) {
+      throw new ComplianceRuleError(`Rule ids must be unique and non-empty (${rule.id || 'missing id'})`);
+    }
+    ids.add(rule.id);
+
+    if (!(VALIDATION_ERROR_TYPES as readonly string[]).includes(rule.type)) {
+      throw new ComplianceRuleError(`Rule ${rule.id} has unknown type ${rule.type}`);
+    }
+    if (rule.scopes.length === 0 || rule.scopes.some((scope) => !RULE_SCOPES.includes(scope))) {
+      throw new ComplianceRuleError(`Rule ${rule.id} needs at least one scope of ${RULE_SCOPES.join(', ')}`);
+    }
+
+    try {
+      new RegExp(rule.pattern, 'gi');
+    } catch (error) {
+      throw new ComplianceRuleError(
+        `Rule ${rule.id} has an invalid pattern: ${error instanceof Error ? error.message : rule.pattern}`
+      );
+    }
+
+    const unsafe = findUnsafePatternConstruct(rule.pattern);
+    if (unsafe) {
+      throw new ComplianceRuleError(
+        `Rule ${rule.id} has a pattern that can backtrack catastrophically: ${unsafe} ` +
+          '(repeated groups cannot contain quantifiers or alternatives, and backreferences are not allowed)'
+      );
+    }
+  }
+}
+
+/**
+ * Runs one layer's pattern rules against a script
+ */
+export function evaluateRules(script: ScriptContent, rules: ComplianceRule[], layer: 1 | 2): RuleEvaluation {
+  const evaluation: RuleEvaluation = { errors: [], warnings: [] };
+
+  // Overlong text is not matched at all; layer 1 reports it once
+  const oversized = RULE_SCOPES.filter((scope) => getScopeText(script, scope).length > MAX_RULE_INPUT_LENGTH);
+  if (oversized.length > 0 && layer === 1) {
+    evaluation.errors.push({
+      type: 'script_length_exceeded',
+      message: `Script is too long to check for compliance (${oversized.join(', ')} over ${MAX_RULE_INPUT_LENGTH} characters)`,
+      remediation: `Shorten the ${oversized.join(' and ')} to at most ${MAX_RULE_INPUT_LENGTH} characters.`,
+      details: { scopes: oversized, maxLength: MAX_RULE_INPUT_LENGTH },
+    });
+  }
+
+  for (const rule of rules) {
+    if (rule.layer !== layer || rule.enabled === false) continue;
+
+    const pattern = getPattern(rule.pattern);
+    if (!pattern) {
+      evaluation.warnings.push(`Rule ${rule.id} was skipped: its pattern can backtrack catastrophically`);
+      continue;
+    }
+
+    const matches = rule.scopes
+      .filter((scope) => !oversized.includes(scope))
+      .flatMap((scope) => getScopeText(script, scope).match(pattern) ?? []);
+    if (matches.length === 0) continue;
+
+    if (rule.severity === 'warning') {
+      evaluation.warnings.push(`${rule.message} (${Array.from(new Set(matches)).join(', ')})`);
+      continue;
+    }
+
+    evaluation.errors.push({
+      type: rule.type,
+      message: rule.message,
+      remediation: rule.remediation,
+      details: {
+        ruleId: rule.id,
+        matches,
+      },
+    });
+  }
+
+  return evaluation;
+}
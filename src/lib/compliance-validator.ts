@@ -1,11 +1,34 @@
 // Compliance Validator (Story 2.1)
 // Dual-layer validation: OpenAI API restrictions + brand-specific constraints
 
+import {
+  evaluateRules,
+  DEFAULT_COMPLIANCE_RULES,
+  type ComplianceRule,
+  type RuleEvaluation,
+} from './compliance-rules';
+import {
+  compileBrandRules,
+  containsDisclaimer,
+  findBannedTerms,
+  type BrandRuleSource,
+  type CompiledBrandRules,
+} from './brand-rule-compiler';
+import {
+  AVERAGE_SYLLABLES_PER_WORD,
+  countSyllables,
+  estimateSpeechDuration,
+  getSpeakableSyllables,
+} from './speech-timing';
+
 export type ValidationErrorType =
   | 'content_policy_violation'
   | 'script_length_exceeded'
   | 'syllable_count_exceeded'
-  | 'visual_restriction';
+  | 'visual_restriction'
+  | 'brand_prohibited_term'
+  | 'missing_disclaimer'
+  | 'dialog_duration_exceeded';
 
 export type ValidationError = {
   type: ValidationErrorType;
@@ -26,6 +49,7 @@ export type ScriptContent = {
   prompt: string; // Full Sora 2 prompt
   spokenWords?: string; // Extracted dialog/voiceover text
   visualDescription: string; // Visual elements described
+  durationSeconds?: number; // Clip length the dialog has to fit (not checked when omitted)
 };
 
 /**
@@ -34,73 +58,14 @@ export type ScriptContent = {
  */
 class Layer1Validator {
   /**
-   * Checks for prohibited content in OpenAI API
+   * Checks for prohibited content in OpenAI API (layer 1 rules)
    * - No real people by name
    * - No copyrighted characters/music
    * - No text visible in scenes
    * - No logos on clothing/objects
    */
-  validate(script: ScriptContent): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    // Check for real people names
-    const realPeoplePattern = /\b(person named|celebrity|president|CEO|founder|named character)\b/gi;
-    if (realPeoplePattern.test(script.prompt) || realPeoplePattern.test(script.visualDescription)) {
-      errors.push({
-        type: 'content_policy_violation',
-        message: 'Script references real people by name or title',
-        remediation:
-          'Remove references to real people, celebrities, or named individuals. Use generic descriptions like "a person" or "a professional".',
-        details: {
-          matches: script.prompt.match(realPeoplePattern) || []
-        }
-      });
-    }
-
-    // Check for copyrighted content
-    const copyrightedPattern =
-      /\b(Mickey Mouse|Superman|Batman|Spider-Man|Disney|Marvel|Coca-Cola|McDonald|Nike|Apple|Microsoft|trademarked|copyrighted song|licensed music)\b/gi;
-    if (copyrightedPattern.test(script.prompt) || copyrightedPattern.test(script.visualDescription)) {
-      errors.push({
-        type: 'content_policy_violation',
-        message: 'Script contains copyrighted characters, brands, or music references',
-        remediation:
-          'Remove all trademarked characters, brand names, and copyrighted music references. Use generic equivalents.',
-        details: {
-          matches: script.prompt.match(copyrightedPattern) || []
-        }
-      });
-    }
-
-    // Check for visible text in scenes
-    const textPattern =
-      /\b(text on screen|subtitle|caption|words appear|text displays|showing text|readable text|written words|sign with text|text overlay)\b/gi;
-    if (textPattern.test(script.prompt) || textPattern.test(script.visualDescription)) {
-      errors.push({
-        type: 'visual_restriction',
-        message: 'Script describes visible text or on-screen text elements',
-        remediation:
-          'Remove descriptions of visible text, captions, subtitles, or text overlays. Sora 2 cannot reliably generate readable text.',
-        details: {
-          matches: script.prompt.match(textPattern) || []
-        }
-      });
-    }
-
-    // Check for logos on clothing/objects
-    const logoPattern = /\b(logo on|branded clothing|shirt with logo|hat with brand|logo visible)\b/gi;
-    if (logoPattern.test(script.prompt) || logoPattern.test(script.visualDescription)) {
-      errors.push({
-        type: 'visual_restriction',
-        message: 'Script describes logos on clothing or objects',
-        remediation: 'Remove descriptions of logos, brand marks, or branded clothing/objects.',
-        details: {
-          matches: script.prompt.match(logoPattern) || []
-        }
-      });
-    }
-
-    return errors;
+  validate(script: ScriptContent, rules: ComplianceRule[]): RuleEvaluation {
+    return evaluateRules(script, rules, 1);
   }
 }
 
@@ -121,116 +86,149 @@ class Layer2Validator {
   }
 
   /**
-   * Counts syllables in a text string (approximation)
-   * Uses vowel counting heuristic
+   * Spoken word limit for a brand (brand rules replace the default)
    */
-  private countSyllables(text: string): number {
-    const words = text.toLowerCase().split(/\s+/);
-    let totalSyllables = 0;
-
-    for (const word of words) {
-      if (word.length === 0) continue;
-
-      // Remove non-alphabetic characters
-      const cleanWord = word.replace(/[^a-z]/g, '');
-      if (cleanWord.length === 0) continue;
-
-      // Count vowel groups (consecutive vowels = 1 syllable)
-      const vowelGroups = cleanWord.match(/[aeiouy]+/g);
-      let syllables = vowelGroups ? vowelGroups.length : 0;
-
-      // Adjustments for common patterns
-      if (cleanWord.endsWith('e')) {
-        syllables = Math.max(1, syllables - 1); // Silent 'e'
-      }
-      if (cleanWord.endsWith('le') && cleanWord.length > 2) {
-        syllables += 1; // 'le' at end usually adds syllable
-      }
-
-      // Minimum 1 syllable per word
-      syllables = Math.max(1, syllables);
-
-      totalSyllables += syllables;
-    }
-
-    return totalSyllables;
+  getMaxSpokenWords(rules?: CompiledBrandRules): number {
+    return rules?.maxSpokenWords ?? this.MAX_SPOKEN_WORDS;
   }
 
   /**
    * Validates brand-specific constraints
-   * - Max 45 spoken words
-   * - Max 65 syllables
-   * - No captions, subtitles, on-screen graphics
+   * - Max spoken words and syllables (45/65 unless the brand sets its own)
+   * - Dialog fits the clip length at a conversational voiceover pace
+   * - The brand's banned terms and required disclaimers
+   * - Layer 2 rules (no captions, subtitles, on-screen graphics unless a rule pack says otherwise)
    */
-  validate(script: ScriptContent): ValidationError[] {
+  validate(script: ScriptContent, patternRules: ComplianceRule[], brandRules?: CompiledBrandRules): RuleEvaluation {
     const errors: ValidationError[] = [];
+    const warnings: string[] = [];
+    const maxSpokenWords = this.getMaxSpokenWords(brandRules);
+    const maxSyllables = brandRules?.maxSyllables ?? this.MAX_SYLLABLES;
 
     // Check spoken word count
     if (script.spokenWords) {
       const wordCount = this.countWords(script.spokenWords);
-      if (wordCount > this.MAX_SPOKEN_WORDS) {
+      if (wordCount > maxSpokenWords) {
         errors.push({
           type: 'script_length_exceeded',
-          message: `Script contains ${wordCount} spoken words (max ${this.MAX_SPOKEN_WORDS})`,
-          remediation: `Reduce script by ${wordCount - this.MAX_SPOKEN_WORDS} words. Focus on concise, impactful messaging.`,
+          message: `Script contains ${wordCount} spoken words (max ${maxSpokenWords})`,
+          remediation: `Reduce script by ${wordCount - maxSpokenWords} words. Focus on concise, impactful messaging.`,
           details: {
             currentWords: wordCount,
-            maxWords: this.MAX_SPOKEN_WORDS,
-            excess: wordCount - this.MAX_SPOKEN_WORDS
+            maxWords: maxSpokenWords,
+            excess: wordCount - maxSpokenWords
           }
         });
       }
 
-      // Check syllable count
-      const syllableCount = this.countSyllables(script.spokenWords);
-      if (syllableCount > this.MAX_SYLLABLES) {
+      // Check syllable count (pronunciation dictionary, heuristic for unlisted words)
+      const syllableCount = countSyllables(script.spokenWords);
+      if (syllableCount > maxSyllables) {
         errors.push({
           type: 'syllable_count_exceeded',
-          message: `Script contains ${syllableCount} syllables (max ${this.MAX_SYLLABLES})`,
-          remediation: `Reduce syllable count by ${syllableCount - this.MAX_SYLLABLES}. Use shorter, simpler words.`,
+          message: `Script contains ${syllableCount} syllables (max ${maxSyllables})`,
+          remediation: `Reduce syllable count by ${syllableCount - maxSyllables}. Use shorter, simpler words.`,
           details: {
             currentSyllables: syllableCount,
-            maxSyllables: this.MAX_SYLLABLES,
-            excess: syllableCount - this.MAX_SYLLABLES
+            maxSyllables,
+            excess: syllableCount - maxSyllables
           }
         });
       }
+
+      if (script.durationSeconds) {
+        const durationCheck = this.validateDuration(script.spokenWords, script.durationSeconds);
+        errors.push(...durationCheck.errors);
+        warnings.push(...durationCheck.warnings);
+      }
     }
 
-    // Check for captions/subtitles
-    const captionPattern =
-      /\b(with captions|subtitle|subtitles|on-screen text|text caption|with text overlay)\b/gi;
-    if (
-      captionPattern.test(script.prompt) ||
-      captionPattern.test(script.visualDescription)
-    ) {
-      errors.push({
-        type: 'visual_restriction',
-        message: 'Script describes captions, subtitles, or on-screen text',
-        remediation: 'Remove all references to captions, subtitles, or text overlays. Brand policy prohibits on-screen text.',
-        details: {
-          matches: script.prompt.match(captionPattern) || []
-        }
-      });
+    if (brandRules) {
+      errors.push(...this.validateBrandRules(script, brandRules));
+    }
+
+    const evaluation = evaluateRules(script, patternRules, 2);
+
+    return {
+      errors: [...errors, ...evaluation.errors],
+      warnings: [...warnings, ...evaluation.warnings]
+    };
+  }
+
+  /**
+   * Checks that the dialog can be spoken within the clip (Sora cuts off whatever does not fit)
+   */
+  private validateDuration(spokenWords: string, durationSeconds: number): RuleEvaluation {
+    const estimate = estimateSpeechDuration(spokenWords);
+
+    if (estimate.seconds > durationSeconds) {
+      const speakable = getSpeakableSyllables(durationSeconds);
+      const excess = Math.max(1, estimate.syllables - speakable);
+      return {
+        errors: [
+          {
+            type: 'dialog_duration_exceeded',
+            message: `Dialog takes about ${estimate.seconds}s to speak but the clip is ${durationSeconds}s`,
+            remediation: `Cut about ${excess} syllables (roughly ${Math.ceil(excess / AVERAGE_SYLLABLES_PER_WORD)} words) so the dialog fits ${durationSeconds} seconds, or choose a longer video duration.`,
+            details: {
+              estimatedSeconds: estimate.seconds,
+              durationSeconds,
+              syllables: estimate.syllables,
+              speakableSyllables: speakable
+            }
+          }
+        ],
+        warnings: []
+      };
+    }
+
+    // Less than 10% to spare leaves no room for a slower read
+    if (estimate.seconds > durationSeconds * 0.9) {
+      return {
+        errors: [],
+        warnings: [
+          `Dialog is close to the clip length (about ${estimate.seconds}s of ${durationSeconds}s). The last words may be cut off.`
+        ]
+      };
     }
 
-    // Check for on-screen graphics
-    const graphicsPattern =
-      /\b(with graphics|animated graphics|overlay graphic|infographic|chart on screen|graph displays)\b/gi;
-    if (
-      graphicsPattern.test(script.prompt) ||
-      graphicsPattern.test(script.visualDescription)
-    ) {
+    return { errors: [], warnings: [] };
+  }
+
+  /**
+   * Checks a brand's banned terms (anywhere in the script) and required disclaimers
+   */
+  private validateBrandRules(script: ScriptContent, rules: CompiledBrandRules): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const fullText = [script.prompt, script.visualDescription, script.spokenWords ?? ''].join('\n');
+
+    for (const banned of findBannedTerms(fullText, rules.bannedTerms)) {
       errors.push({
-        type: 'visual_restriction',
-        message: 'Script describes on-screen graphics or visual overlays',
-        remediation: 'Remove descriptions of graphics, charts, or visual overlays. Focus on pure video storytelling.',
+        type: 'brand_prohibited_term',
+        message: `Script mentions "${banned.term}", which the brand prohibits`,
+        remediation: `Remove "${banned.term}" from the prompt and dialog. Brand rule: ${banned.source}`,
         details: {
-          matches: script.prompt.match(graphicsPattern) || []
+          term: banned.term,
+          rule: banned.source
         }
       });
     }
 
+    // Disclaimers must be heard, so they are checked in the dialog when there is one
+    const disclaimerText = script.spokenWords || script.prompt;
+    for (const disclaimer of rules.requiredDisclaimers) {
+      if (!containsDisclaimer(disclaimerText, disclaimer)) {
+        errors.push({
+          type: 'missing_disclaimer',
+          message: `Script is missing the required disclaimer "${disclaimer}"`,
+          remediation: `Add "${disclaimer}" to the ${script.spokenWords ? 'spoken dialog' : 'prompt'} word for word.`,
+          details: {
+            disclaimer
+          }
+        });
+      }
+    }
+
     return errors;
   }
 }
@@ -242,29 +240,52 @@ class Layer2Validator {
 export class ComplianceValidator {
   private layer1Validator: Layer1Validator;
   private layer2Validator: Layer2Validator;
+  private compiledRules = new WeakMap<BrandRuleSource, CompiledBrandRules>(); // Brand canons are cached per batch
 
   constructor() {
     this.layer1Validator = new Layer1Validator();
     this.layer2Validator = new Layer2Validator();
   }
 
+  /**
+   * Compiles (once per brand canon object) the brand's rules
+   */
+  getBrandRules(brand: BrandRuleSource): CompiledBrandRules {
+    let rules = this.compiledRules.get(brand);
+    if (!rules) {
+      rules = compileBrandRules(brand);
+      this.compiledRules.set(brand, rules);
+    }
+    return rules;
+  }
+
   /**
    * Validates script content against both compliance layers
    * Returns comprehensive validation result with errors and warnings
+   * @param brand - Brand canon whose prohibited_content and compliance_rules are enforced in Layer 2
+   * @param rules - Pattern rules in effect (built-in rules unless a tenant or brand rule pack is published)
    */
-  validate(script: ScriptContent): ValidationResult {
-    const layer1Errors = this.layer1Validator.validate(script);
-    const layer2Errors = this.layer2Validator.validate(script);
+  validate(
+    script: ScriptContent,
+    brand?: BrandRuleSource,
+    rules: ComplianceRule[] = DEFAULT_COMPLIANCE_RULES
+  ): ValidationResult {
+    const brandRules = brand ? this.getBrandRules(brand) : undefined;
+    const layer1 = this.layer1Validator.validate(script, rules);
+    const layer2 = this.layer2Validator.validate(script, rules, brandRules);
+    const layer1Errors = layer1.errors;
+    const layer2Errors = layer2.errors;
 
     const allErrors = [...layer1Errors, ...layer2Errors];
-    const warnings: string[] = [];
+    const warnings: string[] = [...layer1.warnings, ...layer2.warnings];
 
     // Add warnings for edge cases
     if (script.spokenWords) {
       const wordCount = script.spokenWords.trim().split(/\s+/).length;
-      if (wordCount > 35 && wordCount <= 45) {
+      const maxWords = this.layer2Validator.getMaxSpokenWords(brandRules);
+      if (wordCount > maxWords - 10 && wordCount <= maxWords) {
         warnings.push(
-          `Script is close to word limit (${wordCount}/45 words). Consider reducing for safety margin.`
+          `Script is close to word limit (${wordCount}/${maxWords} words). Consider reducing for safety margin.`
         );
       }
     }
@@ -281,11 +302,15 @@ export class ComplianceValidator {
   /**
    * Validates multiple scripts (batch validation)
    */
-  validateBatch(scripts: ScriptContent[]): Map<number, ValidationResult> {
+  validateBatch(
+    scripts: ScriptContent[],
+    brand?: BrandRuleSource,
+    rules: ComplianceRule[] = DEFAULT_COMPLIANCE_RULES
+  ): Map<number, ValidationResult> {
     const results = new Map<number, ValidationResult>();
 
     scripts.forEach((script, index) => {
-      results.set(index, this.validate(script));
+      results.set(index, this.validate(script, brand, rules));
     });
 
     return results;
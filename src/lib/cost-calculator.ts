@@ -2,17 +2,20 @@
  * Cost Calculation Engine (Story 1.5, Task 1)
  *
  * Calculates per-video and batch costs with breakdown by provider
- * NO MOCK DATA - uses real API pricing from pricing-config.ts
+ * NO MOCK DATA - uses real API pricing from pricing-config.ts (built-in or published rate card)
  */
 
 import {
   getSoraCost,
   estimateStorageCost,
-  LLM_COSTS,
   isPricingStale,
+  DEFAULT_RATE_CARD,
+  type RateCard,
+  type StorageCostProfile,
   type SoraModel,
   type VideoDuration,
 } from './pricing-config';
+import type { ApiProvider } from './wallet-balance';
 
 /**
  * Cost breakdown by API provider
@@ -64,6 +67,10 @@ export type CostResult = {
 
   // Warnings
   pricingStale: boolean;
+  driftedProviders: ApiProvider[]; // Providers whose reconciled spend drifted from the rate card
+
+  // Rate card the estimate was priced with
+  rateCardVersion: string;
 };
 
 /**
@@ -72,22 +79,24 @@ export type CostResult = {
  */
 export function calculateVideoCost(
   model: SoraModel,
-  duration: VideoDuration
+  duration: VideoDuration,
+  storageProfile?: StorageCostProfile,
+  rateCard: RateCard = DEFAULT_RATE_CARD
 ): VideoCostBreakdown {
   // Sora 2 API cost (throws error if invalid combination)
-  const soraApiCost = getSoraCost(model, duration);
+  const soraApiCost = getSoraCost(model, duration, rateCard);
 
   // LLM costs per video
   const llmCosts = {
-    gpt5: LLM_COSTS.gpt5PromptGeneration,
+    gpt5: rateCard.llm.gpt5PromptGeneration,
     perplexity: 0, // Calculated at batch level (cached)
-    claude: LLM_COSTS.claudeValidation,
+    claude: rateCard.llm.claudeValidation,
     gemini: 0, // Only used conditionally as fallback
-    total: LLM_COSTS.gpt5PromptGeneration + LLM_COSTS.claudeValidation,
+    total: rateCard.llm.gpt5PromptGeneration + rateCard.llm.claudeValidation,
   };
 
-  // Storage cost (negligible but included for transparency)
-  const storageCost = estimateStorageCost(duration);
+  // Storage cost (negligible but included for transparency; measured when a profile is available)
+  const storageCost = estimateStorageCost(duration, storageProfile);
 
   // Total per-video cost
   const totalPerVideo = soraApiCost + llmCosts.total + storageCost;
@@ -107,14 +116,17 @@ export function calculateVideoCost(
 export function calculateBatchCost(
   model: SoraModel,
   duration: VideoDuration,
-  videoCount: number
+  videoCount: number,
+  storageProfile?: StorageCostProfile,
+  driftedProviders: ApiProvider[] = [],
+  rateCard: RateCard = DEFAULT_RATE_CARD
 ): CostResult {
   // Per-video cost calculation
-  const perVideoCost = calculateVideoCost(model, duration);
+  const perVideoCost = calculateVideoCost(model, duration, storageProfile, rateCard);
 
   // Batch subtotals
   const soraApiSubtotal = perVideoCost.soraApiCost * videoCount;
-  const llmSubtotal = perVideoCost.llmCosts.total * videoCount + LLM_COSTS.perplexityResearch;
+  const llmSubtotal = perVideoCost.llmCosts.total * videoCount + rateCard.llm.perplexityResearch;
   const storageSubtotal = perVideoCost.storageCost * videoCount;
 
   // Total batch cost
@@ -124,20 +136,20 @@ export function calculateBatchCost(
   // This breakdown enables per-provider wallet validation
   const providerCosts: ProviderCosts = {
     // OpenAI: Sora 2 API + GPT-5 prompts
-    openai: soraApiSubtotal + (LLM_COSTS.gpt5PromptGeneration * videoCount),
+    openai: soraApiSubtotal + (rateCard.llm.gpt5PromptGeneration * videoCount),
 
     // Anthropic: Claude validation
-    anthropic: LLM_COSTS.claudeValidation * videoCount,
+    anthropic: rateCard.llm.claudeValidation * videoCount,
 
     // Google: Gemini fallback (conditional, set to 0 if not used)
     google: 0,
 
     // Perplexity: Research queries (cached across batch)
-    perplexity: LLM_COSTS.perplexityResearch,
+    perplexity: rateCard.llm.perplexityResearch,
   };
 
   // Check pricing staleness (Task 5)
-  const pricingStale = isPricingStale();
+  const pricingStale = isPricingStale(driftedProviders, rateCard);
 
   return {
     model,
@@ -150,6 +162,8 @@ export function calculateBatchCost(
     storageSubtotal,
     providerCosts,
     pricingStale,
+    driftedProviders,
+    rateCardVersion: rateCard.version,
   };
 }
 
@@ -0,0 +1,363 @@
+// Cost Reconciliation (Story 1.5)
+// Compares the estimate recorded when a batch was submitted with what the spend ledger says it actually
+// cost after retries and failures, per provider, and flags pricing drift back to the cost estimate
+
+import type { BatchCostEstimate } from '@prisma/client';
+import { calculateBatchCost } from './cost-calculator';
+import { PRICING_DRIFT_THRESHOLD_PERCENT, type SoraModel, type VideoDuration } from './pricing-config';
+import { getActiveRateCard } from './rate-cards';
+import {
+  saveBatchCostEstimate,
+  getBatchCostEstimate,
+  loadBatchCostEstimates,
+  getBatchSpendByProvider,
+  loadCampaignNames,
+  type BatchProviderSpend,
+} from './database/cost-estimates';
+import type { ApiProvider } from './wallet-balance';
+
+export const RECONCILED_PROVIDERS: ApiProvider[] = ['openai', 'anthropic', 'google', 'perplexity'];
+
+// Drift is flagged past PRICING_DRIFT_THRESHOLD_PERCENT when the difference is large enough to matter
+const MIN_DRIFT_USD = 1;
+
+// Batches are only used for pricing drift once their videos have had time to finish
+const SETTLE_AFTER_MS = 24 * 60 * 60 * 1000;
+const PRICING_DRIFT_WINDOW_DAYS = 30;
+
+/**
+ * Estimated vs. actual spend with one provider
+ */
+export type ProviderReconciliation = {
+  provider: ApiProvider;
+  estimatedUsd: number;
+  actualUsd: number;
+  driftUsd: number; // Actual minus estimated (positive = overspend)
+  driftPercent: number | null; // Null when nothing was estimated
+  flagged: boolean;
+};
+
+/**
+ * Estimated vs. actual spend of one batch
+ */
+export type BatchReconciliation = {
+  batchId: string;
+  tenantId: string | null;
+  campaignName?: string;
+  model: string;
+  duration: number;
+  videoCount: number;
+  pricingVersion: string;
+  estimatedAt: string;
+  estimatedUsd: number;
+  actualUsd: number;
+  driftUsd: number;
+  driftPercent: number | null;
+  flagged: boolean; // Total or any provider drifted
+  providers: ProviderReconciliation[];
+};
+
+/**
+ * Month-end reconciliation of a tenant's batches
+ */
+export type ReconciliationReport = {
+  tenantId: string;
+  from: string;
+  to: string;
+  estimatedUsd: number;
+  actualUsd: number;
+  driftUsd: number;
+  driftPercent: number | null;
+  flaggedBatches: number;
+  providers: ProviderReconciliation[];
+  batches: BatchReconciliation[];
+};
+
+/**
+ * Providers whose recent actual spend drifted from the rate card estimate
+ */
+export type PricingDrift = {
+  checkedBatches: number;
+  driftedProviders: ApiProvider[];
+  providers: ProviderReconciliation[];
+};
+
+/**
+ * Rounds to cents
+ */
+function roundUsd(amount: number): number {
+  return parseFloat(amount.toFixed(2));
+}
+
+/**
+ * Drift between an estimate and actual spend
+ */
+function measureDrift(estimatedUsd: number, actualUsd: number) {
+  const driftUsd = actualUsd - estimatedUsd;
+  const driftPercent = estimatedUsd > 0 ? (driftUsd / estimatedUsd) * 100 : null;
+  const flagged =
+    Math.abs(driftUsd) >= MIN_DRIFT_USD &&
+    (driftPercent === null || Math.abs(driftPercent) > PRICING_DRIFT_THRESHOLD_PERCENT);
+
+  return {
+    estimatedUsd: roundUsd(estimatedUsd),
+    actualUsd: roundUsd(actualUsd),
+    driftUsd: roundUsd(driftUsd),
+    driftPercent: driftPercent === null ? null : parseFloat(driftPercent.toFixed(1)),
+    flagged,
+  };
+}
+
+/**
+ * Compares per-provider estimates with per-provider actual spend
+ */
+function reconcileProviders(
+  estimated: Record<ApiProvider, number>,
+  actual: Record<ApiProvider, number>
+): ProviderReconciliation[] {
+  return RECONCILED_PROVIDERS.map((provider) => ({
+    provider,
+    ...measureDrift(estimated[provider], actual[provider]),
+  }));
+}
+
+/**
+ * Empty per-provider totals
+ */
+function emptyProviderTotals(): Record<ApiProvider, number> {
+  return { openai: 0, anthropic: 0, google: 0, perplexity: 0 };
+}
+
+/**
+ * Per-provider amounts of a recorded estimate
+ */
+function estimatedByProvider(estimate: BatchCostEstimate): Record<ApiProvider, number> {
+  return {
+    openai: estimate.openaiUsd,
+    anthropic: estimate.anthropicUsd,
+    google: estimate.googleUsd,
+    perplexity: estimate.perplexityUsd,
+  };
+}
+
+/**
+ * Per-provider ledger spend of one batch
+ */
+function actualByProvider(batchId: string, spend: BatchProviderSpend[]): Record<ApiProvider, number> {
+  const totals = emptyProviderTotals();
+  for (const entry of spend) {
+    if (entry.batchId === batchId && entry.provider in totals) {
+      totals[entry.provider as ApiProvider] += entry.costUsd;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Reconciles one batch estimate against its ledger spend
+ */
+function reconcileEstimate(
+  estimate: BatchCostEstimate,
+  spend: BatchProviderSpend[],
+  campaignName?: string
+): BatchReconciliation {
+  const providers = reconcileProviders(estimatedByProvider(estimate), actualByProvider(estimate.batchId, spend));
+  const estimatedUsd = providers.reduce((sum, provider) => sum + provider.estimatedUsd, 0);
+  const actualUsd = providers.reduce((sum, provider) => sum + provider.actualUsd, 0);
+  const total = measureDrift(estimatedUsd, actualUsd);
+
+  return {
+    batchId: estimate.batchId,
+    tenantId: estimate.tenantId,
+    campaignName,
+    model: estimate.model,
+    duration: estimate.duration,
+    videoCount: estimate.videoCount,
+    pricingVersion: estimate.pricingVersion,
+    estimatedAt: estimate.createdAt.toISOString(),
+    ...total,
+    flagged: total.flagged || providers.some((provider) => provider.flagged),
+    providers,
+  };
+}
+
+/**
+ * Records the submission-time estimate of a batch, priced with the rate card in effect
+ * Never throws - a missing estimate only leaves the batch out of reconciliation
+ */
+export async function recordBatchEstimate(
+  batchId: string,
+  model: SoraModel,
+  duration: VideoDuration,
+  videoCount: number,
+  tenantId?: string
+): Promise<void> {
+  try {
+    const rateCard = await getActiveRateCard();
+    const cost = calculateBatchCost(model, duration, videoCount, undefined, [], rateCard);
+
+    await saveBatchCostEstimate({
+      batchId,
+      tenantId,
+      model,
+      duration,
+      videoCount,
+      openaiUsd: cost.providerCosts.openai,
+      anthropicUsd: cost.providerCosts.anthropic,
+      googleUsd: cost.providerCosts.google,
+      perplexityUsd: cost.providerCosts.perplexity,
+      storageUsd: cost.storageSubtotal,
+      totalUsd: cost.totalBatchCost,
+      pricingVersion: rateCard.version,
+    });
+  } catch (error) {
+    console.error(`[Cost Reconciliation] Failed to record estimate for batch ${batchId}:`, error);
+  }
+}
+
+/**
+ * Reconciles one batch (null if no estimate was recorded for it)
+ */
+export async function reconcileBatch(batchId: string): Promise<BatchReconciliation | null> {
+  const estimate = await getBatchCostEstimate(batchId);
+  if (!estimate) return null;
+
+  const [spend, campaignNames] = await Promise.all([
+    getBatchSpendByProvider([batchId]),
+    loadCampaignNames([batchId]),
+  ]);
+
+  return reconcileEstimate(estimate, spend, campaignNames.get(batchId));
+}
+
+/**
+ * Calendar month (UTC) for a YYYY-MM string, defaulting to the previous month (month-end close)
+ * @throws Error if the month is not YYYY-MM
+ */
+export function getReportingMonth(month?: string, now: Date = new Date()): { from: Date; to: Date } {
+  if (month === undefined) {
+    return {
+      from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)),
+      to: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    };
+  }
+
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) {
+    throw new Error(`Invalid month "${month}" - expected YYYY-MM`);
+  }
+
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  return {
+    from: new Date(Date.UTC(year, monthIndex, 1)),
+    to: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+/**
+ * Reconciles every batch a tenant submitted within a period
+ * Spend is attributed to the batch it belongs to, even if a retry was billed after the period
+ */
+export async function buildReconciliationReport(
+  tenantId: string,
+  from: Date,
+  to: Date
+): Promise<ReconciliationReport> {
+  const estimates = await loadBatchCostEstimates(tenantId, from, to);
+  const batchIds = estimates.map((estimate) => estimate.batchId);
+  const [spend, campaignNames] = await Promise.all([
+    getBatchSpendByProvider(batchIds),
+    loadCampaignNames(batchIds),
+  ]);
+
+  const batches = estimates.map((estimate) =>
+    reconcileEstimate(estimate, spend, campaignNames.get(estimate.batchId))
+  );
+
+  const estimated = emptyProviderTotals();
+  const actual = emptyProviderTotals();
+  for (const batch of batches) {
+    for (const provider of batch.providers) {
+      estimated[provider.provider] += provider.estimatedUsd;
+      actual[provider.provider] += provider.actualUsd;
+    }
+  }
+
+  const providers = reconcileProviders(estimated, actual);
+  const total = measureDrift(
+    providers.reduce((sum, provider) => sum + provider.estimatedUsd, 0),
+    providers.reduce((sum, provider) => sum + provider.actualUsd, 0)
+  );
+
+  return {
+    tenantId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    estimatedUsd: total.estimatedUsd,
+    actualUsd: total.actualUsd,
+    driftUsd: total.driftUsd,
+    driftPercent: total.driftPercent,
+    flaggedBatches: batches.filter((batch) => batch.flagged).length,
+    providers,
+    batches,
+  };
+}
+
+/**
+ * Providers whose actual spend over the tenant's settled batches of the last 30 days
+ * drifted from the estimate - the rate card for them is treated as stale
+ */
+export async function getPricingDrift(tenantId: string, now: Date = new Date()): Promise<PricingDrift> {
+  const to = new Date(now.getTime() - SETTLE_AFTER_MS);
+  const from = new Date(to.getTime() - PRICING_DRIFT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const report = await buildReconciliationReport(tenantId, from, to);
+
+  return {
+    checkedBatches: report.batches.length,
+    driftedProviders: report.providers
+      .filter((provider) => provider.flagged)
+      .map((provider) => provider.provider),
+    providers: report.providers,
+  };
+}
+
+/**
+ * Month-end report as CSV: one row per batch and provider
+ */
+export function formatReconciliationCsv(report: ReconciliationReport): string {
+  const header = [
+    'batch_id',
+    'campaign',
+    'estimated_at',
+    'pricing_version',
+    'provider',
+    'estimated_usd',
+    'actual_usd',
+    'drift_usd',
+    'drift_percent',
+    'flagged',
+  ];
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const rows = report.batches.flatMap((batch) =>
+    batch.providers.map((provider) =>
+      [
+        batch.batchId,
+        batch.campaignName ?? '',
+        batch.estimatedAt,
+        batch.pricingVersion,
+        provider.provider,
+        provider.estimatedUsd.toFixed(2),
+        provider.actualUsd.toFixed(2),
+        provider.driftUsd.toFixed(2),
+        provider.driftPercent === null ? '' : provider.driftPercent.toFixed(1),
+        provider.flagged ? 'yes' : 'no',
+      ]
+        .map(escape)
+        .join(',')
+    )
+  );
+
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
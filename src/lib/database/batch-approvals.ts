@@ -0,0 +1,106 @@
+// Story 1.5: Batch Approvals
+// Batches estimated above the tenant's approval threshold wait here until an admin decides
+
+import type { BatchApproval, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { BatchGenerationRequest } from "@/lib/batch-generation";
+
+export type BatchApprovalStatus = "pending" | "approved" | "denied" | "failed"; // failed: approved but did not start
+
+/**
+ * Batch submitted for approval
+ */
+export type NewBatchApproval = {
+  batchId: string;
+  tenantId: string;
+  requestedBy: string;
+  totalBatchCost: number;
+  videoCount: number;
+  payload: BatchGenerationRequest;
+};
+
+/**
+ * Records a batch waiting for approval (resubmitting a batch replaces its pending request)
+ */
+export async function createBatchApproval(approval: NewBatchApproval): Promise<BatchApproval> {
+  const data = {
+    ...approval,
+    status: "pending",
+    payload: approval.payload as unknown as Prisma.InputJsonValue,
+    decidedBy: null,
+    decidedAt: null,
+    reason: null,
+  };
+
+  return prisma.batchApproval.upsert({
+    where: { batchId: approval.batchId },
+    create: data,
+    update: data,
+  });
+}
+
+/**
+ * Loads a tenant's approval requests, newest first
+ */
+export async function listBatchApprovals(
+  tenantId: string,
+  status?: BatchApprovalStatus
+): Promise<BatchApproval[]> {
+  return prisma.batchApproval.findMany({
+    where: { tenantId, ...(status ? { status } : {}) },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Loads an approval request, scoped to a tenant
+ */
+export async function getBatchApproval(id: string, tenantId: string): Promise<BatchApproval | null> {
+  return prisma.batchApproval.findFirst({
+    where: { id, tenantId },
+  });
+}
+
+/**
+ * Moves a pending request to a decision
+ * @returns false if the request was already decided (e.g. by another admin)
+ */
+export async function decideBatchApproval(
+  id: string,
+  decision: "approved" | "denied",
+  decidedBy: string,
+  reason?: string
+): Promise<boolean> {
+  const result = await prisma.batchApproval.updateMany({
+    where: { id, status: "pending" },
+    data: {
+      status: decision,
+      decidedBy,
+      decidedAt: new Date(),
+      reason: reason ?? null,
+    },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Returns an approved request to pending (the approved batch could not be prepared, so nothing was created)
+ */
+export async function reopenBatchApproval(id: string): Promise<void> {
+  await prisma.batchApproval.updateMany({
+    where: { id, status: "approved" },
+    data: { status: "pending", decidedBy: null, decidedAt: null },
+  });
+}
+
+/**
+ * Marks an approved request as failed: its batch failed part way through starting, so replaying it
+ * would repeat (or collide with) the records already created. The batch has to be submitted again.
+ */
+export async function failBatchApproval(id: string, error: string): Promise<void> {
+  await prisma.batchApproval.updateMany({
+    where: { id, status: "approved" },
+    data: { status: "failed", reason: `Failed to start: ${error}` },
+  });
+}
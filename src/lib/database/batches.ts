@@ -0,0 +1,223 @@
+// Story 2.3: Batch Tracking
+// Batches and their video variations - the source of truth for the batch pages (Notion only mirrors them)
+
+import type { Batch, Prisma, VideoVariation } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { VideoCombination } from "@/types/dashboard";
+
+export type VideoVariationStatus =
+  | "pending"
+  | "needs_review" // Prompt held for compliance review
+  | "paused"
+  | "in_progress"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "rejected"; // Generated, then rejected by a reviewer
+
+export type BatchWithVariations = Batch & { variations: VideoVariation[] };
+
+export type NewBatch = {
+  batchId: string;
+  tenantId?: string;
+  brandId: string;
+  bigIdea: string;
+  productCategory?: string;
+  model: string;
+  duration: number;
+  aspectRatio?: string;
+};
+
+export type NewVideoVariation = {
+  combinationId: string;
+  combination: VideoCombination;
+  status: Extract<VideoVariationStatus, "pending" | "needs_review">;
+  prompt: string;
+  cost: number;
+};
+
+/**
+ * Fields updated as a video moves through generation
+ */
+export type VideoVariationUpdate = Partial<
+  Pick<
+    VideoVariation,
+    "prompt" | "progress" | "soraVideoId" | "videoUrl" | "errorType" | "error" | "retryCount" | "lastRetryAt"
+  >
+> & { status?: VideoVariationStatus };
+
+const FINISHED_STATUSES: VideoVariationStatus[] = ["completed", "failed", "cancelled", "rejected"];
+
+/**
+ * Creates a batch and its variations in one transaction
+ * @returns Variations in matrix order
+ */
+export async function createBatchWithVariations(
+  batch: NewBatch,
+  variations: NewVideoVariation[]
+): Promise<VideoVariation[]> {
+  const created = await prisma.batch.create({
+    data: {
+      id: batch.batchId,
+      tenantId: batch.tenantId ?? null,
+      brandId: batch.brandId,
+      bigIdea: batch.bigIdea,
+      productCategory: batch.productCategory ?? null,
+      model: batch.model,
+      duration: batch.duration,
+      aspectRatio: batch.aspectRatio ?? null,
+      totalVariations: variations.length,
+      variations: {
+        create: variations.map((variation, position) => ({
+          tenantId: batch.tenantId ?? null,
+          combinationId: variation.combinationId,
+          position,
+          dimensions: variation.combination as unknown as Prisma.InputJsonValue,
+          status: variation.status,
+          prompt: variation.prompt,
+          cost: variation.cost,
+        })),
+      },
+    },
+    include: { variations: { orderBy: { position: "asc" } } },
+  });
+
+  return created.variations;
+}
+
+/**
+ * Loads a batch with its variations in matrix order
+ */
+export async function loadBatchWithVariations(batchId: string): Promise<BatchWithVariations | null> {
+  return prisma.batch.findUnique({
+    where: { id: batchId },
+    include: { variations: { orderBy: { position: "asc" } } },
+  });
+}
+
+/**
+ * Loads a video variation by video ID
+ */
+export async function getVideoVariation(id: string): Promise<VideoVariation | null> {
+  return prisma.videoVariation.findUnique({ where: { id } });
+}
+
+/**
+ * Updates a video variation
+ */
+export async function updateVideoVariation(id: string, update: VideoVariationUpdate): Promise<VideoVariation> {
+  return prisma.videoVariation.update({
+    where: { id },
+    data: update,
+  });
+}
+
+/**
+ * Links a variation to the Notion page that mirrors it
+ */
+export async function setVariationNotionPage(id: string, notionPageId: string): Promise<void> {
+  await prisma.videoVariation.update({
+    where: { id },
+    data: { notionPageId },
+  });
+}
+
+/**
+ * Recounts a batch's finished videos and completes the batch once none are left to generate
+ * Failed and cancelled videos both count as failed; rejected videos were generated, so they count as completed
+ */
+export async function refreshBatchProgress(batchId: string): Promise<void> {
+  const counts = await prisma.videoVariation.groupBy({
+    by: ["status"],
+    where: { batchId },
+    _count: { _all: true },
+  });
+
+  const countOf = (statuses: VideoVariationStatus[]) =>
+    counts
+      .filter((count) => statuses.includes(count.status as VideoVariationStatus))
+      .reduce((sum, count) => sum + count._count._all, 0);
+
+  const total = counts.reduce((sum, count) => sum + count._count._all, 0);
+  const completedCount = countOf(["completed", "rejected"]);
+  const failedCount = countOf(["failed", "cancelled"]);
+  const finished = countOf(FINISHED_STATUSES) === total;
+
+  await prisma.batch.update({
+    where: { id: batchId },
+    data: {
+      completedCount,
+      failedCount,
+      status: !finished ? "generating" : completedCount > 0 ? "completed" : "failed",
+    },
+  });
+}
+
+/**
+ * Tenant that owns a batch: its batch row, else its generation jobs (batches submitted before batch tracking),
+ * else its approval request (batches held for admin approval)
+ * @returns undefined if none exists (the batch has not been submitted), null for a batch without a tenant
+ */
+export async function getBatchOwnerTenantId(batchId: string): Promise<string | null | undefined> {
+  const batch = await prisma.batch.findUnique({
+    where: { id: batchId },
+    select: { tenantId: true },
+  });
+  if (batch) {
+    return batch.tenantId;
+  }
+
+  const job = await prisma.generationJob.findFirst({
+    where: { batchId },
+    select: { tenantId: true },
+  });
+  if (job) {
+    return job.tenantId;
+  }
+
+  const approval = await prisma.batchApproval.findUnique({
+    where: { batchId },
+    select: { tenantId: true },
+  });
+  return approval?.tenantId;
+}
+
+/**
+ * Brand a batch was generated for
+ * @returns undefined for batches without a batch row (submitted before batch tracking)
+ */
+export async function getBatchBrandId(batchId: string): Promise<string | undefined> {
+  const batch = await prisma.batch.findUnique({
+    where: { id: batchId },
+    select: { brandId: true },
+  });
+  return batch?.brandId;
+}
+
+/**
+ * Batch a video belongs to: its variation, else its generation job, else its stored assets
+ * @returns undefined if the video is unknown
+ */
+export async function getVideoBatchId(videoId: string): Promise<string | undefined> {
+  const variation = await prisma.videoVariation.findUnique({
+    where: { id: videoId },
+    select: { batchId: true },
+  });
+  if (variation) {
+    return variation.batchId;
+  }
+
+  const job = await prisma.generationJob.findUnique({
+    where: { notionPageId: videoId },
+    select: { batchId: true },
+  });
+  if (job) {
+    return job.batchId;
+  }
+
+  const asset = await prisma.videoAsset.findFirst({
+    where: { notionPageId: videoId },
+    select: { batchId: true },
+  });
+  return asset?.batchId;
+}
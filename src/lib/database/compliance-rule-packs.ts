@@ -0,0 +1,158 @@
+// Story 2.1: Compliance Rule Packs
+// Versioned rule packs per tenant (and optionally per brand); drafts are editable, published packs are not
+
+import type { ComplianceRulePack, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { ComplianceRule } from "@/lib/compliance-rules";
+
+/**
+ * Rule pack with its rules typed
+ */
+export type StoredRulePack = Omit<ComplianceRulePack, "rules"> & {
+  rules: ComplianceRule[];
+};
+
+/**
+ * Maps a database row to a rule pack
+ */
+function toRulePack(row: ComplianceRulePack): StoredRulePack {
+  return {
+    ...row,
+    rules: row.rules as unknown as ComplianceRule[],
+  };
+}
+
+/**
+ * Loads a tenant's rule packs, newest version first
+ * @param brandId - Only this brand's packs (null for tenant-wide packs, undefined for all)
+ */
+export async function listRulePacks(tenantId: string, brandId?: string | null): Promise<StoredRulePack[]> {
+  const rows = await prisma.complianceRulePack.findMany({
+    where: {
+      tenantId,
+      ...(brandId !== undefined ? { brandId } : {}),
+    },
+    orderBy: [{ brandId: "asc" }, { version: "desc" }],
+  });
+
+  return rows.map(toRulePack);
+}
+
+/**
+ * Loads one of a tenant's rule packs
+ */
+export async function getRulePack(tenantId: string, id: string): Promise<StoredRulePack | null> {
+  const row = await prisma.complianceRulePack.findFirst({
+    where: { id, tenantId },
+  });
+
+  return row ? toRulePack(row) : null;
+}
+
+/**
+ * Creates a draft with the next version number for the tenant/brand
+ */
+export async function createRulePackDraft(draft: {
+  tenantId: string;
+  brandId?: string | null;
+  rules: ComplianceRule[];
+  notes?: string;
+  createdBy: string;
+}): Promise<StoredRulePack> {
+  const brandId = draft.brandId ?? null;
+
+  const row = await prisma.$transaction(async (tx) => {
+    const latest = await tx.complianceRulePack.findFirst({
+      where: { tenantId: draft.tenantId, brandId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    return tx.complianceRulePack.create({
+      data: {
+        tenantId: draft.tenantId,
+        brandId,
+        version: (latest?.version ?? 0) + 1,
+        rules: draft.rules as unknown as Prisma.InputJsonValue,
+        notes: draft.notes ?? null,
+        createdBy: draft.createdBy,
+      },
+    });
+  });
+
+  return toRulePack(row);
+}
+
+/**
+ * Replaces a draft's rules and notes
+ * @returns null if the pack does not exist or is no longer a draft
+ */
+export async function updateRulePackDraft(
+  tenantId: string,
+  id: string,
+  changes: { rules?: ComplianceRule[]; notes?: string | null }
+): Promise<StoredRulePack | null> {
+  const result = await prisma.complianceRulePack.updateMany({
+    where: { id, tenantId, status: "draft" },
+    data: {
+      ...(changes.rules ? { rules: changes.rules as unknown as Prisma.InputJsonValue } : {}),
+      ...(changes.notes !== undefined ? { notes: changes.notes } : {}),
+    },
+  });
+
+  return result.count > 0 ? getRulePack(tenantId, id) : null;
+}
+
+/**
+ * Publishes a draft, archiving the pack it replaces
+ * @returns null if the pack does not exist or is no longer a draft
+ */
+export async function publishRulePackDraft(
+  tenantId: string,
+  id: string,
+  publishedBy: string
+): Promise<StoredRulePack | null> {
+  const row = await prisma.$transaction(async (tx) => {
+    const draft = await tx.complianceRulePack.findFirst({
+      where: { id, tenantId, status: "draft" },
+    });
+
+    if (!draft) {
+      return null;
+    }
+
+    await tx.complianceRulePack.updateMany({
+      where: { tenantId, brandId: draft.brandId, status: "published" },
+      data: { status: "archived" },
+    });
+
+    return tx.complianceRulePack.update({
+      where: { id },
+      data: { status: "published", publishedBy, publishedAt: new Date() },
+    });
+  });
+
+  return row ? toRulePack(row) : null;
+}
+
+/**
+ * Loads the published tenant-wide pack and, if given, the brand's published pack
+ */
+export async function loadPublishedRulePacks(
+  tenantId: string,
+  brandId?: string
+): Promise<{ tenant: StoredRulePack | null; brand: StoredRulePack | null }> {
+  const rows = await prisma.complianceRulePack.findMany({
+    where: {
+      tenantId,
+      status: "published",
+      OR: [{ brandId: null }, ...(brandId ? [{ brandId }] : [])],
+    },
+  });
+
+  const packs = rows.map(toRulePack);
+  return {
+    tenant: packs.find((pack) => pack.brandId === null) ?? null,
+    brand: brandId ? packs.find((pack) => pack.brandId === brandId) ?? null : null,
+  };
+}
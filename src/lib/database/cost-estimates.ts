@@ -0,0 +1,101 @@
+// Story 1.5: Cost Reconciliation
+// Submission-time cost estimate of each batch, compared with the spend ledger after the fact
+
+import type { BatchCostEstimate } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Estimate recorded when a batch is submitted
+ */
+export type NewBatchCostEstimate = {
+  batchId: string;
+  tenantId?: string;
+  model: string;
+  duration: number;
+  videoCount: number;
+  openaiUsd: number;
+  anthropicUsd: number;
+  googleUsd: number;
+  perplexityUsd: number;
+  storageUsd: number;
+  totalUsd: number;
+  pricingVersion: string;
+};
+
+/**
+ * Actual spend of one batch with one provider
+ */
+export type BatchProviderSpend = {
+  batchId: string;
+  provider: string;
+  costUsd: number;
+};
+
+/**
+ * Records a batch estimate (a resubmitted batch keeps its latest estimate)
+ */
+export async function saveBatchCostEstimate(estimate: NewBatchCostEstimate): Promise<BatchCostEstimate> {
+  const data = { ...estimate, tenantId: estimate.tenantId ?? null };
+
+  return prisma.batchCostEstimate.upsert({
+    where: { batchId: estimate.batchId },
+    create: data,
+    update: data,
+  });
+}
+
+/**
+ * Loads the estimate of a batch
+ */
+export async function getBatchCostEstimate(batchId: string): Promise<BatchCostEstimate | null> {
+  return prisma.batchCostEstimate.findUnique({
+    where: { batchId },
+  });
+}
+
+/**
+ * Loads a tenant's batch estimates submitted within a period, oldest first
+ */
+export async function loadBatchCostEstimates(
+  tenantId: string,
+  from: Date,
+  to: Date
+): Promise<BatchCostEstimate[]> {
+  return prisma.batchCostEstimate.findMany({
+    where: { tenantId, createdAt: { gte: from, lt: to } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Actual spend per batch and provider from the spend ledger
+ */
+export async function getBatchSpendByProvider(batchIds: string[]): Promise<BatchProviderSpend[]> {
+  if (batchIds.length === 0) return [];
+
+  const groups = await prisma.spendLedgerEntry.groupBy({
+    by: ["batchId", "provider"],
+    where: { batchId: { in: batchIds } },
+    _sum: { costUsd: true },
+  });
+
+  return groups.map((group) => ({
+    batchId: group.batchId!,
+    provider: group.provider,
+    costUsd: group._sum.costUsd ?? 0,
+  }));
+}
+
+/**
+ * Campaign names by ID (campaign IDs are batch IDs)
+ */
+export async function loadCampaignNames(batchIds: string[]): Promise<Map<string, string>> {
+  if (batchIds.length === 0) return new Map();
+
+  const campaigns = await prisma.campaign.findMany({
+    where: { id: { in: batchIds } },
+    select: { id: true, name: true },
+  });
+
+  return new Map(campaigns.map((campaign) => [campaign.id, campaign.name]));
+}
@@ -0,0 +1,49 @@
+// Story 2.6: Durable Download Jobs
+// Mirrors AssetDownloadManager jobs into PostgreSQL so a restart inside the
+// one-hour Sora download window does not lose the assets
+
+import type { DownloadJob as DownloadJobRecord } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { DownloadJob } from "@/lib/asset-download-manager";
+
+/**
+ * Records a download job and its current state
+ * Re-queueing an existing notionPageId (e.g. after a retry) replaces the previous job
+ */
+export async function saveDownloadJob(job: DownloadJob): Promise<void> {
+  const data = {
+    soraVideoId: job.soraVideoId,
+    batchId: job.batchId,
+    tenantId: job.tenantId ?? null,
+    lineage: job.lineage,
+    referenceId: job.referenceId ?? null,
+    status: job.status,
+    retryCount: job.retryCount,
+    maxRetries: job.maxRetries,
+    error: job.error ?? null,
+    completedAt: job.completedAt,
+    expiresAt: job.expiresAt,
+    expiryAlertedAt: job.expiryAlertedAt ?? null,
+  };
+
+  await prisma.downloadJob.upsert({
+    where: { notionPageId: job.notionPageId },
+    create: { notionPageId: job.notionPageId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Loads every download that had not finished before the last shutdown,
+ * soonest expiry first so the most urgent downloads are recovered first
+ */
+export async function loadUnfinishedDownloadJobs(): Promise<DownloadJobRecord[]> {
+  return prisma.downloadJob.findMany({
+    where: {
+      status: { in: ["pending", "downloading"] },
+    },
+    orderBy: {
+      expiresAt: "asc",
+    },
+  });
+}
@@ -0,0 +1,224 @@
+// Story 2.5: Durable Video Generation Queue - Job Persistence
+// Mirrors VideoGenerationQueue state into PostgreSQL so batches survive restarts
+
+import type { GenerationJob } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { QueuedVideo } from "@/lib/video-generation-queue";
+
+/**
+ * Persisted job status (matches VideoGenerationStatus['status'], plus "paused" for queued jobs in a paused batch)
+ */
+export type GenerationJobStatus =
+  | "queued"
+  | "paused"
+  | "in_progress"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Records a newly queued video
+ * Re-submitting an existing notionPageId (e.g. a retry) resets the job to queued
+ */
+export async function saveQueuedJob(video: QueuedVideo): Promise<void> {
+  const data = {
+    batchId: video.batchId,
+    combinationId: video.combinationId,
+    tenantId: video.tenantId ?? null,
+    priority: video.priority ?? "standard",
+    lineage: video.lineage ?? "original",
+    referenceId: video.referenceId ?? null,
+    remixOf: video.remixOf ?? null,
+    prompt: video.prompt,
+    model: video.model,
+    duration: video.duration,
+    aspectRatio: video.aspectRatio ?? null,
+    loop: video.loop ?? false,
+    status: "queued",
+    soraVideoId: null,
+    error: null,
+    queuedAt: video.queuedAt,
+    startedAt: null,
+    completedAt: null,
+  };
+
+  await prisma.generationJob.upsert({
+    where: { notionPageId: video.notionPageId },
+    create: { notionPageId: video.notionPageId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Marks a job as submitted to Sora
+ */
+export async function markJobInProgress(
+  notionPageId: string,
+  soraVideoId: string,
+  startedAt: Date
+): Promise<void> {
+  await prisma.generationJob.update({
+    where: { notionPageId },
+    data: {
+      status: "in_progress",
+      soraVideoId,
+      startedAt,
+    },
+  });
+}
+
+/**
+ * Marks a job as finished successfully
+ */
+export async function markJobCompleted(notionPageId: string): Promise<void> {
+  await prisma.generationJob.update({
+    where: { notionPageId },
+    data: {
+      status: "completed",
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Marks a job as failed with the error message
+ */
+export async function markJobFailed(notionPageId: string, error: string): Promise<void> {
+  await prisma.generationJob.update({
+    where: { notionPageId },
+    data: {
+      status: "failed",
+      error,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Marks a job as cancelled by the user
+ */
+export async function markJobCancelled(notionPageId: string): Promise<void> {
+  await prisma.generationJob.update({
+    where: { notionPageId },
+    data: {
+      status: "cancelled",
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Pauses or resumes every not-yet-dispatched job in a batch
+ */
+export async function setBatchJobsPaused(batchId: string, paused: boolean): Promise<void> {
+  await prisma.generationJob.updateMany({
+    where: {
+      batchId,
+      status: paused ? "queued" : "paused",
+    },
+    data: {
+      status: paused ? "paused" : "queued",
+    },
+  });
+}
+
+/**
+ * Loads the job for a video
+ */
+export async function getJob(notionPageId: string): Promise<GenerationJob | null> {
+  return prisma.generationJob.findUnique({
+    where: { notionPageId },
+  });
+}
+
+/**
+ * Loads every job that still needs work, oldest first (FIFO order)
+ */
+export async function loadActiveJobs(): Promise<GenerationJob[]> {
+  return prisma.generationJob.findMany({
+    where: {
+      status: { in: ["queued", "paused", "in_progress"] },
+    },
+    orderBy: {
+      queuedAt: "asc",
+    },
+  });
+}
+
+/**
+ * Loads completed, failed and cancelled jobs for the given batches
+ * Used on restore so batch progress still counts videos finished before the restart
+ */
+export async function loadFinishedJobs(batchIds: string[]): Promise<GenerationJob[]> {
+  if (batchIds.length === 0) {
+    return [];
+  }
+
+  return prisma.generationJob.findMany({
+    where: {
+      batchId: { in: batchIds },
+      status: { in: ["completed", "failed", "cancelled"] },
+    },
+    orderBy: {
+      queuedAt: "asc",
+    },
+  });
+}
+
+/**
+ * Loads completed jobs, either by Notion page ID or for a whole batch
+ * Used by exports to find prompts, settings and Sora video IDs
+ */
+export async function loadCompletedJobs(filter: {
+  notionPageIds?: string[];
+  batchId?: string;
+}): Promise<GenerationJob[]> {
+  return prisma.generationJob.findMany({
+    where: {
+      status: "completed",
+      ...(filter.notionPageIds ? { notionPageId: { in: filter.notionPageIds } } : {}),
+      ...(filter.batchId ? { batchId: filter.batchId } : {}),
+    },
+    orderBy: {
+      queuedAt: "asc",
+    },
+  });
+}
+
+/**
+ * Loads a tenant's most recently queued prompts, newest first
+ * Used to dry-run compliance rule packs against real prompts before publishing
+ * @param brandId - Only prompts from this brand's campaigns
+ */
+export async function loadRecentPrompts(
+  tenantId: string,
+  limit: number,
+  brandId?: string
+): Promise<Pick<GenerationJob, "notionPageId" | "batchId" | "prompt" | "queuedAt">[]> {
+  let batchIds: string[] | undefined;
+
+  if (brandId) {
+    const campaigns = await prisma.campaign.findMany({
+      where: { tenantId, brandId },
+      select: { id: true },
+    });
+    batchIds = campaigns.map((campaign) => campaign.id);
+  }
+
+  return prisma.generationJob.findMany({
+    where: {
+      tenantId,
+      ...(batchIds ? { batchId: { in: batchIds } } : {}),
+    },
+    select: {
+      notionPageId: true,
+      batchId: true,
+      prompt: true,
+      queuedAt: true,
+    },
+    orderBy: {
+      queuedAt: "desc",
+    },
+    take: limit,
+  });
+}
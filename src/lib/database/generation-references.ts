@@ -0,0 +1,65 @@
+// Story 2.4: Image References
+// Product images and reference frames uploaded for a batch and sent to Sora as input_reference
+
+import type { GenerationReference } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Uploaded reference image details
+ */
+export type NewGenerationReference = {
+  batchId: string;
+  tenantId?: string;
+  combinationKey?: string; // Omit for the batch-wide product image
+  fileName: string;
+  sha256: string;
+  sizeBytes: number;
+  mimeType: string;
+  width: number;
+  height: number;
+  storageBackend: string;
+  storagePath: string;
+};
+
+/**
+ * Records a reference image, replacing any earlier upload for the same batch and combination
+ */
+export async function saveGenerationReference(
+  reference: NewGenerationReference
+): Promise<GenerationReference> {
+  const combinationKey = reference.combinationKey ?? null;
+
+  const [, saved] = await prisma.$transaction([
+    prisma.generationReference.deleteMany({
+      where: { batchId: reference.batchId, combinationKey },
+    }),
+    prisma.generationReference.create({
+      data: {
+        ...reference,
+        tenantId: reference.tenantId ?? null,
+        combinationKey,
+      },
+    }),
+  ]);
+
+  return saved;
+}
+
+/**
+ * Reference images of a batch (product image first, then reference frames)
+ */
+export async function loadBatchReferences(batchId: string): Promise<GenerationReference[]> {
+  return prisma.generationReference.findMany({
+    where: { batchId },
+    orderBy: [{ combinationKey: { sort: "asc", nulls: "first" } }],
+  });
+}
+
+/**
+ * Loads a reference image record by ID
+ */
+export async function getGenerationReference(id: string): Promise<GenerationReference | null> {
+  return prisma.generationReference.findUnique({
+    where: { id },
+  });
+}
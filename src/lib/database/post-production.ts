@@ -0,0 +1,120 @@
+// Story 2.6: Post-Production
+// Per-batch hook, CTA and watermark assets and the platform renders made from them
+
+import type { PostProductionProfile, PostProductionRender, VideoAsset } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { PlatformFormat, PostProductionJob } from "@/lib/post-production";
+import type { StoredFile } from "@/lib/storage-adapters";
+
+/**
+ * Post-production settings uploaded for a batch
+ */
+export type PostProductionProfileInput = {
+  batchId: string;
+  tenantId?: string;
+  hookPath?: string;
+  ctaPath?: string;
+  watermarkPath?: string;
+  hookBackend?: StoredFile["backend"]; // Where each upload is stored
+  ctaBackend?: StoredFile["backend"];
+  watermarkBackend?: StoredFile["backend"];
+  platforms: PlatformFormat[];
+  loudnessTarget: number;
+};
+
+/**
+ * Post-production settings of a batch (null when the batch has none)
+ */
+export async function getPostProductionProfile(batchId: string): Promise<PostProductionProfile | null> {
+  return prisma.postProductionProfile.findUnique({
+    where: { batchId },
+  });
+}
+
+/**
+ * Creates or replaces the post-production settings of a batch
+ */
+export async function savePostProductionProfile(
+  profile: PostProductionProfileInput
+): Promise<PostProductionProfile> {
+  const data = {
+    tenantId: profile.tenantId ?? null,
+    hookPath: profile.hookPath ?? null,
+    ctaPath: profile.ctaPath ?? null,
+    watermarkPath: profile.watermarkPath ?? null,
+    hookBackend: profile.hookBackend ?? null,
+    ctaBackend: profile.ctaBackend ?? null,
+    watermarkBackend: profile.watermarkBackend ?? null,
+    platforms: profile.platforms,
+    loudnessTarget: profile.loudnessTarget,
+  };
+
+  return prisma.postProductionProfile.upsert({
+    where: { batchId: profile.batchId },
+    create: { batchId: profile.batchId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Stored platform renders of a batch, newest version first
+ */
+export async function loadBatchRenders(batchId: string): Promise<VideoAsset[]> {
+  return prisma.videoAsset.findMany({
+    where: {
+      batchId,
+      assetType: { startsWith: "render_" },
+      deletedAt: null,
+    },
+    orderBy: [{ notionPageId: "asc" }, { version: "desc" }, { assetType: "asc" }],
+  });
+}
+
+/**
+ * Records a queued render job
+ * Queueing the same video version again (e.g. a recovered download) resets it to pending
+ */
+export async function savePostProductionRender(job: PostProductionJob): Promise<void> {
+  const data = {
+    soraVideoId: job.soraVideoId,
+    batchId: job.batchId,
+    tenantId: job.tenantId ?? null,
+    lineage: job.lineage,
+    videoBackend: job.video.backend,
+    videoPath: job.video.path,
+    videoAssetId: job.videoAssetId ?? null,
+    status: "pending",
+    error: null,
+  };
+
+  await prisma.postProductionRender.upsert({
+    where: { notionPageId_version: { notionPageId: job.notionPageId, version: job.version } },
+    create: { notionPageId: job.notionPageId, version: job.version, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Records the outcome of a render job
+ */
+export async function settlePostProductionRender(
+  notionPageId: string,
+  version: number,
+  status: "completed" | "failed",
+  error?: string
+): Promise<void> {
+  await prisma.postProductionRender.update({
+    where: { notionPageId_version: { notionPageId, version } },
+    data: { status, error: error ?? null },
+  });
+}
+
+/**
+ * Loads every render that had not finished before the last shutdown, oldest first
+ */
+export async function loadPendingPostProductionRenders(): Promise<PostProductionRender[]> {
+  return prisma.postProductionRender.findMany({
+    where: { status: "pending" },
+    orderBy: { createdAt: "asc" },
+  });
+}
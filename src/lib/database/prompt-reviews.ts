@@ -0,0 +1,142 @@
+// Story 2.1: Prompt Remediation
+// Compliance rounds of generated prompts, and prompts that still failed and wait for a human reviewer
+
+import type { Prisma, PromptComplianceAttempt, PromptReview } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { ValidationError } from "@/lib/compliance-validator";
+import type { QueuedVideo } from "@/lib/video-generation-queue";
+
+export type PromptReviewStatus = "pending" | "approved" | "rejected";
+
+/**
+ * One generation or remediation round of a prompt
+ */
+export type NewPromptAttempt = {
+  batchId: string;
+  tenantId?: string;
+  combinationKey: string;
+  round: number;
+  prompt: string;
+  dialog?: string;
+  valid: boolean;
+  errors: ValidationError[];
+};
+
+/**
+ * Prompt escalated after its last remediation round failed
+ */
+export type NewPromptReview = {
+  batchId: string;
+  tenantId?: string;
+  brandId: string;
+  combinationKey: string;
+  prompt: string;
+  dialog?: string;
+  errors: ValidationError[];
+  rounds: number;
+  video: QueuedVideo;
+};
+
+/**
+ * Records a compliance round
+ */
+export async function recordPromptAttempt(attempt: NewPromptAttempt): Promise<void> {
+  await prisma.promptComplianceAttempt.create({
+    data: {
+      ...attempt,
+      tenantId: attempt.tenantId ?? null,
+      dialog: attempt.dialog ?? null,
+      errors: attempt.errors as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Loads the compliance rounds of a batch's prompts (optionally one combination), in order
+ */
+export async function loadPromptAttempts(
+  batchId: string,
+  combinationKey?: string
+): Promise<PromptComplianceAttempt[]> {
+  return prisma.promptComplianceAttempt.findMany({
+    where: { batchId, ...(combinationKey ? { combinationKey } : {}) },
+    orderBy: [{ combinationKey: "asc" }, { round: "asc" }],
+  });
+}
+
+/**
+ * Adds a prompt to the review queue
+ */
+export async function createPromptReview(review: NewPromptReview): Promise<PromptReview> {
+  return prisma.promptReview.create({
+    data: {
+      ...review,
+      notionPageId: review.video.notionPageId,
+      tenantId: review.tenantId ?? null,
+      dialog: review.dialog ?? null,
+      errors: review.errors as unknown as Prisma.InputJsonValue,
+      video: review.video as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Loads a tenant's prompt reviews, oldest first (all statuses when status is omitted)
+ */
+export async function listPromptReviews(
+  tenantId: string,
+  filter: { status?: PromptReviewStatus; batchId?: string } = {}
+): Promise<PromptReview[]> {
+  return prisma.promptReview.findMany({
+    where: {
+      tenantId,
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.batchId ? { batchId: filter.batchId } : {}),
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Loads a prompt review, scoped to a tenant
+ */
+export async function getPromptReview(id: string, tenantId: string): Promise<PromptReview | null> {
+  return prisma.promptReview.findFirst({
+    where: { id, tenantId },
+  });
+}
+
+/**
+ * Moves a pending review to a decision
+ * @returns false if the review was already decided (e.g. by another reviewer)
+ */
+export async function decidePromptReview(
+  id: string,
+  decision: Exclude<PromptReviewStatus, "pending">,
+  reviewedBy: string,
+  finalPrompt?: string,
+  reason?: string
+): Promise<boolean> {
+  const result = await prisma.promptReview.updateMany({
+    where: { id, status: "pending" },
+    data: {
+      status: decision,
+      finalPrompt: finalPrompt ?? null,
+      reviewedBy,
+      reviewedAt: new Date(),
+      reason: reason ?? null,
+    },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Returns a review to pending (an approved prompt could not be queued)
+ */
+export async function reopenPromptReview(id: string): Promise<void> {
+  await prisma.promptReview.update({
+    where: { id },
+    data: { status: "pending", finalPrompt: null, reviewedBy: null, reviewedAt: null },
+  });
+}
@@ -0,0 +1,66 @@
+// Story 1.5: Versioned Rate Cards
+// Pricing published by admins; cards are never edited once published so historical costs stay reproducible
+
+import type { Prisma, RateCard as RateCardRow } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { RateCard } from "@/lib/pricing-config";
+
+/**
+ * Published rate card with its audit fields
+ */
+export type StoredRateCard = RateCard & {
+  createdBy: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Maps a database row to a rate card
+ */
+function toRateCard(row: RateCardRow): StoredRateCard {
+  return {
+    version: row.version,
+    effectiveFrom: row.effectiveFrom.toISOString(),
+    sora: row.sora as unknown as RateCard["sora"],
+    llm: row.llm as unknown as RateCard["llm"],
+    tokens: row.tokens as unknown as RateCard["tokens"],
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Loads every published rate card, newest effective date first
+ */
+export async function loadRateCards(): Promise<StoredRateCard[]> {
+  const rows = await prisma.rateCard.findMany({
+    orderBy: { effectiveFrom: "desc" },
+  });
+
+  return rows.map(toRateCard);
+}
+
+/**
+ * Checks whether a version name is taken
+ */
+export async function rateCardVersionExists(version: string): Promise<boolean> {
+  const count = await prisma.rateCard.count({ where: { version } });
+  return count > 0;
+}
+
+/**
+ * Publishes a rate card
+ */
+export async function createRateCard(rateCard: RateCard, createdBy?: string): Promise<StoredRateCard> {
+  const row = await prisma.rateCard.create({
+    data: {
+      version: rateCard.version,
+      effectiveFrom: new Date(rateCard.effectiveFrom),
+      sora: rateCard.sora as unknown as Prisma.InputJsonValue,
+      llm: rateCard.llm as unknown as Prisma.InputJsonValue,
+      tokens: rateCard.tokens as unknown as Prisma.InputJsonValue,
+      createdBy: createdBy ?? null,
+    },
+  });
+
+  return toRateCard(row);
+}
@@ -0,0 +1,96 @@
+// Story 2.8: Retry History
+// Every retry of a video and its outcome, and the per-tenant limit on retries
+
+import type { VideoRetryAttempt } from "@prisma/client";
+import { prisma } from "./prisma";
+import { DEFAULT_MAX_RETRY_ATTEMPTS, type RetryTrigger } from "@/lib/video-error-handler";
+
+/**
+ * Retry about to be queued
+ */
+export type NewRetryAttempt = {
+  notionPageId: string;
+  batchId: string;
+  tenantId?: string;
+  attemptNumber: number;
+  trigger: RetryTrigger;
+  previousError: string;
+  errorCategory: string;
+  modifiedPrompt?: string;
+  requestedBy?: string;
+};
+
+/**
+ * Records a retry
+ * @throws if the attempt number is already taken (two retries raced for the same video)
+ */
+export async function recordRetryAttempt(attempt: NewRetryAttempt): Promise<VideoRetryAttempt> {
+  return prisma.videoRetryAttempt.create({
+    data: {
+      ...attempt,
+      tenantId: attempt.tenantId ?? null,
+      modifiedPrompt: attempt.modifiedPrompt ?? null,
+      requestedBy: attempt.requestedBy ?? null,
+    },
+  });
+}
+
+/**
+ * Records the outcome of a video's pending retry (no-op if it has none)
+ */
+export async function settleRetryAttempt(
+  notionPageId: string,
+  outcome: "success" | "failed",
+  newError?: string
+): Promise<void> {
+  await prisma.videoRetryAttempt.updateMany({
+    where: { notionPageId, outcome: "pending" },
+    data: { outcome, newError: newError ?? null, finishedAt: new Date() },
+  });
+}
+
+/**
+ * Loads a video's retries, oldest first
+ */
+export async function loadRetryHistory(notionPageId: string): Promise<VideoRetryAttempt[]> {
+  return prisma.videoRetryAttempt.findMany({
+    where: { notionPageId },
+    orderBy: { attemptNumber: "asc" },
+  });
+}
+
+/**
+ * Number of retries made for a video
+ */
+export async function countRetryAttempts(notionPageId: string): Promise<number> {
+  return prisma.videoRetryAttempt.count({
+    where: { notionPageId },
+  });
+}
+
+/**
+ * Retries allowed per video for a tenant (the default for videos without a tenant)
+ */
+export async function getTenantMaxRetryAttempts(tenantId?: string): Promise<number> {
+  if (!tenantId) return DEFAULT_MAX_RETRY_ATTEMPTS;
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { maxRetryAttempts: true },
+  });
+
+  return tenant?.maxRetryAttempts ?? DEFAULT_MAX_RETRY_ATTEMPTS;
+}
+
+/**
+ * Sets the retries allowed per video for a tenant
+ */
+export async function setTenantMaxRetryAttempts(tenantId: string, maxRetryAttempts: number): Promise<number> {
+  const tenant = await prisma.tenant.update({
+    where: { id: tenantId },
+    data: { maxRetryAttempts },
+    select: { maxRetryAttempts: true },
+  });
+
+  return tenant.maxRetryAttempts;
+}
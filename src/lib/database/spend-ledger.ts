@@ -0,0 +1,238 @@
+// Story 1.5: Spend Ledger and Budgets
+// Actual cost of every Sora job and LLM call, and the prepaid budgets and spend caps it is checked against
+
+import type { SpendLedgerEntry, TenantBudget } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { ApiProvider } from "@/lib/wallet-balance";
+import type { SpendService } from "@/lib/spend-ledger";
+
+/**
+ * One costed API call
+ */
+export type NewSpendEntry = {
+  tenantId?: string;
+  batchId?: string;
+  notionPageId?: string;
+  provider: ApiProvider;
+  service: SpendService;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  seconds?: number;
+  costUsd: number;
+  rateCardVersion: string; // Rate card the cost was priced with
+};
+
+/**
+ * Prepaid budget as configured by a tenant admin
+ */
+export type TenantBudgetInput = {
+  provider: ApiProvider;
+  amountUsd: number;
+  startsAt?: Date; // Defaults to now when the budget is first set
+};
+
+/**
+ * Tenant-wide spend caps (null = no cap)
+ */
+export type TenantSpendCaps = {
+  monthlyCapUsd: number | null;
+  approvalThresholdUsd: number | null;
+};
+
+/**
+ * Spend per provider and service
+ */
+export type SpendTotal = {
+  provider: string;
+  service: string;
+  costUsd: number;
+  calls: number;
+};
+
+/**
+ * Records a costed API call
+ */
+export async function recordSpendEntry(entry: NewSpendEntry): Promise<SpendLedgerEntry> {
+  return prisma.spendLedgerEntry.create({
+    data: {
+      ...entry,
+      tenantId: entry.tenantId ?? null,
+      batchId: entry.batchId ?? null,
+      notionPageId: entry.notionPageId ?? null,
+      inputTokens: entry.inputTokens ?? null,
+      outputTokens: entry.outputTokens ?? null,
+      seconds: entry.seconds ?? null,
+    },
+  });
+}
+
+/**
+ * Loads a tenant's prepaid budgets
+ */
+export async function getTenantBudgets(tenantId: string): Promise<TenantBudget[]> {
+  return prisma.tenantBudget.findMany({
+    where: { tenantId },
+    orderBy: { provider: "asc" },
+  });
+}
+
+/**
+ * Replaces a tenant's budgets
+ * Providers left out lose their budget (unlimited); existing budgets keep their start date unless one is given
+ */
+export async function setTenantBudgets(
+  tenantId: string,
+  budgets: TenantBudgetInput[]
+): Promise<TenantBudget[]> {
+  await prisma.$transaction([
+    prisma.tenantBudget.deleteMany({
+      where: { tenantId, provider: { notIn: budgets.map((budget) => budget.provider) } },
+    }),
+    ...budgets.map((budget) =>
+      prisma.tenantBudget.upsert({
+        where: { tenantId_provider: { tenantId, provider: budget.provider } },
+        create: {
+          tenantId,
+          provider: budget.provider,
+          amountUsd: budget.amountUsd,
+          startsAt: budget.startsAt ?? new Date(),
+        },
+        update: {
+          amountUsd: budget.amountUsd,
+          ...(budget.startsAt ? { startsAt: budget.startsAt } : {}),
+        },
+      })
+    ),
+  ]);
+
+  return getTenantBudgets(tenantId);
+}
+
+/**
+ * Total recorded spend of a tenant with one provider since a date
+ */
+export async function getProviderSpend(
+  tenantId: string,
+  provider: ApiProvider,
+  since: Date
+): Promise<number> {
+  const result = await prisma.spendLedgerEntry.aggregate({
+    where: { tenantId, provider, createdAt: { gte: since } },
+    _sum: { costUsd: true },
+  });
+
+  return result._sum.costUsd ?? 0;
+}
+
+/**
+ * Total recorded spend of a tenant across all providers since a date
+ */
+export async function getTenantSpend(tenantId: string, since: Date): Promise<number> {
+  const result = await prisma.spendLedgerEntry.aggregate({
+    where: { tenantId, createdAt: { gte: since } },
+    _sum: { costUsd: true },
+  });
+
+  return result._sum.costUsd ?? 0;
+}
+
+/**
+ * Total recorded spend of a batch across all providers
+ */
+export async function getBatchSpend(batchId: string): Promise<number> {
+  const result = await prisma.spendLedgerEntry.aggregate({
+    where: { batchId },
+    _sum: { costUsd: true },
+  });
+
+  return result._sum.costUsd ?? 0;
+}
+
+/**
+ * Loads a tenant's monthly cap and approval threshold
+ */
+export async function getTenantSpendCaps(tenantId: string): Promise<TenantSpendCaps> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { monthlyCapUsd: true, approvalThresholdUsd: true },
+  });
+
+  return {
+    monthlyCapUsd: tenant?.monthlyCapUsd ?? null,
+    approvalThresholdUsd: tenant?.approvalThresholdUsd ?? null,
+  };
+}
+
+/**
+ * Updates a tenant's spend caps (fields left undefined keep their current value)
+ */
+export async function setTenantSpendCaps(
+  tenantId: string,
+  caps: Partial<TenantSpendCaps>
+): Promise<TenantSpendCaps> {
+  const tenant = await prisma.tenant.update({
+    where: { id: tenantId },
+    data: caps,
+    select: { monthlyCapUsd: true, approvalThresholdUsd: true },
+  });
+
+  return {
+    monthlyCapUsd: tenant.monthlyCapUsd,
+    approvalThresholdUsd: tenant.approvalThresholdUsd,
+  };
+}
+
+/**
+ * Loads the spend cap of the campaign a batch belongs to (campaign IDs are batch IDs)
+ */
+export async function getCampaignCap(batchId: string): Promise<number | null> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: batchId },
+    select: { budgetCapUsd: true },
+  });
+
+  return campaign?.budgetCapUsd ?? null;
+}
+
+/**
+ * Model and duration of a tenant's videos that are queued or generating (not yet in the ledger)
+ */
+export async function loadPendingGenerations(
+  tenantId: string
+): Promise<{ model: string; duration: number }[]> {
+  return prisma.generationJob.findMany({
+    where: {
+      tenantId,
+      status: { in: ["queued", "paused", "in_progress"] },
+    },
+    select: { model: true, duration: true },
+  });
+}
+
+/**
+ * Spend per provider and service, for a tenant or a single batch
+ */
+export async function getSpendTotals(filter: {
+  tenantId?: string;
+  batchId?: string;
+  since?: Date;
+}): Promise<SpendTotal[]> {
+  const groups = await prisma.spendLedgerEntry.groupBy({
+    by: ["provider", "service"],
+    where: {
+      ...(filter.tenantId ? { tenantId: filter.tenantId } : {}),
+      ...(filter.batchId ? { batchId: filter.batchId } : {}),
+      ...(filter.since ? { createdAt: { gte: filter.since } } : {}),
+    },
+    _sum: { costUsd: true },
+    _count: { _all: true },
+  });
+
+  return groups.map((group) => ({
+    provider: group.provider,
+    service: group.service,
+    costUsd: group._sum.costUsd ?? 0,
+    calls: group._count._all,
+  }));
+}
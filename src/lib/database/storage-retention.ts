@@ -0,0 +1,261 @@
+// Story 2.6: Storage Tiering and Retention
+// Per-tenant retention rules, the catalogue queries the retention job runs on,
+// and the audit trail of every move and delete
+
+import type { StorageMove, StorageRetentionRule, VideoAsset } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { RetentionRuleInput } from "@/lib/storage-retention";
+
+/**
+ * One move, delete or release performed by the retention job
+ */
+export type NewStorageMove = {
+  tenantId: string;
+  assetId: string;
+  ruleId?: string;
+  action: "move" | "delete" | "release";
+  fromBackend: string;
+  fromPath: string;
+  toBackend?: string;
+  toPath?: string;
+  sizeBytes: number;
+  status: "completed" | "failed" | "missing";
+  error?: string;
+};
+
+/**
+ * Bytes currently stored on one backend
+ */
+export type StorageBackendUsage = {
+  backend: string;
+  files: number;
+  bytes: number;
+};
+
+/**
+ * Loads a tenant's retention rules
+ */
+export async function getRetentionRules(tenantId: string): Promise<StorageRetentionRule[]> {
+  return prisma.storageRetentionRule.findMany({
+    where: { tenantId },
+    orderBy: [{ appliesTo: "asc" }, { action: "asc" }],
+  });
+}
+
+/**
+ * Replaces a tenant's retention rules
+ */
+export async function setRetentionRules(
+  tenantId: string,
+  rules: RetentionRuleInput[]
+): Promise<StorageRetentionRule[]> {
+  await prisma.$transaction([
+    prisma.storageRetentionRule.deleteMany({ where: { tenantId } }),
+    prisma.storageRetentionRule.createMany({
+      data: rules.map((rule) => ({
+        tenantId,
+        appliesTo: rule.appliesTo,
+        action: rule.action,
+        afterDays: rule.afterDays,
+        targetBackend: rule.action === "move" ? rule.targetBackend ?? null : null,
+      })),
+    }),
+  ]);
+
+  return getRetentionRules(tenantId);
+}
+
+/**
+ * Tenants with at least one retention rule
+ */
+export async function loadTenantsWithRetentionRules(): Promise<string[]> {
+  const rows = await prisma.storageRetentionRule.findMany({
+    distinct: ["tenantId"],
+    select: { tenantId: true },
+  });
+
+  return rows.map((row) => row.tenantId);
+}
+
+/**
+ * Stored (not yet deleted) assets of a tenant created before the cutoff, oldest first
+ */
+export async function loadRetainedAssets(
+  tenantId: string,
+  createdBefore: Date
+): Promise<VideoAsset[]> {
+  return prisma.videoAsset.findMany({
+    where: {
+      tenantId,
+      deletedAt: null,
+      createdAt: { lt: createdBefore },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Sora video IDs among the given ones that are marked as winners in campaign analytics
+ */
+export async function loadWinnerVideoIds(
+  tenantId: string,
+  soraVideoIds: string[]
+): Promise<Set<string>> {
+  if (soraVideoIds.length === 0) {
+    return new Set();
+  }
+
+  const winners = await prisma.testedCombination.findMany({
+    where: {
+      tenantId,
+      winnerStatus: true,
+      videoId: { in: soraVideoIds },
+    },
+    select: { videoId: true },
+  });
+
+  return new Set(winners.map((winner) => winner.videoId));
+}
+
+/**
+ * Counts other stored assets sharing a file (deduplicated content)
+ */
+export async function countAssetsSharingFile(
+  asset: Pick<VideoAsset, "id" | "tenantId" | "storageBackend" | "storagePath">
+): Promise<number> {
+  return prisma.videoAsset.count({
+    where: {
+      id: { not: asset.id },
+      tenantId: asset.tenantId,
+      storageBackend: asset.storageBackend,
+      storagePath: asset.storagePath,
+      deletedAt: null,
+    },
+  });
+}
+
+/**
+ * Points every asset stored in a file at its new location
+ * @returns Number of catalogue records updated
+ */
+export async function updateAssetLocation(
+  tenantId: string,
+  from: { backend: string; path: string },
+  to: { backend: string; path: string; url: string }
+): Promise<number> {
+  const result = await prisma.videoAsset.updateMany({
+    where: {
+      tenantId,
+      storageBackend: from.backend,
+      storagePath: from.path,
+      deletedAt: null,
+    },
+    data: {
+      storageBackend: to.backend,
+      storagePath: to.path,
+      url: to.url,
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Marks an asset as removed by retention
+ */
+export async function markAssetDeleted(assetId: string, deletedAt: Date = new Date()): Promise<void> {
+  await prisma.videoAsset.update({
+    where: { id: assetId },
+    data: { deletedAt },
+  });
+}
+
+/**
+ * Records a move, delete or release in the audit trail
+ */
+export async function recordStorageMove(move: NewStorageMove): Promise<StorageMove> {
+  return prisma.storageMove.create({
+    data: {
+      ...move,
+      ruleId: move.ruleId ?? null,
+      toBackend: move.toBackend ?? null,
+      toPath: move.toPath ?? null,
+      error: move.error ?? null,
+    },
+  });
+}
+
+/**
+ * Recent moves and deletes for a tenant, newest first
+ */
+export async function loadRecentStorageMoves(tenantId: string, limit: number = 50): Promise<StorageMove[]> {
+  return prisma.storageMove.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Files and bytes currently stored per backend (deduplicated files counted once)
+ */
+export async function getStorageUsage(tenantId?: string): Promise<StorageBackendUsage[]> {
+  const files = await prisma.videoAsset.findMany({
+    where: {
+      ...(tenantId ? { tenantId } : {}),
+      deletedAt: null,
+    },
+    distinct: ["storageBackend", "storagePath"],
+    select: { storageBackend: true, sizeBytes: true },
+  });
+
+  const usage = new Map<string, StorageBackendUsage>();
+  for (const file of files) {
+    const entry = usage.get(file.storageBackend) || { backend: file.storageBackend, files: 0, bytes: 0 };
+    entry.files++;
+    entry.bytes += file.sizeBytes;
+    usage.set(file.storageBackend, entry);
+  }
+
+  return Array.from(usage.values());
+}
+
+/**
+ * Average stored bytes per second of video, measured over recent downloads
+ * @returns undefined until at least one video has been downloaded
+ */
+export async function getMeasuredVideoBytesPerSecond(
+  tenantId?: string,
+  sampleSize: number = 200
+): Promise<number | undefined> {
+  const videos = await prisma.videoAsset.findMany({
+    where: {
+      ...(tenantId ? { tenantId } : {}),
+      assetType: "video",
+    },
+    orderBy: { createdAt: "desc" },
+    take: sampleSize,
+    select: { notionPageId: true, sizeBytes: true },
+  });
+
+  if (videos.length === 0) {
+    return undefined;
+  }
+
+  const jobs = await prisma.generationJob.findMany({
+    where: { notionPageId: { in: videos.map((video) => video.notionPageId) } },
+    select: { notionPageId: true, duration: true },
+  });
+  const durations = new Map(jobs.map((job) => [job.notionPageId, job.duration]));
+
+  let bytes = 0;
+  let seconds = 0;
+  for (const video of videos) {
+    const duration = durations.get(video.notionPageId);
+    if (!duration) continue;
+    bytes += video.sizeBytes;
+    seconds += duration;
+  }
+
+  return seconds > 0 ? bytes / seconds : undefined;
+}
@@ -0,0 +1,48 @@
+// Story 2.5: Sora Rate Limiting - Tenant Concurrency Limits
+// Per-tenant ceilings on concurrent video generations, per model
+
+import { prisma } from "./prisma";
+import type { SoraModel } from "@/lib/sora-client";
+
+export type TenantConcurrencyLimits = Partial<Record<SoraModel, number>>;
+
+/**
+ * Loads a tenant's configured concurrency ceilings, keyed by model
+ * Models without a row fall back to the org-wide limit
+ */
+export async function getTenantConcurrencyLimits(tenantId: string): Promise<TenantConcurrencyLimits> {
+  const rows = await prisma.tenantConcurrencyLimit.findMany({
+    where: { tenantId },
+  });
+
+  const limits: TenantConcurrencyLimits = {};
+  for (const row of rows) {
+    limits[row.model as SoraModel] = row.maxConcurrent;
+  }
+
+  return limits;
+}
+
+/**
+ * Sets (or clears with null) a tenant's concurrency ceiling for each given model
+ */
+export async function setTenantConcurrencyLimits(
+  tenantId: string,
+  limits: Partial<Record<SoraModel, number | null>>
+): Promise<TenantConcurrencyLimits> {
+  await prisma.$transaction(
+    Object.entries(limits).map(([model, maxConcurrent]) =>
+      maxConcurrent === null || maxConcurrent === undefined
+        ? prisma.tenantConcurrencyLimit.deleteMany({
+            where: { tenantId, model },
+          })
+        : prisma.tenantConcurrencyLimit.upsert({
+            where: { tenantId_model: { tenantId, model } },
+            create: { tenantId, model, maxConcurrent },
+            update: { maxConcurrent },
+          })
+    )
+  );
+
+  return getTenantConcurrencyLimits(tenantId);
+}
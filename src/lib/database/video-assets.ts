@@ -0,0 +1,154 @@
+// Story 2.6: Asset Catalogue
+// Downloaded assets with content hashes, sizes, MIME types and version lineage,
+// so versions and exports no longer depend on filenames in whichever backend is configured
+
+import type { VideoAsset } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { AssetLineage, AssetType } from "@/lib/asset-download-manager";
+import type { RenderAssetType } from "@/lib/post-production";
+
+/**
+ * Asset details recorded after a verified download
+ */
+export type NewVideoAsset = {
+  tenantId?: string;
+  notionPageId: string;
+  batchId: string;
+  soraVideoId: string;
+  assetType: AssetType | RenderAssetType;
+  version: number;
+  lineage: AssetLineage;
+  parentAssetId?: string;
+  referenceId?: string;
+  sha256: string;
+  sizeBytes: number;
+  mimeType: string;
+  storageBackend: string;
+  storagePath: string;
+  url: string;
+  verifiedAt?: Date;
+};
+
+/**
+ * Next version number for a variation (1 when nothing has been downloaded yet)
+ * All asset types of one download share the version number
+ */
+export async function getNextAssetVersion(notionPageId: string): Promise<number> {
+  const latest = await prisma.videoAsset.aggregate({
+    where: { notionPageId },
+    _max: { version: true },
+  });
+
+  return (latest._max.version ?? 0) + 1;
+}
+
+/**
+ * Latest recorded asset of a type for a variation (the parent of the next version)
+ */
+export async function findLatestAsset(
+  notionPageId: string,
+  assetType: AssetType
+): Promise<VideoAsset | null> {
+  return prisma.videoAsset.findFirst({
+    where: { notionPageId, assetType },
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Finds a stored asset with identical content for the tenant on the same backend
+ * Used to reuse the existing file instead of storing a duplicate
+ */
+export async function findAssetByHash(
+  tenantId: string | undefined,
+  sha256: string,
+  storageBackend: string
+): Promise<VideoAsset | null> {
+  return prisma.videoAsset.findFirst({
+    where: {
+      tenantId: tenantId ?? null,
+      sha256,
+      storageBackend,
+      deletedAt: null,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Records the assets of one download together, so a failure never leaves a partial version
+ */
+export async function recordVideoAssets(assets: NewVideoAsset[]): Promise<VideoAsset[]> {
+  return prisma.$transaction(
+    assets.map((asset) =>
+      prisma.videoAsset.create({
+        data: {
+          ...asset,
+          tenantId: asset.tenantId ?? null,
+          parentAssetId: asset.parentAssetId ?? null,
+          referenceId: asset.referenceId ?? null,
+          verifiedAt: asset.verifiedAt ?? null,
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Loads the latest version of every asset type, either by Notion page ID or for a whole batch
+ * Used by exports to find stored files without listing the storage backend
+ */
+export async function loadLatestAssets(filter: {
+  notionPageIds?: string[];
+  batchId?: string;
+}): Promise<VideoAsset[]> {
+  const assets = await prisma.videoAsset.findMany({
+    where: {
+      ...(filter.notionPageIds ? { notionPageId: { in: filter.notionPageIds } } : {}),
+      ...(filter.batchId ? { batchId: filter.batchId } : {}),
+      deletedAt: null,
+    },
+    orderBy: { version: "desc" },
+  });
+
+  const latest = new Map<string, VideoAsset>();
+  for (const asset of assets) {
+    const key = `${asset.notionPageId}:${asset.assetType}`;
+    if (!latest.has(key)) {
+      latest.set(key, asset);
+    }
+  }
+
+  return Array.from(latest.values());
+}
+
+/**
+ * Records a reviewer's decision on every stored asset of a variation
+ * Retention rules use it to tell approved assets from rejected ones
+ * @param tenantId - Reviewer's tenant; other tenants' assets are never updated
+ */
+export async function setAssetReviewStatus(
+  notionPageId: string,
+  tenantId: string,
+  reviewStatus: "approved" | "rejected"
+): Promise<number> {
+  const result = await prisma.videoAsset.updateMany({
+    where: { notionPageId, tenantId, deletedAt: null },
+    data: { reviewStatus, reviewedAt: new Date() },
+  });
+
+  return result.count;
+}
+
+/**
+ * Whether the latest stored video of a variation was rejected in review
+ */
+export async function isVideoRejected(notionPageId: string): Promise<boolean> {
+  const video = await prisma.videoAsset.findFirst({
+    where: { notionPageId, assetType: "video", deletedAt: null },
+    orderBy: { version: "desc" },
+    select: { reviewStatus: true },
+  });
+
+  return video?.reviewStatus === "rejected";
+}
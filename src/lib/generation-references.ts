@@ -0,0 +1,152 @@
+// Image References (Story 2.4)
+// Product images and per-combination reference frames are uploaded once per batch,
+// then resized to each request's size and sent to Sora as input_reference
+
+import path from 'path';
+import sharp from 'sharp';
+import type { GenerationReference } from '@prisma/client';
+import { createStorageAdapter, type StoredFile } from './storage-adapters';
+import { sha256Hex, sniffMimeType } from './asset-integrity';
+import {
+  getGenerationReference,
+  saveGenerationReference,
+} from './database/generation-references';
+import type { SoraInputReference } from './sora-client';
+
+const REFERENCE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_REFERENCE_BYTES = 20 * 1024 * 1024; // 20MB per image
+const RESIZED_CACHE_SIZE = 50; // Resized images kept in memory (one per reference and size)
+const PAD_BACKGROUND = { r: 255, g: 255, b: 255, alpha: 1 };
+
+/**
+ * Raised when an uploaded reference image is empty, too large or not an image
+ */
+export class ReferenceImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceImageError';
+  }
+}
+
+/**
+ * Picks the reference for a combination: its own reference frame, else the batch's product image
+ */
+export function selectReference(
+  references: GenerationReference[],
+  combinationKey: string
+): GenerationReference | undefined {
+  return (
+    references.find((reference) => reference.combinationKey === combinationKey) ||
+    references.find((reference) => reference.combinationKey === null)
+  );
+}
+
+/**
+ * Validates and stores an uploaded reference image
+ * The original is kept; it is resized per request size when sent
+ * @throws ReferenceImageError if the upload is not a usable image
+ */
+export async function storeReferenceImage(upload: {
+  batchId: string;
+  tenantId?: string;
+  combinationKey?: string;
+  fileName: string;
+  data: Buffer;
+}): Promise<GenerationReference> {
+  if (upload.data.length === 0) {
+    throw new ReferenceImageError(`${upload.fileName} is empty`);
+  }
+  if (upload.data.length > MAX_REFERENCE_BYTES) {
+    throw new ReferenceImageError(`${upload.fileName} exceeds the ${MAX_REFERENCE_BYTES / 1024 / 1024}MB limit`);
+  }
+
+  const mimeType = sniffMimeType(upload.data);
+  if (!mimeType || !REFERENCE_MIME_TYPES.includes(mimeType)) {
+    throw new ReferenceImageError(`${upload.fileName} is not a JPEG, PNG or WebP image`);
+  }
+
+  const metadata = await sharp(upload.data).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new ReferenceImageError(`${upload.fileName} could not be decoded`);
+  }
+
+  const sha256 = sha256Hex(upload.data);
+  const name = upload.combinationKey ? `frame_${sha256.slice(0, 12)}` : 'product';
+  const extension = path.extname(upload.fileName).toLowerCase() || `.${mimeType.split('/')[1]}`;
+
+  const storage = createStorageAdapter(upload.tenantId);
+  const stored = await storage.saveFile(
+    path.join(upload.batchId, 'references', `${name}${extension}`),
+    upload.data
+  );
+
+  console.log(`[References] Stored ${upload.combinationKey ? 'reference frame' : 'product image'} for ${upload.batchId}`);
+
+  return saveGenerationReference({
+    batchId: upload.batchId,
+    tenantId: upload.tenantId,
+    combinationKey: upload.combinationKey,
+    fileName: upload.fileName,
+    sha256,
+    sizeBytes: upload.data.length,
+    mimeType,
+    width: metadata.width,
+    height: metadata.height,
+    storageBackend: stored.backend,
+    storagePath: stored.path,
+  });
+}
+
+/**
+ * Fits an image into exactly width x height without cropping the product,
+ * padding the remainder with white (Sora requires input_reference to match size)
+ */
+export async function resizeReferenceImage(data: Buffer, size: string): Promise<Buffer> {
+  const [width, height] = size.split('x').map(Number);
+
+  return sharp(data)
+    .rotate() // Respect EXIF orientation from phone photos
+    .resize(width, height, { fit: 'contain', background: PAD_BACKGROUND })
+    .flatten({ background: PAD_BACKGROUND })
+    .png()
+    .toBuffer();
+}
+
+const resizedCache = new Map<string, SoraInputReference>(); // `${referenceId}:${size}` -> image
+
+/**
+ * Loads a reference image resized for a request size, ready to send to Sora
+ * Resized images are cached, so a batch resizes its product image once per size
+ * @throws Error if the reference no longer exists
+ */
+export async function loadReferenceImage(referenceId: string, size: string): Promise<SoraInputReference> {
+  const cacheKey = `${referenceId}:${size}`;
+  const cached = resizedCache.get(cacheKey);
+  if (cached) return cached;
+
+  const reference = await getGenerationReference(referenceId);
+  if (!reference) {
+    throw new Error(`Reference image ${referenceId} not found`);
+  }
+
+  const storage = createStorageAdapter(
+    reference.tenantId || undefined,
+    reference.storageBackend as StoredFile['backend']
+  );
+  const resized = await resizeReferenceImage(await storage.readFile(reference.storagePath), size);
+
+  const image: SoraInputReference = {
+    data: resized,
+    mimeType: 'image/png',
+    fileName: `${path.parse(reference.fileName).name}_${size}.png`,
+  };
+
+  // Drop the oldest entry once full (Map keeps insertion order)
+  if (resizedCache.size >= RESIZED_CACHE_SIZE) {
+    const oldest = resizedCache.keys().next().value;
+    if (oldest !== undefined) resizedCache.delete(oldest);
+  }
+  resizedCache.set(cacheKey, image);
+
+  return image;
+}
@@ -3,7 +3,16 @@
 
 import { queryBrandCanon } from './qdrant-client';
 import { perplexityClient, type TrendResearch } from './perplexity-client';
-import { complianceValidator, type ScriptContent, type ValidationResult } from './compliance-validator';
+import {
+  complianceValidator,
+  type ScriptContent,
+  type ValidationError,
+  type ValidationResult
+} from './compliance-validator';
+import { DEFAULT_COMPLIANCE_RULES, type ComplianceRule } from './compliance-rules';
+import { getEffectiveRules } from './rule-packs';
+import { AVERAGE_SYLLABLES_PER_WORD, getSpeakableSyllables } from './speech-timing';
+import { recordLlmSpend, type SpendContext } from './spend-ledger';
 import type { BrandCanon } from '@/types/brand-canon';
 import type { DashboardFormData } from '@/types/dashboard';
 import type { MatrixResult } from '@/types/dashboard';
@@ -14,11 +23,13 @@ type BatchCache = {
   batchId: string;
   brandCanon: Map<string, BrandCanon>; // brandId -> canon
   trendResearch: Map<string, TrendResearch>; // productCategory -> research
+  complianceRules: Map<string, ComplianceRule[]>; // brandId -> rules from published rule packs
   createdAt: Date;
 };
 
 const batchCaches = new Map<string, BatchCache>();
 const CACHE_EXPIRY_MS = 1000 * 60 * 60; // 1 hour
+const PROMPT_MODEL = 'gpt-4'; // Use gpt-4 for now; will upgrade to gpt-5 when available
 
 // OpenAI Sora 2 Prompt Structure Template (Story 2.2, AC#2)
 const SORA_PROMPT_STRUCTURE = {
@@ -52,6 +63,7 @@ Visual Focus:
 
 export type PromptGenerationInput = {
   batchId: string;
+  tenantId?: string; // Billed in the spend ledger
   brandId: string;
   productCategory?: string;
   bigIdea: string;
@@ -59,7 +71,19 @@ export type PromptGenerationInput = {
   visualMessaging?: string;
   audioMessaging?: string;
   heroVoDescription?: string;
+  videoDuration?: DashboardFormData['videoDuration']; // Clip length the dialog must fit
   brandCanon?: BrandCanon; // Optional override (if already fetched)
+  remediation?: PromptRemediation; // Set when regenerating a prompt that failed compliance
+};
+
+/**
+ * A failed prompt and the validator's feedback, sent back to the model for a revision (Story 2.1)
+ */
+export type PromptRemediation = {
+  round: number; // 1 for the first revision
+  previousPrompt: string;
+  previousDialog?: string;
+  errors: ValidationError[];
 };
 
 export type GeneratedPrompt = {
@@ -79,7 +103,7 @@ export type GeneratedPrompt = {
 
 export type PromptGenerationResult = {
   success: boolean;
-  prompt?: GeneratedPrompt;
+  prompt?: GeneratedPrompt; // Also set when the prompt failed compliance, so it can be remediated
   error?: {
     type: 'api_error' | 'compliance_failed' | 'missing_data';
     message: string;
@@ -111,6 +135,7 @@ export class GPT5PromptBuilder {
         batchId,
         brandCanon: new Map(),
         trendResearch: new Map(),
+        complianceRules: new Map(),
         createdAt: new Date()
       };
       batchCaches.set(batchId, cache);
@@ -145,13 +170,30 @@ export class GPT5PromptBuilder {
     return { canon: result, cacheHit: false };
   }
 
+  /**
+   * Loads the tenant's and brand's compliance rules once per batch (Story 2.1)
+   * Rule packs published mid-batch apply from the next batch, so a batch is validated consistently
+   */
+  private async getComplianceRules(batchId: string, brandId: string, tenantId?: string): Promise<ComplianceRule[]> {
+    const cache = this.getBatchCache(batchId);
+
+    let rules = cache.complianceRules.get(brandId);
+    if (!rules) {
+      rules = await getEffectiveRules(tenantId, brandId);
+      cache.complianceRules.set(brandId, rules);
+    }
+
+    return rules;
+  }
+
   /**
    * Fetches trend research with batch-level caching (Story 2.2, AC#3)
    */
   private async getTrendResearch(
     batchId: string,
     brandId: string,
-    productCategory: string
+    productCategory: string,
+    spendContext?: SpendContext
   ): Promise<{ research: TrendResearch; cacheHit: boolean }> {
     const cache = this.getBatchCache(batchId);
 
@@ -166,7 +208,7 @@ export class GPT5PromptBuilder {
 
     // Fetch from Perplexity
     console.log(`[Prompt Builder] Fetching trend research for ${brandId} / ${productCategory}`);
-    const research = await perplexityClient.fetchTrendResearch(brandId, productCategory);
+    const research = await perplexityClient.fetchTrendResearch(brandId, productCategory, spendContext);
 
     // Cache the result
     cache.trendResearch.set(cacheKey, research);
@@ -176,7 +218,34 @@ export class GPT5PromptBuilder {
   /**
    * Builds system instructions with compliance constraints and brand voice (Story 2.2, AC#4)
    */
-  private buildSystemInstructions(brandCanon: BrandCanon): string {
+  private buildSystemInstructions(
+    brandCanon: BrandCanon,
+    complianceRules: ComplianceRule[],
+    videoDuration?: number
+  ): string {
+    // Same limits and bans the compliance validator enforces on the result
+    const rules = complianceValidator.getBrandRules(brandCanon);
+    const builtInRuleIds = new Set(DEFAULT_COMPLIANCE_RULES.map((rule) => rule.id));
+    // Short clips allow less dialog than the brand limits (Sora cuts off what does not fit)
+    const speakableSyllables = videoDuration ? getSpeakableSyllables(videoDuration) : Infinity;
+    const maxSyllables = Math.min(rules.maxSyllables ?? 65, speakableSyllables);
+    const maxWords = Math.min(
+      rules.maxSpokenWords ?? 45,
+      Math.floor(speakableSyllables / AVERAGE_SYLLABLES_PER_WORD)
+    );
+    const brandRules = [
+      rules.bannedTerms.length > 0
+        ? `- Never mention: ${rules.bannedTerms.map((banned) => banned.term).join(', ')}`
+        : '',
+      ...rules.requiredDisclaimers.map((disclaimer) => `- The dialog must include, word for word: "${disclaimer}"`),
+      // Rule pack additions (built-in rules are covered by COMPLIANCE_CONSTRAINTS)
+      ...complianceRules
+        .filter((rule) => rule.severity === 'error' && !builtInRuleIds.has(rule.id))
+        .map((rule) => `- ${rule.remediation}`),
+    ]
+      .filter(Boolean)
+      .join('\n');
+
     return `You are a professional video prompt engineer specializing in Sora 2 video generation.
 
 ${COMPLIANCE_CONSTRAINTS}
@@ -189,17 +258,20 @@ ${brandCanon.visual_style || 'Modern and clean'}
 
 BRAND GUIDELINES:
 ${brandCanon.prohibited_content?.join(', ') || 'Follow standard content guidelines'}
+${brandRules}
 
 Your task is to generate a single, detailed Sora 2 prompt that:
 1. Follows OpenAI's structure (shot type, subject, action, setting, lighting, camera movement)
 2. Matches the brand voice and visual style
 3. Complies with ALL restrictions listed above
 4. Tells a compelling visual story without relying on text or logos
-5. Keeps any spoken dialog under 45 words and 65 syllables
+5. Keeps any spoken dialog under ${maxWords} words and ${maxSyllables} syllables${
+      videoDuration ? `, so it can be read aloud at a natural pace within the ${videoDuration}-second clip` : ''
+    }
 
 Output format:
 - Prompt: [Complete Sora 2 prompt]
-- Dialog: [Spoken words, if any - max 45 words]
+- Dialog: [Spoken words, if any - max ${maxWords} words]
 
 Be specific and cinematic in your descriptions.`;
   }
@@ -228,14 +300,39 @@ ${audioMessaging ? `AUDIO MESSAGING: ${audioMessaging}` : ''}
 ${heroVoDescription ? `HERO/SUBJECT: ${heroVoDescription}` : ''}
 
 ${trendContext ? `TREND CONTEXT:\n${trendContext}\n` : ''}
-
+${input.remediation ? this.buildRemediationSection(input.remediation) : ''}
 Generate a compelling Sora 2 prompt that brings this concept to life while adhering to all compliance requirements.`;
   }
 
+  /**
+   * Builds the revision request for a prompt that failed compliance (Story 2.1)
+   */
+  private buildRemediationSection(remediation: PromptRemediation): string {
+    const issues = remediation.errors
+      .map((error, index) => `${index + 1}. ${error.message}\n   Fix: ${error.remediation}`)
+      .join('\n');
+
+    return `REVISION REQUIRED (attempt ${remediation.round}):
+Your previous output failed compliance validation.
+
+Previous prompt:
+${remediation.previousPrompt}
+${remediation.previousDialog ? `\nPrevious dialog:\n${remediation.previousDialog}\n` : ''}
+Issues to fix:
+${issues}
+
+Rewrite the prompt (and dialog) to fix every issue above while keeping the concept, dimensions and cinematography.
+`;
+  }
+
   /**
    * Calls GPT-5 API to generate prompt (Story 2.2, AC#2)
    */
-  private async callGPT5(systemInstructions: string, userPrompt: string): Promise<string> {
+  private async callGPT5(
+    systemInstructions: string,
+    userPrompt: string,
+    spendContext?: SpendContext
+  ): Promise<string> {
     if (!this.openaiApiKey) {
       throw new Error('OpenAI API key not configured');
     }
@@ -248,7 +345,7 @@ Generate a compelling Sora 2 prompt that brings this concept to life while adher
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          model: 'gpt-4', // Use gpt-4 for now; will upgrade to gpt-5 when available
+          model: PROMPT_MODEL,
           messages: [
             { role: 'system', content: systemInstructions },
             { role: 'user', content: userPrompt }
@@ -263,6 +360,18 @@ Generate a compelling Sora 2 prompt that brings this concept to life while adher
       }
 
       const data = await response.json();
+
+      // Spend ledger (Story 1.5): cost from the tokens actually used
+      await recordLlmSpend(
+        'openai',
+        'gpt5_prompt',
+        PROMPT_MODEL,
+        data.usage
+          ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+          : undefined,
+        spendContext
+      );
+
       return data.choices[0].message.content;
     } catch (error) {
       console.error('[Prompt Builder] GPT-5 API call failed:', error);
@@ -298,20 +407,27 @@ Generate a compelling Sora 2 prompt that brings this concept to life while adher
       let trendCacheHit = false;
 
       if (input.productCategory) {
-        const trendResult = await this.getTrendResearch(input.batchId, input.brandId, input.productCategory);
+        const trendResult = await this.getTrendResearch(input.batchId, input.brandId, input.productCategory, {
+          tenantId: input.tenantId,
+          batchId: input.batchId,
+        });
         // Build summary from trends array
         trendContext = trendResult.research.trends.slice(0, 3).join('. ');
         trendCacheHit = trendResult.cacheHit;
       }
 
       // 3. Build system instructions with compliance constraints (Story 2.2, AC#4)
-      const systemInstructions = this.buildSystemInstructions(brandCanon);
+      const complianceRules = await this.getComplianceRules(input.batchId, input.brandId, input.tenantId);
+      const systemInstructions = this.buildSystemInstructions(brandCanon, complianceRules, input.videoDuration);
 
       // 4. Build user prompt with dimension values (Story 2.2, AC#2)
       const userPrompt = this.buildUserPrompt(input, trendContext);
 
       // 5. Call GPT-5 to generate prompt
-      const gpt5Response = await this.callGPT5(systemInstructions, userPrompt);
+      const gpt5Response = await this.callGPT5(systemInstructions, userPrompt, {
+        tenantId: input.tenantId,
+        batchId: input.batchId,
+      });
 
       // 6. Parse response
       const { prompt, dialog } = this.parseGPT5Response(gpt5Response);
@@ -320,10 +436,11 @@ Generate a compelling Sora 2 prompt that brings this concept to life while adher
       const scriptContent: ScriptContent = {
         prompt,
         visualDescription: prompt, // Full prompt includes visual description
-        spokenWords: dialog
+        spokenWords: dialog,
+        durationSeconds: input.videoDuration
       };
 
-      const validation = complianceValidator.validate(scriptContent);
+      const validation = complianceValidator.validate(scriptContent, brandCanon, complianceRules);
 
       // 8. Return result
       const generatedPrompt: GeneratedPrompt = {
@@ -345,6 +462,7 @@ Generate a compelling Sora 2 prompt that brings this concept to life while adher
       if (!validation.valid) {
         return {
           success: false,
+          prompt: generatedPrompt,
           error: {
             type: 'compliance_failed',
             message: `Prompt failed compliance validation: ${validation.errors.length} errors`,
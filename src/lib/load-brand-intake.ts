@@ -10,7 +10,7 @@ import * as yaml from 'yaml';
 dotenv.config({ path: path.resolve(__dirname, '../../.env.local') });
 
 import { OpenAI } from 'openai';
-import type { BrandCanon } from '@/types/brand-canon';
+import type { BrandCanon, BrandComplianceRules } from '@/types/brand-canon';
 import { upsertBrandCanon, queryBrandCanon } from '@/lib/qdrant-client';
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
@@ -26,6 +26,7 @@ interface BrandIntake {
   icp_profile: string;
   successful_prompts: string[];
   prohibited_content: string[];
+  compliance_rules?: BrandComplianceRules;
   // Optional fields
   brand_values?: string;
   key_features?: string;
@@ -100,6 +101,7 @@ function intakeToBrandCanon(intake: BrandIntake): BrandCanon {
     icp_profile: intake.icp_profile.trim(),
     successful_prompts: intake.successful_prompts,
     prohibited_content: intake.prohibited_content,
+    ...(intake.compliance_rules && { compliance_rules: intake.compliance_rules }),
   };
 }
 
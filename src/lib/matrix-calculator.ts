@@ -183,3 +183,11 @@ export function calculateMatrixCombinations(
         combinations
     };
 }
+
+/**
+ * Key identifying a combination within a batch (all 11 fields)
+ * Used for the dashboard's excluded combinations and for per-combination reference frames
+ */
+export function getCombinationKey(combo: VideoCombination): string {
+    return `${combo.funnelLevel}-${combo.aesthetic}-${combo.type}-${combo.intention}-${combo.mood}-${combo.audioStyle}-${combo.ageGeneration}-${combo.gender}-${combo.orientation}-${combo.lifeStage}-${combo.ethnicity}`;
+}
@@ -227,7 +227,7 @@ export interface VideoVariationRecord {
   aesthetic: string;
   type: string;
   demographic: string; // Combined age/gender/ethnicity
-  status: 'Pending' | 'In Progress' | 'Completed' | 'Failed';
+  status: 'Pending' | 'Needs Review' | 'Paused' | 'In Progress' | 'Completed' | 'Failed' | 'Cancelled' | 'Rejected'; // Needs Review: prompt held for compliance review
   prompt: string;
   cost: number;
   videoUrl?: string;
@@ -255,6 +255,14 @@ export interface BatchRecord {
 // Environment variable for batch tracking database
 const BATCH_DATABASE_ID = process.env.NOTION_BATCH_DATABASE_ID || DATABASE_ID;
 
+/**
+ * Whether a Notion integration is configured
+ * Batches are tracked in the database either way; Notion only mirrors them (Story 2.3)
+ */
+export function isNotionConfigured(): boolean {
+  return Boolean(process.env.NOTION_TOKEN);
+}
+
 /**
  * Creates Notion records for all video variations in a batch (Story 2.3, AC#1)
  */
@@ -420,7 +428,8 @@ export async function logVideoError(
     | 'download_failed'
     | 'content_policy_violation' // Story 2.8, AC#1
     | 'missing_brand_data' // Story 2.8, AC#1
-    | 'script_validation_failure', // Story 2.8, AC#1
+    | 'script_validation_failure' // Story 2.8, AC#1
+    | 'rejected', // Rejected by a reviewer (Story 2.7, AC#5)
   errorMessage: string,
   errorDetails?: Record<string, any>
 ): Promise<boolean> {
@@ -433,7 +442,7 @@ export async function logVideoError(
 
     const properties: any = {
       'Status': {
-        select: { name: 'Failed' },
+        select: { name: errorType === 'rejected' ? 'Rejected' : 'Failed' },
       },
       'Error Logs': {
         rich_text: [{ text: { content: (logEntry + detailsJson).substring(0, 2000) } }],
@@ -459,6 +468,40 @@ export async function logVideoError(
   }
 }
 
+/**
+ * Warns that a video's assets are about to expire at Sora before they were downloaded (Story 2.6, AC#6)
+ * Status is left unchanged - the download may still succeed
+ */
+export async function logDownloadExpiryWarning(
+  notionPageId: string,
+  minutesRemaining: number,
+  details?: Record<string, unknown>
+): Promise<boolean> {
+  try {
+    const timestamp = new Date().toISOString();
+    const logEntry = `[${timestamp}] DOWNLOAD_EXPIRING: Assets not downloaded yet, Sora deletes them in ${minutesRemaining} minutes`;
+    const detailsJson = details ? `\n\nDetails: ${JSON.stringify(details, null, 2)}` : '';
+
+    await notion.pages.update({
+      page_id: notionPageId,
+      properties: {
+        'Error Logs': {
+          rich_text: [{ text: { content: (logEntry + detailsJson).substring(0, 2000) } }],
+        },
+        'Updated At': {
+          date: { start: timestamp },
+        },
+      },
+    });
+
+    console.log(`[Notion] Logged download expiry warning for ${notionPageId}`);
+    return true;
+  } catch (error) {
+    console.error(`[Notion] Failed to log download expiry warning for ${notionPageId}:`, error);
+    return false;
+  }
+}
+
 /**
  * Logs retry attempt in Notion (Story 2.8, AC#5)
  * Creates a detailed log of each retry attempt with attempt count and timestamp
@@ -1,6 +1,10 @@
 // Perplexity API Client (Story 1.8, Task 4)
 // Provides trend research for AI recommendations (AC#2, AC#6)
 
+import { recordLlmSpend, type SpendContext } from './spend-ledger';
+
+const TREND_RESEARCH_MODEL = 'llama-3.1-sonar-large-128k-online'; // ✅ VERIFIED: 70B model for better quality trend research
+
 // Trend research types
 export type TrendResearch = {
   brand: string;
@@ -66,7 +70,11 @@ export class PerplexityClient {
    * Fetch trend research from Perplexity API (AC#6)
    * Queries trending topics for brand/product category across platforms
    */
-  async fetchTrendResearch(brand: string, productCategory: string): Promise<TrendResearch> {
+  async fetchTrendResearch(
+    brand: string,
+    productCategory: string,
+    spendContext?: SpendContext
+  ): Promise<TrendResearch> {
     // Check cache first
     const cacheKey = this.getCacheKey(brand, productCategory);
     const cached = trendCache.get(cacheKey);
@@ -92,7 +100,7 @@ export class PerplexityClient {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          model: 'llama-3.1-sonar-large-128k-online', // ✅ VERIFIED: 70B model for better quality trend research
+          model: TREND_RESEARCH_MODEL,
           messages: [
             {
               role: 'system',
@@ -116,6 +124,17 @@ export class PerplexityClient {
       const data = await response.json();
       const insights = data.choices[0].message.content;
 
+      // Spend ledger (Story 1.5) - cache hits above cost nothing and are not recorded
+      await recordLlmSpend(
+        'perplexity',
+        'perplexity_research',
+        TREND_RESEARCH_MODEL,
+        data.usage
+          ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+          : undefined,
+        spendContext
+      );
+
       // Parse insights into structured format
       const research = this.parseInsights(brand, productCategory, query, insights);
 
@@ -0,0 +1,432 @@
+// Video Post-Production (Story 2.6)
+// Stitches the brand hook before and the CTA after each downloaded video, overlays the
+// watermark, normalises loudness and renders one MP4 per platform aspect ratio with ffmpeg
+// Renders are catalogued next to the source video, so retention rules cover them too
+// Queued renders are persisted to PostgreSQL and re-queued on boot, so a restart does not drop them
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { PostProductionProfile } from '@prisma/client';
+import { createStorageAdapter, type StorageAdapter, type StoredFile } from './storage-adapters';
+import { inspectAsset, sha256Hex, verifyStoredAsset } from './asset-integrity';
+import { recordVideoAssets } from './database/video-assets';
+import {
+  getPostProductionProfile,
+  loadPendingPostProductionRenders,
+  savePostProductionRender,
+  settlePostProductionRender,
+} from './database/post-production';
+import type { AssetLineage } from './asset-download-manager';
+
+/**
+ * Output frame sizes per platform aspect ratio
+ * - 9:16: TikTok, Reels, Shorts
+ * - 1:1: feed posts
+ * - 16:9: YouTube, web
+ */
+export const PLATFORM_FORMATS = {
+  '9:16': { width: 1080, height: 1920, suffix: '9x16' },
+  '1:1': { width: 1080, height: 1080, suffix: '1x1' },
+  '16:9': { width: 1920, height: 1080, suffix: '16x9' },
+} as const;
+
+export type PlatformFormat = keyof typeof PLATFORM_FORMATS;
+
+export const PLATFORM_FORMAT_KEYS = Object.keys(PLATFORM_FORMATS) as PlatformFormat[];
+
+/**
+ * Catalogue asset type of a platform render (e.g. render_9x16)
+ */
+export type RenderAssetType = `render_${(typeof PLATFORM_FORMATS)[PlatformFormat]['suffix']}`;
+
+export const DEFAULT_LOUDNESS_TARGET = -14; // LUFS, what most social platforms normalise to
+const TRUE_PEAK_DB = -1.5;
+const LOUDNESS_RANGE = 11;
+const OUTPUT_FPS = 30;
+const AUDIO_SAMPLE_RATE = 48000;
+const WATERMARK_WIDTH_RATIO = 0.18; // Watermark width relative to the frame
+const WATERMARK_MARGIN_RATIO = 0.03; // Margin from the bottom-right corner relative to the frame width
+
+/**
+ * A downloaded video ready for post-production
+ */
+export type PostProductionJob = {
+  notionPageId: string;
+  soraVideoId: string;
+  batchId: string;
+  tenantId?: string;
+  version: number;
+  lineage: AssetLineage;
+  video: Pick<StoredFile, 'backend' | 'path'>;
+  videoAssetId?: string; // Catalogue record of the source video
+};
+
+/**
+ * One clip of the stitched timeline
+ */
+export type RenderSegment = {
+  path: string;
+  duration: number; // Seconds
+  hasAudio: boolean;
+};
+
+/**
+ * Everything ffmpeg needs for one platform render
+ */
+export type RenderOptions = {
+  segments: RenderSegment[]; // Played in order: hook, video, CTA
+  watermarkPath?: string;
+  format: PlatformFormat;
+  loudnessTarget: number;
+  outputPath: string;
+};
+
+/**
+ * Builds the ffmpeg arguments for one render
+ * Each clip is scaled and cropped to fill the frame, given silent audio if it has none and
+ * concatenated; the watermark goes bottom-right and loudness is normalised over the whole render
+ */
+export function buildRenderArgs(options: RenderOptions): string[] {
+  const { width, height } = PLATFORM_FORMATS[options.format];
+  const args: string[] = ['-hide_banner', '-y'];
+  const filters: string[] = [];
+  const concatInputs: string[] = [];
+
+  options.segments.forEach((segment, index) => {
+    args.push('-i', segment.path);
+
+    filters.push(
+      `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=increase,` +
+        `crop=${width}:${height},setsar=1,fps=${OUTPUT_FPS},format=yuv420p[v${index}]`
+    );
+    filters.push(
+      segment.hasAudio
+        ? `[${index}:a]aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo[a${index}]`
+        : `anullsrc=channel_layout=stereo:sample_rate=${AUDIO_SAMPLE_RATE},` +
+            `atrim=duration=${segment.duration.toFixed(3)}[a${index}]`
+    );
+    concatInputs.push(`[v${index}][a${index}]`);
+  });
+
+  filters.push(`${concatInputs.join('')}concat=n=${options.segments.length}:v=1:a=1[vcat][acat]`);
+
+  if (options.watermarkPath) {
+    const watermarkIndex = options.segments.length;
+    const margin = Math.round(width * WATERMARK_MARGIN_RATIO);
+    args.push('-i', options.watermarkPath);
+    filters.push(`[${watermarkIndex}:v]scale=${Math.round(width * WATERMARK_WIDTH_RATIO)}:-1[wm]`);
+    filters.push(`[vcat][wm]overlay=W-w-${margin}:H-h-${margin}:format=auto,format=yuv420p[vout]`);
+  } else {
+    filters.push('[vcat]null[vout]');
+  }
+
+  filters.push(
+    `[acat]loudnorm=I=${options.loudnessTarget}:TP=${TRUE_PEAK_DB}:LRA=${LOUDNESS_RANGE},` +
+      `aresample=${AUDIO_SAMPLE_RATE}[aout]`
+  );
+
+  args.push(
+    '-filter_complex', filters.join(';'),
+    '-map', '[vout]',
+    '-map', '[aout]',
+    '-c:v', 'libx264',
+    '-preset', 'medium',
+    '-crf', '20',
+    '-c:a', 'aac',
+    '-b:a', '192k',
+    '-movflags', '+faststart',
+    options.outputPath
+  );
+
+  return args;
+}
+
+/**
+ * Runs an ffmpeg/ffprobe binary and resolves with its stdout
+ * @throws Error with the tail of stderr when the process exits non-zero
+ */
+function runMediaCommand(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', (error) => reject(new Error(`Failed to run ${command}: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split('\n').slice(-5).join('\n')}`));
+      }
+    });
+  });
+}
+
+/**
+ * Duration and audio presence of a media file
+ */
+export async function probeMedia(filePath: string): Promise<Omit<RenderSegment, 'path'>> {
+  const output = await runMediaCommand(process.env.FFPROBE_PATH || 'ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'format=duration:stream=codec_type',
+    '-of', 'json',
+    filePath,
+  ]);
+
+  const probe = JSON.parse(output) as {
+    format?: { duration?: string };
+    streams?: { codec_type?: string }[];
+  };
+
+  return {
+    duration: Number(probe.format?.duration) || 0,
+    hasAudio: (probe.streams || []).some((stream) => stream.codec_type === 'audio'),
+  };
+}
+
+/**
+ * Post-Production Pipeline
+ * Renders downloaded videos one at a time (ffmpeg is CPU-bound) after AssetDownloadManager stores them.
+ * Failures are logged and never affect the download itself - the raw video stays available.
+ */
+export class PostProductionPipeline {
+  private queue: PostProductionJob[] = [];
+  private processing = false;
+  private storage?: StorageAdapter; // Injected adapter, used for every tenant
+  private restorePromise?: Promise<void>;
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage;
+  }
+
+  /**
+   * Queues a downloaded video for rendering; returns once the job is persisted, before it is rendered
+   * Batches without a post-production profile are skipped when the job runs
+   */
+  async enqueue(job: PostProductionJob): Promise<void> {
+    try {
+      await savePostProductionRender(job);
+    } catch (error) {
+      // Log and continue - the render still runs, it just would not survive a restart
+      console.error(`[Post-Production] Failed to persist render job for ${job.soraVideoId}:`, error);
+    }
+
+    this.queue.push(job);
+    void this.processQueue();
+  }
+
+  /**
+   * Re-queues renders that were pending or in progress before the last shutdown
+   * Safe to call multiple times - jobs are only loaded once per process.
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadPersistedJobs();
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * Loads pending render jobs from the database and queues them behind anything queued since boot
+   */
+  private async loadPersistedJobs(): Promise<void> {
+    let records;
+    try {
+      records = await loadPendingPostProductionRenders();
+    } catch (error) {
+      console.error('[Post-Production] Failed to load persisted render jobs:', error);
+      return;
+    }
+
+    let recovered = 0;
+    for (const record of records) {
+      // A video downloaded again since boot is already queued
+      const queued = this.queue.some(
+        (job) => job.notionPageId === record.notionPageId && job.version === record.version
+      );
+      if (queued) continue;
+
+      this.queue.push({
+        notionPageId: record.notionPageId,
+        soraVideoId: record.soraVideoId,
+        batchId: record.batchId,
+        tenantId: record.tenantId || undefined,
+        version: record.version,
+        lineage: record.lineage as AssetLineage,
+        video: { backend: record.videoBackend as StoredFile['backend'], path: record.videoPath },
+        videoAssetId: record.videoAssetId || undefined,
+      });
+      recovered++;
+    }
+
+    console.log(`[Post-Production] Recovering ${recovered} renders from before the restart`);
+    void this.processQueue();
+  }
+
+  /**
+   * Number of videos waiting to be rendered (including the one in progress)
+   */
+  getQueueLength(): number {
+    return this.queue.length + (this.processing ? 1 : 0);
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let job: PostProductionJob | undefined;
+      while ((job = this.queue.shift())) {
+        try {
+          await this.processJob(job);
+          await this.settle(job, 'completed');
+        } catch (error) {
+          console.error(`[Post-Production] Rendering failed for ${job.soraVideoId}:`, error);
+          await this.settle(job, 'failed', error instanceof Error ? error.message : 'Unknown rendering error');
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Records a finished render job so it is not recovered again
+   */
+  private async settle(job: PostProductionJob, status: 'completed' | 'failed', error?: string): Promise<void> {
+    try {
+      await settlePostProductionRender(job.notionPageId, job.version, status, error);
+    } catch (persistError) {
+      console.error(`[Post-Production] Failed to record render outcome for ${job.soraVideoId}:`, persistError);
+    }
+  }
+
+  /**
+   * Renders every configured platform format of one video and catalogues the results
+   */
+  async processJob(job: PostProductionJob): Promise<void> {
+    const profile = await getPostProductionProfile(job.batchId);
+    if (!profile) return;
+
+    const formats = profile.platforms.filter((format): format is PlatformFormat => format in PLATFORM_FORMATS);
+    if (formats.length === 0) return;
+
+    console.log(`[Post-Production] Rendering ${formats.join(', ')} for ${job.soraVideoId}`);
+
+    const storage = this.getStorage(job.tenantId);
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'post-production-'));
+
+    try {
+      const segments = await this.prepareSegments(profile, job, workDir);
+      const watermarkPath = profile.watermarkPath
+        ? await this.writeLocalCopy(
+            this.getStorage(job.tenantId, profile.watermarkBackend),
+            profile.watermarkPath,
+            workDir,
+            'watermark'
+          )
+        : undefined;
+
+      const renders = [];
+      for (const format of formats) {
+        const { suffix } = PLATFORM_FORMATS[format];
+        const fileName = `${job.soraVideoId}_V${job.version}_${suffix}.mp4`;
+        const outputPath = path.join(workDir, fileName);
+
+        await runMediaCommand(
+          process.env.FFMPEG_PATH || 'ffmpeg',
+          buildRenderArgs({ segments, watermarkPath, format, loudnessTarget: profile.loudnessTarget, outputPath })
+        );
+
+        const buffer = await fs.readFile(outputPath);
+        const mimeType = inspectAsset('video', buffer);
+        const sha256 = sha256Hex(buffer);
+        const stored = await storage.saveFile(path.join(job.batchId, 'renders', fileName), buffer);
+        verifyStoredAsset(stored.path, await storage.readFile(stored.path), {
+          sha256,
+          sizeBytes: buffer.length,
+        });
+
+        renders.push({ assetType: `render_${suffix}` as RenderAssetType, stored, sha256, mimeType, size: buffer.length });
+        await fs.rm(outputPath, { force: true });
+      }
+
+      const verifiedAt = new Date();
+      await recordVideoAssets(
+        renders.map((render) => ({
+          tenantId: job.tenantId,
+          notionPageId: job.notionPageId,
+          batchId: job.batchId,
+          soraVideoId: job.soraVideoId,
+          assetType: render.assetType,
+          version: job.version,
+          lineage: job.lineage,
+          parentAssetId: job.videoAssetId,
+          sha256: render.sha256,
+          sizeBytes: render.size,
+          mimeType: render.mimeType,
+          storageBackend: render.stored.backend,
+          storagePath: render.stored.path,
+          url: render.stored.url,
+          verifiedAt,
+        }))
+      );
+
+      console.log(`[Post-Production] Stored ${renders.length} render(s) for ${job.soraVideoId}`);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Copies the hook, video and CTA into the work directory and probes them, in playback order
+   * Each file is read from the backend it is stored on
+   */
+  private async prepareSegments(
+    profile: PostProductionProfile,
+    job: PostProductionJob,
+    workDir: string
+  ): Promise<RenderSegment[]> {
+    const sources: [StorageAdapter, string, string][] = [];
+    if (profile.hookPath) sources.push([this.getStorage(job.tenantId, profile.hookBackend), profile.hookPath, 'hook']);
+    sources.push([this.getStorage(job.tenantId, job.video.backend), job.video.path, 'video']);
+    if (profile.ctaPath) sources.push([this.getStorage(job.tenantId, profile.ctaBackend), profile.ctaPath, 'cta']);
+
+    const segments: RenderSegment[] = [];
+    for (const [adapter, storedPath, name] of sources) {
+      const localPath = await this.writeLocalCopy(adapter, storedPath, workDir, name);
+      segments.push({ path: localPath, ...(await probeMedia(localPath)) });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Writes a stored file into the work directory (ffmpeg needs seekable local input)
+   */
+  private async writeLocalCopy(
+    storage: StorageAdapter,
+    storedPath: string,
+    workDir: string,
+    name: string
+  ): Promise<string> {
+    const localPath = path.join(workDir, `${name}${path.extname(storedPath)}`);
+    await fs.writeFile(localPath, await storage.readFile(storedPath));
+    return localPath;
+  }
+
+  /**
+   * Storage adapter for a tenant's post-production assets and renders
+   * @param backend - Backend a stored file is on (default: the configured backend, where renders are saved)
+   */
+  private getStorage(tenantId?: string, backend?: string | null): StorageAdapter {
+    return this.storage || createStorageAdapter(tenantId, (backend as StoredFile['backend'] | null) ?? undefined);
+  }
+}
+
+// Export singleton instance
+export const postProductionPipeline = new PostProductionPipeline();
@@ -9,6 +9,10 @@
  * - Perplexity: https://docs.perplexity.ai/docs/pricing
  *
  * Last Updated: 2025-10-26
+ *
+ * These constants are the built-in rate card (version PRICING_METADATA.version).
+ * Admins publish newer versioned rate cards with effective dates (see rate-cards.ts);
+ * every pricing function takes the rate card to price with.
  */
 
 export type SoraModel = 'sora-2' | 'sora-2-pro';
@@ -35,11 +39,22 @@ export const SORA_PRICING: Record<SoraModel, Record<VideoDuration, number>> = {
   },
 };
 
+/**
+ * Estimated cost per LLM call
+ */
+export type LlmCallCosts = {
+  gpt5PromptGeneration: number;
+  perplexityResearch: number;
+  claudeValidation: number;
+  geminiFallback: number;
+  averagePerVideo: number;
+};
+
 /**
  * LLM Costs per Video
  * Breakdown of language model costs for prompt generation and validation
  */
-export const LLM_COSTS = {
+export const LLM_COSTS: LlmCallCosts = {
   /**
    * GPT-5 Prompt Generation
    * Estimated 2000 tokens output @ $0.40/1K tokens = $0.80 per video
@@ -75,6 +90,47 @@ export const LLM_COSTS = {
   averagePerVideo: 1.50,
 };
 
+/**
+ * LLM token pricing (USD per 1M tokens)
+ * Used to cost real calls from the usage data in API responses (spend ledger)
+ * Perplexity also bills a per-request fee for online models
+ */
+export type TokenPricing = {
+  input: number;
+  output: number;
+  perRequest?: number;
+};
+
+export const TOKEN_PRICING: Record<string, TokenPricing> = {
+  'gpt-4': { input: 30.0, output: 60.0 },
+  'gpt-5': { input: 1.25, output: 10.0 },
+  'claude-sonnet-4-5-20250929': { input: 3.0, output: 15.0 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'llama-3.1-sonar-large-128k-online': { input: 1.0, output: 1.0, perRequest: 0.005 },
+};
+
+/**
+ * Cost of one LLM call from its token usage
+ * Returns undefined for models without a rate card entry
+ */
+export function getTokenCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  rateCard: RateCard = DEFAULT_RATE_CARD
+): number | undefined {
+  const pricing = rateCard.tokens[model];
+  if (!pricing) {
+    return undefined;
+  }
+
+  return (
+    (inputTokens / 1_000_000) * pricing.input +
+    (outputTokens / 1_000_000) * pricing.output +
+    (pricing.perRequest ?? 0)
+  );
+}
+
 /**
  * Storage Configuration
  */
@@ -108,6 +164,28 @@ export const STORAGE_CONFIG = {
      */
     bitrateMultiplier: 1.0,
   },
+
+  /**
+   * Storage rate per GB per month for each storage backend
+   * Used with measured usage from the asset catalogue (local disks and NAS have no recurring cost)
+   * Sources: AWS S3 Standard, Google Workspace storage add-on
+   */
+  backendPricePerGB: {
+    local: 0,
+    nas: 0,
+    'google-drive': 0.01,
+    s3: 0.023,
+  } as Record<StorageBackend, number>,
+};
+
+export type StorageBackend = 'local' | 'nas' | 'google-drive' | 's3';
+
+/**
+ * Measured storage figures for a tenant (see getStorageCostProfile in storage-retention.ts)
+ */
+export type StorageCostProfile = {
+  bytesPerSecond: number; // Average stored bytes per second of generated video
+  pricePerGB: number; // Monthly rate blended across the backends the tenant's files live on
 };
 
 /**
@@ -124,12 +202,48 @@ export const PRICING_METADATA = {
   },
 };
 
+/**
+ * Versioned rate card
+ * Prices apply to calls made from effectiveFrom until the next card takes effect
+ */
+export type RateCard = {
+  version: string;
+  effectiveFrom: string; // ISO date
+  sora: Record<SoraModel, Record<VideoDuration, number>>;
+  llm: LlmCallCosts;
+  tokens: Record<string, TokenPricing>;
+};
+
+/**
+ * Built-in rate card, in effect until an admin publishes a newer one
+ */
+export const DEFAULT_RATE_CARD: RateCard = {
+  version: PRICING_METADATA.version,
+  effectiveFrom: PRICING_METADATA.lastUpdated,
+  sora: SORA_PRICING,
+  llm: LLM_COSTS,
+  tokens: TOKEN_PRICING,
+};
+
+/**
+ * Reconciled spend more than this far from the estimate marks a provider's rates as drifted
+ */
+export const PRICING_DRIFT_THRESHOLD_PERCENT = 15;
+
 /**
  * Pricing Staleness Check
- * Warns if pricing config is older than 30 days
+ * Warns if the rate card took effect more than 30 days ago, or if cost reconciliation found
+ * providers whose actual spend drifted from its rates (see getPricingDrift)
  */
-export function isPricingStale(): boolean {
-  const lastUpdated = new Date(PRICING_METADATA.lastUpdated);
+export function isPricingStale(
+  driftedProviders: readonly string[] = [],
+  rateCard: RateCard = DEFAULT_RATE_CARD
+): boolean {
+  if (driftedProviders.length > 0) {
+    return true;
+  }
+
+  const lastUpdated = new Date(rateCard.effectiveFrom);
   const now = new Date();
   const daysSinceUpdate = (now.getTime() - lastUpdated.getTime()) / (1000 * 60 * 60 * 24);
   return daysSinceUpdate > 30;
@@ -139,13 +253,17 @@ export function isPricingStale(): boolean {
  * Get Sora 2 API cost for specific model and duration
  * Throws error if combination is not available
  */
-export function getSoraCost(model: SoraModel, duration: VideoDuration): number {
-  const cost = SORA_PRICING[model][duration];
+export function getSoraCost(
+  model: SoraModel,
+  duration: VideoDuration,
+  rateCard: RateCard = DEFAULT_RATE_CARD
+): number {
+  const cost = rateCard.sora[model][duration];
 
   if (cost === 0) {
     throw new Error(
       `Invalid model/duration combination: ${model} does not support ${duration}s videos. ` +
-      `Available durations for ${model}: ${Object.entries(SORA_PRICING[model])
+      `Available durations for ${model}: ${Object.entries(rateCard.sora[model])
         .filter(([_, price]) => price > 0)
         .map(([dur]) => `${dur}s`)
         .join(', ')}`
@@ -157,10 +275,15 @@ export function getSoraCost(model: SoraModel, duration: VideoDuration): number {
 
 /**
  * Estimate storage cost for video
- * Returns 0 for local NAS storage, calculates cost for cloud storage
- * Based on duration and estimated file size
+ * With a measured profile, uses real file sizes and the blended backend rate;
+ * otherwise returns 0 for local NAS storage and a size estimate for cloud storage
  */
-export function estimateStorageCost(durationSeconds: number): number {
+export function estimateStorageCost(durationSeconds: number, profile?: StorageCostProfile): number {
+  if (profile) {
+    const sizeGB = (durationSeconds * profile.bytesPerSecond) / (1024 * 1024 * 1024);
+    return sizeGB * profile.pricePerGB;
+  }
+
   // Local NAS storage has no recurring costs
   if (STORAGE_CONFIG.storageType === 'local') {
     return 0;
@@ -0,0 +1,147 @@
+// Prompt Remediation (Story 2.1)
+// Prompts that fail compliance are sent back to the model with the validator's remediation text and
+// regenerated a bounded number of times. Prompts that still fail go to human review instead of Sora.
+
+import { complianceValidator, type ValidationError, type ValidationResult } from './compliance-validator';
+import {
+  gpt5PromptBuilder,
+  type GeneratedPrompt,
+  type PromptGenerationInput,
+} from './gpt-5-prompt-builder';
+import { getCombinationKey } from './matrix-calculator';
+import { queryBrandCanon } from './qdrant-client';
+import { getEffectiveRules } from './rule-packs';
+import { recordPromptAttempt } from './database/prompt-reviews';
+
+const DEFAULT_REMEDIATION_ROUNDS = 2;
+
+/**
+ * Reads PROMPT_REMEDIATION_ROUNDS; anything but a non-negative integer falls back to the default,
+ * since an unbounded loop would regenerate (and bill) forever
+ */
+function parseRemediationRounds(value: string | undefined): number {
+  const rounds = Number(value);
+  return value?.trim() && Number.isInteger(rounds) && rounds >= 0 ? rounds : DEFAULT_REMEDIATION_ROUNDS;
+}
+
+// Regenerations after the first prompt fails (PROMPT_REMEDIATION_ROUNDS, default 2)
+export const MAX_REMEDIATION_ROUNDS = parseRemediationRounds(process.env.PROMPT_REMEDIATION_ROUNDS);
+
+/**
+ * Outcome of generating a prompt with remediation
+ * - compliant: passed, possibly after remediation rounds
+ * - escalated: still failing after the last round; needs a human reviewer
+ * - failed: the model could not be called (no prompt to remediate)
+ */
+export type RemediationOutcome =
+  | { status: 'compliant'; prompt: GeneratedPrompt; rounds: number }
+  | { status: 'escalated'; prompt: GeneratedPrompt; rounds: number; errors: ValidationError[] }
+  | { status: 'failed'; error: string; rounds: number };
+
+/**
+ * Records a compliance round (log and continue - the batch does not depend on the history)
+ */
+async function recordRound(input: PromptGenerationInput, round: number, prompt: GeneratedPrompt): Promise<void> {
+  try {
+    await recordPromptAttempt({
+      batchId: input.batchId,
+      tenantId: input.tenantId,
+      combinationKey: getCombinationKey(input.combination),
+      round,
+      prompt: prompt.fullPrompt,
+      dialog: prompt.spokenDialog,
+      valid: prompt.complianceValidation.valid,
+      errors: prompt.complianceValidation.errors,
+    });
+  } catch (error) {
+    console.error(`[Prompt Remediation] Failed to record round ${round} for batch ${input.batchId}:`, error);
+  }
+}
+
+/**
+ * Generates a prompt and, while it fails compliance, regenerates it with the validator's feedback
+ * Every round is recorded in prompt_compliance_attempts
+ * @param maxRounds - Regenerations allowed after the first prompt
+ */
+export async function generateCompliantPrompt(
+  input: PromptGenerationInput,
+  maxRounds: number = MAX_REMEDIATION_ROUNDS
+): Promise<RemediationOutcome> {
+  let remediation: PromptGenerationInput['remediation'];
+  let previous: GeneratedPrompt | undefined;
+
+  for (let round = 0; ; round++) {
+    const result = await gpt5PromptBuilder.generatePrompt({ ...input, remediation });
+
+    if (!result.prompt) {
+      // A failed revision still leaves the previous round's prompt for review
+      if (previous) {
+        return {
+          status: 'escalated',
+          prompt: previous,
+          rounds: round - 1,
+          errors: previous.complianceValidation.errors,
+        };
+      }
+      return {
+        status: 'failed',
+        error: result.error?.message ?? 'Prompt generation failed',
+        rounds: round,
+      };
+    }
+
+    await recordRound(input, round, result.prompt);
+
+    const validation = result.prompt.complianceValidation;
+    if (validation.valid) {
+      if (round > 0) {
+        console.log(`[Prompt Remediation] Prompt for batch ${input.batchId} passed after ${round} remediation round(s)`);
+      }
+      return { status: 'compliant', prompt: result.prompt, rounds: round };
+    }
+
+    if (round >= maxRounds) {
+      console.warn(
+        `[Prompt Remediation] Prompt for batch ${input.batchId} still failing after ${round} round(s), escalating to review`
+      );
+      return { status: 'escalated', prompt: result.prompt, rounds: round, errors: validation.errors };
+    }
+
+    previous = result.prompt;
+    remediation = {
+      round: round + 1,
+      previousPrompt: result.prompt.fullPrompt,
+      previousDialog: result.prompt.spokenDialog,
+      errors: validation.errors,
+    };
+  }
+}
+
+/**
+ * Validates a reviewer's prompt with the brand's current rules
+ * The brand canon is skipped if it cannot be loaded (pattern rules still apply)
+ * @param brandId - undefined for videos whose brand is unknown (tenant rules only)
+ */
+export async function validateReviewedPrompt(
+  prompt: string,
+  brandId: string | undefined,
+  tenantId?: string,
+  dialog?: string,
+  durationSeconds?: number
+): Promise<ValidationResult> {
+  const [brandCanon, rules] = await Promise.all([
+    brandId
+      ? queryBrandCanon(brandId).catch((error) => {
+          console.error(`[Prompt Remediation] Failed to load brand canon for ${brandId}:`, error);
+          return null;
+        })
+      : null,
+    getEffectiveRules(tenantId, brandId),
+  ]);
+
+  return complianceValidator.validate(
+    { prompt, visualDescription: prompt, spokenWords: dialog, durationSeconds },
+    brandCanon ?? undefined,
+    rules
+  );
+}
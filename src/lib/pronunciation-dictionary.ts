@@ -0,0 +1,220 @@
+// Pronunciation Dictionary (Story 2.1)
+// Bundled subset of the CMU Pronouncing Dictionary (ARPAbet, stress-marked vowels) used for syllable counts.
+// Covers common voiceover words, including the ones the vowel-group heuristic miscounts
+// ("idea", "business", "used", "makes", "every"). Words not listed fall back to the heuristic.
+// Add entries in CMU format: WORD, two spaces, phonemes; each vowel phoneme (ending in 0/1/2) is one syllable.
+
+const CMU_ENTRIES = `
+A  AH0
+ABOUT  AH0 B AW1 T
+ACTUALLY  AE1 K CH UW0 AH0 L IY0
+ADVENTURE  AE0 D V EH1 N CH ER0
+AFFORDABLE  AH0 F AO1 R D AH0 B AH0 L
+AGAIN  AH0 G EH1 N
+ALIVE  AH0 L AY1 V
+ALREADY  AO0 L R EH1 D IY0
+ALWAYS  AO1 L W EY2 Z
+AMAZING  AH0 M EY1 Z IH0 NG
+ANYONE  EH1 N IY0 W AH2 N
+ANYTHING  EH1 N IY0 TH IH2 NG
+ANYWHERE  EH1 N IY0 W EH2 R
+ARE  AA1 R
+AREA  EH1 R IY0 AH0
+AWESOME  AA1 S AH0 M
+BEAUTIFUL  B Y UW1 T AH0 F AH0 L
+BEAUTY  B Y UW1 T IY0
+BECAUSE  B IH0 K AO1 Z
+BECOME  B IH0 K AH1 M
+BEING  B IY1 IH0 NG
+BELIEVE  B IH0 L IY1 V
+BETTER  B EH1 T ER0
+BUSINESS  B IH1 Z N AH0 S
+BUY  B AY1
+CAME  K EY1 M
+CARE  K EH1 R
+CHOOSE  CH UW1 Z
+CHOSE  CH OW1 Z
+CLOTHES  K L OW1 DH Z
+COME  K AH1 M
+COMES  K AH1 M Z
+COMFORTABLE  K AH1 M F ER0 T AH0 B AH0 L
+COMPLETE  K AH0 M P L IY1 T
+CREATE  K R IY0 EY1 T
+CREATED  K R IY0 EY1 T IH0 D
+CREATES  K R IY0 EY1 T S
+CREATIVE  K R IY0 EY1 T IH0 V
+DELICIOUS  D IH0 L IH1 SH AH0 S
+DESIGNED  D IH0 Z AY1 N D
+DIFFERENCE  D IH1 F ER0 AH0 N S
+DIFFERENT  D IH1 F ER0 AH0 N T
+DISCOVER  D IH0 S K AH1 V ER0
+DONE  D AH1 N
+EASY  IY1 Z IY0
+EVERY  EH1 V ER0 IY0
+EVERYDAY  EH1 V R IY0 D EY2
+EVERYONE  EH1 V R IY0 W AH2 N
+EVERYTHING  EH1 V R IY0 TH IH2 NG
+EXPERIENCE  IH0 K S P IH1 R IY0 AH0 N S
+EYE  AY1
+EYES  AY1 Z
+FAMILY  F AE1 M AH0 L IY0
+FAVORITE  F EY1 V ER0 IH0 T
+FEEL  F IY1 L
+FEELS  F IY1 L Z
+FINALLY  F AY1 N AH0 L IY0
+FIRE  F AY1 ER0
+FOREVER  F ER0 EH1 V ER0
+FRIENDS  F R EH1 N D Z
+FUTURE  F Y UW1 CH ER0
+GENUINE  JH EH1 N Y AH0 W AH0 N
+GIVE  G IH1 V
+GIVES  G IH1 V Z
+GONE  G AO1 N
+GROCERIES  G R OW1 S ER0 IY0 Z
+GUARANTEED  G EH2 R AH0 N T IY1 D
+HAVE  HH AE1 V
+HERE  HH IY1 R
+HOME  HH OW1 M
+HOUR  AW1 ER0
+HOURS  AW1 ER0 Z
+HUGE  HH Y UW1 JH
+IDEA  AY0 D IY1 AH0
+IDEAS  AY0 D IY1 AH0 Z
+IMAGINE  IH0 M AE1 JH AH0 N
+INGREDIENTS  IH0 N G R IY1 D IY0 AH0 N T S
+INSPIRED  IH0 N S P AY1 ER0 D
+INTERESTING  IH1 N T R AH0 S T IH0 NG
+JUICE  JH UW1 S
+KNOWS  N OW1 Z
+LIFE  L AY1 F
+LIKE  L AY1 K
+LIKED  L AY1 K T
+LIKES  L AY1 K S
+LIVE  L IH1 V
+LIVES  L IH1 V Z
+LOVE  L AH1 V
+LOVED  L AH1 V D
+LOVES  L AH1 V Z
+MADE  M EY1 D
+MAKE  M EY1 K
+MAKES  M EY1 K S
+MAYBE  M EY1 B IY0
+MINUTE  M IH1 N AH0 T
+MINUTES  M IH1 N AH0 T S
+MOMENT  M OW1 M AH0 N T
+MOMENTS  M OW1 M AH0 N T S
+MORE  M AO1 R
+MOVE  M UW1 V
+NATURAL  N AE1 CH ER0 AH0 L
+NATURALLY  N AE1 CH ER0 AH0 L IY0
+NEEDED  N IY1 D IH0 D
+NEW  N UW1
+NICE  N AY1 S
+NONE  N AH1 N
+NOTICED  N OW1 T IH0 S T
+OFFICE  AO1 F AH0 S
+ONCE  W AH1 N S
+ONE  W AH1 N
+ONES  W AH1 N Z
+ONLINE  AO1 N L AY2 N
+ORDERED  AO1 R D ER0 D
+ORIGINAL  ER0 IH1 JH AH0 N AH0 L
+OUR  AW1 ER0
+OURS  AW1 ER0 Z
+PEOPLE  P IY1 P AH0 L
+PERFECT  P ER1 F IH0 K T
+PERFECTLY  P ER1 F AH0 K T L IY0
+PIECE  P IY1 S
+PLACE  P L EY1 S
+POWERFUL  P AW1 ER0 F AH0 L
+PREMIUM  P R IY1 M IY0 AH0 M
+PRICE  P R AY1 S
+PRODUCT  P R AA1 D AH0 K T
+PRODUCTS  P R AA1 D AH0 K T S
+QUALITY  K W AA1 L AH0 T IY0
+QUIET  K W AY1 AH0 T
+QUITE  K W AY1 T
+READY  R EH1 D IY0
+REAL  R IY1 L
+REALLY  R IH1 L IY0
+RECIPE  R EH1 S AH0 P IY0
+RELAXED  R IH0 L AE1 K S T
+RESULTS  R IH0 Z AH1 L T S
+RIDE  R AY1 D
+ROUTINE  R UW0 T IY1 N
+SAFE  S EY1 F
+SAVE  S EY1 V
+SAVED  S EY1 V D
+SAVES  S EY1 V Z
+SEE  S IY1
+SERIOUSLY  S IH1 R IY0 AH0 S L IY0
+SHOES  SH UW1 Z
+SIMPLE  S IH1 M P AH0 L
+SIMPLY  S IH1 M P L IY0
+SINCE  S IH1 N S
+SKINCARE  S K IH1 N K EH2 R
+SMILE  S M AY1 L
+SOME  S AH1 M
+SOMEONE  S AH1 M W AH2 N
+SOMETHING  S AH1 M TH IH0 NG
+SOMETIMES  S AH1 M T AY2 M Z
+SPECIAL  S P EH1 SH AH0 L
+STARTED  S T AA1 R T IH0 D
+STORE  S T AO1 R
+STYLE  S T AY1 L
+SURE  SH UH1 R
+SURPRISED  S ER0 P R AY1 Z D
+TASTE  T EY1 S T
+TASTES  T EY1 S T S
+THE  DH AH0
+THEIR  DH EH1 R
+THEMSELVES  DH EH0 M S EH1 L V Z
+THERE  DH EH1 R
+THESE  DH IY1 Z
+THOSE  DH OW1 Z
+TIME  T AY1 M
+TIRED  T AY1 ER0 D
+TODAY  T AH0 D EY1
+TOGETHER  T AH0 G EH1 DH ER0
+TRIED  T R AY1 D
+TRULY  T R UW1 L IY0
+TRUSTED  T R AH1 S T IH0 D
+UNIQUE  Y UW0 N IY1 K
+USE  Y UW1 Z
+USED  Y UW1 Z D
+USES  Y UW1 S IH0 Z
+USUALLY  Y UW1 ZH AH0 W AH0 L IY0
+VIDEO  V IH1 D IY0 OW0
+WANTED  W AO1 N T IH0 D
+WERE  W ER1
+WHERE  W EH1 R
+WHOLE  HH OW1 L
+WHOSE  HH UW1 Z
+WORKED  W ER1 K T
+YOURSELF  Y ER0 S EH1 L F
+`;
+
+let syllableCounts: Map<string, number> | null = null;
+
+/**
+ * Word -> syllable count, parsed once from the bundled entries
+ */
+function getSyllableCounts(): Map<string, number> {
+  if (!syllableCounts) {
+    syllableCounts = new Map();
+    for (const line of CMU_ENTRIES.split('\n')) {
+      const [word, phonemes] = line.split('  ');
+      if (!word || !phonemes) continue;
+      syllableCounts.set(word.toLowerCase(), phonemes.split(' ').filter((phoneme) => /\d$/.test(phoneme)).length);
+    }
+  }
+  return syllableCounts;
+}
+
+/**
+ * Syllables in a word according to the dictionary (undefined if the word is not listed)
+ * @param word - Lowercase word without punctuation
+ */
+export function lookupSyllables(word: string): number | undefined {
+  return getSyllableCounts().get(word);
+}
@@ -0,0 +1,323 @@
+// Fair Queue Scheduling (Story 2.5)
+// Per-tenant sub-queues with priority lanes and weighted round-robin dispatch,
+// so one tenant's large batch does not hold up every other tenant
+
+import type { QueuedVideo } from './video-generation-queue';
+
+/**
+ * Dispatch lane for a queued video
+ * - rush: client revisions and remixes, dispatched ahead of everything else
+ * - standard: one-off generations
+ * - bulk: matrix batch generations
+ */
+export type VideoPriority = 'rush' | 'standard' | 'bulk';
+
+export const VIDEO_PRIORITIES: VideoPriority[] = ['rush', 'standard', 'bulk'];
+
+/**
+ * Queue visibility for one tenant
+ */
+export type TenantQueueStatus = {
+  tenantId: string | null; // null for videos submitted without a tenant
+  weight: number; // Share of dispatch turns relative to other tenants
+  queued: number;
+  byPriority: Record<VideoPriority, number>;
+  nextPosition?: number; // Estimated overall dispatch position of the tenant's next video (1-indexed)
+  lastPosition?: number; // Estimated overall dispatch position of the tenant's last video
+};
+
+const PRIORITY_RANK: Record<VideoPriority, number> = { rush: 0, standard: 1, bulk: 2 };
+const DEFAULT_PRIORITY: VideoPriority = 'standard';
+const DEFAULT_TENANT_WEIGHT = 1;
+const SHARED_TENANT_KEY = ''; // Sub-queue for videos without a tenant
+
+/**
+ * Reads per-tenant dispatch weights from QUEUE_TENANT_WEIGHTS
+ * Format: "tenantA=3,tenantB=2" (unlisted tenants get a weight of 1)
+ */
+function loadTenantWeightsFromEnv(): Map<string, number> {
+  const weights = new Map<string, number>();
+  const config = process.env.QUEUE_TENANT_WEIGHTS;
+  if (!config) return weights;
+
+  for (const entry of config.split(',')) {
+    const [tenantId, value] = entry.split('=').map((part) => part.trim());
+    const weight = parseInt(value, 10);
+
+    if (tenantId && weight > 0) {
+      weights.set(tenantId, weight);
+    } else {
+      console.warn(`[Scheduler] Ignoring invalid QUEUE_TENANT_WEIGHTS entry "${entry}"`);
+    }
+  }
+
+  return weights;
+}
+
+function getPriority(video: QueuedVideo): VideoPriority {
+  return video.priority ?? DEFAULT_PRIORITY;
+}
+
+function rankOf(video: QueuedVideo): number {
+  return PRIORITY_RANK[getPriority(video)];
+}
+
+function tenantKey(tenantId?: string): string {
+  return tenantId ?? SHARED_TENANT_KEY;
+}
+
+/**
+ * Fair Queue Scheduler
+ * Each tenant has its own sub-queue ordered by priority lane, then FIFO.
+ * The highest lane with a dispatchable video wins; tenants competing in that
+ * lane take turns in proportion to their weight (smooth weighted round-robin).
+ */
+export class FairQueueScheduler {
+  private tenantQueues: Map<string, QueuedVideo[]> = new Map(); // tenant key -> sub-queue
+  private weights: Map<string, number>;
+  private credits: Map<string, number> = new Map(); // tenant key -> round-robin credit
+  private dispatchOrder?: QueuedVideo[]; // Cached estimate, reset on every change
+
+  constructor(weights?: Map<string, number>) {
+    this.weights = weights || loadTenantWeightsFromEnv();
+  }
+
+  /**
+   * Number of queued videos across all tenants
+   */
+  get size(): number {
+    let total = 0;
+    for (const queue of this.tenantQueues.values()) {
+      total += queue.length;
+    }
+    return total;
+  }
+
+  /**
+   * Adds a video behind every queued video of the same or higher priority for its tenant
+   */
+  enqueue(video: QueuedVideo): void {
+    const queue = this.getTenantQueue(video.tenantId);
+    const rank = rankOf(video);
+    const index = queue.findIndex((queued) => rankOf(queued) > rank);
+
+    queue.splice(index >= 0 ? index : queue.length, 0, video);
+    this.dispatchOrder = undefined;
+  }
+
+  /**
+   * Puts a video back at the front of its lane (e.g. after a rate-limited start)
+   */
+  requeueFront(video: QueuedVideo): void {
+    const queue = this.getTenantQueue(video.tenantId);
+    const rank = rankOf(video);
+    const index = queue.findIndex((queued) => rankOf(queued) >= rank);
+
+    queue.splice(index >= 0 ? index : queue.length, 0, video);
+    this.dispatchOrder = undefined;
+  }
+
+  /**
+   * Picks and removes the next video to dispatch
+   * @param canDispatch - Whether a video may start now (pause state, concurrency ceilings, rate limit)
+   */
+  next(canDispatch: (video: QueuedVideo) => boolean): QueuedVideo | undefined {
+    const candidates: Array<{ key: string; index: number; rank: number }> = [];
+
+    for (const [key, queue] of this.tenantQueues) {
+      const index = queue.findIndex(canDispatch);
+      if (index >= 0) {
+        candidates.push({ key, index, rank: rankOf(queue[index]) });
+      }
+    }
+
+    if (candidates.length === 0) return undefined;
+
+    const topRank = Math.min(...candidates.map((candidate) => candidate.rank));
+    const contenders = candidates.filter((candidate) => candidate.rank === topRank);
+    const key = this.pickTenant(
+      contenders.map((candidate) => candidate.key),
+      this.credits
+    );
+    const { index } = contenders.find((candidate) => candidate.key === key)!;
+
+    const queue = this.tenantQueues.get(key)!;
+    const [video] = queue.splice(index, 1);
+    if (queue.length === 0) {
+      this.tenantQueues.delete(key);
+      this.credits.delete(key);
+    }
+
+    this.dispatchOrder = undefined;
+    return video;
+  }
+
+  /**
+   * Removes every queued video matching the predicate
+   * @returns Removed videos
+   */
+  remove(predicate: (video: QueuedVideo) => boolean): QueuedVideo[] {
+    const removed: QueuedVideo[] = [];
+
+    for (const [key, queue] of this.tenantQueues) {
+      const kept = queue.filter((video) => !predicate(video));
+      removed.push(...queue.filter(predicate));
+
+      if (kept.length === 0) {
+        this.tenantQueues.delete(key);
+        this.credits.delete(key);
+      } else {
+        this.tenantQueues.set(key, kept);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.dispatchOrder = undefined;
+    }
+    return removed;
+  }
+
+  /**
+   * Queued videos matching the predicate, in estimated dispatch order
+   */
+  filter(predicate: (video: QueuedVideo) => boolean): QueuedVideo[] {
+    return this.getDispatchOrder().filter(predicate);
+  }
+
+  some(predicate: (video: QueuedVideo) => boolean): boolean {
+    for (const queue of this.tenantQueues.values()) {
+      if (queue.some(predicate)) return true;
+    }
+    return false;
+  }
+
+  find(notionPageId: string): QueuedVideo | undefined {
+    for (const queue of this.tenantQueues.values()) {
+      const video = queue.find((queued) => queued.notionPageId === notionPageId);
+      if (video) return video;
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.tenantQueues.clear();
+    this.credits.clear();
+    this.dispatchOrder = undefined;
+  }
+
+  /**
+   * Estimated overall dispatch order, assuming every video could start
+   * (ignores paused batches and concurrency ceilings)
+   */
+  getDispatchOrder(): QueuedVideo[] {
+    if (this.dispatchOrder) return this.dispatchOrder;
+
+    const queues = new Map(Array.from(this.tenantQueues, ([key, queue]) => [key, [...queue]]));
+    const credits = new Map(this.credits);
+    const order: QueuedVideo[] = [];
+
+    while (queues.size > 0) {
+      const topRank = Math.min(...Array.from(queues.values(), (queue) => rankOf(queue[0])));
+      const keys = Array.from(queues.keys()).filter((key) => rankOf(queues.get(key)![0]) === topRank);
+      const key = this.pickTenant(keys, credits);
+
+      const queue = queues.get(key)!;
+      order.push(queue.shift()!);
+      if (queue.length === 0) {
+        queues.delete(key);
+      }
+    }
+
+    this.dispatchOrder = order;
+    return order;
+  }
+
+  /**
+   * Estimated overall dispatch position (1-indexed, 0 if not queued)
+   */
+  getPosition(notionPageId: string): number {
+    const index = this.getDispatchOrder().findIndex((video) => video.notionPageId === notionPageId);
+    return index >= 0 ? index + 1 : 0;
+  }
+
+  /**
+   * Per-tenant queue depth and estimated positions
+   */
+  getTenantStatuses(): TenantQueueStatus[] {
+    const statuses: Map<string, TenantQueueStatus> = new Map();
+
+    this.getDispatchOrder().forEach((video, index) => {
+      const key = tenantKey(video.tenantId);
+      let status = statuses.get(key);
+
+      if (!status) {
+        status = {
+          tenantId: video.tenantId ?? null,
+          weight: this.getWeight(key),
+          queued: 0,
+          byPriority: { rush: 0, standard: 0, bulk: 0 },
+          nextPosition: index + 1,
+        };
+        statuses.set(key, status);
+      }
+
+      status.queued++;
+      status.byPriority[getPriority(video)]++;
+      status.lastPosition = index + 1;
+    });
+
+    return Array.from(statuses.values());
+  }
+
+  /**
+   * Queue depth and estimated positions for one tenant (zero counts if nothing is queued)
+   */
+  getTenantStatus(tenantId: string): TenantQueueStatus {
+    return (
+      this.getTenantStatuses().find((status) => status.tenantId === tenantId) || {
+        tenantId,
+        weight: this.getWeight(tenantId),
+        queued: 0,
+        byPriority: { rush: 0, standard: 0, bulk: 0 },
+      }
+    );
+  }
+
+  private getWeight(key: string): number {
+    return this.weights.get(key) ?? DEFAULT_TENANT_WEIGHT;
+  }
+
+  private getTenantQueue(tenantId?: string): QueuedVideo[] {
+    const key = tenantKey(tenantId);
+    let queue = this.tenantQueues.get(key);
+
+    if (!queue) {
+      queue = [];
+      this.tenantQueues.set(key, queue);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Smooth weighted round-robin: every contender earns its weight in credit,
+   * the richest wins and pays back the total
+   */
+  private pickTenant(keys: string[], credits: Map<string, number>): string {
+    let totalWeight = 0;
+    let chosen = keys[0];
+
+    for (const key of keys) {
+      const weight = this.getWeight(key);
+      totalWeight += weight;
+      credits.set(key, (credits.get(key) || 0) + weight);
+
+      if (credits.get(key)! > credits.get(chosen)!) {
+        chosen = key;
+      }
+    }
+
+    credits.set(chosen, credits.get(chosen)! - totalWeight);
+    return chosen;
+  }
+}
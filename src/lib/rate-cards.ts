@@ -0,0 +1,140 @@
+// Rate Cards (Story 1.5)
+// Versioned pricing with effective dates. Costs are always priced with the card in effect when the
+// call was made and stamped with its version, so publishing new prices never changes historical reports.
+
+import {
+  DEFAULT_RATE_CARD,
+  type LlmCallCosts,
+  type RateCard,
+  type SoraModel,
+  type TokenPricing,
+  type VideoDuration,
+} from './pricing-config';
+import { createRateCard, loadRateCards, rateCardVersionExists, type StoredRateCard } from './database/rate-cards';
+
+// Published cards are reloaded at most this often
+const CACHE_TTL_MS = 60 * 1000;
+
+// Small allowance for clock skew when a card is published to take effect "now"
+const EFFECTIVE_FROM_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * New rate card as submitted by an admin
+ * Omitted prices are carried over from the card in effect at effectiveFrom
+ */
+export type RateCardInput = {
+  version: string;
+  effectiveFrom?: Date; // Defaults to now; cannot be in the past
+  sora?: Partial<Record<SoraModel, Partial<Record<VideoDuration, number>>>>;
+  llm?: Partial<LlmCallCosts>;
+  tokens?: Record<string, TokenPricing>;
+};
+
+/**
+ * A rate card cannot be published as submitted
+ */
+export class RateCardError extends Error {
+  constructor(
+    message: string,
+    public reason: 'backdated' | 'duplicate_version'
+  ) {
+    super(message);
+    this.name = 'RateCardError';
+  }
+}
+
+let cachedCards: StoredRateCard[] | null = null;
+let cachedAt = 0;
+
+/**
+ * Published cards, newest effective date first (cached; the last loaded cards are kept if the database fails)
+ */
+async function getPublishedCards(): Promise<StoredRateCard[]> {
+  if (cachedCards && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cachedCards;
+  }
+
+  try {
+    cachedCards = await loadRateCards();
+    cachedAt = Date.now();
+  } catch (error) {
+    console.error('[Rate Cards] Failed to load rate cards, using last known cards:', error);
+  }
+
+  return cachedCards ?? [];
+}
+
+/**
+ * Picks the card in effect at a point in time from a newest-first list
+ */
+function selectCard(cards: RateCard[], at: Date): RateCard {
+  return cards.find((card) => new Date(card.effectiveFrom) <= at) ?? DEFAULT_RATE_CARD;
+}
+
+/**
+ * Rate card in effect at a point in time (the built-in card before the first published one)
+ */
+export async function getRateCardAt(at: Date): Promise<RateCard> {
+  return selectCard(await getPublishedCards(), at);
+}
+
+/**
+ * Rate card in effect now
+ */
+export async function getActiveRateCard(): Promise<RateCard> {
+  return getRateCardAt(new Date());
+}
+
+/**
+ * Rate card in effect now, from the cards already loaded (no database access)
+ * For synchronous estimates; falls back to the built-in card until cards have been loaded
+ */
+export function getLoadedRateCard(): RateCard {
+  return selectCard(cachedCards ?? [], new Date());
+}
+
+/**
+ * Every rate card, newest effective date first, ending with the built-in card
+ */
+export async function listRateCards(): Promise<RateCard[]> {
+  cachedAt = 0;
+  return [...(await getPublishedCards()), DEFAULT_RATE_CARD];
+}
+
+/**
+ * Publishes a new rate card version
+ * @throws RateCardError if the version exists or the card would take effect in the past
+ */
+export async function publishRateCard(input: RateCardInput, createdBy?: string): Promise<RateCard> {
+  const effectiveFrom = input.effectiveFrom ?? new Date();
+
+  // Backdating would reprice calls that were already billed with the earlier card
+  if (effectiveFrom.getTime() < Date.now() - EFFECTIVE_FROM_TOLERANCE_MS) {
+    throw new RateCardError('Rate cards cannot take effect in the past', 'backdated');
+  }
+
+  if (input.version === DEFAULT_RATE_CARD.version || (await rateCardVersionExists(input.version))) {
+    throw new RateCardError(`Rate card version ${input.version} already exists`, 'duplicate_version');
+  }
+
+  const base = await getRateCardAt(effectiveFrom);
+  const card = await createRateCard(
+    {
+      version: input.version,
+      effectiveFrom: effectiveFrom.toISOString(),
+      sora: {
+        'sora-2': { ...base.sora['sora-2'], ...input.sora?.['sora-2'] },
+        'sora-2-pro': { ...base.sora['sora-2-pro'], ...input.sora?.['sora-2-pro'] },
+      },
+      llm: { ...base.llm, ...input.llm },
+      tokens: { ...base.tokens, ...input.tokens },
+    },
+    createdBy
+  );
+
+  // Next lookup picks up the new card
+  cachedAt = 0;
+
+  console.log(`[Rate Cards] Published rate card ${card.version}, effective ${card.effectiveFrom}`);
+  return card;
+}
@@ -0,0 +1,181 @@
+// Compliance Rule Packs (Story 2.1)
+// Tenant- and brand-specific rules layered over the built-in compliance rules. Admins edit drafts,
+// dry-run them against recent prompts, then publish; the published packs are what validation uses.
+
+import {
+  DEFAULT_COMPLIANCE_RULES,
+  mergeRules,
+  validateRules,
+  type ComplianceRule,
+} from './compliance-rules';
+import { complianceValidator, type ValidationError } from './compliance-validator';
+import {
+  createRulePackDraft,
+  getRulePack,
+  loadPublishedRulePacks,
+  publishRulePackDraft,
+  updateRulePackDraft,
+  type StoredRulePack,
+} from './database/compliance-rule-packs';
+import { loadRecentPrompts } from './database/generation-jobs';
+
+// Published packs are reloaded at most this often
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * A prompt whose result changes under the draft
+ */
+export type DryRunPrompt = {
+  notionPageId: string;
+  batchId: string;
+  prompt: string;
+  errors: ValidationError[]; // Draft errors for newly failing prompts, current errors for newly passing ones
+};
+
+/**
+ * Outcome of re-validating recent prompts against a draft
+ */
+export type RulePackDryRun = {
+  packId: string;
+  version: number;
+  promptsChecked: number;
+  newlyFailing: DryRunPrompt[];
+  newlyPassing: DryRunPrompt[];
+  stillFailing: number;
+  promptsWithWarnings: number; // Prompts the draft would pass with warnings
+  ruleHits: Record<string, number>; // Prompts each draft rule rejects
+  dialogOnlyRules: string[]; // Not exercised - only the Sora prompt of past videos is stored
+};
+
+let cache = new Map<string, { rules: ComplianceRule[]; loadedAt: number }>();
+
+/**
+ * Rules in effect for a tenant and brand: built-in rules, then the tenant-wide pack, then the brand pack
+ * Cached; the last loaded rules (or the built-in rules) are used if the database fails
+ */
+export async function getEffectiveRules(tenantId?: string, brandId?: string): Promise<ComplianceRule[]> {
+  if (!tenantId) return DEFAULT_COMPLIANCE_RULES;
+
+  const key = `${tenantId}:${brandId ?? ''}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  try {
+    const packs = await loadPublishedRulePacks(tenantId, brandId);
+    const rules = mergeRules(DEFAULT_COMPLIANCE_RULES, packs.tenant?.rules ?? [], packs.brand?.rules ?? []);
+    cache.set(key, { rules, loadedAt: Date.now() });
+    return rules;
+  } catch (error) {
+    console.error('[Rule Packs] Failed to load rule packs, using last known rules:', error);
+    return cached?.rules ?? DEFAULT_COMPLIANCE_RULES;
+  }
+}
+
+/**
+ * Creates a draft rule pack
+ * @throws ComplianceRuleError if a rule is invalid
+ */
+export async function createDraft(draft: {
+  tenantId: string;
+  brandId?: string | null;
+  rules: ComplianceRule[];
+  notes?: string;
+  createdBy: string;
+}): Promise<StoredRulePack> {
+  validateRules(draft.rules);
+  return createRulePackDraft(draft);
+}
+
+/**
+ * Edits a draft rule pack
+ * @returns null if the pack does not exist or is no longer a draft
+ * @throws ComplianceRuleError if a rule is invalid
+ */
+export async function updateDraft(
+  tenantId: string,
+  id: string,
+  changes: { rules?: ComplianceRule[]; notes?: string | null }
+): Promise<StoredRulePack | null> {
+  if (changes.rules) validateRules(changes.rules);
+  return updateRulePackDraft(tenantId, id, changes);
+}
+
+/**
+ * Publishes a draft, replacing the tenant's (or brand's) current pack
+ * @returns null if the pack does not exist or is no longer a draft
+ */
+export async function publishDraft(tenantId: string, id: string, publishedBy: string): Promise<StoredRulePack | null> {
+  const pack = await publishRulePackDraft(tenantId, id, publishedBy);
+
+  if (pack) {
+    // Next validation picks up the new rules
+    cache = new Map();
+    console.log(
+      `[Rule Packs] Published rule pack v${pack.version} for tenant ${tenantId}${pack.brandId ? ` brand ${pack.brandId}` : ''}`
+    );
+  }
+
+  return pack;
+}
+
+/**
+ * Re-validates a tenant's (or brand's) most recent prompts with the published rules and with a draft
+ * Brand canon rules are left out so only the rule pack change shows up in the comparison
+ * @returns null if the pack does not exist
+ */
+export async function dryRunRulePack(tenantId: string, id: string, limit: number): Promise<RulePackDryRun | null> {
+  const pack = await getRulePack(tenantId, id);
+  if (!pack) return null;
+
+  const published = await loadPublishedRulePacks(tenantId, pack.brandId ?? undefined);
+  const tenantRules = published.tenant?.rules ?? [];
+  const currentRules = pack.brandId
+    ? mergeRules(DEFAULT_COMPLIANCE_RULES, tenantRules, published.brand?.rules ?? [])
+    : mergeRules(DEFAULT_COMPLIANCE_RULES, tenantRules);
+  const draftRules = pack.brandId
+    ? mergeRules(DEFAULT_COMPLIANCE_RULES, tenantRules, pack.rules)
+    : mergeRules(DEFAULT_COMPLIANCE_RULES, pack.rules);
+
+  const prompts = await loadRecentPrompts(tenantId, limit, pack.brandId ?? undefined);
+
+  const result: RulePackDryRun = {
+    packId: pack.id,
+    version: pack.version,
+    promptsChecked: prompts.length,
+    newlyFailing: [],
+    newlyPassing: [],
+    stillFailing: 0,
+    promptsWithWarnings: 0,
+    ruleHits: {},
+    dialogOnlyRules: draftRules
+      .filter((rule) => rule.scopes.every((scope) => scope === 'dialog'))
+      .map((rule) => rule.id),
+  };
+
+  for (const job of prompts) {
+    const script = { prompt: job.prompt, visualDescription: job.prompt };
+    const current = complianceValidator.validate(script, undefined, currentRules);
+    const draft = complianceValidator.validate(script, undefined, draftRules);
+
+    for (const ruleId of new Set(draft.errors.map((error) => error.details?.ruleId as string | undefined))) {
+      if (ruleId) result.ruleHits[ruleId] = (result.ruleHits[ruleId] ?? 0) + 1;
+    }
+
+    if (draft.valid && draft.warnings.length > 0) {
+      result.promptsWithWarnings++;
+    }
+
+    const entry = { notionPageId: job.notionPageId, batchId: job.batchId, prompt: job.prompt };
+    if (current.valid && !draft.valid) {
+      result.newlyFailing.push({ ...entry, errors: draft.errors });
+    } else if (!current.valid && draft.valid) {
+      result.newlyPassing.push({ ...entry, errors: current.errors });
+    } else if (!draft.valid) {
+      result.stillFailing++;
+    }
+  }
+
+  return result;
+}
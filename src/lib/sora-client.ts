@@ -1,6 +1,8 @@
 // Sora 2 API Client (Story 2.4)
 // Asynchronous video generation with OpenAI Sora 2 API
 
+import { parseRateLimitHeaders, soraRateLimiter } from './sora-rate-limiter';
+
 /**
  * Sora 2 API Types
  */
@@ -10,6 +12,36 @@ export type SoraDuration = 5 | 10 | 20; // seconds - REAL Sora 2 API values (Sto
 
 export type SoraVideoStatus = 'queued' | 'in_progress' | 'completed' | 'failed'; // (Story 2.4, AC#5)
 
+export type SoraAspectRatio = '16:9' | '9:16' | '1:1';
+
+/**
+ * Per-model capability table (Story 2.4, AC#6)
+ * Sizes are the pixel dimensions sent as `size` for each aspect ratio
+ */
+export type SoraModelCapabilities = {
+  durations: SoraDuration[];
+  sizes: Record<SoraAspectRatio, string>;
+};
+
+export const SORA_MODEL_CAPABILITIES: Record<SoraModel, SoraModelCapabilities> = {
+  'sora-2': {
+    durations: [5, 10, 20],
+    sizes: {
+      '16:9': '1280x720',
+      '9:16': '720x1280',
+      '1:1': '1024x1024',
+    },
+  },
+  'sora-2-pro': {
+    durations: [5, 10, 20],
+    sizes: {
+      '16:9': '1792x1024',
+      '9:16': '1024x1792',
+      '1:1': '1024x1024',
+    },
+  },
+};
+
 /**
  * Request to generate a video (Story 2.4, AC#1)
  * ✅ REAL OpenAI Sora 2 API parameters (verified from 1-sora-quickstart.py)
@@ -19,6 +51,16 @@ export type SoraGenerateRequest = {
   model: SoraModel;
   seconds: string; // ✅ REAL API: "5", "10", or "20" (string, not number)
   size?: string; // ✅ REAL API: Pixel dimensions like "720x1280", "1280x720", "1024x1024"
+  inputReference?: SoraInputReference; // First-frame image; must match size exactly
+};
+
+/**
+ * Image sent as input_reference (sent as multipart/form-data instead of JSON)
+ */
+export type SoraInputReference = {
+  data: Uint8Array;
+  mimeType: string; // image/jpeg, image/png or image/webp
+  fileName: string;
 };
 
 /**
@@ -64,11 +106,19 @@ export class SoraAPIError extends Error {
     message: string,
     public statusCode?: number,
     public errorCode?: string,
-    public details?: any
+    public details?: any,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'SoraAPIError';
   }
+
+  /**
+   * Rate limited or temporarily unavailable - the request should be retried later, not failed
+   */
+  get isRateLimited(): boolean {
+    return this.statusCode === 429 || this.statusCode === 503;
+  }
 }
 
 /**
@@ -112,22 +162,43 @@ export class SoraClient {
         requestBody.size = request.size; // ✅ REAL API: pixel dimensions like "720x1280"
       }
 
+      // input_reference is a file upload, so the request becomes multipart
+      let body: string | FormData = JSON.stringify(requestBody);
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${this.apiKey}`,
+      };
+
+      if (request.inputReference) {
+        const form = new FormData();
+        for (const [key, value] of Object.entries(requestBody)) {
+          form.append(key, String(value));
+        }
+        form.append(
+          'input_reference',
+          new Blob([new Uint8Array(request.inputReference.data)], { type: request.inputReference.mimeType }),
+          request.inputReference.fileName
+        );
+        body = form;
+      } else {
+        headers['Content-Type'] = 'application/json';
+      }
+
       const response = await fetch(`${this.baseUrl}/videos`, {
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+        headers,
+        body,
       });
 
+      const rateLimit = this.recordRateLimit(response);
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         throw new SoraAPIError(
           errorData.error?.message || `Sora API error: ${response.status}`,
           response.status,
           errorData.error?.code,
-          errorData
+          errorData,
+          rateLimit.retryAfterMs
         );
       }
 
@@ -164,13 +235,16 @@ export class SoraClient {
         },
       });
 
+      const rateLimit = this.recordRateLimit(response);
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         throw new SoraAPIError(
           errorData.error?.message || `Failed to get video status: ${response.status}`,
           response.status,
           errorData.error?.code,
-          errorData
+          errorData,
+          rateLimit.retryAfterMs
         );
       }
 
@@ -196,6 +270,98 @@ export class SoraClient {
     }
   }
 
+  /**
+   * Remixes an existing video with a new prompt
+   * POST /videos/{video_id}/remix
+   */
+  async remixVideo(videoId: string, prompt: string): Promise<SoraGenerateResponse> {
+    try {
+      console.log(`[Sora Client] Remixing video ${videoId}`);
+
+      const response = await fetch(`${this.baseUrl}/videos/${videoId}/remix`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ prompt }),
+      });
+
+      const rateLimit = this.recordRateLimit(response);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new SoraAPIError(
+          errorData.error?.message || `Failed to remix video: ${response.status}`,
+          response.status,
+          errorData.error?.code,
+          errorData,
+          rateLimit.retryAfterMs
+        );
+      }
+
+      const data: SoraGenerateResponse = await response.json();
+
+      console.log(`[Sora Client] Remix queued: ${data.video_id} (remix of ${videoId})`);
+
+      return data;
+    } catch (error) {
+      if (error instanceof SoraAPIError) {
+        throw error;
+      }
+
+      console.error(`[Sora Client] Remix failed for ${videoId}:`, error);
+      throw new SoraAPIError(
+        error instanceof Error ? error.message : 'Unknown error remixing video',
+        undefined,
+        'network_error',
+        error
+      );
+    }
+  }
+
+  /**
+   * Deletes a video, cancelling it if it is still generating
+   * DELETE /videos/{video_id}
+   */
+  async deleteVideo(videoId: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/videos/${videoId}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+      });
+
+      const rateLimit = this.recordRateLimit(response);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new SoraAPIError(
+          errorData.error?.message || `Failed to delete video: ${response.status}`,
+          response.status,
+          errorData.error?.code,
+          errorData,
+          rateLimit.retryAfterMs
+        );
+      }
+
+      console.log(`[Sora Client] Deleted video ${videoId}`);
+    } catch (error) {
+      if (error instanceof SoraAPIError) {
+        throw error;
+      }
+
+      console.error(`[Sora Client] Delete failed for ${videoId}:`, error);
+      throw new SoraAPIError(
+        error instanceof Error ? error.message : 'Unknown error deleting video',
+        undefined,
+        'network_error',
+        error
+      );
+    }
+  }
+
   /**
    * Downloads video content (Story 2.6 integration point)
    * GET /videos/{video_id}/content
@@ -219,11 +385,15 @@ export class SoraClient {
         },
       });
 
+      const rateLimit = this.recordRateLimit(response);
+
       if (!response.ok) {
         throw new SoraAPIError(
           `Failed to download ${variant}: ${response.status}`,
           response.status,
-          'download_failed'
+          'download_failed',
+          undefined,
+          rateLimit.retryAfterMs
         );
       }
 
@@ -237,25 +407,19 @@ export class SoraClient {
   }
 
   /**
-   * Validates duration for model (Story 2.4, AC#6)
+   * Feeds rate-limit headers to the dispatcher's limiter
    */
-  validateDuration(model: SoraModel, duration: SoraDuration): boolean {
-    // All durations supported by both models currently
-    const validDurations: SoraDuration[] = [5, 10, 20];
-    return validDurations.includes(duration);
+  private recordRateLimit(response: Response) {
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    soraRateLimiter.recordRateLimitInfo(rateLimit);
+    return rateLimit;
   }
 
   /**
-   * Gets estimated cost for video generation
+   * Validates duration for model (Story 2.4, AC#6)
    */
-  getEstimatedCost(model: SoraModel, duration: SoraDuration): number {
-    // Pricing based on OpenAI rate cards
-    const baseCost = model === 'sora-2-pro' ? 12 : 5;
-
-    // Duration multiplier (longer videos cost more)
-    const durationMultiplier = duration / 10; // Baseline 10s
-
-    return parseFloat((baseCost * durationMultiplier).toFixed(2));
+  validateDuration(model: SoraModel, duration: SoraDuration): boolean {
+    return SORA_MODEL_CAPABILITIES[model]?.durations.includes(duration) ?? false;
   }
 
   /**
@@ -265,6 +429,3 @@ export class SoraClient {
     return !!this.apiKey;
   }
 }
-
-// Singleton instance
-export const soraClient = new SoraClient();
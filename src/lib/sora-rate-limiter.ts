@@ -0,0 +1,292 @@
+// Sora Rate Limiter (Story 2.5)
+// Token bucket fed by OpenAI rate-limit headers, 429/503 backoff with jitter,
+// and per-model concurrency ceilings (org-wide and per tenant)
+
+import type { SoraModel } from './sora-client';
+
+/**
+ * Rate-limit information parsed from a Sora API response
+ */
+export type RateLimitInfo = {
+  limitRequests?: number; // Requests allowed per window
+  remainingRequests?: number; // Requests left in the current window
+  resetRequestsMs?: number; // Time until the window resets
+  retryAfterMs?: number; // Server-requested wait before retrying
+};
+
+/**
+ * Concurrency ceilings per model
+ */
+export type ModelConcurrencyLimits = Record<SoraModel, number>;
+
+const DEFAULT_MODEL_CONCURRENCY: ModelConcurrencyLimits = {
+  'sora-2': 4,
+  'sora-2-pro': 4,
+};
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const TENANT_LIMITS_TTL_MS = 5 * 60 * 1000; // Re-read tenant settings every 5 minutes
+
+/**
+ * Parses OpenAI duration strings like "1s", "6m0s", "20ms" or "1h2m3.5s" into milliseconds
+ */
+function parseResetDuration(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) {
+    const seconds = parseFloat(value);
+    return Number.isNaN(seconds) ? undefined : seconds * 1000;
+  }
+
+  const unitMs: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    return total + parseFloat(amount) * unitMs[unit];
+  }, 0);
+}
+
+/**
+ * Parses Retry-After (seconds or HTTP date) and retry-after-ms headers
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(parseFloat(retryAfterMs))) {
+    return parseFloat(retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Extracts rate-limit information from Sora API response headers
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo {
+  const limit = parseInt(headers.get('x-ratelimit-limit-requests') || '', 10);
+  const remaining = parseInt(headers.get('x-ratelimit-remaining-requests') || '', 10);
+
+  return {
+    limitRequests: Number.isNaN(limit) ? undefined : limit,
+    remainingRequests: Number.isNaN(remaining) ? undefined : remaining,
+    resetRequestsMs: parseResetDuration(headers.get('x-ratelimit-reset-requests')),
+    retryAfterMs: parseRetryAfter(headers),
+  };
+}
+
+/**
+ * Reads org-wide concurrency limits from SORA_CONCURRENCY_LIMITS
+ * Format: "sora-2=8,sora-2-pro=2" (unlisted models keep the default of 4)
+ */
+function loadModelLimitsFromEnv(): ModelConcurrencyLimits {
+  const limits = { ...DEFAULT_MODEL_CONCURRENCY };
+  const config = process.env.SORA_CONCURRENCY_LIMITS;
+  if (!config) return limits;
+
+  for (const entry of config.split(',')) {
+    const [model, value] = entry.split('=').map((part) => part.trim());
+    const max = parseInt(value, 10);
+
+    if (model in limits && max > 0) {
+      limits[model as SoraModel] = max;
+    } else {
+      console.warn(`[Rate Limiter] Ignoring invalid SORA_CONCURRENCY_LIMITS entry "${entry}"`);
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Sora Rate Limiter
+ * Decides whether the queue may dispatch another video right now
+ */
+export class SoraRateLimiter {
+  private modelLimits: ModelConcurrencyLimits;
+  private tenantLimits: Map<string, { limits: Partial<Record<SoraModel, number>>; loadedAt: number }> =
+    new Map();
+  private activeByModel: Map<SoraModel, number> = new Map();
+  private activeByTenantModel: Map<string, number> = new Map(); // "tenantId:model" -> count
+
+  // Token bucket for generation requests
+  private capacity: number;
+  private tokens: number;
+  private refillPerMs: number;
+  private lastRefillAt: number = Date.now();
+
+  // 429/503 backoff
+  private backoffUntil: number = 0;
+  private consecutiveRateLimits: number = 0;
+
+  constructor(modelLimits?: ModelConcurrencyLimits, requestsPerMinute?: number) {
+    this.modelLimits = modelLimits || loadModelLimitsFromEnv();
+
+    const rpm =
+      requestsPerMinute ||
+      parseInt(process.env.SORA_REQUESTS_PER_MINUTE || '', 10) ||
+      DEFAULT_REQUESTS_PER_MINUTE;
+    this.capacity = rpm;
+    this.tokens = rpm;
+    this.refillPerMs = rpm / 60000;
+  }
+
+  /**
+   * Caches a tenant's concurrency ceilings (loaded from the database by the queue)
+   */
+  setTenantLimits(tenantId: string, limits: Partial<Record<SoraModel, number>>): void {
+    this.tenantLimits.set(tenantId, { limits, loadedAt: Date.now() });
+  }
+
+  /**
+   * Whether the cached tenant limits are missing or older than the TTL
+   */
+  needsTenantLimits(tenantId: string): boolean {
+    const cached = this.tenantLimits.get(tenantId);
+    return !cached || Date.now() - cached.loadedAt > TENANT_LIMITS_TTL_MS;
+  }
+
+  /**
+   * Effective concurrency ceiling for a model (tenant ceiling can only lower the org ceiling)
+   */
+  getConcurrencyLimit(model: SoraModel, tenantId?: string): number {
+    const orgLimit = this.modelLimits[model] ?? DEFAULT_MODEL_CONCURRENCY[model] ?? 1;
+    const tenantLimit = tenantId ? this.tenantLimits.get(tenantId)?.limits[model] : undefined;
+    return tenantLimit !== undefined ? Math.min(orgLimit, tenantLimit) : orgLimit;
+  }
+
+  /**
+   * Total concurrent generations allowed across all models
+   */
+  getTotalConcurrency(): number {
+    return Object.values(this.modelLimits).reduce((sum, limit) => sum + limit, 0);
+  }
+
+  /**
+   * Checks whether a video for this model/tenant may start now
+   */
+  canStart(model: SoraModel, tenantId?: string): boolean {
+    if (this.isBackingOff()) return false;
+
+    this.refill();
+    if (this.tokens < 1) return false;
+
+    if ((this.activeByModel.get(model) || 0) >= (this.modelLimits[model] ?? 1)) return false;
+
+    if (tenantId) {
+      const tenantActive = this.activeByTenantModel.get(`${tenantId}:${model}`) || 0;
+      if (tenantActive >= this.getConcurrencyLimit(model, tenantId)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Reserves a request token and a concurrency slot (call after canStart)
+   */
+  acquire(model: SoraModel, tenantId?: string): void {
+    this.refill();
+    this.tokens = Math.max(0, this.tokens - 1);
+    this.activeByModel.set(model, (this.activeByModel.get(model) || 0) + 1);
+
+    if (tenantId) {
+      const key = `${tenantId}:${model}`;
+      this.activeByTenantModel.set(key, (this.activeByTenantModel.get(key) || 0) + 1);
+    }
+  }
+
+  /**
+   * Frees a concurrency slot when a video finishes, fails or is requeued
+   */
+  release(model: SoraModel, tenantId?: string): void {
+    this.activeByModel.set(model, Math.max(0, (this.activeByModel.get(model) || 0) - 1));
+
+    if (tenantId) {
+      const key = `${tenantId}:${model}`;
+      this.activeByTenantModel.set(key, Math.max(0, (this.activeByTenantModel.get(key) || 0) - 1));
+    }
+  }
+
+  /**
+   * Updates the token bucket from response headers
+   */
+  recordRateLimitInfo(info: RateLimitInfo): void {
+    if (info.limitRequests && info.limitRequests > 0) {
+      this.capacity = info.limitRequests;
+      this.refillPerMs = info.limitRequests / 60000;
+    }
+
+    if (info.remainingRequests !== undefined) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, info.remainingRequests);
+
+      // Window exhausted - wait for the server-reported reset
+      if (info.remainingRequests === 0 && info.resetRequestsMs) {
+        this.backoffUntil = Math.max(this.backoffUntil, Date.now() + info.resetRequestsMs);
+      }
+    }
+  }
+
+  /**
+   * Records a 429/503 and backs off
+   * Uses Retry-After when provided, otherwise exponential backoff, plus up to 25% jitter
+   * @returns Delay in ms before the next dispatch attempt
+   */
+  onRateLimited(retryAfterMs?: number): number {
+    this.consecutiveRateLimits++;
+
+    const baseDelay =
+      retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, this.consecutiveRateLimits - 1));
+    const delay = Math.round(baseDelay + Math.random() * baseDelay * 0.25);
+
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay);
+    this.tokens = 0;
+
+    console.warn(
+      `[Rate Limiter] Rate limited (${this.consecutiveRateLimits} in a row), backing off ${Math.round(delay / 1000)}s`
+    );
+
+    return delay;
+  }
+
+  /**
+   * Resets backoff after a successful request
+   */
+  onSuccess(): void {
+    this.consecutiveRateLimits = 0;
+  }
+
+  /**
+   * Time in ms until a dispatch may be possible again (0 if not rate limited)
+   * Concurrency slots free up through completion callbacks, not time
+   */
+  getWaitTimeMs(): number {
+    const backoffMs = Math.max(0, this.backoffUntil - Date.now());
+    if (backoffMs > 0) return backoffMs;
+
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  private isBackingOff(): boolean {
+    return Date.now() < this.backoffUntil;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefillAt) * this.refillPerMs);
+    this.lastRefillAt = now;
+  }
+}
+
+// Singleton instance
+export const soraRateLimiter = new SoraRateLimiter();
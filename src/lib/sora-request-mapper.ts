@@ -0,0 +1,120 @@
+// Sora Request Mapping (Story 2.4, AC#6)
+// Translates dashboard generation settings into validated Sora 2 API parameters
+
+import type { DashboardFormData } from '@/types/dashboard';
+import {
+  SORA_MODEL_CAPABILITIES,
+  SoraAPIError,
+  type SoraAspectRatio,
+  type SoraDuration,
+  type SoraModel,
+} from './sora-client';
+import type { VideoGenerationRequest } from './video-providers';
+
+const DEFAULT_ASPECT_RATIO: SoraAspectRatio = '16:9';
+
+/**
+ * Generation settings chosen on the dashboard
+ */
+export type VideoGenerationSettings = {
+  model: SoraModel;
+  duration: SoraDuration;
+  aspectRatio: SoraAspectRatio;
+};
+
+/**
+ * Thrown before any API call when settings are not supported by the selected model
+ * Messages start with "Invalid ..." so video-error-handler categorizes them as validation failures
+ */
+export class SoraParameterError extends SoraAPIError {
+  constructor(
+    message: string,
+    public field: 'model' | 'duration' | 'aspectRatio' | 'prompt',
+    public allowed?: Array<string | number>
+  ) {
+    super(message, 400, 'invalid_parameters', { field, allowed });
+    this.name = 'SoraParameterError';
+  }
+}
+
+/**
+ * Validates generation settings against the per-model capability table
+ * @throws SoraParameterError describing the first invalid setting
+ */
+export function validateGenerationSettings(settings: {
+  model: string;
+  duration: number;
+  aspectRatio?: string;
+}): VideoGenerationSettings {
+  const capabilities = SORA_MODEL_CAPABILITIES[settings.model as SoraModel];
+
+  if (!capabilities) {
+    const models = Object.keys(SORA_MODEL_CAPABILITIES);
+    throw new SoraParameterError(
+      `Invalid model "${settings.model}". Supported models: ${models.join(', ')}`,
+      'model',
+      models
+    );
+  }
+
+  if (!capabilities.durations.includes(settings.duration as SoraDuration)) {
+    throw new SoraParameterError(
+      `Invalid duration ${settings.duration}s for ${settings.model}. ` +
+        `Supported durations: ${capabilities.durations.map((d) => `${d}s`).join(', ')}`,
+      'duration',
+      capabilities.durations
+    );
+  }
+
+  const aspectRatio = settings.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const ratios = Object.keys(capabilities.sizes);
+
+  if (!ratios.includes(aspectRatio)) {
+    throw new SoraParameterError(
+      `Invalid aspect ratio "${aspectRatio}" for ${settings.model}. Supported aspect ratios: ${ratios.join(', ')}`,
+      'aspectRatio',
+      ratios
+    );
+  }
+
+  return {
+    model: settings.model as SoraModel,
+    duration: settings.duration as SoraDuration,
+    aspectRatio: aspectRatio as SoraAspectRatio,
+  };
+}
+
+/**
+ * Maps dashboard form settings to validated generation settings
+ */
+export function mapDashboardSettings(
+  formData: Pick<DashboardFormData, 'soraModel' | 'videoDuration' | 'aspectRatio'>
+): VideoGenerationSettings {
+  return validateGenerationSettings({
+    model: formData.soraModel,
+    duration: formData.videoDuration,
+    aspectRatio: formData.aspectRatio,
+  });
+}
+
+/**
+ * Builds the video provider request for a prompt and generation settings
+ * @throws SoraParameterError if the prompt is empty or settings are invalid
+ */
+export function toVideoGenerationRequest(
+  prompt: string,
+  settings: { model: string; duration: number; aspectRatio?: string }
+): VideoGenerationRequest {
+  if (!prompt.trim()) {
+    throw new SoraParameterError('Invalid prompt: prompt is empty', 'prompt');
+  }
+
+  const { model, duration, aspectRatio } = validateGenerationSettings(settings);
+
+  return {
+    prompt,
+    model,
+    durationSeconds: duration,
+    size: SORA_MODEL_CAPABILITIES[model].sizes[aspectRatio],
+  };
+}
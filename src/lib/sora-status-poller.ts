@@ -1,8 +1,11 @@
 // Sora 2 Status Polling System (Story 2.3, AC#5, Story 2.4, 2.5, 2.6 integration)
-// Polls Sora 2 API every 30 seconds for video status updates
+// Completion is driven by signed Sora webhooks (/api/webhooks/sora); polling with
+// adaptive backoff is the fallback for videos whose webhooks never arrive
 
 import type { VideoVariationRecord } from './notion-client';
-import { soraClient, type SoraStatusResponse } from './sora-client';
+import { SoraAPIError, type SoraStatusResponse } from './sora-client';
+import { soraRateLimiter } from './sora-rate-limiter';
+import { createVideoProvider, type VideoProvider } from './video-providers';
 import { videoGenerationQueue } from './video-generation-queue';
 import { assetDownloadManager } from './asset-download-manager';
 
@@ -14,31 +17,49 @@ type PollingJob = {
   soraVideoId: string;
   batchId: string;
   startedAt: Date;
-  lastPolledAt: Date;
+  lastPolledAt?: Date;
+  nextPollAt: Date;
   pollCount: number;
-  maxPolls: number; // Timeout after X polls
+  deadline: Date; // Video is failed if no terminal status arrives by then
 };
 
-const POLL_INTERVAL_MS = 30 * 1000; // 30 seconds (Story 2.3, AC#5)
-const MAX_POLL_ATTEMPTS = 120; // 1 hour max (120 * 30s)
+/**
+ * Completion event received from the Sora webhook
+ */
+export type SoraWebhookEvent = {
+  type: 'video.completed' | 'video.failed';
+  videoId: string;
+};
+
+const MIN_POLL_INTERVAL_MS = 30 * 1000; // 30 seconds (Story 2.3, AC#5)
+const MAX_POLL_INTERVAL_MS = 5 * 60 * 1000; // Back off to at most 5 minutes between polls
+const POLL_BACKOFF_FACTOR = 1.5;
+const WEBHOOK_GRACE_PERIOD_MS = 2 * 60 * 1000; // First fallback poll when webhooks are enabled
+const MAX_POLL_DURATION_MS = 60 * 60 * 1000; // 1 hour max
 
 /**
  * Sora Status Poller
- * Manages polling for multiple videos in a batch
+ * Tracks in-flight videos, handles webhook completions and polls as a fallback
  */
 export class SoraStatusPoller {
   private activeJobs: Map<string, PollingJob> = new Map();
-  private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private pollingTimers: Map<string, NodeJS.Timeout> = new Map();
   private webhookUrl: string;
+  private provider: VideoProvider;
+  private webhooksEnabled: boolean;
 
-  constructor() {
+  constructor(provider?: VideoProvider) {
+    // Use provided video provider or create one from environment config
+    this.provider = provider || createVideoProvider();
+    this.webhooksEnabled = !!process.env.SORA_WEBHOOK_SECRET;
     this.webhookUrl = process.env.NEXT_PUBLIC_BASE_URL
       ? `${process.env.NEXT_PUBLIC_BASE_URL}/api/notion/webhook`
       : 'http://localhost:3000/api/notion/webhook';
   }
 
   /**
-   * Starts polling for a video variation
+   * Starts tracking a video variation
+   * With webhooks enabled the first poll waits for the grace period, otherwise it runs immediately
    */
   startPolling(notionPageId: string, soraVideoId: string, batchId: string): void {
     // Don't start if already polling
@@ -47,45 +68,104 @@ export class SoraStatusPoller {
       return;
     }
 
+    const now = Date.now();
+    const firstDelay = this.webhooksEnabled ? WEBHOOK_GRACE_PERIOD_MS : 0;
+
     const job: PollingJob = {
       notionPageId,
       soraVideoId,
       batchId,
-      startedAt: new Date(),
-      lastPolledAt: new Date(),
+      startedAt: new Date(now),
+      nextPollAt: new Date(now + firstDelay),
       pollCount: 0,
-      maxPolls: MAX_POLL_ATTEMPTS,
+      deadline: new Date(now + MAX_POLL_DURATION_MS),
     };
 
     this.activeJobs.set(soraVideoId, job);
+    this.schedulePoll(job, firstDelay);
 
-    // Start polling immediately
-    this.pollVideo(soraVideoId);
-
-    // Set up interval
-    const interval = setInterval(() => {
-      this.pollVideo(soraVideoId);
-    }, POLL_INTERVAL_MS);
-
-    this.pollingIntervals.set(soraVideoId, interval);
-
-    console.log(`[Poller] Started polling ${soraVideoId} (${notionPageId})`);
+    console.log(
+      `[Poller] Started tracking ${soraVideoId} (${notionPageId})${this.webhooksEnabled ? ' - waiting for webhook' : ''}`
+    );
   }
 
   /**
    * Stops polling for a video
    */
   stopPolling(soraVideoId: string): void {
-    const interval = this.pollingIntervals.get(soraVideoId);
-    if (interval) {
-      clearInterval(interval);
-      this.pollingIntervals.delete(soraVideoId);
+    const timer = this.pollingTimers.get(soraVideoId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pollingTimers.delete(soraVideoId);
     }
 
     this.activeJobs.delete(soraVideoId);
     console.log(`[Poller] Stopped polling ${soraVideoId}`);
   }
 
+  /**
+   * Handles a verified Sora webhook event
+   * Drives the same completion path as polling and cancels the fallback poll
+   * @returns false if the video is not tracked (unknown, or already finished)
+   */
+  async handleWebhookEvent(event: SoraWebhookEvent): Promise<boolean> {
+    const job = this.activeJobs.get(event.videoId);
+    if (!job) {
+      console.log(`[Poller] Ignoring webhook ${event.type} for untracked video ${event.videoId}`);
+      return false;
+    }
+
+    console.log(`[Poller] Webhook ${event.type} for ${event.videoId}`);
+
+    let status: SoraStatusResponse;
+    try {
+      // Fetch full status for download URL and error details
+      status = await this.fetchSoraVideoStatus(event.videoId);
+    } catch {
+      status = {
+        video_id: event.videoId,
+        status: event.type === 'video.completed' ? 'completed' : 'failed',
+      } as SoraStatusResponse;
+    }
+
+    // Trust the event if the status endpoint lags behind it
+    if (status.status !== 'completed' && status.status !== 'failed') {
+      status = { ...status, status: event.type === 'video.completed' ? 'completed' : 'failed' };
+    }
+
+    await this.handleStatus(job, status);
+    return true;
+  }
+
+  /**
+   * Schedules the next poll for a job
+   */
+  private schedulePoll(job: PollingJob, delayMs: number): void {
+    const existing = this.pollingTimers.get(job.soraVideoId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    job.nextPollAt = new Date(Date.now() + delayMs);
+
+    const timer = setTimeout(() => {
+      this.pollingTimers.delete(job.soraVideoId);
+      this.pollVideo(job.soraVideoId);
+    }, delayMs);
+
+    this.pollingTimers.set(job.soraVideoId, timer);
+  }
+
+  /**
+   * Gets the delay before the next poll (adaptive backoff)
+   * Grows by POLL_BACKOFF_FACTOR each attempt, capped at MAX_POLL_INTERVAL_MS
+   */
+  private getNextPollDelay(job: PollingJob): number {
+    const delay = MIN_POLL_INTERVAL_MS * Math.pow(POLL_BACKOFF_FACTOR, Math.max(0, job.pollCount - 1));
+    const remaining = job.deadline.getTime() - Date.now();
+    return Math.max(0, Math.min(delay, MAX_POLL_INTERVAL_MS, remaining));
+  }
+
   /**
    * Polls Sora 2 API for video status
    */
@@ -100,36 +180,21 @@ export class SoraStatusPoller {
       // Call Sora 2 API (Story 2.4 integration point)
       const status = await this.fetchSoraVideoStatus(soraVideoId);
 
-      // Send status update to webhook
-      await this.sendStatusUpdate(job.notionPageId, soraVideoId, status);
+      // Webhook may have finished the job while the request was in flight
+      if (this.activeJobs.get(soraVideoId) !== job) return;
 
-      // Stop polling if terminal state reached
       if (status.status === 'completed' || status.status === 'failed') {
-        console.log(`[Poller] Video ${soraVideoId} reached terminal state: ${status.status}`);
-        this.stopPolling(soraVideoId);
-
-        // Notify queue manager to advance queue (Story 2.5, AC#3)
-        if (status.status === 'completed') {
-          await videoGenerationQueue.onVideoComplete(job.notionPageId);
-
-          // Queue asset download (Story 2.6, AC#1)
-          console.log(`[Poller] Queueing asset download for ${soraVideoId}`);
-          await assetDownloadManager.queueDownload(
-            job.notionPageId,
-            soraVideoId,
-            job.batchId,
-            new Date() // completedAt
-          );
-        } else {
-          const errorMessage = status.error?.message || 'Video generation failed';
-          await videoGenerationQueue.onVideoFailed(job.notionPageId, errorMessage);
-        }
+        await this.handleStatus(job, status);
+        return;
       }
 
-      // Stop polling if max attempts reached (Story 2.5 queue advancement on timeout)
-      if (job.pollCount >= job.maxPolls) {
-        console.warn(`[Poller] Max poll attempts reached for ${soraVideoId}`);
-        const timeoutError = `Polling timeout after ${job.maxPolls} attempts`;
+      // Send progress update to webhook
+      await this.sendStatusUpdate(job.notionPageId, soraVideoId, status);
+
+      // Fail the video if no terminal state by the deadline (Story 2.5 queue advancement on timeout)
+      if (Date.now() >= job.deadline.getTime()) {
+        console.warn(`[Poller] Polling deadline reached for ${soraVideoId}`);
+        const timeoutError = `Polling timeout after ${Math.round(MAX_POLL_DURATION_MS / 60000)} minutes (${job.pollCount} attempts)`;
         await this.sendStatusUpdate(job.notionPageId, soraVideoId, {
           video_id: soraVideoId,
           status: 'failed',
@@ -142,8 +207,21 @@ export class SoraStatusPoller {
 
         // Notify queue manager to advance queue (Story 2.5, AC#3)
         await videoGenerationQueue.onVideoFailed(job.notionPageId, timeoutError);
+        return;
       }
+
+      this.schedulePoll(job, this.getNextPollDelay(job));
     } catch (error) {
+      if (this.activeJobs.get(soraVideoId) !== job) return;
+
+      // Rate limited - the video is still generating, so back off and poll again
+      if (error instanceof SoraAPIError && error.isRateLimited && Date.now() < job.deadline.getTime()) {
+        const backoffMs = soraRateLimiter.onRateLimited(error.retryAfterMs);
+        console.warn(`[Poller] Rate limited polling ${soraVideoId}, retrying in ${Math.round(backoffMs / 1000)}s`);
+        this.schedulePoll(job, Math.max(backoffMs, this.getNextPollDelay(job)));
+        return;
+      }
+
       console.error(`[Poller] Error polling ${soraVideoId}:`, error);
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown polling error';
@@ -157,19 +235,55 @@ export class SoraStatusPoller {
           message: errorMessage,
         },
       });
+      this.stopPolling(soraVideoId);
 
       // Notify queue manager to advance queue (Story 2.5, AC#3)
       await videoGenerationQueue.onVideoFailed(job.notionPageId, errorMessage);
     }
   }
 
+  /**
+   * Shared completion path for webhook events and polling
+   * Stops tracking first so a late poll or duplicate webhook cannot complete the video twice
+   */
+  private async handleStatus(job: PollingJob, status: SoraStatusResponse): Promise<void> {
+    const soraVideoId = job.soraVideoId;
+
+    console.log(`[Poller] Video ${soraVideoId} reached terminal state: ${status.status}`);
+    this.stopPolling(soraVideoId);
+
+    // Send status update to webhook
+    await this.sendStatusUpdate(job.notionPageId, soraVideoId, status);
+
+    // Notify queue manager to advance queue (Story 2.5, AC#3)
+    if (status.status === 'completed') {
+      await videoGenerationQueue.onVideoComplete(job.notionPageId);
+
+      // Queue asset download (Story 2.6, AC#1)
+      console.log(`[Poller] Queueing asset download for ${soraVideoId}`);
+      const video = videoGenerationQueue.getVideo(job.notionPageId);
+      await assetDownloadManager.queueDownload(
+        job.notionPageId,
+        soraVideoId,
+        job.batchId,
+        new Date(), // completedAt
+        video?.tenantId ?? videoGenerationQueue.getBatchTenantId(job.batchId),
+        video?.lineage,
+        video?.referenceId
+      );
+    } else {
+      const errorMessage = status.error?.message || 'Video generation failed';
+      await videoGenerationQueue.onVideoFailed(job.notionPageId, errorMessage);
+    }
+  }
+
   /**
    * Fetches video status from Sora 2 API (Story 2.4 integration)
-   * Uses SoraClient for real API calls or mock mode
+   * Uses the configured video provider (Sora or local fake)
    */
   private async fetchSoraVideoStatus(videoId: string): Promise<SoraStatusResponse> {
     try {
-      return await soraClient.getVideoStatus(videoId);
+      return await this.provider.getVideoStatus(videoId);
     } catch (error) {
       console.error(`[Poller] Failed to fetch Sora status for ${videoId}:`, error);
       throw error;
@@ -0,0 +1,195 @@
+// Speech Timing (Story 2.1)
+// Syllable counts for spoken dialog (bundled pronunciation dictionary, vowel-group heuristic as fallback)
+// and a speaking-rate model that estimates how long a voiceover takes, so dialog can be checked against
+// the clip length before Sora cuts it off mid-sentence.
+
+import { lookupSyllables } from './pronunciation-dictionary';
+
+/**
+ * Delivery speed of the voiceover
+ */
+export type SpeakingPace = 'relaxed' | 'conversational' | 'fast';
+
+/**
+ * Estimated delivery of a piece of dialog
+ */
+export type SpeechEstimate = {
+  words: number;
+  syllables: number;
+  pauses: number; // Clause and sentence breaks inside the dialog
+  seconds: number; // Including lead-in and the closing beat
+};
+
+// Typical ad voiceover delivery, in syllables per second
+const SYLLABLES_PER_SECOND: Record<SpeakingPace, number> = {
+  relaxed: 3.5,
+  conversational: 4.2,
+  fast: 5.2,
+};
+
+// Typical for conversational English, used to turn syllable budgets into word counts
+export const AVERAGE_SYLLABLES_PER_WORD = 1.4;
+
+const CLAUSE_PAUSE_SECONDS = 0.15; // , ; : and dashes
+const SENTENCE_PAUSE_SECONDS = 0.35; // . ! ? between sentences
+const DELIVERY_PADDING_SECONDS = 0.5; // Lead-in before the first word and a beat after the last
+
+// Syllables in spoken numbers
+const ONES = [2, 1, 1, 1, 1, 1, 1, 2, 1, 1]; // zero .. nine
+const TEENS = [1, 3, 1, 2, 2, 2, 2, 3, 2, 2]; // ten .. nineteen
+const TENS = [0, 0, 2, 2, 2, 2, 2, 3, 2, 2]; // -, -, twenty .. ninety
+const SCALES: [number, number][] = [
+  [1_000_000_000, 3], // billion
+  [1_000_000, 3], // million
+  [1_000, 2], // thousand
+];
+
+// Symbols that are read out
+const SYMBOL_SYLLABLES: Record<string, number> = {
+  '%': 2, // percent
+  $: 2, // dollars
+  '&': 1, // and
+  '+': 1, // plus
+};
+
+/**
+ * Vowel-group estimate for words missing from the dictionary
+ */
+function heuristicSyllables(word: string): number {
+  const vowelGroups = word.match(/[aeiouy]+/g);
+  let syllables = vowelGroups ? vowelGroups.length : 0;
+
+  // Silent 'e' ("make"), but a consonant + "le" ending is its own syllable ("simple")
+  if (word.endsWith('e') && !/[^aeiouy]le$/.test(word) && syllables > 1) {
+    syllables--;
+  }
+
+  // Silent "-ed" ("jumped") and "-es" ("bakes"); voiced after t/d ("wanted") and sibilants ("boxes")
+  if (syllables > 1 && /[^aeiouytd]ed$/.test(word)) {
+    syllables--;
+  } else if (syllables > 1 && /[^aeiouysxzcg]es$/.test(word) && !/(ch|sh)es$/.test(word)) {
+    syllables--;
+  }
+
+  return Math.max(1, syllables);
+}
+
+/**
+ * Syllables in a spoken integer (up to the billions)
+ */
+function numberSyllables(value: number): number {
+  if (value < 10) return ONES[value];
+  if (value < 20) return TEENS[value - 10];
+  if (value < 100) return TENS[Math.floor(value / 10)] + (value % 10 ? ONES[value % 10] : 0);
+  if (value < 1000) {
+    // "three hundred (and) five" - the "and" is usually dropped in voiceover
+    return ONES[Math.floor(value / 100)] + 2 + (value % 100 ? numberSyllables(value % 100) : 0);
+  }
+
+  for (const [scale, scaleSyllables] of SCALES) {
+    if (value >= scale) {
+      const rest = value % scale;
+      return numberSyllables(Math.floor(value / scale)) + scaleSyllables + (rest ? numberSyllables(rest) : 0);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Syllables in a numeric token such as "1,000" or "2.5"
+ * Numbers too long to be read as a value are read digit by digit
+ */
+function numericSyllables(token: string): number {
+  const [whole, fraction] = token.replace(/,/g, '').split('.');
+  const value = parseInt(whole, 10);
+
+  const wholeSyllables =
+    whole.length > 12 || !Number.isFinite(value)
+      ? whole.split('').reduce((sum, digit) => sum + ONES[Number(digit)], 0)
+      : numberSyllables(value);
+
+  // "two point five"
+  const fractionSyllables = fraction
+    ? 1 + fraction.split('').reduce((sum, digit) => sum + ONES[Number(digit)], 0)
+    : 0;
+
+  return wholeSyllables + fractionSyllables;
+}
+
+/**
+ * Syllables in one word, using the dictionary first
+ */
+export function countWordSyllables(rawWord: string): number {
+  const word = rawWord.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z']/g, '').replace(/^'+|'+$/g, '');
+  if (!word) return 0;
+
+  // Contractions: "isn't", "that's", "we're", "I'll"
+  if (word.endsWith("n't")) {
+    const base = word.slice(0, -3);
+    // "isn't" and "couldn't" add a syllable, "don't" and "can't" do not
+    return Math.max(1, countWordSyllables(base) + (/[^aeiouy]$/.test(base) ? 1 : 0));
+  }
+  if (word.endsWith("'s")) {
+    const base = word.slice(0, -2);
+    // "boss's" and "Rose's" add a syllable
+    return countWordSyllables(base) + (/(s|x|z|ch|sh|ce|ge|se|ze)$/.test(base) ? 1 : 0);
+  }
+  const apostrophe = word.indexOf("'");
+  if (apostrophe > 0) {
+    return countWordSyllables(word.slice(0, apostrophe));
+  }
+
+  return lookupSyllables(word) ?? heuristicSyllables(word);
+}
+
+/**
+ * Syllables in a piece of dialog, including numbers and symbols that are read out
+ */
+export function countSyllables(text: string): number {
+  const tokens = text.match(/\d+(?:[.,]\d+)*|[a-zA-Z’'‘]+|[%$&+]/g) ?? [];
+
+  return tokens.reduce((total, token) => {
+    if (/^\d/.test(token)) return total + numericSyllables(token);
+    if (token in SYMBOL_SYLLABLES) return total + SYMBOL_SYLLABLES[token];
+    return total + countWordSyllables(token);
+  }, 0);
+}
+
+/**
+ * Estimates how long dialog takes to speak
+ */
+export function estimateSpeechDuration(text: string, pace: SpeakingPace = 'conversational'): SpeechEstimate {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { words: 0, syllables: 0, pauses: 0, seconds: 0 };
+  }
+
+  const syllables = countSyllables(trimmed);
+  const words = trimmed.split(/\s+/).filter((word) => word.length > 0).length;
+
+  // Breaks inside the dialog (a final full stop is covered by the padding)
+  const inner = trimmed.replace(/[.!?…]+["')\]]*$/, '');
+  const sentenceBreaks = (inner.match(/[.!?…]+(?=\s)/g) ?? []).length;
+  const clauseBreaks = (inner.match(/[,;:](?!\d)|\s[-–—]\s|—/g) ?? []).length; // Not "1,000"
+
+  const seconds =
+    syllables / SYLLABLES_PER_SECOND[pace] +
+    sentenceBreaks * SENTENCE_PAUSE_SECONDS +
+    clauseBreaks * CLAUSE_PAUSE_SECONDS +
+    DELIVERY_PADDING_SECONDS;
+
+  return {
+    words,
+    syllables,
+    pauses: sentenceBreaks + clauseBreaks,
+    seconds: Math.round(seconds * 10) / 10,
+  };
+}
+
+/**
+ * Most syllables that can be spoken in a clip (without pauses)
+ */
+export function getSpeakableSyllables(durationSeconds: number, pace: SpeakingPace = 'conversational'): number {
+  return Math.max(0, Math.floor((durationSeconds - DELIVERY_PADDING_SECONDS) * SYLLABLES_PER_SECOND[pace]));
+}
@@ -0,0 +1,113 @@
+// Spend Caps (Story 1.5)
+// Monthly per-tenant and per-campaign caps on recorded spend, and the approval threshold for expensive batches
+
+import { getBatchSpend, getCampaignCap, getTenantSpend, getTenantSpendCaps } from './database/spend-ledger';
+
+/**
+ * Which cap a dispatch or batch would exceed
+ */
+export type SpendCapKind = 'monthly' | 'campaign';
+
+/**
+ * Spend counted against a cap
+ */
+export type CapUsage = {
+  capUsd: number;
+  spentUsd: number; // Recorded in the ledger
+  remainingUsd: number;
+};
+
+/**
+ * Result of checking spend about to be committed against the caps
+ */
+export type SpendCapCheck = {
+  withinCaps: boolean;
+  exceeded?: SpendCapKind;
+  monthly?: CapUsage; // Undefined when the tenant has no monthly cap
+  campaign?: CapUsage; // Undefined when the campaign has no cap
+};
+
+/**
+ * Cost about to be committed that the ledger does not know about yet
+ * (videos still generating, plus the video or batch being checked)
+ */
+export type PendingSpend = {
+  tenantUsd: number;
+  batchUsd?: number;
+};
+
+/**
+ * Start of the current calendar month (UTC) - monthly caps reset here
+ */
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Whether a batch estimate needs admin approval before it is generated
+ */
+export function requiresApproval(totalBatchCost: number, approvalThresholdUsd: number | null): boolean {
+  return approvalThresholdUsd !== null && totalBatchCost > approvalThresholdUsd;
+}
+
+/**
+ * Builds cap usage from a cap and recorded spend
+ */
+function toCapUsage(capUsd: number, spentUsd: number): CapUsage {
+  return {
+    capUsd,
+    spentUsd: parseFloat(spentUsd.toFixed(2)),
+    remainingUsd: parseFloat(Math.max(0, capUsd - spentUsd).toFixed(2)),
+  };
+}
+
+/**
+ * Tenant's spend this month against its monthly cap (null if uncapped)
+ */
+export async function getMonthlyCapUsage(tenantId: string): Promise<CapUsage | null> {
+  const { monthlyCapUsd } = await getTenantSpendCaps(tenantId);
+  if (monthlyCapUsd === null) return null;
+
+  return toCapUsage(monthlyCapUsd, await getTenantSpend(tenantId, getMonthStart()));
+}
+
+/**
+ * Batch's spend against its campaign cap (null if uncapped)
+ */
+export async function getCampaignCapUsage(batchId: string): Promise<CapUsage | null> {
+  const capUsd = await getCampaignCap(batchId);
+  if (capUsd === null) return null;
+
+  return toCapUsage(capUsd, await getBatchSpend(batchId));
+}
+
+/**
+ * Checks whether committing the pending spend keeps the tenant within its monthly cap
+ * and, when a batch is given, the batch within its campaign cap
+ */
+export async function checkSpendCaps(
+  tenantId: string,
+  batchId: string | undefined,
+  pending: PendingSpend
+): Promise<SpendCapCheck> {
+  const [monthly, campaign] = await Promise.all([
+    getMonthlyCapUsage(tenantId),
+    batchId ? getCampaignCapUsage(batchId) : Promise.resolve(null),
+  ]);
+
+  const check: SpendCapCheck = {
+    withinCaps: true,
+    monthly: monthly ?? undefined,
+    campaign: campaign ?? undefined,
+  };
+
+  if (monthly && monthly.spentUsd + pending.tenantUsd > monthly.capUsd) {
+    check.withinCaps = false;
+    check.exceeded = 'monthly';
+  } else if (campaign && campaign.spentUsd + (pending.batchUsd ?? 0) > campaign.capUsd) {
+    check.withinCaps = false;
+    check.exceeded = 'campaign';
+  }
+
+  return check;
+}
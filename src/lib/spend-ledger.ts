@@ -0,0 +1,103 @@
+// Spend Ledger (Story 1.5)
+// Records the actual cost of every Sora job and LLM call from the API response usage data,
+// so budgets are checked against real spend instead of estimates
+
+import {
+  getSoraCost,
+  getTokenCost,
+  type LlmCallCosts,
+  type SoraModel,
+  type VideoDuration,
+} from './pricing-config';
+import { getActiveRateCard } from './rate-cards';
+import { recordSpendEntry } from './database/spend-ledger';
+import type { ApiProvider } from './wallet-balance';
+
+/**
+ * What a ledger entry paid for
+ */
+export type SpendService = 'sora' | 'gpt5_prompt' | 'perplexity_research' | 'claude' | 'gemini';
+
+/**
+ * Who a call is billed to (all optional - calls outside a batch are recorded without a tenant)
+ */
+export type SpendContext = {
+  tenantId?: string;
+  batchId?: string;
+  notionPageId?: string;
+};
+
+/**
+ * Token usage reported by an LLM response
+ */
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+// Estimated per-call cost used when a model has no rate card entry or the response has no usage data
+const FALLBACK_CALL_COSTS: Record<Exclude<SpendService, 'sora'>, keyof LlmCallCosts> = {
+  gpt5_prompt: 'gpt5PromptGeneration',
+  perplexity_research: 'perplexityResearch',
+  claude: 'claudeValidation',
+  gemini: 'geminiFallback',
+};
+
+/**
+ * Records an LLM call, priced with the rate card in effect
+ * Never throws - a ledger failure must not fail the call it records
+ */
+export async function recordLlmSpend(
+  provider: ApiProvider,
+  service: Exclude<SpendService, 'sora'>,
+  model: string,
+  usage: TokenUsage | undefined,
+  context: SpendContext = {}
+): Promise<void> {
+  try {
+    const rateCard = await getActiveRateCard();
+    const tokenCost = usage ? getTokenCost(model, usage.inputTokens, usage.outputTokens, rateCard) : undefined;
+    if (tokenCost === undefined) {
+      console.warn(`[Spend Ledger] No usage or rate card for ${model}, recording the estimated ${service} cost`);
+    }
+
+    await recordSpendEntry({
+      ...context,
+      provider,
+      service,
+      model,
+      inputTokens: usage?.inputTokens,
+      outputTokens: usage?.outputTokens,
+      costUsd: tokenCost ?? rateCard.llm[FALLBACK_CALL_COSTS[service]],
+      rateCardVersion: rateCard.version,
+    });
+  } catch (error) {
+    console.error(`[Spend Ledger] Failed to record ${service} spend:`, error);
+  }
+}
+
+/**
+ * Records a completed Sora generation (failed and cancelled generations are not billed)
+ * Never throws - a ledger failure must not fail the video
+ */
+export async function recordSoraSpend(
+  model: SoraModel,
+  duration: VideoDuration,
+  context: SpendContext = {}
+): Promise<void> {
+  try {
+    const rateCard = await getActiveRateCard();
+
+    await recordSpendEntry({
+      ...context,
+      provider: 'openai',
+      service: 'sora',
+      model,
+      seconds: duration,
+      costUsd: getSoraCost(model, duration, rateCard),
+      rateCardVersion: rateCard.version,
+    });
+  } catch (error) {
+    console.error(`[Spend Ledger] Failed to record Sora spend for ${context.notionPageId}:`, error);
+  }
+}
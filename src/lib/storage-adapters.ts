@@ -1,9 +1,22 @@
 // Storage Adapter System
-// Supports multiple storage backends: local, NAS, Google Drive
+// Supports multiple storage backends: local, NAS, Google Drive, S3-compatible (AWS S3, MinIO)
 
 import fs from 'fs/promises';
 import path from 'path';
 import { google } from 'googleapis';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
 /**
  * Stored file metadata
@@ -13,7 +26,7 @@ export type StoredFile = {
   url: string; // Public-accessible URL
   size: number;
   storedAt: Date;
-  backend: 'local' | 'nas' | 'google-drive';
+  backend: 'local' | 'nas' | 'google-drive' | 's3';
 };
 
 /**
@@ -21,6 +34,11 @@ export type StoredFile = {
  * All storage backends must implement this interface
  */
 export interface StorageAdapter {
+  /**
+   * Backend identifier, as reported on saved files
+   */
+  readonly backend: StoredFile['backend'];
+
   /**
    * Saves a file to storage
    * @param relativePath - Relative path within storage (e.g., "batch123/video_V1.mp4")
@@ -30,11 +48,18 @@ export interface StorageAdapter {
   saveFile(relativePath: string, data: Buffer): Promise<StoredFile>;
 
   /**
-   * Gets public URL for a file
+   * Reads a stored file
    * @param relativePath - Relative path within storage
-   * @returns Public-accessible URL
+   * @returns File data as Buffer
    */
-  getFileUrl(relativePath: string): string;
+  readFile(relativePath: string): Promise<Buffer>;
+
+  /**
+   * Gets URL for a file
+   * @param relativePath - Relative path within storage
+   * @returns Public-accessible URL (short-lived presigned URL for S3)
+   */
+  getFileUrl(relativePath: string): Promise<string>;
 
   /**
    * Checks if file exists
@@ -61,6 +86,7 @@ export interface StorageAdapter {
  * Stores files in ./public/generated-videos (default)
  */
 export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = 'local' as const;
   private basePath: string;
   private baseUrl: string;
 
@@ -82,18 +108,22 @@ export class LocalStorageAdapter implements StorageAdapter {
 
     return {
       path: relativePath,
-      url: this.getFileUrl(relativePath),
+      url: await this.getFileUrl(relativePath),
       size: data.length,
       storedAt: new Date(),
       backend: 'local',
     };
   }
 
-  getFileUrl(relativePath: string): string {
+  async getFileUrl(relativePath: string): Promise<string> {
     // Public URL: /generated-videos/{relativePath}
     return `${this.baseUrl}/generated-videos/${relativePath}`;
   }
 
+  async readFile(relativePath: string): Promise<Buffer> {
+    return fs.readFile(path.join(this.basePath, relativePath));
+  }
+
   async fileExists(relativePath: string): Promise<boolean> {
     try {
       const fullPath = path.join(this.basePath, relativePath);
@@ -127,6 +157,7 @@ export class LocalStorageAdapter implements StorageAdapter {
  * Stores files on mounted NAS volume
  */
 export class NASStorageAdapter implements StorageAdapter {
+  readonly backend = 'nas' as const;
   private nasPath: string;
   private baseUrl: string;
 
@@ -149,18 +180,22 @@ export class NASStorageAdapter implements StorageAdapter {
 
     return {
       path: relativePath,
-      url: this.getFileUrl(relativePath),
+      url: await this.getFileUrl(relativePath),
       size: data.length,
       storedAt: new Date(),
       backend: 'nas',
     };
   }
 
-  getFileUrl(relativePath: string): string {
+  async getFileUrl(relativePath: string): Promise<string> {
     // NAS public URL (if NAS has HTTP server)
     return `${this.baseUrl}/${relativePath}`;
   }
 
+  async readFile(relativePath: string): Promise<Buffer> {
+    return fs.readFile(path.join(this.nasPath, relativePath));
+  }
+
   async fileExists(relativePath: string): Promise<boolean> {
     try {
       const fullPath = path.join(this.nasPath, relativePath);
@@ -193,6 +228,7 @@ export class NASStorageAdapter implements StorageAdapter {
  * Stores files in Google Drive using Drive API v3
  */
 export class GoogleDriveStorageAdapter implements StorageAdapter {
+  readonly backend = 'google-drive' as const;
   private drive: any;
   private folderId: string;
   private folderCache: Map<string, string> = new Map(); // Cache folder IDs
@@ -224,10 +260,10 @@ export class GoogleDriveStorageAdapter implements StorageAdapter {
       requestBody: {
         name: fileName,
         parents: [parentFolderId],
-        mimeType: this.getMimeType(fileName),
+        mimeType: getMimeType(fileName),
       },
       media: {
-        mimeType: this.getMimeType(fileName),
+        mimeType: getMimeType(fileName),
         body: Buffer.from(data),
       },
       fields: 'id,webViewLink,webContentLink',
@@ -253,12 +289,26 @@ export class GoogleDriveStorageAdapter implements StorageAdapter {
     };
   }
 
-  getFileUrl(relativePath: string): string {
+  async getFileUrl(relativePath: string): Promise<string> {
     // For Google Drive, we need to query to get the actual URL
     // This is a placeholder - actual URL is obtained during saveFile
     return `https://drive.google.com/file/${relativePath}`;
   }
 
+  async readFile(relativePath: string): Promise<Buffer> {
+    const fileId = await this.findFileByPath(relativePath);
+    if (!fileId) {
+      throw new Error(`File not found in Google Drive: ${relativePath}`);
+    }
+
+    const response = await this.drive.files.get(
+      { fileId, alt: 'media' },
+      { responseType: 'arraybuffer' }
+    );
+
+    return Buffer.from(response.data);
+  }
+
   async fileExists(relativePath: string): Promise<boolean> {
     try {
       const fileId = await this.findFileByPath(relativePath);
@@ -387,31 +437,233 @@ export class GoogleDriveStorageAdapter implements StorageAdapter {
 
     return currentParent;
   }
+}
+
+const S3_MULTIPART_THRESHOLD = 16 * 1024 * 1024; // Larger files (MP4s) upload in parts
+const S3_PART_SIZE = 8 * 1024 * 1024; // S3 requires at least 5 MB per part except the last
+const S3_DEFAULT_URL_TTL_SECONDS = 15 * 60; // Presigned URLs expire after 15 minutes
+
+/**
+ * S3-compatible storage adapter (AWS S3, MinIO, Cloudflare R2)
+ * Keys are scoped per tenant: {S3_PREFIX}/tenants/{tenantId}/{relativePath}
+ * getFileUrl returns short-lived presigned URLs; saved records get a stable
+ * /api/storage/{relativePath} URL that redirects to a fresh presigned URL
+ */
+export class S3StorageAdapter implements StorageAdapter {
+  readonly backend = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+  private keyPrefix: string;
+  private baseUrl: string;
+  private urlTtlSeconds: number;
+
+  constructor(tenantId?: string, client?: S3Client, bucket?: string) {
+    this.client =
+      client ||
+      new S3Client({
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined, // e.g. http://localhost:9000 for MinIO
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true', // Required by MinIO
+        credentials:
+          process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+            ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+              }
+            : undefined, // Fall back to the default AWS credential chain
+      });
+    this.bucket = bucket || process.env.S3_BUCKET || 'generated-videos';
+    this.baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+    this.urlTtlSeconds =
+      parseInt(process.env.S3_PRESIGNED_URL_TTL_SECONDS || '', 10) || S3_DEFAULT_URL_TTL_SECONDS;
+
+    const rootPrefix = (process.env.S3_PREFIX || '').replace(/^\/+|\/+$/g, '');
+    const tenantPrefix = tenantId ? `tenants/${tenantId}` : 'shared';
+    this.keyPrefix = rootPrefix ? `${rootPrefix}/${tenantPrefix}/` : `${tenantPrefix}/`;
+  }
+
+  async saveFile(relativePath: string, data: Buffer): Promise<StoredFile> {
+    const key = this.toKey(relativePath);
+    const contentType = getMimeType(relativePath);
+
+    if (data.length > S3_MULTIPART_THRESHOLD) {
+      await this.uploadMultipart(key, data, contentType);
+    } else {
+      await this.client.send(
+        new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: contentType })
+      );
+    }
+
+    console.log(`[S3 Storage] Saved file to s3://${this.bucket}/${key}`);
+
+    return {
+      path: relativePath,
+      url: `${this.baseUrl}/api/storage/${relativePath}`,
+      size: data.length,
+      storedAt: new Date(),
+      backend: 's3',
+    };
+  }
+
+  async readFile(relativePath: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.toKey(relativePath) })
+    );
+
+    if (!response.Body) {
+      throw new Error(`Empty response body for ${relativePath}`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async getFileUrl(relativePath: string): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.toKey(relativePath) }),
+      { expiresIn: this.urlTtlSeconds }
+    );
+  }
+
+  async fileExists(relativePath: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.toKey(relativePath) })
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async deleteFile(relativePath: string): Promise<void> {
+    const key = this.toKey(relativePath);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    console.log(`[S3 Storage] Deleted file: s3://${this.bucket}/${key}`);
+  }
+
+  async listFiles(directory: string): Promise<string[]> {
+    const prefix = this.toKey(directory ? `${directory.replace(/\/+$/, '')}/` : '');
+    const files: string[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucket,
+            Prefix: prefix,
+            Delimiter: '/',
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        for (const object of response.Contents || []) {
+          if (object.Key) {
+            files.push(object.Key.slice(prefix.length));
+          }
+        }
+
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return files;
+    } catch (error) {
+      console.error(`[S3 Storage] Failed to list ${prefix}:`, error);
+      return [];
+    }
+  }
 
   /**
-   * Gets MIME type from filename
+   * Uploads a large file in parts; aborts the upload on failure so no orphaned parts are billed
    */
-  private getMimeType(fileName: string): string {
-    const ext = path.extname(fileName).toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      '.mp4': 'video/mp4',
-      '.webp': 'image/webp',
-      '.jpg': 'image/jpeg',
-      '.jpeg': 'image/jpeg',
-      '.png': 'image/png',
-    };
-    return mimeTypes[ext] || 'application/octet-stream';
+  private async uploadMultipart(key: string, data: Buffer, contentType: string): Promise<void> {
+    const { UploadId } = await this.client.send(
+      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key, ContentType: contentType })
+    );
+
+    if (!UploadId) {
+      throw new Error(`S3 did not return an upload ID for ${key}`);
+    }
+
+    try {
+      const parts: Array<{ ETag?: string; PartNumber: number }> = [];
+
+      for (let offset = 0, partNumber = 1; offset < data.length; offset += S3_PART_SIZE, partNumber++) {
+        const { ETag } = await this.client.send(
+          new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId,
+            PartNumber: partNumber,
+            Body: data.subarray(offset, offset + S3_PART_SIZE),
+          })
+        );
+        parts.push({ ETag, PartNumber: partNumber });
+      }
+
+      await this.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId,
+          MultipartUpload: { Parts: parts },
+        })
+      );
+
+      console.log(`[S3 Storage] Multipart upload complete for ${key} (${parts.length} parts)`);
+    } catch (error) {
+      await this.client
+        .send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId }))
+        .catch((abortError) => console.error(`[S3 Storage] Failed to abort upload for ${key}:`, abortError));
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a relative path to its tenant-scoped object key
+   * Rejects ".." segments so paths cannot escape the tenant prefix
+   */
+  private toKey(relativePath: string): string {
+    const normalized = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+
+    if (normalized.split('/').includes('..')) {
+      throw new Error(`Invalid storage path: ${relativePath}`);
+    }
+
+    return `${this.keyPrefix}${normalized}`;
   }
 }
 
+/**
+ * Gets MIME type from filename
+ */
+function getMimeType(fileName: string): string {
+  const ext = path.extname(fileName).toLowerCase();
+  const mimeTypes: Record<string, string> = {
+    '.mp4': 'video/mp4',
+    '.webp': 'image/webp',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+  };
+  return mimeTypes[ext] || 'application/octet-stream';
+}
+
 /**
  * Storage adapter factory
  * Creates the appropriate storage adapter based on configuration
+ * @param tenantId - Scopes object keys to the tenant (S3 only; other backends share one tree)
+ * @param backend - Overrides STORAGE_BACKEND (e.g. to reach a tier assets are moved to or from)
  */
-export function createStorageAdapter(): StorageAdapter {
-  const storageBackend = process.env.STORAGE_BACKEND || 'local';
+export function createStorageAdapter(tenantId?: string, backend?: StoredFile['backend']): StorageAdapter {
+  const storageBackend = backend || process.env.STORAGE_BACKEND || 'local';
 
   switch (storageBackend) {
+    case 's3':
+      console.log('[Storage] Using S3 storage adapter');
+      return new S3StorageAdapter(tenantId);
+
     case 'nas':
       console.log('[Storage] Using NAS storage adapter');
       return new NASStorageAdapter();
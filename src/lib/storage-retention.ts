@@ -0,0 +1,427 @@
+// Storage Tiering and Retention (Story 2.6)
+// Applies per-tenant retention rules to catalogued assets on a schedule:
+// deletes what is no longer needed and moves assets from local/NAS to cheaper
+// or shared tiers (Google Drive, S3). Every move and delete is recorded.
+
+import path from 'path';
+import type { StorageRetentionRule, VideoAsset } from '@prisma/client';
+import { verifyStoredAsset } from './asset-integrity';
+import {
+  countAssetsSharingFile,
+  getMeasuredVideoBytesPerSecond,
+  getStorageUsage,
+  loadRetainedAssets,
+  loadTenantsWithRetentionRules,
+  loadWinnerVideoIds,
+  getRetentionRules,
+  markAssetDeleted,
+  recordStorageMove,
+  updateAssetLocation,
+  type NewStorageMove,
+} from './database/storage-retention';
+import { STORAGE_CONFIG, type StorageBackend, type StorageCostProfile } from './pricing-config';
+import { createStorageAdapter, type StorageAdapter } from './storage-adapters';
+
+/**
+ * Which assets a rule applies to
+ * - winner: assets of videos marked as winners in campaign analytics (kept forever unless a rule says otherwise)
+ * - approved / rejected / pending: reviewer decision on the video
+ */
+export const RETENTION_CLASSES = ['winner', 'approved', 'rejected', 'pending'] as const;
+
+export type RetentionClass = (typeof RETENTION_CLASSES)[number];
+
+export type RetentionAction = 'delete' | 'move';
+
+/**
+ * Retention rule as configured by a tenant admin
+ * e.g. { appliesTo: 'rejected', action: 'delete', afterDays: 14 }
+ *      { appliesTo: 'approved', action: 'move', afterDays: 7, targetBackend: 's3' }
+ */
+export type RetentionRuleInput = {
+  appliesTo: RetentionClass;
+  action: RetentionAction;
+  afterDays: number; // Days since the asset was downloaded
+  targetBackend?: StorageBackend; // move only
+};
+
+/**
+ * What happened (or would happen, on a dry run) to one asset
+ */
+export type RetentionActionResult = {
+  assetId: string;
+  notionPageId: string;
+  assetType: string;
+  appliesTo: RetentionClass;
+  action: NewStorageMove['action'];
+  fromBackend: string;
+  fromPath: string;
+  toBackend?: string;
+  sizeBytes: number;
+  status: NewStorageMove['status'] | 'planned';
+  error?: string;
+};
+
+/**
+ * Summary of one retention run for a tenant
+ */
+export type RetentionRunResult = {
+  tenantId: string;
+  dryRun: boolean;
+  checked: number; // Assets old enough for at least one rule
+  moved: number;
+  deleted: number; // Files deleted, plus catalogue entries released from shared files
+  failed: number;
+  freedBytes: number; // Bytes removed from storage (shared files count once, when the last copy goes)
+  actions: RetentionActionResult[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RUN_INTERVAL_HOURS = 24;
+
+type PlannedAction = {
+  asset: VideoAsset;
+  appliesTo: RetentionClass;
+  rule: StorageRetentionRule;
+};
+
+/**
+ * Storage Retention Manager
+ * Runs every STORAGE_RETENTION_INTERVAL_HOURS (default 24) once started, and on demand per tenant
+ */
+export class StorageRetentionManager {
+  private createAdapter: (tenantId: string, backend: StorageBackend) => StorageAdapter;
+  private adapters: Map<string, StorageAdapter> = new Map(); // tenantId:backend -> adapter
+  private runTimer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(createAdapter?: (tenantId: string, backend: StorageBackend) => StorageAdapter) {
+    this.createAdapter = createAdapter || createStorageAdapter;
+  }
+
+  /**
+   * Starts the scheduled retention job
+   */
+  start(): void {
+    if (this.runTimer) return;
+
+    const hours = parseFloat(process.env.STORAGE_RETENTION_INTERVAL_HOURS || '') || DEFAULT_RUN_INTERVAL_HOURS;
+    this.runTimer = setInterval(() => {
+      this.runAll().catch((error) => console.error('[Retention] Scheduled run failed:', error));
+    }, hours * 60 * 60 * 1000);
+
+    console.log(`[Retention] Scheduled every ${hours} hours`);
+  }
+
+  stop(): void {
+    if (this.runTimer) {
+      clearInterval(this.runTimer);
+      this.runTimer = undefined;
+    }
+  }
+
+  /**
+   * Applies retention rules for every tenant that has any
+   * Skipped if a previous run is still going
+   */
+  async runAll(): Promise<RetentionRunResult[]> {
+    if (this.running) {
+      console.warn('[Retention] Previous run still in progress, skipping');
+      return [];
+    }
+
+    this.running = true;
+    const results: RetentionRunResult[] = [];
+
+    try {
+      for (const tenantId of await loadTenantsWithRetentionRules()) {
+        try {
+          results.push(await this.runForTenant(tenantId));
+        } catch (error) {
+          // Log and continue - one tenant's storage problems should not block the others
+          console.error(`[Retention] Run failed for tenant ${tenantId}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return results;
+  }
+
+  /**
+   * Applies a tenant's retention rules
+   * @param options.dryRun - Report what would be moved or deleted without touching storage
+   */
+  async runForTenant(
+    tenantId: string,
+    options: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<RetentionRunResult> {
+    const dryRun = options.dryRun ?? false;
+    const now = options.now ?? new Date();
+    const result: RetentionRunResult = {
+      tenantId,
+      dryRun,
+      checked: 0,
+      moved: 0,
+      deleted: 0,
+      failed: 0,
+      freedBytes: 0,
+      actions: [],
+    };
+
+    const rules = await getRetentionRules(tenantId);
+    if (rules.length === 0) return result;
+
+    const minAfterDays = Math.min(...rules.map((rule) => rule.afterDays));
+    const assets = await loadRetainedAssets(tenantId, new Date(now.getTime() - minAfterDays * DAY_MS));
+    const winners = await loadWinnerVideoIds(
+      tenantId,
+      Array.from(new Set(assets.map((asset) => asset.soraVideoId)))
+    );
+
+    const planned = assets
+      .map((asset) => this.planAsset(asset, rules, winners, now))
+      .filter((action): action is PlannedAction => action !== undefined);
+    result.checked = planned.length;
+
+    // Confirm files with one listFiles call per directory instead of one request per file
+    const listings = dryRun ? new Map<string, Set<string>>() : await this.listDirectories(tenantId, planned);
+    const movedFiles = new Set<string>(); // Shared (deduplicated) files move once, with every asset using them
+
+    for (const action of planned) {
+      const fileKey = `${action.asset.storageBackend}:${action.asset.storagePath}`;
+      if (action.rule.action === 'move' && movedFiles.has(fileKey)) continue;
+
+      const outcome = dryRun
+        ? this.describe(action, action.rule.action === 'move' ? 'move' : 'delete', 'planned')
+        : await this.apply(tenantId, action, listings);
+
+      result.actions.push(outcome);
+
+      if (outcome.status === 'failed') {
+        result.failed++;
+      } else if (outcome.action === 'move') {
+        result.moved++;
+        movedFiles.add(fileKey);
+      } else {
+        result.deleted++;
+        if (outcome.action === 'delete' && outcome.status !== 'missing') {
+          result.freedBytes += outcome.sizeBytes;
+        }
+      }
+    }
+
+    console.log(
+      `[Retention] Tenant ${tenantId}${dryRun ? ' (dry run)' : ''}: ${result.moved} moved, ${result.deleted} deleted, ${result.failed} failed`
+    );
+
+    return result;
+  }
+
+  /**
+   * Picks the rule that applies to an asset now (delete wins over move)
+   */
+  private planAsset(
+    asset: VideoAsset,
+    rules: StorageRetentionRule[],
+    winners: Set<string>,
+    now: Date
+  ): PlannedAction | undefined {
+    const appliesTo: RetentionClass = winners.has(asset.soraVideoId)
+      ? 'winner'
+      : (asset.reviewStatus as RetentionClass);
+    const ageDays = (now.getTime() - asset.createdAt.getTime()) / DAY_MS;
+
+    const due = rules.filter((rule) => rule.appliesTo === appliesTo && ageDays >= rule.afterDays);
+    const deleteRule = due.find((rule) => rule.action === 'delete');
+    if (deleteRule) {
+      return { asset, appliesTo, rule: deleteRule };
+    }
+
+    const moveRule = due.find(
+      (rule) => rule.action === 'move' && rule.targetBackend && rule.targetBackend !== asset.storageBackend
+    );
+    return moveRule ? { asset, appliesTo, rule: moveRule } : undefined;
+  }
+
+  /**
+   * Lists every directory holding a planned asset, keyed by backend and directory
+   */
+  private async listDirectories(
+    tenantId: string,
+    planned: PlannedAction[]
+  ): Promise<Map<string, Set<string>>> {
+    const listings = new Map<string, Set<string>>();
+
+    for (const { asset } of planned) {
+      const directory = path.posix.dirname(asset.storagePath);
+      const key = `${asset.storageBackend}:${directory}`;
+      if (listings.has(key)) continue;
+
+      const storage = this.getAdapter(tenantId, asset.storageBackend as StorageBackend);
+      listings.set(key, new Set(await storage.listFiles(directory)));
+    }
+
+    return listings;
+  }
+
+  /**
+   * Moves or deletes one asset and records the outcome
+   */
+  private async apply(
+    tenantId: string,
+    action: PlannedAction,
+    listings: Map<string, Set<string>>
+  ): Promise<RetentionActionResult> {
+    const { asset, rule } = action;
+    const source = this.getAdapter(tenantId, asset.storageBackend as StorageBackend);
+    let outcome: RetentionActionResult;
+
+    try {
+      const listed = listings
+        .get(`${asset.storageBackend}:${path.posix.dirname(asset.storagePath)}`)
+        ?.has(path.posix.basename(asset.storagePath));
+
+      // listFiles returns nothing on errors, so double-check before writing the file off
+      if (!listed && !(await source.fileExists(asset.storagePath))) {
+        await markAssetDeleted(asset.id);
+        outcome = this.describe(action, 'delete', 'missing', 'File no longer in storage');
+      } else if (rule.action === 'move') {
+        outcome = await this.moveAsset(tenantId, action, source);
+      } else {
+        outcome = await this.deleteAsset(action, source);
+      }
+    } catch (error) {
+      console.error(`[Retention] Failed to ${rule.action} ${asset.storagePath}:`, error);
+      outcome = this.describe(
+        action,
+        rule.action === 'move' ? 'move' : 'delete',
+        'failed',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+
+    try {
+      await recordStorageMove({
+        tenantId,
+        assetId: asset.id,
+        ruleId: rule.id,
+        action: outcome.action,
+        fromBackend: outcome.fromBackend,
+        fromPath: outcome.fromPath,
+        toBackend: outcome.toBackend,
+        toPath: outcome.toBackend ? asset.storagePath : undefined,
+        sizeBytes: outcome.sizeBytes,
+        status: outcome.status === 'planned' ? 'completed' : outcome.status,
+        error: outcome.error,
+      });
+    } catch (error) {
+      console.error(`[Retention] Failed to record ${outcome.action} of ${asset.storagePath}:`, error);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Copies the file to the target tier, verifies it, repoints the catalogue, then removes the source
+   * Deduplicated assets sharing the file move with it
+   */
+  private async moveAsset(
+    tenantId: string,
+    action: PlannedAction,
+    source: StorageAdapter
+  ): Promise<RetentionActionResult> {
+    const { asset, rule } = action;
+    const target = this.getAdapter(tenantId, rule.targetBackend as StorageBackend);
+
+    const data = await source.readFile(asset.storagePath);
+    const stored = await target.saveFile(asset.storagePath, data);
+    verifyStoredAsset(asset.storagePath, await target.readFile(stored.path), asset);
+
+    await updateAssetLocation(
+      tenantId,
+      { backend: asset.storageBackend, path: asset.storagePath },
+      { backend: target.backend, path: stored.path, url: stored.url }
+    );
+    await source.deleteFile(asset.storagePath);
+
+    console.log(`[Retention] Moved ${asset.storagePath} from ${source.backend} to ${target.backend}`);
+    return this.describe(action, 'move', 'completed');
+  }
+
+  /**
+   * Deletes the file, unless a deduplicated asset still uses it (then only the catalogue entry goes)
+   */
+  private async deleteAsset(action: PlannedAction, source: StorageAdapter): Promise<RetentionActionResult> {
+    const { asset } = action;
+
+    if ((await countAssetsSharingFile(asset)) > 0) {
+      await markAssetDeleted(asset.id);
+      return this.describe(action, 'release', 'completed');
+    }
+
+    await source.deleteFile(asset.storagePath);
+    await markAssetDeleted(asset.id);
+
+    console.log(`[Retention] Deleted ${asset.storagePath} from ${source.backend}`);
+    return this.describe(action, 'delete', 'completed');
+  }
+
+  private describe(
+    { asset, appliesTo, rule }: PlannedAction,
+    action: RetentionActionResult['action'],
+    status: RetentionActionResult['status'],
+    error?: string
+  ): RetentionActionResult {
+    return {
+      assetId: asset.id,
+      notionPageId: asset.notionPageId,
+      assetType: asset.assetType,
+      appliesTo,
+      action,
+      fromBackend: asset.storageBackend,
+      fromPath: asset.storagePath,
+      toBackend: action === 'move' ? rule.targetBackend || undefined : undefined,
+      sizeBytes: asset.sizeBytes,
+      status,
+      error,
+    };
+  }
+
+  private getAdapter(tenantId: string, backend: StorageBackend): StorageAdapter {
+    const key = `${tenantId}:${backend}`;
+    let adapter = this.adapters.get(key);
+    if (!adapter) {
+      adapter = this.createAdapter(tenantId, backend);
+      this.adapters.set(key, adapter);
+    }
+    return adapter;
+  }
+}
+
+/**
+ * Measured storage profile for cost estimates: real bytes per second of video,
+ * priced at the rate of the backends the tenant's files actually live on
+ * @returns undefined until the tenant has downloaded videos (static estimate applies)
+ */
+export async function getStorageCostProfile(tenantId?: string): Promise<StorageCostProfile | undefined> {
+  const bytesPerSecond = await getMeasuredVideoBytesPerSecond(tenantId);
+  if (bytesPerSecond === undefined) return undefined;
+
+  const usage = await getStorageUsage(tenantId);
+  const totalBytes = usage.reduce((sum, entry) => sum + entry.bytes, 0);
+  const pricePerGB =
+    totalBytes > 0
+      ? usage.reduce(
+          (sum, entry) =>
+            sum + (STORAGE_CONFIG.backendPricePerGB[entry.backend as StorageBackend] ?? 0) * entry.bytes,
+          0
+        ) / totalBytes
+      : 0;
+
+  return { bytesPerSecond, pricePerGB };
+}
+
+// Singleton instance
+export const storageRetentionManager = new StorageRetentionManager();
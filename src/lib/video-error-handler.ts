@@ -35,6 +35,11 @@ export type VideoError = {
   suggestedAction?: string;
 };
 
+/**
+ * What started a retry: the queue after a retryable failure, or a user
+ */
+export type RetryTrigger = 'auto' | 'manual';
+
 /**
  * Retry Attempt Record (Story 2.8, AC#5)
  */
@@ -43,10 +48,14 @@ export type RetryAttempt = {
   timestamp: Date;
   previousError: string;
   modifiedPrompt?: string;
+  trigger?: RetryTrigger;
   outcome: 'pending' | 'success' | 'failed';
   newError?: string;
 };
 
+// Retries allowed per video when the tenant has no retry policy (manual and automatic combined)
+export const DEFAULT_MAX_RETRY_ATTEMPTS = 3;
+
 /**
  * Error patterns for categorization (Story 2.8, AC#1)
  */
@@ -203,13 +212,15 @@ export function formatErrorForNotion(
 export function createRetryAttempt(
   attemptNumber: number,
   previousError: string,
-  modifiedPrompt?: string
+  modifiedPrompt?: string,
+  trigger: RetryTrigger = 'manual'
 ): RetryAttempt {
   return {
     attemptNumber,
     timestamp: new Date(),
     previousError,
     modifiedPrompt,
+    trigger,
     outcome: 'pending',
   };
 }
@@ -251,15 +262,20 @@ export function getUserFriendlyMessage(category: ErrorCategory): string {
 
 /**
  * Determines if automatic retry should be attempted (Story 2.8, AC#4)
+ * @param retryCount - Retries already made for the video, manual and automatic
+ * @param maxAttempts - Tenant's retry limit
  */
-export function shouldAutoRetry(error: VideoError, retryCount: number): boolean {
-  // Only auto-retry API errors
-  if (error.category !== ErrorCategory.API_ERROR) {
+export function shouldAutoRetry(
+  error: VideoError,
+  retryCount: number,
+  maxAttempts: number = DEFAULT_MAX_RETRY_ATTEMPTS
+): boolean {
+  // Only auto-retry temporary failures - critical errors need the prompt or setup fixed first
+  if (error.severity !== ErrorSeverity.RETRYABLE) {
     return false;
   }
 
-  // Max 3 auto-retries
-  if (retryCount >= 3) {
+  if (retryCount >= maxAttempts) {
     return false;
   }
 
@@ -0,0 +1,301 @@
+// Video Export Packages (Story 2.7, AC#6)
+// Streams finished videos with their thumbnails and spritesheets out of the configured
+// storage backend as a ZIP, plus a CSV + JSON manifest for the paid-media team
+
+import type { GenerationJob, VideoAsset } from '@prisma/client';
+import path from 'path';
+import type { AssetType } from './asset-download-manager';
+import { getBatchOwnerTenantId, loadBatchWithVariations } from './database/batches';
+import { loadCompletedJobs } from './database/generation-jobs';
+import { loadLatestAssets } from './database/video-assets';
+import { getBatchVariations, type VideoVariationRecord } from './notion-client';
+import { getSoraCost, type RateCard } from './pricing-config';
+import { getRateCardAt } from './rate-cards';
+import type { SoraDuration, SoraModel } from './sora-client';
+import { createStorageAdapter, type StorageAdapter, type StoredFile } from './storage-adapters';
+import { ZipStreamWriter } from './zip-stream';
+import type { VideoCombination } from '@/types/dashboard';
+
+/**
+ * One file in the export, as listed in the manifest
+ */
+export type ExportManifestEntry = {
+  file: string; // Path inside the ZIP ({batchId}/{fileName})
+  assetType: AssetType;
+  version: number;
+  notionPageId: string;
+  batchId: string;
+  combinationId: string;
+  soraVideoId: string;
+  brand: string;
+  bigIdea: string;
+  aesthetic: string;
+  type: string;
+  demographic: string;
+  prompt: string;
+  model: string;
+  duration: number;
+  aspectRatio: string;
+  cost: number; // Generation cost in USD, on the video row only (thumbnails and spritesheets are free)
+  size: number; // Bytes
+  sha256: string; // Content hash from the asset catalogue
+};
+
+/**
+ * Video that could not be included in the export
+ */
+export type ExportSkippedVideo = {
+  notionPageId: string;
+  reason: string;
+};
+
+/**
+ * Batch and dimension details of a video, for the manifest
+ */
+type VideoDetails = Pick<VideoVariationRecord, 'brand' | 'bigIdea' | 'aesthetic' | 'type' | 'demographic' | 'cost'>;
+
+/**
+ * Everything the export will contain, resolved before streaming starts
+ */
+export type VideoExportPlan = {
+  files: Array<Omit<ExportManifestEntry, 'size'> & { storagePath: string; storageBackend: StoredFile['backend'] }>;
+  skipped: ExportSkippedVideo[];
+};
+
+const MANIFEST_COLUMNS: Array<keyof ExportManifestEntry> = [
+  'file',
+  'assetType',
+  'version',
+  'notionPageId',
+  'batchId',
+  'combinationId',
+  'soraVideoId',
+  'brand',
+  'bigIdea',
+  'aesthetic',
+  'type',
+  'demographic',
+  'prompt',
+  'model',
+  'duration',
+  'aspectRatio',
+  'cost',
+  'size',
+  'sha256',
+];
+
+/**
+ * Resolves which stored files to export
+ * Uses the latest catalogued version of each asset; only completed videos owned by the tenant are included.
+ * Jobs recorded without a tenant are included only if the tenant owns their batch.
+ * @param selection - Notion page IDs of selected videos, or a batch to export every approved video
+ */
+export async function planVideoExport(
+  selection: { notionPageIds?: string[]; batchId?: string },
+  tenantId?: string
+): Promise<VideoExportPlan> {
+  const completedJobs = await loadCompletedJobs(selection);
+
+  const batchOwners = new Map<string, string | null | undefined>();
+  for (const batchId of new Set(completedJobs.filter((job) => !job.tenantId).map((job) => job.batchId))) {
+    batchOwners.set(batchId, await getBatchOwnerTenantId(batchId));
+  }
+  const jobs = completedJobs.filter((job) =>
+    job.tenantId ? job.tenantId === tenantId : !!tenantId && batchOwners.get(job.batchId) === tenantId
+  );
+  const jobsByPage = new Map(jobs.map((job) => [job.notionPageId, job]));
+
+  const skipped: ExportSkippedVideo[] = (selection.notionPageIds || [])
+    .filter((notionPageId) => !jobsByPage.has(notionPageId))
+    .map((notionPageId) => ({ notionPageId, reason: 'Video not found or not completed' }));
+
+  const files: VideoExportPlan['files'] = [];
+  const batchIds = Array.from(new Set(jobs.map((job) => job.batchId)));
+
+  for (const batchId of batchIds) {
+    const records = await loadVideoDetails(batchId);
+    const batchJobs = jobs.filter((candidate) => candidate.batchId === batchId);
+    const assets = await loadLatestAssets({ notionPageIds: batchJobs.map((job) => job.notionPageId) });
+
+    for (const job of batchJobs) {
+      const jobAssets = new Map<string, VideoAsset>(
+        assets
+          .filter((asset) => asset.notionPageId === job.notionPageId)
+          .map((asset) => [asset.assetType, asset])
+      );
+
+      const video = jobAssets.get('video');
+      if (!video) {
+        skipped.push({ notionPageId: job.notionPageId, reason: 'No downloaded video recorded' });
+        continue;
+      }
+
+      // A batch export is the deliverable package - videos that were rejected or never reviewed stay out
+      if (selection.batchId && video.reviewStatus !== 'approved') {
+        skipped.push({ notionPageId: job.notionPageId, reason: 'Video not approved' });
+        continue;
+      }
+
+      const record = records.get(job.notionPageId);
+      // Priced with the card in effect when the video was generated, so re-exports match billing
+      const rateCard = await getRateCardAt(job.completedAt ?? job.queuedAt);
+      for (const assetType of ['video', 'thumbnail', 'spritesheet'] as AssetType[]) {
+        const asset = jobAssets.get(assetType);
+        if (!asset) continue;
+
+        files.push({
+          ...describeVideo(job, record),
+          soraVideoId: asset.soraVideoId,
+          // Deduplicated assets may live under another batch; the ZIP keeps them with this one
+          file: `${batchId}/${path.posix.basename(asset.storagePath)}`,
+          storagePath: asset.storagePath,
+          storageBackend: asset.storageBackend as StoredFile['backend'], // Retention may have moved it
+          assetType,
+          version: asset.version,
+          cost: assetType === 'video' ? getVideoCost(job, rateCard, record) : 0,
+          sha256: asset.sha256,
+        });
+      }
+    }
+  }
+
+  return { files, skipped };
+}
+
+/**
+ * Streams the planned files as a ZIP archive, one file in memory at a time
+ * Each file is read from the backend its asset is catalogued on; manifest.json and manifest.csv are appended
+ * after the media files
+ */
+export function createVideoExportStream(plan: VideoExportPlan, tenantId?: string): ReadableStream<Uint8Array> {
+  const adapters = new Map<StoredFile['backend'], StorageAdapter>();
+  const getStorage = (backend: StoredFile['backend']) => {
+    let storage = adapters.get(backend);
+    if (!storage) {
+      storage = createStorageAdapter(tenantId, backend);
+      adapters.set(backend, storage);
+    }
+    return storage;
+  };
+
+  const zip = new ZipStreamWriter();
+  const manifest: ExportManifestEntry[] = [];
+  const skipped = [...plan.skipped];
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index < plan.files.length) {
+        const { storagePath, storageBackend, ...entry } = plan.files[index++];
+
+        try {
+          const data = await getStorage(storageBackend).readFile(storagePath);
+          const { name, chunk } = zip.addFile(entry.file, data);
+          controller.enqueue(chunk);
+          // Duplicate file names are renamed inside the ZIP; the manifest lists the stored name
+          manifest.push({ ...entry, file: name, size: data.length });
+        } catch (error) {
+          // Log and continue - one unreadable file should not abort the whole package
+          console.error(`[Video Export] Failed to read ${entry.file}:`, error);
+          skipped.push({
+            notionPageId: entry.notionPageId,
+            reason: `Could not read ${entry.assetType} from storage`,
+          });
+        }
+        return;
+      }
+
+      const generatedAt = new Date().toISOString();
+      controller.enqueue(
+        zip.addFile(
+          'manifest.json',
+          Buffer.from(JSON.stringify({ generatedAt, files: manifest, skipped }, null, 2), 'utf8')
+        ).chunk
+      );
+      controller.enqueue(
+        zip.addFile('manifest.csv', Buffer.from(buildManifestCsv(manifest), 'utf8')).chunk
+      );
+      controller.enqueue(zip.finish());
+      controller.close();
+
+      console.log(
+        `[Video Export] Streamed ${manifest.length} files (${skipped.length} videos or assets skipped)`
+      );
+    },
+  });
+}
+
+/**
+ * Builds the CSV manifest (RFC 4180 quoting)
+ */
+export function buildManifestCsv(entries: ExportManifestEntry[]): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = entries.map((entry) => MANIFEST_COLUMNS.map((column) => escape(entry[column])).join(','));
+  return [MANIFEST_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Loads the details of a batch's videos by video ID
+ * Batches submitted before batch tracking (Story 2.3) are read from their Notion records
+ */
+async function loadVideoDetails(batchId: string): Promise<Map<string, VideoDetails>> {
+  const batch = await loadBatchWithVariations(batchId);
+  if (!batch) {
+    return new Map(
+      (await getBatchVariations(batchId)).map((record) => [record.notionPageId ?? '', record])
+    );
+  }
+
+  return new Map(
+    batch.variations.map((variation) => {
+      const dimensions = variation.dimensions as unknown as VideoCombination;
+      return [
+        variation.id,
+        {
+          brand: batch.brandId,
+          bigIdea: batch.bigIdea,
+          aesthetic: dimensions.aesthetic,
+          type: dimensions.type,
+          demographic: `${dimensions.ageGeneration} | ${dimensions.gender} | ${dimensions.ethnicity}`,
+          cost: variation.cost,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Manifest fields shared by every file of a video
+ */
+function describeVideo(job: GenerationJob, record?: VideoDetails) {
+  return {
+    notionPageId: job.notionPageId,
+    batchId: job.batchId,
+    combinationId: job.combinationId,
+    soraVideoId: job.soraVideoId || '',
+    brand: record?.brand || '',
+    bigIdea: record?.bigIdea || '',
+    aesthetic: record?.aesthetic || '',
+    type: record?.type || '',
+    demographic: record?.demographic || '',
+    prompt: job.prompt,
+    model: job.model,
+    duration: job.duration,
+    aspectRatio: job.aspectRatio || '',
+  };
+}
+
+/**
+ * Generation cost from the rate card, falling back to the cost recorded with the video
+ */
+function getVideoCost(job: GenerationJob, rateCard: RateCard, record?: VideoDetails): number {
+  try {
+    return getSoraCost(job.model as SoraModel, job.duration as SoraDuration, rateCard);
+  } catch {
+    return record?.cost || 0;
+  }
+}
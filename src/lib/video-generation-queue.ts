@@ -1,22 +1,56 @@
 // Video Generation Queue Manager (Story 2.5)
-// Manages concurrent video generation with 4-video limit and FIFO queue
+// Manages concurrent video generation with per-model rate limits and fair per-tenant queues
+// Batches are held instead of dispatched once a tenant or campaign spend cap is reached (Story 1.5)
+// Retryable failures are requeued with backoff within the tenant's retry limit (Story 2.8)
+// Queue state is persisted to PostgreSQL so batches survive server restarts
 
-import { soraClient, type SoraModel, type SoraDuration, type SoraGenerateResponse } from './sora-client';
+import { SoraAPIError, type SoraModel, type SoraDuration, type SoraAspectRatio, type SoraGenerateResponse } from './sora-client';
+import { soraRateLimiter, type SoraRateLimiter } from './sora-rate-limiter';
+import { toVideoGenerationRequest } from './sora-request-mapper';
+import { FairQueueScheduler, type TenantQueueStatus, type VideoPriority } from './queue-scheduler';
+import { createVideoProvider, type VideoProvider } from './video-providers';
 import { soraStatusPoller } from './sora-status-poller';
-import { updateVideoVariationStatus, logVideoError } from './notion-client';
+import { updateVariationStatus, recordVariationError } from './batch-tracking';
+import { assetDownloadManager, type AssetLineage } from './asset-download-manager';
+import {
+  saveQueuedJob,
+  markJobInProgress,
+  markJobCompleted,
+  markJobFailed,
+  markJobCancelled,
+  setBatchJobsPaused,
+  loadActiveJobs,
+  loadFinishedJobs,
+} from './database/generation-jobs';
+import { getTenantConcurrencyLimits } from './database/tenant-concurrency-limits';
+import { loadReferenceImage } from './generation-references';
+import { recordSoraSpend } from './spend-ledger';
+import { checkSpendCaps, type SpendCapKind } from './spend-caps';
+import { categorizeError, createRetryAttempt, getRetryDelay, shouldAutoRetry } from './video-error-handler';
+import {
+  countRetryAttempts,
+  getTenantMaxRetryAttempts,
+  recordRetryAttempt,
+  settleRetryAttempt,
+} from './database/retry-attempts';
 
 /**
  * Video queued for generation
  */
 export type QueuedVideo = {
-  notionPageId: string;
+  notionPageId: string; // Video variation ID (the Notion page ID for batches tracked only in Notion)
   batchId: string;
   combinationId: string;
+  tenantId?: string; // Owning tenant (per-tenant concurrency ceilings and fair scheduling)
+  priority?: VideoPriority; // Dispatch lane (default standard)
+  lineage?: AssetLineage; // Recorded on the downloaded assets (default original)
+  referenceId?: string; // Product image or reference frame sent as input_reference
+  remixOf?: string; // Provider video ID to remix instead of generating from scratch
   prompt: string;
   model: SoraModel;
   duration: SoraDuration;
-  aspectRatio?: '16:9' | '9:16' | '1:1';
-  loop?: boolean;
+  aspectRatio?: SoraAspectRatio;
+  loop?: boolean; // Recorded only - the Sora 2 API has no loop parameter
   queuedAt: Date;
 };
 
@@ -26,8 +60,9 @@ export type QueuedVideo = {
 export type VideoGenerationStatus = {
   notionPageId: string;
   soraVideoId?: string;
-  status: 'queued' | 'in_progress' | 'completed' | 'failed';
-  queuePosition?: number; // Position in queue (1-indexed) for queued videos
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  queuePosition?: number; // Estimated dispatch position (1-indexed) for queued videos
+  priority?: VideoPriority; // Dispatch lane for queued videos
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
@@ -41,34 +76,237 @@ export type QueueSummary = {
   inProgress: number; // Videos currently generating
   completed: number; // Videos finished successfully
   failed: number; // Videos that failed
-  available: number; // Available slots (4 - inProgress)
+  available: number; // Available slots (total concurrency - inProgress)
+};
+
+/**
+ * Per-batch progress summary
+ * Counts cover every video submitted for the batch, whatever its current state
+ */
+export type BatchQueueStatus = {
+  batchId: string;
+  total: number;
+  queued: number;
+  inProgress: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  downloaded: number; // Completed videos whose assets are saved to storage
+  paused: boolean; // Queued videos are held until the batch is resumed
+  spendCapReached?: SpendCapKind; // Set when the batch was paused by a spend cap rather than a user
+  done: boolean; // Nothing left queued or generating
+  estimatedCompletionTime?: string; // ISO timestamp, undefined once done
+  spendSoFar: number; // Provider cost of completed videos (failed generations are not billed)
+  estimatedTotalCost: number; // Provider cost if every video in the batch completes
+};
+
+/**
+ * Result of cancelling a batch
+ */
+export type BatchCancelResult = {
+  batchId: string;
+  cancelledQueued: number; // Dropped before reaching Sora
+  cancelledInProgress: number; // Stopped mid-generation (only with cancelInProgress)
+  leftRunning: number; // Still generating and will complete (and be billed)
+  cancelFailed: number; // Provider refused the cancellation; still generating and holding its slot
 };
 
+/**
+ * Start/finish timestamps for a video
+ */
+type VideoTiming = {
+  startedAt?: Date;
+  completedAt?: Date;
+};
+
+// Fallback generation time until the queue has observed real completions
+const DEFAULT_GENERATION_TIME_MS = 4 * 60 * 1000; // ~4 minutes per video
+
 /**
  * Video Generation Queue Manager
- * Enforces 4-video concurrent limit with FIFO queue (Story 2.5)
+ * Dispatches by priority lane and weighted round-robin across tenants (FIFO within
+ * a tenant's lane), within per-model/per-tenant concurrency ceilings and the Sora
+ * rate limit; rate-limited videos are requeued instead of failed (Story 2.5)
  */
 export class VideoGenerationQueue {
-  private queue: QueuedVideo[] = []; // FIFO queue (AC#4)
+  private scheduler: FairQueueScheduler; // Per-tenant sub-queues (AC#4)
   private inProgress: Map<string, SoraGenerateResponse> = new Map(); // notionPageId -> Sora response
   private completed: Set<string> = new Set(); // notionPageId set
   private failed: Map<string, string> = new Map(); // notionPageId -> error message
-  private maxConcurrent: number = 4; // AC#1
+  private cancelled: Set<string> = new Set(); // notionPageId set
+  private pausedBatches: Set<string> = new Set(); // batchIds whose queued videos are held
+  private capHeldBatches: Map<string, SpendCapKind> = new Map(); // batchId -> cap that paused it
+  private videos: Map<string, QueuedVideo> = new Map(); // notionPageId -> video, kept for its whole lifecycle
+  private timings: Map<string, VideoTiming> = new Map(); // notionPageId -> start/finish times
   private processing: boolean = false; // Prevent concurrent processQueue calls
+  private restorePromise?: Promise<void>; // Set once persisted state has been loaded
+  private provider: VideoProvider;
+  private rateLimiter: SoraRateLimiter;
+  private dispatchTimer?: NodeJS.Timeout; // Retries dispatch once a rate-limit backoff expires
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map(); // notionPageId -> automatic retry waiting on backoff
+
+  constructor(provider?: VideoProvider, rateLimiter?: SoraRateLimiter, scheduler?: FairQueueScheduler) {
+    // Use provided video provider or create one from environment config
+    this.provider = provider || createVideoProvider();
+    this.rateLimiter = rateLimiter || soraRateLimiter;
+    this.scheduler = scheduler || new FairQueueScheduler();
+  }
+
+  /**
+   * Restores queue state persisted before the last shutdown
+   * Re-attaches polling to in-progress Sora videos and resumes dispatch.
+   * Safe to call multiple times - state is only loaded once per process.
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadPersistedState();
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * Loads queued and in-progress jobs from the database
+   */
+  private async loadPersistedState(): Promise<void> {
+    let jobs;
+    try {
+      jobs = await loadActiveJobs();
+    } catch (error) {
+      console.error('[Queue] Failed to load persisted queue state:', error);
+      return;
+    }
+
+    let resumedCount = 0;
+    let requeuedCount = 0;
+
+    for (const job of jobs) {
+      const video: QueuedVideo = {
+        notionPageId: job.notionPageId,
+        batchId: job.batchId,
+        combinationId: job.combinationId,
+        tenantId: job.tenantId || undefined,
+        priority: job.priority as VideoPriority,
+        lineage: job.lineage as AssetLineage,
+        referenceId: job.referenceId || undefined,
+        remixOf: job.remixOf || undefined,
+        prompt: job.prompt,
+        model: job.model as SoraModel,
+        duration: job.duration as SoraDuration,
+        aspectRatio: (job.aspectRatio as QueuedVideo['aspectRatio']) || undefined,
+        loop: job.loop,
+        queuedAt: job.queuedAt,
+      };
+
+      this.videos.set(job.notionPageId, video);
+      this.timings.set(job.notionPageId, { startedAt: job.startedAt || undefined });
+      await this.loadTenantLimits(video.tenantId);
+
+      if (job.status === 'in_progress' && job.soraVideoId) {
+        // Video was already submitted to Sora - resume polling instead of regenerating
+        this.inProgress.set(job.notionPageId, {
+          video_id: job.soraVideoId,
+          status: 'in_progress',
+          model: video.model,
+          duration: video.duration,
+          prompt: video.prompt,
+          created_at: (job.startedAt || job.queuedAt).toISOString(),
+        });
+        this.rateLimiter.acquire(video.model, video.tenantId);
+        soraStatusPoller.startPolling(job.notionPageId, job.soraVideoId, job.batchId);
+        resumedCount++;
+      } else {
+        // Never reached Sora (or crashed mid-submission) - dispatch again in submission order
+        if (job.status === 'paused') {
+          this.pausedBatches.add(job.batchId);
+        }
+        this.scheduler.enqueue(video);
+        requeuedCount++;
+      }
+    }
+
+    // Videos that finished before the restart still count towards their batch
+    try {
+      const batchIds = Array.from(new Set(jobs.map((job) => job.batchId)));
+      const finishedJobs = await loadFinishedJobs(batchIds);
+
+      for (const job of finishedJobs) {
+        this.videos.set(job.notionPageId, {
+          notionPageId: job.notionPageId,
+          batchId: job.batchId,
+          combinationId: job.combinationId,
+          tenantId: job.tenantId || undefined,
+          priority: job.priority as VideoPriority,
+          lineage: job.lineage as AssetLineage,
+          referenceId: job.referenceId || undefined,
+          remixOf: job.remixOf || undefined,
+          prompt: job.prompt,
+          model: job.model as SoraModel,
+          duration: job.duration as SoraDuration,
+          aspectRatio: (job.aspectRatio as QueuedVideo['aspectRatio']) || undefined,
+          loop: job.loop,
+          queuedAt: job.queuedAt,
+        });
+        this.timings.set(job.notionPageId, {
+          startedAt: job.startedAt || undefined,
+          completedAt: job.completedAt || undefined,
+        });
+
+        if (job.status === 'completed') {
+          this.completed.add(job.notionPageId);
+        } else if (job.status === 'cancelled') {
+          this.cancelled.add(job.notionPageId);
+        } else {
+          this.failed.set(job.notionPageId, job.error || 'Video generation failed');
+        }
+      }
+    } catch (error) {
+      console.error('[Queue] Failed to load finished jobs for restored batches:', error);
+    }
+
+    console.log(
+      `[Queue] Restored persisted state: ${resumedCount} in progress, ${requeuedCount} queued`
+    );
+
+    await this.processQueue();
+  }
 
   /**
    * Submits a video for generation (Story 2.5, AC#1, AC#2)
    * If slots available, starts immediately. Otherwise, adds to queue.
    */
   async submitVideo(video: QueuedVideo): Promise<void> {
+    // Persisted jobs go first so restarts don't reorder the queue
+    await this.restore();
+
     console.log(`[Queue] Submitting video ${video.notionPageId} to queue`);
 
-    // Add to queue (AC#2)
-    this.queue.push(video);
+    // Persist before queueing so the job survives a restart
+    try {
+      await saveQueuedJob(video);
+    } catch (error) {
+      console.error(`[Queue] Failed to persist video ${video.notionPageId}:`, error);
+    }
+
+    await this.loadTenantLimits(video.tenantId);
+
+    // A manual resubmission replaces any automatic retry still waiting on its backoff
+    this.clearRetryTimer(video.notionPageId);
+
+    // Track batch membership for the video's whole lifecycle (retries reset prior outcome)
+    this.videos.set(video.notionPageId, video);
+    this.timings.set(video.notionPageId, {});
+    this.completed.delete(video.notionPageId);
+    this.failed.delete(video.notionPageId);
+    this.cancelled.delete(video.notionPageId);
 
-    // Update Notion with queued status and position (AC#5)
+    // Add to the tenant's sub-queue behind videos of the same or higher priority (AC#2)
+    this.scheduler.enqueue(video);
+
+    // Queue position (AC#5)
     const queuePosition = this.getQueuePosition(video.notionPageId);
-    console.log(`[Queue] Video ${video.notionPageId} queued at position ${queuePosition}`);
+    console.log(
+      `[Queue] Video ${video.notionPageId} queued at position ${queuePosition} (${video.priority ?? 'standard'})`
+    );
 
     // Try to process queue (AC#3)
     await this.processQueue();
@@ -89,6 +327,8 @@ export class VideoGenerationQueue {
 
   /**
    * Processes queue: starts videos if slots available (Story 2.5, AC#1, AC#3)
+   * The scheduler picks the next video whose model/tenant has a free slot, so a
+   * saturated model or tenant does not hold up everyone else
    */
   private async processQueue(): Promise<void> {
     // Prevent concurrent processing
@@ -99,12 +339,20 @@ export class VideoGenerationQueue {
     this.processing = true;
 
     try {
-      // Check if we have available slots (AC#1 - max 4 concurrent)
-      while (this.inProgress.size < this.maxConcurrent && this.queue.length > 0) {
-        const video = this.queue.shift(); // FIFO (AC#4)
+      while (this.scheduler.size > 0) {
+        const video = this.scheduler.next(
+          (queued) =>
+            !this.pausedBatches.has(queued.batchId) &&
+            this.rateLimiter.canStart(queued.model, queued.tenantId)
+        );
 
         if (!video) break;
 
+        // Refuse to dispatch past a spend cap - the batch is held until an admin resumes it
+        if (!(await this.isWithinSpendCaps(video))) continue;
+
+        this.rateLimiter.acquire(video.model, video.tenantId);
+
         // Start video generation
         await this.startVideo(video);
 
@@ -114,6 +362,101 @@ export class VideoGenerationQueue {
     } finally {
       this.processing = false;
     }
+
+    this.scheduleDispatchRetry();
+  }
+
+  /**
+   * Re-runs dispatch when queued videos are only waiting on a rate-limit backoff or token refill
+   */
+  private scheduleDispatchRetry(): void {
+    const hasDispatchable = this.scheduler.some((video) => !this.pausedBatches.has(video.batchId));
+    if (!hasDispatchable || this.dispatchTimer) return;
+
+    const waitMs = this.rateLimiter.getWaitTimeMs();
+    if (waitMs <= 0) return;
+
+    this.dispatchTimer = setTimeout(() => {
+      this.dispatchTimer = undefined;
+      this.processQueue();
+    }, waitMs);
+  }
+
+  /**
+   * Frees the concurrency slot held by a video
+   */
+  private releaseSlot(notionPageId: string): void {
+    const video = this.videos.get(notionPageId);
+    if (video) {
+      this.rateLimiter.release(video.model, video.tenantId);
+    }
+  }
+
+  /**
+   * Checks a video's cost, plus videos still generating, against its tenant's monthly cap and
+   * its campaign cap; pauses the batch when a cap would be exceeded
+   * Cap lookup failures are logged and the video is dispatched
+   */
+  private async isWithinSpendCaps(video: QueuedVideo): Promise<boolean> {
+    if (!video.tenantId) return true;
+
+    // Generating videos are billed on completion, so they are not in the ledger yet
+    let tenantUsd = this.provider.getEstimatedCost(video.model, video.duration);
+    let batchUsd = tenantUsd;
+    for (const notionPageId of this.inProgress.keys()) {
+      const generating = this.videos.get(notionPageId);
+      if (generating?.tenantId !== video.tenantId) continue;
+
+      const cost = this.provider.getEstimatedCost(generating.model, generating.duration);
+      tenantUsd += cost;
+      if (generating.batchId === video.batchId) batchUsd += cost;
+    }
+
+    let check;
+    try {
+      check = await checkSpendCaps(video.tenantId, video.batchId, { tenantUsd, batchUsd });
+    } catch (error) {
+      console.error(`[Queue] Failed to check spend caps for ${video.notionPageId}:`, error);
+      return true;
+    }
+
+    if (check.withinCaps) return true;
+
+    // Back at the front of its lane so it is first out when the batch is resumed
+    console.warn(`[Queue] ${check.exceeded} spend cap reached, holding batch ${video.batchId}`);
+    this.scheduler.requeueFront(video);
+    this.capHeldBatches.set(video.batchId, check.exceeded!);
+    await this.holdBatch(video.batchId);
+    return false;
+  }
+
+  /**
+   * Loads a tenant's concurrency ceilings into the rate limiter (cached with a TTL)
+   */
+  private async loadTenantLimits(tenantId?: string): Promise<void> {
+    if (!tenantId || !this.rateLimiter.needsTenantLimits(tenantId)) return;
+
+    try {
+      this.rateLimiter.setTenantLimits(tenantId, await getTenantConcurrencyLimits(tenantId));
+    } catch (error) {
+      console.error(`[Queue] Failed to load concurrency limits for tenant ${tenantId}:`, error);
+    }
+  }
+
+  /**
+   * Submits a video to the provider: a remix of its source video when the provider supports it,
+   * otherwise a new generation (remixes fall back to generating from the modified prompt)
+   */
+  private async requestVideo(video: QueuedVideo): Promise<SoraGenerateResponse> {
+    if (video.remixOf && this.provider.getCapabilities().supportsRemix) {
+      return this.provider.remixVideo({ sourceVideoId: video.remixOf, prompt: video.prompt });
+    }
+
+    const request = toVideoGenerationRequest(video.prompt, video);
+    if (video.referenceId && request.size) {
+      request.inputReference = await loadReferenceImage(video.referenceId, request.size);
+    }
+    return this.provider.generateVideo(request);
   }
 
   /**
@@ -123,38 +466,54 @@ export class VideoGenerationQueue {
     console.log(`[Queue] Starting video generation for ${video.notionPageId}`);
 
     try {
-      // Call Sora 2 API (Story 2.4 integration)
-      const soraResponse = await soraClient.generateVideo({
-        prompt: video.prompt,
-        model: video.model,
-        duration: video.duration,
-        aspect_ratio: video.aspectRatio,
-        loop: video.loop,
-      });
+      // Call video provider (Story 2.4 integration)
+      const soraResponse = await this.requestVideo(video);
 
       console.log(`[Queue] Video ${video.notionPageId} started: ${soraResponse.video_id}`);
+      this.rateLimiter.onSuccess();
 
       // Track as in-progress
       this.inProgress.set(video.notionPageId, soraResponse);
+      this.timings.set(video.notionPageId, { startedAt: new Date() });
 
-      // Update Notion status to "In Progress" (Story 2.3 integration)
-      await updateVideoVariationStatus(video.notionPageId, 'In Progress', {
+      try {
+        await markJobInProgress(video.notionPageId, soraResponse.video_id, new Date());
+      } catch (persistError) {
+        console.error(`[Queue] Failed to persist in-progress state for ${video.notionPageId}:`, persistError);
+      }
+
+      // Track as "In Progress" (Story 2.3 integration)
+      await updateVariationStatus(video.notionPageId, 'in_progress', {
         soraVideoId: soraResponse.video_id,
       });
 
       // Start polling for status updates (Story 2.4 integration)
       soraStatusPoller.startPolling(video.notionPageId, soraResponse.video_id, video.batchId);
 
-      console.log(`[Queue] Video ${video.notionPageId} now in progress (${this.inProgress.size}/${this.maxConcurrent})`);
+      console.log(`[Queue] Video ${video.notionPageId} now in progress (${this.inProgress.size}/${this.rateLimiter.getTotalConcurrency()})`);
     } catch (error) {
+      this.rateLimiter.release(video.model, video.tenantId);
+
+      // Rate limited - put the video back at the front of its lane instead of failing it
+      if (error instanceof SoraAPIError && error.isRateLimited) {
+        this.rateLimiter.onRateLimited(error.retryAfterMs);
+        this.scheduler.requeueFront(video);
+        console.warn(`[Queue] Sora rate limited (${error.statusCode}), requeued ${video.notionPageId}`);
+        return;
+      }
+
       console.error(`[Queue] Failed to start video ${video.notionPageId}:`, error);
 
       // Mark as failed
       const errorMessage = error instanceof Error ? error.message : 'Unknown error starting video';
       this.failed.set(video.notionPageId, errorMessage);
+      await this.persistFailure(video.notionPageId, errorMessage);
 
-      // Log error to Notion (Story 2.3 integration)
-      await logVideoError(video.notionPageId, 'api_error', errorMessage, { error });
+      // Record the error on the video (Story 2.3 integration)
+      await recordVariationError(video.notionPageId, 'api_error', errorMessage, { error });
+
+      await this.settleRetry(video, 'failed', errorMessage);
+      await this.scheduleAutoRetry(video, errorMessage);
     }
   }
 
@@ -164,13 +523,37 @@ export class VideoGenerationQueue {
   async onVideoComplete(notionPageId: string): Promise<void> {
     console.log(`[Queue] Video ${notionPageId} completed`);
 
+    // Late events for cancelled videos (e.g. the provider reporting the deletion) are ignored
+    if (this.cancelled.has(notionPageId)) return;
+
     // Remove from in-progress
-    this.inProgress.delete(notionPageId);
+    if (this.inProgress.delete(notionPageId)) {
+      this.releaseSlot(notionPageId);
+    }
 
-    // Mark as completed
+    // Mark as completed (a repeated completion event must not be billed twice)
+    const firstCompletion = !this.completed.has(notionPageId);
     this.completed.add(notionPageId);
+    this.markFinished(notionPageId);
+
+    try {
+      await markJobCompleted(notionPageId);
+    } catch (error) {
+      console.error(`[Queue] Failed to persist completion for ${notionPageId}:`, error);
+    }
+
+    // Completed generations are billed, so this is when they reach the spend ledger
+    const video = this.videos.get(notionPageId);
+    if (video && firstCompletion) {
+      await recordSoraSpend(video.model, video.duration, {
+        tenantId: video.tenantId,
+        batchId: video.batchId,
+        notionPageId,
+      });
+      await this.settleRetry(video, 'success');
+    }
 
-    console.log(`[Queue] Video completed. In progress: ${this.inProgress.size}/${this.maxConcurrent}`);
+    console.log(`[Queue] Video completed. In progress: ${this.inProgress.size}/${this.rateLimiter.getTotalConcurrency()}`);
 
     // Process queue to start next video (AC#3)
     await this.processQueue();
@@ -182,18 +565,147 @@ export class VideoGenerationQueue {
   async onVideoFailed(notionPageId: string, error: string): Promise<void> {
     console.log(`[Queue] Video ${notionPageId} failed: ${error}`);
 
+    // Late events for cancelled videos (e.g. the provider reporting the deletion) are ignored
+    if (this.cancelled.has(notionPageId)) return;
+
     // Remove from in-progress
-    this.inProgress.delete(notionPageId);
+    if (this.inProgress.delete(notionPageId)) {
+      this.releaseSlot(notionPageId);
+    }
 
     // Mark as failed
     this.failed.set(notionPageId, error);
+    this.markFinished(notionPageId);
+    await this.persistFailure(notionPageId, error);
 
-    console.log(`[Queue] Video failed. In progress: ${this.inProgress.size}/${this.maxConcurrent}`);
+    const video = this.videos.get(notionPageId);
+    if (video) {
+      await this.settleRetry(video, 'failed', error);
+      await this.scheduleAutoRetry(video, error);
+    }
+
+    console.log(`[Queue] Video failed. In progress: ${this.inProgress.size}/${this.rateLimiter.getTotalConcurrency()}`);
 
     // Process queue to start next video (AC#3)
     await this.processQueue();
   }
 
+  /**
+   * Records the finish time for a video
+   */
+  private markFinished(notionPageId: string): void {
+    const timing = this.timings.get(notionPageId) || {};
+    this.timings.set(notionPageId, { ...timing, completedAt: new Date() });
+  }
+
+  /**
+   * Persists a failed state without letting database errors mask the original failure
+   */
+  private async persistFailure(notionPageId: string, error: string): Promise<void> {
+    try {
+      await markJobFailed(notionPageId, error);
+    } catch (persistError) {
+      console.error(`[Queue] Failed to persist failure for ${notionPageId}:`, persistError);
+    }
+  }
+
+  /**
+   * Records the outcome of a retried video's latest attempt (Story 2.8, AC#5)
+   */
+  private async settleRetry(video: QueuedVideo, outcome: 'success' | 'failed', error?: string): Promise<void> {
+    if (video.lineage !== 'retry' && video.lineage !== 'remix') return;
+
+    try {
+      await settleRetryAttempt(video.notionPageId, outcome, error);
+    } catch (persistError) {
+      console.error(`[Queue] Failed to record retry outcome for ${video.notionPageId}:`, persistError);
+    }
+  }
+
+  /**
+   * Requeues a failed video after an exponential backoff when its error is retryable and the
+   * tenant's retry limit allows another attempt (Story 2.8, AC#4)
+   * The job is persisted as queued straight away, so a restart during the backoff still retries it
+   */
+  private async scheduleAutoRetry(video: QueuedVideo, errorMessage: string): Promise<void> {
+    const videoError = categorizeError(errorMessage);
+    if (!videoError.retryable) return;
+
+    let attempt;
+    try {
+      const [retryCount, maxAttempts] = await Promise.all([
+        countRetryAttempts(video.notionPageId),
+        getTenantMaxRetryAttempts(video.tenantId),
+      ]);
+      if (!shouldAutoRetry(videoError, retryCount, maxAttempts)) {
+        console.log(`[Queue] Not retrying ${video.notionPageId} (${retryCount}/${maxAttempts} retries used)`);
+        return;
+      }
+
+      attempt = createRetryAttempt(retryCount + 1, errorMessage, undefined, 'auto');
+      // Without a recorded attempt the retry limit could not be enforced, so nothing is retried
+      await recordRetryAttempt({
+        notionPageId: video.notionPageId,
+        batchId: video.batchId,
+        tenantId: video.tenantId,
+        attemptNumber: attempt.attemptNumber,
+        trigger: 'auto',
+        previousError: errorMessage,
+        errorCategory: videoError.category,
+      });
+    } catch (error) {
+      console.error(`[Queue] Failed to schedule automatic retry for ${video.notionPageId}:`, error);
+      return;
+    }
+
+    const retry: QueuedVideo = { ...video, lineage: 'retry', queuedAt: new Date() };
+    try {
+      await saveQueuedJob(retry);
+    } catch (error) {
+      console.error(`[Queue] Failed to persist automatic retry for ${video.notionPageId}:`, error);
+    }
+
+    await updateVariationStatus(video.notionPageId, 'pending', {
+      retryCount: attempt.attemptNumber,
+      lastRetryAt: attempt.timestamp.toISOString(),
+    });
+
+    const delayMs = getRetryDelay(attempt.attemptNumber);
+    console.log(
+      `[Queue] Automatic retry #${attempt.attemptNumber} for ${video.notionPageId} in ${delayMs / 1000}s (${videoError.category})`
+    );
+
+    this.retryTimers.set(
+      video.notionPageId,
+      setTimeout(() => {
+        this.retryTimers.delete(video.notionPageId);
+        this.submitVideo(retry).catch((error) =>
+          console.error(`[Queue] Automatic retry of ${video.notionPageId} failed to queue:`, error)
+        );
+      }, delayMs)
+    );
+  }
+
+  /**
+   * Cancels an automatic retry still waiting on its backoff
+   * @returns Whether a retry was waiting
+   */
+  private clearRetryTimer(notionPageId: string): boolean {
+    const timer = this.retryTimers.get(notionPageId);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    this.retryTimers.delete(notionPageId);
+    return true;
+  }
+
+  /**
+   * Whether an automatic retry of a video is waiting on its backoff
+   */
+  isRetryScheduled(notionPageId: string): boolean {
+    return this.retryTimers.has(notionPageId);
+  }
+
   /**
    * Gets status for a specific video (Story 2.5, AC#5)
    */
@@ -209,12 +721,15 @@ export class VideoGenerationQueue {
       };
     }
 
+    const timing = this.timings.get(notionPageId);
+
     // Check if completed
     if (this.completed.has(notionPageId)) {
       return {
         notionPageId,
         status: 'completed',
-        completedAt: new Date(),
+        startedAt: timing?.startedAt,
+        completedAt: timing?.completedAt,
       };
     }
 
@@ -224,18 +739,30 @@ export class VideoGenerationQueue {
         notionPageId,
         status: 'failed',
         error: this.failed.get(notionPageId),
-        completedAt: new Date(),
+        startedAt: timing?.startedAt,
+        completedAt: timing?.completedAt,
+      };
+    }
+
+    // Check if cancelled
+    if (this.cancelled.has(notionPageId)) {
+      return {
+        notionPageId,
+        status: 'cancelled',
+        startedAt: timing?.startedAt,
+        completedAt: timing?.completedAt,
       };
     }
 
     // Check if queued
     const queuePosition = this.getQueuePosition(notionPageId);
     if (queuePosition > 0) {
-      const video = this.queue.find((v) => v.notionPageId === notionPageId);
+      const video = this.scheduler.find(notionPageId);
       return {
         notionPageId,
         status: 'queued',
         queuePosition,
+        priority: video?.priority ?? 'standard',
         startedAt: video?.queuedAt,
       };
     }
@@ -244,18 +771,17 @@ export class VideoGenerationQueue {
   }
 
   /**
-   * Gets queue position for a video (1-indexed, 0 if not in queue)
+   * Gets estimated dispatch position for a video (1-indexed, 0 if not in queue)
    */
   private getQueuePosition(notionPageId: string): number {
-    const index = this.queue.findIndex((v) => v.notionPageId === notionPageId);
-    return index >= 0 ? index + 1 : 0;
+    return this.scheduler.getPosition(notionPageId);
   }
 
   /**
    * Updates queue positions in Notion for all queued videos (Story 2.5, AC#5)
    */
   private updateQueuePositions(): void {
-    this.queue.forEach((video, index) => {
+    this.scheduler.getDispatchOrder().forEach((video, index) => {
       const position = index + 1;
       console.log(`[Queue] Video ${video.notionPageId} at queue position ${position}`);
       // Note: Queue position could be stored in Notion's "Progress" field
@@ -268,11 +794,11 @@ export class VideoGenerationQueue {
    */
   getQueueSummary(): QueueSummary {
     return {
-      queued: this.queue.length,
+      queued: this.scheduler.size,
       inProgress: this.inProgress.size,
       completed: this.completed.size,
       failed: this.failed.size,
-      available: this.maxConcurrent - this.inProgress.size,
+      available: Math.max(0, this.rateLimiter.getTotalConcurrency() - this.inProgress.size),
     };
   }
 
@@ -292,21 +818,41 @@ export class VideoGenerationQueue {
    * Gets all videos in queue (waiting to start)
    */
   getQueuedVideos(): VideoGenerationStatus[] {
-    return this.queue.map((video, index) => ({
+    return this.scheduler.getDispatchOrder().map((video, index) => ({
       notionPageId: video.notionPageId,
       status: 'queued',
       queuePosition: index + 1,
+      priority: video.priority ?? 'standard',
       startedAt: video.queuedAt,
     }));
   }
 
+  /**
+   * Gets queue depth and estimated positions for every tenant with queued videos
+   */
+  getTenantQueueStatuses(): TenantQueueStatus[] {
+    return this.scheduler.getTenantStatuses();
+  }
+
+  /**
+   * Gets queue depth and estimated positions for one tenant
+   */
+  getTenantQueueStatus(tenantId: string): TenantQueueStatus {
+    return this.scheduler.getTenantStatus(tenantId);
+  }
+
   /**
    * Clears completed and failed videos from tracking
    */
   clearCompleted(): void {
+    for (const notionPageId of [...this.completed, ...this.failed.keys(), ...this.cancelled]) {
+      this.videos.delete(notionPageId);
+      this.timings.delete(notionPageId);
+    }
     this.completed.clear();
     this.failed.clear();
-    console.log('[Queue] Cleared completed and failed videos');
+    this.cancelled.clear();
+    console.log('[Queue] Cleared completed, failed and cancelled videos');
   }
 
   /**
@@ -316,48 +862,313 @@ export class VideoGenerationQueue {
     console.log('[Queue] Stopping all video generation');
 
     // Stop all polling jobs
+    if (this.dispatchTimer) {
+      clearTimeout(this.dispatchTimer);
+      this.dispatchTimer = undefined;
+    }
+
     for (const [notionPageId, soraResponse] of this.inProgress.entries()) {
       soraStatusPoller.stopPolling(soraResponse.video_id);
+      this.releaseSlot(notionPageId);
+      await this.persistFailure(notionPageId, 'Generation stopped');
+    }
+
+    // Persisted queued jobs must not be resurrected on the next restart
+    for (const video of this.scheduler.getDispatchOrder()) {
+      await this.persistFailure(video.notionPageId, 'Generation stopped');
+    }
+    for (const notionPageId of Array.from(this.retryTimers.keys())) {
+      this.clearRetryTimer(notionPageId);
+      await this.persistFailure(notionPageId, 'Generation stopped');
     }
 
     // Clear all state
-    this.queue = [];
+    this.scheduler.clear();
     this.inProgress.clear();
     this.completed.clear();
     this.failed.clear();
+    this.cancelled.clear();
+    this.pausedBatches.clear();
+    this.capHeldBatches.clear();
+    this.videos.clear();
+    this.timings.clear();
 
     console.log('[Queue] All video generation stopped');
   }
 
+  /**
+   * Gets a submitted video (queued, in progress or finished)
+   */
+  getVideo(notionPageId: string): QueuedVideo | undefined {
+    return this.videos.get(notionPageId);
+  }
+
+  /**
+   * Gets the tenant that owns a batch (undefined if unknown or not tenant-scoped)
+   */
+  getBatchTenantId(batchId: string): string | undefined {
+    for (const video of this.videos.values()) {
+      if (video.batchId === batchId && video.tenantId) {
+        return video.tenantId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Stops dispatching a batch's queued videos; videos already generating finish normally
+   * @returns Number of queued videos now on hold
+   */
+  async pauseBatch(batchId: string): Promise<number> {
+    await this.restore();
+    return this.holdBatch(batchId);
+  }
+
+  /**
+   * Holds a batch's queued videos (persisted and marked paused on their variations)
+   */
+  private async holdBatch(batchId: string): Promise<number> {
+    this.pausedBatches.add(batchId);
+    const held = this.scheduler.filter((video) => video.batchId === batchId);
+
+    try {
+      await setBatchJobsPaused(batchId, true);
+    } catch (error) {
+      console.error(`[Queue] Failed to persist pause for batch ${batchId}:`, error);
+    }
+
+    for (const video of held) {
+      await updateVariationStatus(video.notionPageId, 'paused');
+    }
+
+    console.log(`[Queue] Paused batch ${batchId} (${held.length} queued videos on hold)`);
+    return held.length;
+  }
+
+  /**
+   * Resumes dispatching a paused batch's queued videos in their original order
+   * @returns Number of queued videos released
+   */
+  async resumeBatch(batchId: string): Promise<number> {
+    await this.restore();
+
+    this.pausedBatches.delete(batchId);
+    this.capHeldBatches.delete(batchId);
+    const released = this.scheduler.filter((video) => video.batchId === batchId);
+
+    try {
+      await setBatchJobsPaused(batchId, false);
+    } catch (error) {
+      console.error(`[Queue] Failed to persist resume for batch ${batchId}:`, error);
+    }
+
+    for (const video of released) {
+      await updateVariationStatus(video.notionPageId, 'pending');
+    }
+
+    console.log(`[Queue] Resumed batch ${batchId} (${released.length} queued videos)`);
+
+    await this.processQueue();
+    return released.length;
+  }
+
+  /**
+   * Cancels a batch: drops its queued videos and, optionally, cancels videos
+   * already generating via the provider (DELETE /videos/{id}) so they are not billed
+   */
+  async cancelBatch(batchId: string, options: { cancelInProgress?: boolean } = {}): Promise<BatchCancelResult> {
+    await this.restore();
+
+    const result: BatchCancelResult = {
+      batchId,
+      cancelledQueued: 0,
+      cancelledInProgress: 0,
+      leftRunning: 0,
+      cancelFailed: 0,
+    };
+
+    // Drop queued videos
+    const dropped = this.scheduler.remove((video) => video.batchId === batchId);
+    this.pausedBatches.delete(batchId);
+    this.capHeldBatches.delete(batchId);
+
+    for (const video of dropped) {
+      await this.markCancelled(video.notionPageId);
+      result.cancelledQueued++;
+    }
+
+    // Automatic retries waiting on their backoff count as queued
+    for (const notionPageId of Array.from(this.retryTimers.keys())) {
+      if (this.videos.get(notionPageId)?.batchId !== batchId) continue;
+
+      this.clearRetryTimer(notionPageId);
+      this.failed.delete(notionPageId);
+      await this.markCancelled(notionPageId);
+      try {
+        await settleRetryAttempt(notionPageId, 'failed', 'Batch cancelled before the retry started');
+      } catch (error) {
+        console.error(`[Queue] Failed to record retry outcome for ${notionPageId}:`, error);
+      }
+      result.cancelledQueued++;
+    }
+
+    // Videos already at Sora
+    for (const [notionPageId, soraResponse] of Array.from(this.inProgress.entries())) {
+      if (this.videos.get(notionPageId)?.batchId !== batchId) continue;
+
+      if (!options.cancelInProgress) {
+        result.leftRunning++;
+        continue;
+      }
+
+      try {
+        await this.provider.deleteVideo(soraResponse.video_id);
+      } catch (error) {
+        // Still generating at Sora - keep polling and hold the slot until it completes or fails
+        console.error(`[Queue] Failed to cancel Sora video ${soraResponse.video_id}:`, error);
+        result.cancelFailed++;
+        continue;
+      }
+
+      soraStatusPoller.stopPolling(soraResponse.video_id);
+      this.inProgress.delete(notionPageId);
+      this.releaseSlot(notionPageId);
+      await this.markCancelled(notionPageId);
+      result.cancelledInProgress++;
+    }
+
+    console.log(
+      `[Queue] Cancelled batch ${batchId}: ${result.cancelledQueued} queued, ` +
+        `${result.cancelledInProgress} in progress, ${result.leftRunning} left running, ` +
+        `${result.cancelFailed} could not be cancelled`
+    );
+
+    // Freed slots go to other batches
+    this.updateQueuePositions();
+    await this.processQueue();
+
+    return result;
+  }
+
+  /**
+   * Records a cancelled video in memory, the generation job and its variation
+   */
+  private async markCancelled(notionPageId: string): Promise<void> {
+    this.cancelled.add(notionPageId);
+    this.markFinished(notionPageId);
+
+    try {
+      await markJobCancelled(notionPageId);
+    } catch (error) {
+      console.error(`[Queue] Failed to persist cancellation for ${notionPageId}:`, error);
+    }
+
+    await updateVariationStatus(notionPageId, 'cancelled');
+  }
+
   /**
    * Gets batch status summary for a specific batch
    */
-  getBatchStatus(batchId: string): {
-    batchId: string;
-    total: number;
-    queued: number;
-    inProgress: number;
-    completed: number;
-    failed: number;
-  } {
-    const queuedCount = this.queue.filter((v) => v.batchId === batchId).length;
-    const inProgressCount = Array.from(this.inProgress.keys()).filter((pageId) => {
-      const video = this.queue.find((v) => v.notionPageId === pageId);
-      return video?.batchId === batchId;
-    }).length;
-
-    // Note: Completed and failed counts would require tracking batchId in those collections
-    // For now, returning 0. Can be enhanced if needed.
+  getBatchStatus(batchId: string): BatchQueueStatus {
+    let queued = 0;
+    let inProgress = 0;
+    let completed = 0;
+    let failed = 0;
+    let cancelled = 0;
+    let downloaded = 0;
+    let spendSoFar = 0;
+    let estimatedTotalCost = 0;
+    let lastQueuePosition = 0;
+
+    for (const video of this.videos.values()) {
+      if (video.batchId !== batchId) continue;
+
+      const cost = this.provider.getEstimatedCost(video.model, video.duration);
+      estimatedTotalCost += cost;
+
+      if (this.inProgress.has(video.notionPageId)) {
+        inProgress++;
+      } else if (this.completed.has(video.notionPageId)) {
+        completed++;
+        spendSoFar += cost;
+
+        if (assetDownloadManager.getDownloadStatus(video.notionPageId)?.status === 'completed') {
+          downloaded++;
+        }
+      } else if (this.failed.has(video.notionPageId) && !this.retryTimers.has(video.notionPageId)) {
+        failed++;
+      } else if (this.cancelled.has(video.notionPageId)) {
+        cancelled++;
+      } else {
+        // Includes failed videos waiting on an automatic retry
+        queued++;
+        lastQueuePosition = Math.max(lastQueuePosition, this.getQueuePosition(video.notionPageId));
+      }
+    }
+
+    const done = queued === 0 && inProgress === 0;
+    const paused = this.pausedBatches.has(batchId);
 
     return {
       batchId,
-      total: queuedCount + inProgressCount,
-      queued: queuedCount,
-      inProgress: inProgressCount,
-      completed: 0, // Would need to track batchId
-      failed: 0, // Would need to track batchId
+      total: queued + inProgress + completed + failed + cancelled,
+      queued,
+      inProgress,
+      completed,
+      failed,
+      cancelled,
+      downloaded,
+      paused,
+      spendCapReached: this.capHeldBatches.get(batchId),
+      done,
+      estimatedCompletionTime:
+        done || paused ? undefined : this.estimateCompletionTime(lastQueuePosition),
+      spendSoFar: parseFloat(spendSoFar.toFixed(2)),
+      estimatedTotalCost: parseFloat(estimatedTotalCost.toFixed(2)),
     };
   }
+
+  /**
+   * Gets batch status for every batch the queue is tracking
+   * @param tenantId - Only that tenant's batches
+   */
+  getAllBatchStatuses(tenantId?: string): BatchQueueStatus[] {
+    const batchIds = new Set(
+      Array.from(this.videos.values())
+        .filter((video) => tenantId === undefined || video.tenantId === tenantId)
+        .map((video) => video.batchId)
+    );
+    return Array.from(batchIds).map((batchId) => this.getBatchStatus(batchId));
+  }
+
+  /**
+   * Estimates when the video at the given queue position will finish
+   * Everything ahead of it (including videos already generating) is dispatched
+   * in rounds of the total concurrency, each taking the observed average generation time.
+   */
+  private estimateCompletionTime(queuePosition: number): string {
+    const rounds = Math.max(1, Math.ceil((queuePosition + this.inProgress.size) / this.rateLimiter.getTotalConcurrency()));
+    const estimatedMs = rounds * this.getAverageGenerationTimeMs();
+    return new Date(Date.now() + estimatedMs).toISOString();
+  }
+
+  /**
+   * Average start-to-finish time of completed videos
+   */
+  private getAverageGenerationTimeMs(): number {
+    let totalMs = 0;
+    let samples = 0;
+
+    for (const notionPageId of this.completed) {
+      const timing = this.timings.get(notionPageId);
+      if (timing?.startedAt && timing.completedAt) {
+        totalMs += timing.completedAt.getTime() - timing.startedAt.getTime();
+        samples++;
+      }
+    }
+
+    return samples > 0 ? totalMs / samples : DEFAULT_GENERATION_TIME_MS;
+  }
 }
 
 // Singleton instance
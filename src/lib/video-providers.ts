@@ -0,0 +1,394 @@
+// Video Provider System
+// Supports multiple video generation backends: Sora 2, local fake provider
+
+import {
+  SoraClient,
+  SoraAPIError,
+  SORA_MODEL_CAPABILITIES,
+  type SoraModel,
+  type SoraDuration,
+  type SoraGenerateResponse,
+  type SoraStatusResponse,
+} from './sora-client';
+import { getSoraCost } from './pricing-config';
+import { getLoadedRateCard } from './rate-cards';
+
+export type VideoProviderId = 'sora' | 'fake';
+
+export type VideoAssetVariant = 'video' | 'thumbnail' | 'spritesheet';
+
+/**
+ * Durations and output sizes a provider supports for one model
+ */
+export type VideoModelCapabilities = {
+  durations: number[]; // Seconds
+  sizes: Record<string, string>; // Pixel dimensions by aspect ratio, e.g. { '16:9': '1280x720' }
+};
+
+/**
+ * What a provider can generate
+ * Used to validate requests before they reach the queue
+ */
+export type VideoProviderCapabilities = {
+  models: Record<string, VideoModelCapabilities>; // Keyed by the provider's model ID
+  supportsRemix: boolean;
+};
+
+/**
+ * First-frame image sent with a generation request
+ */
+export type VideoInputReference = {
+  data: Uint8Array;
+  mimeType: string; // image/jpeg, image/png or image/webp
+  fileName: string;
+};
+
+/**
+ * Request to generate a new video, independent of any one provider's API
+ */
+export type VideoGenerationRequest = {
+  prompt: string;
+  model: string; // One of the provider's capability models
+  durationSeconds: number;
+  size?: string; // Pixel dimensions like "1280x720"
+  inputReference?: VideoInputReference; // Must match size exactly
+};
+
+/**
+ * Request to generate a variation of a finished video
+ */
+export type VideoRemixRequest = {
+  sourceVideoId: string; // Provider video ID of the finished source video
+  prompt: string; // Prompt describing the change
+};
+
+/**
+ * Video provider interface
+ * All video generation backends must implement this interface
+ */
+export interface VideoProvider {
+  readonly id: VideoProviderId;
+
+  /**
+   * Returns supported models, durations and sizes
+   */
+  getCapabilities(): VideoProviderCapabilities;
+
+  /**
+   * Starts generating a new video
+   * @returns Provider response with the video ID used for status and download calls
+   */
+  generateVideo(request: VideoGenerationRequest): Promise<SoraGenerateResponse>;
+
+  /**
+   * Gets current status of a video
+   * @param videoId - Provider video ID returned by generateVideo/remixVideo
+   */
+  getVideoStatus(videoId: string): Promise<SoraStatusResponse>;
+
+  /**
+   * Downloads a generated asset
+   * @param videoId - Provider video ID
+   * @param variant - Asset to download (video, thumbnail, spritesheet)
+   */
+  downloadVideo(videoId: string, variant?: VideoAssetVariant): Promise<Blob>;
+
+  /**
+   * Starts a new video based on a finished one with a changed prompt
+   * Only called when getCapabilities().supportsRemix is set
+   */
+  remixVideo(request: VideoRemixRequest): Promise<SoraGenerateResponse>;
+
+  /**
+   * Cancels a generating video or deletes a finished one
+   * @param videoId - Provider video ID
+   */
+  deleteVideo(videoId: string): Promise<void>;
+
+  /**
+   * Gets estimated cost in USD for a single video
+   */
+  getEstimatedCost(model: string, durationSeconds: number): number;
+}
+
+/**
+ * Sora 2 video provider
+ * Wraps SoraClient; the client is created on first use so importing this
+ * module does not require OPENAI_API_KEY
+ */
+export class SoraVideoProvider implements VideoProvider {
+  readonly id = 'sora' as const;
+  private client?: SoraClient;
+
+  constructor(client?: SoraClient) {
+    this.client = client;
+  }
+
+  private getClient(): SoraClient {
+    if (!this.client) {
+      this.client = new SoraClient();
+    }
+
+    return this.client;
+  }
+
+  getCapabilities(): VideoProviderCapabilities {
+    return {
+      models: SORA_MODEL_CAPABILITIES,
+      supportsRemix: true,
+    };
+  }
+
+  generateVideo(request: VideoGenerationRequest): Promise<SoraGenerateResponse> {
+    return this.getClient().generateVideo({
+      prompt: request.prompt,
+      model: toSoraModel(request.model),
+      seconds: request.durationSeconds.toString(),
+      size: request.size,
+      inputReference: request.inputReference,
+    });
+  }
+
+  getVideoStatus(videoId: string): Promise<SoraStatusResponse> {
+    return this.getClient().getVideoStatus(videoId);
+  }
+
+  downloadVideo(videoId: string, variant: VideoAssetVariant = 'video'): Promise<Blob> {
+    return this.getClient().downloadVideo(videoId, variant);
+  }
+
+  remixVideo(request: VideoRemixRequest): Promise<SoraGenerateResponse> {
+    return this.getClient().remixVideo(request.sourceVideoId, request.prompt);
+  }
+
+  deleteVideo(videoId: string): Promise<void> {
+    return this.getClient().deleteVideo(videoId);
+  }
+
+  getEstimatedCost(model: string, durationSeconds: number): number {
+    return getSoraCost(toSoraModel(model), durationSeconds as SoraDuration, getLoadedRateCard());
+  }
+}
+
+/**
+ * Narrows a provider-neutral model ID to a Sora model
+ * @throws SoraAPIError for models Sora does not offer
+ */
+function toSoraModel(model: string): SoraModel {
+  if (!(model in SORA_MODEL_CAPABILITIES)) {
+    throw new SoraAPIError(`Unsupported Sora model: ${model}`, 400, 'invalid_model');
+  }
+  return model as SoraModel;
+}
+
+/**
+ * Fake video tracking (fake provider only)
+ */
+type FakeVideo = {
+  videoId: string;
+  prompt: string;
+  model: SoraModel;
+  duration: number;
+  createdAt: Date;
+  shouldFail: boolean;
+};
+
+const FAKE_FAILURE_MARKER = '[fail]'; // Prompts containing this marker fail deterministically
+const DEFAULT_FAKE_GENERATION_MS = 20 * 1000; // 20 seconds per video
+
+// Placeholder downloads start with real file signatures so integrity checks accept them
+const FAKE_ASSET_FORMATS: Record<VideoAssetVariant, { contentType: string; signature: Buffer }> = {
+  video: {
+    contentType: 'video/mp4',
+    signature: Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0x18]), Buffer.from('ftypmp42', 'latin1')]),
+  },
+  thumbnail: {
+    contentType: 'image/webp',
+    signature: Buffer.from('RIFF\x00\x00\x00\x00WEBP', 'latin1'),
+  },
+  spritesheet: {
+    contentType: 'image/jpeg',
+    signature: Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+  },
+};
+
+// Shared across instances so queue, poller and download manager see the same videos
+const fakeVideos: Map<string, FakeVideo> = new Map();
+let fakeVideoSequence = 0;
+
+/**
+ * Deterministic local video provider for development and tests
+ * - No network calls, no API key, no cost
+ * - Videos complete after a fixed generation time (FAKE_VIDEO_GENERATION_MS)
+ * - Prompts containing "[fail]" fail with a generation error
+ * - Downloads return small placeholder files
+ */
+export class FakeVideoProvider implements VideoProvider {
+  readonly id = 'fake' as const;
+  private generationTimeMs: number;
+
+  constructor(generationTimeMs?: number) {
+    this.generationTimeMs =
+      generationTimeMs ??
+      (parseInt(process.env.FAKE_VIDEO_GENERATION_MS || '', 10) || DEFAULT_FAKE_GENERATION_MS);
+  }
+
+  getCapabilities(): VideoProviderCapabilities {
+    return {
+      models: SORA_MODEL_CAPABILITIES,
+      supportsRemix: true,
+    };
+  }
+
+  async generateVideo(request: VideoGenerationRequest): Promise<SoraGenerateResponse> {
+    // Offers the Sora models, so requests are validated the same way
+    const video = this.createVideo(request.prompt, toSoraModel(request.model), request.durationSeconds);
+
+    console.log(`[Fake Provider] Video queued: ${video.videoId}`);
+
+    return this.toGenerateResponse(video);
+  }
+
+  async getVideoStatus(videoId: string): Promise<SoraStatusResponse> {
+    const video = fakeVideos.get(videoId) ?? this.recoverVideo(videoId);
+    const elapsed = Date.now() - video.createdAt.getTime();
+    const progress = Math.min(100, Math.floor((elapsed / this.generationTimeMs) * 100));
+
+    const base = {
+      video_id: video.videoId,
+      model: video.model,
+      duration: video.duration,
+      prompt: video.prompt,
+      created_at: video.createdAt.toISOString(),
+    };
+
+    if (progress < 100) {
+      return { ...base, status: progress === 0 ? 'queued' : 'in_progress', progress };
+    }
+
+    const completedAt = new Date(video.createdAt.getTime() + this.generationTimeMs).toISOString();
+
+    if (video.shouldFail) {
+      return {
+        ...base,
+        status: 'failed',
+        error: {
+          code: 'fake_generation_failed',
+          message: `Fake provider failure requested by prompt marker "${FAKE_FAILURE_MARKER}"`,
+          type: 'generation_failed',
+        },
+        completed_at: completedAt,
+      };
+    }
+
+    return {
+      ...base,
+      status: 'completed',
+      progress: 100,
+      download_url: `fake://videos/${video.videoId}/content`,
+      completed_at: completedAt,
+    };
+  }
+
+  async downloadVideo(videoId: string, variant: VideoAssetVariant = 'video'): Promise<Blob> {
+    const status = await this.getVideoStatus(videoId);
+
+    if (status.status !== 'completed') {
+      throw new SoraAPIError(`Failed to download ${variant}: video not completed`, 404, 'download_failed');
+    }
+
+    const { contentType, signature } = FAKE_ASSET_FORMATS[variant];
+    return new Blob([Buffer.concat([signature, Buffer.from(`FAKE_${variant.toUpperCase()}:${videoId}`)])], {
+      type: contentType,
+    });
+  }
+
+  async remixVideo(request: VideoRemixRequest): Promise<SoraGenerateResponse> {
+    const { sourceVideoId } = request;
+    const source = fakeVideos.get(sourceVideoId) ?? this.recoverVideo(sourceVideoId);
+    const video = this.createVideo(request.prompt, source.model, source.duration);
+
+    console.log(`[Fake Provider] Remix queued: ${video.videoId} (remix of ${sourceVideoId})`);
+
+    return this.toGenerateResponse(video);
+  }
+
+  async deleteVideo(videoId: string): Promise<void> {
+    fakeVideos.delete(videoId);
+    console.log(`[Fake Provider] Deleted video ${videoId}`);
+  }
+
+  getEstimatedCost(): number {
+    return 0;
+  }
+
+  private createVideo(prompt: string, model: SoraModel, duration: number): FakeVideo {
+    const createdAt = new Date();
+    fakeVideoSequence += 1;
+
+    const video: FakeVideo = {
+      // Creation time is encoded in the ID so status survives a server restart
+      videoId: `fake_${createdAt.getTime()}_${fakeVideoSequence}`,
+      prompt,
+      model,
+      duration,
+      createdAt,
+      shouldFail: prompt.toLowerCase().includes(FAKE_FAILURE_MARKER),
+    };
+
+    fakeVideos.set(video.videoId, video);
+    return video;
+  }
+
+  /**
+   * Rebuilds a video that was created before a restart (prompt is not recoverable)
+   */
+  private recoverVideo(videoId: string): FakeVideo {
+    const match = videoId.match(/^fake_(\d+)_\d+$/);
+
+    if (!match) {
+      throw new SoraAPIError(`Video ${videoId} not found`, 404, 'video_not_found');
+    }
+
+    const video: FakeVideo = {
+      videoId,
+      prompt: '',
+      model: 'sora-2',
+      duration: 5,
+      createdAt: new Date(parseInt(match[1], 10)),
+      shouldFail: false,
+    };
+
+    fakeVideos.set(videoId, video);
+    return video;
+  }
+
+  private toGenerateResponse(video: FakeVideo): SoraGenerateResponse {
+    return {
+      video_id: video.videoId,
+      status: 'queued',
+      model: video.model,
+      duration: video.duration,
+      prompt: video.prompt,
+      created_at: video.createdAt.toISOString(),
+    };
+  }
+}
+
+/**
+ * Factory function to create video provider based on environment config
+ */
+export function createVideoProvider(): VideoProvider {
+  const providerId = process.env.VIDEO_PROVIDER || 'sora';
+
+  switch (providerId) {
+    case 'fake':
+      console.log('[Video Provider] Using fake video provider');
+      return new FakeVideoProvider();
+
+    case 'sora':
+    default:
+      console.log('[Video Provider] Using Sora video provider');
+      return new SoraVideoProvider();
+  }
+}
@@ -5,9 +5,14 @@
  * Enables client rate limiting by validating before batch approval
  *
  * AC#6: System checks API wallet balance and blocks generation if insufficient funds
+ *
+ * Balances are the tenant's remaining prepaid budgets, tracked in the spend ledger (spend-ledger.ts)
  */
 
 import { type ProviderCosts } from './cost-calculator';
+import { getSoraCost, type SoraModel, type VideoDuration } from './pricing-config';
+import { getActiveRateCard } from './rate-cards';
+import { getProviderSpend, getTenantBudgets, loadPendingGenerations } from './database/spend-ledger';
 
 /**
  * API Provider identifiers
@@ -19,9 +24,13 @@ export type ApiProvider = 'openai' | 'anthropic' | 'google' | 'perplexity';
  */
 export type ProviderBalance = {
   provider: ApiProvider;
-  balance: number;
+  balance: number; // Remaining budget (Infinity when the provider has no budget)
   currency: string;
   lastChecked: Date;
+  budgeted: boolean;
+  budget?: number;
+  spent: number; // Ledger spend since the budget started
+  reserved: number; // Queued and generating videos not yet in the ledger
 };
 
 /**
@@ -30,7 +39,7 @@ export type ProviderBalance = {
 export type ProviderValidation = {
   provider: ApiProvider;
   required: number;
-  available: number;
+  available: number | null; // null when the provider has no budget
   sufficient: boolean;
   shortfall: number; // 0 if sufficient, otherwise (required - available)
 };
@@ -43,125 +52,93 @@ export type WalletValidationResult = {
   validations: ProviderValidation[];
   insufficientProviders: ApiProvider[];
   totalRequired: number;
-  totalAvailable: number;
+  totalAvailable: number; // Budgeted providers only
 };
 
 /**
- * Get wallet balance for OpenAI
- * Calls: GET /v1/organization/billing/balance
- *
- * NOTE: This is a placeholder for actual API integration
- * Implementation requires OpenAI SDK and API key
+ * Remaining prepaid budget of a tenant with one provider
+ * Budget minus ledger spend since the budget started; for OpenAI, queued and generating
+ * videos are reserved at their Sora price so concurrent batches cannot both spend the same budget.
+ * Providers without a budget are unlimited.
  */
-export async function getOpenAIBalance(): Promise<ProviderBalance> {
-  // TODO: Implement actual OpenAI billing API call
-  // const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  // const response = await openai.billing.balance();
+async function getBudgetBalance(provider: ApiProvider, tenantId: string): Promise<ProviderBalance> {
+  const budget = (await getTenantBudgets(tenantId)).find((b) => b.provider === provider);
 
-  // For now, throw error to enforce explicit implementation
-  throw new Error(
-    'OpenAI balance check not implemented. ' +
-    'Implement getOpenAIBalance() with OpenAI SDK: ' +
-    'GET /v1/organization/billing/balance'
-  );
+  if (!budget) {
+    return {
+      provider,
+      balance: Number.POSITIVE_INFINITY,
+      currency: 'USD',
+      lastChecked: new Date(),
+      budgeted: false,
+      spent: 0,
+      reserved: 0,
+    };
+  }
+
+  const spent = await getProviderSpend(tenantId, provider, budget.startsAt);
 
-  // Expected implementation:
-  // return {
-  //   provider: 'openai',
-  //   balance: response.balance,
-  //   currency: response.currency || 'USD',
-  //   lastChecked: new Date(),
-  // };
+  let reserved = 0;
+  if (provider === 'openai') {
+    const rateCard = await getActiveRateCard();
+    for (const job of await loadPendingGenerations(tenantId)) {
+      reserved += getSoraCost(job.model as SoraModel, job.duration as VideoDuration, rateCard);
+    }
+  }
+
+  return {
+    provider,
+    balance: budget.amountUsd - spent - reserved,
+    currency: 'USD',
+    lastChecked: new Date(),
+    budgeted: true,
+    budget: budget.amountUsd,
+    spent,
+    reserved,
+  };
 }
 
 /**
- * Get wallet balance for Anthropic
- * Calls: GET /v1/account/balance
- *
- * NOTE: This is a placeholder for actual API integration
+ * Get remaining OpenAI budget (Sora 2 + GPT-5 prompts)
  */
-export async function getAnthropicBalance(): Promise<ProviderBalance> {
-  // TODO: Implement actual Anthropic account API call
-  // const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  // const response = await anthropic.account.balance();
-
-  throw new Error(
-    'Anthropic balance check not implemented. ' +
-    'Implement getAnthropicBalance() with Anthropic SDK: ' +
-    'GET /v1/account/balance'
-  );
-
-  // Expected implementation:
-  // return {
-  //   provider: 'anthropic',
-  //   balance: response.balance,
-  //   currency: 'USD',
-  //   lastChecked: new Date(),
-  // };
+export async function getOpenAIBalance(tenantId: string): Promise<ProviderBalance> {
+  return getBudgetBalance('openai', tenantId);
 }
 
 /**
- * Get quota/balance for Google Vertex AI
- *
- * NOTE: This is a placeholder for actual API integration
+ * Get remaining Anthropic budget (Claude)
  */
-export async function getGoogleBalance(): Promise<ProviderBalance> {
-  // TODO: Implement actual Google Vertex AI quota check
-  // const vertexAI = new VertexAI({ projectId: process.env.GOOGLE_PROJECT_ID });
-  // const response = await vertexAI.checkQuota();
-
-  throw new Error(
-    'Google balance check not implemented. ' +
-    'Implement getGoogleBalance() with Google Cloud SDK to check Vertex AI quota'
-  );
-
-  // Expected implementation:
-  // return {
-  //   provider: 'google',
-  //   balance: response.availableCredits,
-  //   currency: 'USD',
-  //   lastChecked: new Date(),
-  // };
+export async function getAnthropicBalance(tenantId: string): Promise<ProviderBalance> {
+  return getBudgetBalance('anthropic', tenantId);
 }
 
 /**
- * Get credits balance for Perplexity
- *
- * NOTE: This is a placeholder for actual API integration
+ * Get remaining Google budget (Gemini)
  */
-export async function getPerplexityBalance(): Promise<ProviderBalance> {
-  // TODO: Implement actual Perplexity credits API call
-  // const response = await fetch('https://api.perplexity.ai/credits', {
-  //   headers: { Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}` }
-  // });
-
-  throw new Error(
-    'Perplexity balance check not implemented. ' +
-    'Implement getPerplexityBalance() with Perplexity API'
-  );
+export async function getGoogleBalance(tenantId: string): Promise<ProviderBalance> {
+  return getBudgetBalance('google', tenantId);
+}
 
-  // Expected implementation:
-  // return {
-  //   provider: 'perplexity',
-  //   balance: response.credits,
-  //   currency: 'USD',
-  //   lastChecked: new Date(),
-  // };
+/**
+ * Get remaining Perplexity budget (trend research)
+ */
+export async function getPerplexityBalance(tenantId: string): Promise<ProviderBalance> {
+  return getBudgetBalance('perplexity', tenantId);
 }
 
 /**
  * Get balance for a specific provider
  */
-export async function getProviderBalance(provider: ApiProvider): Promise<ProviderBalance> {
+export async function getProviderBalance(provider: ApiProvider, tenantId: string): Promise<ProviderBalance> {
   switch (provider) {
     case 'openai':
-      return getOpenAIBalance();
+      return getOpenAIBalance(tenantId);
     case 'anthropic':
-      return getAnthropicBalance();
+      return getAnthropicBalance(tenantId);
     case 'google':
-      return getGoogleBalance();
+      return getGoogleBalance(tenantId);
     case 'perplexity':
-      return getPerplexityBalance();
+      return getPerplexityBalance(tenantId);
     default:
       throw new Error(`Unknown provider: ${provider}`);
   }
@@ -171,18 +148,21 @@ export async function getProviderBalance(provider: ApiProvider): Promise<Provide
  * Get balances for all providers
  * Fetches in parallel for performance
  */
-export async function getAllProviderBalances(): Promise<ProviderBalance[]> {
+export async function getAllProviderBalances(tenantId: string): Promise<ProviderBalance[]> {
   const providers: ApiProvider[] = ['openai', 'anthropic', 'google', 'perplexity'];
 
   const balancePromises = providers.map(provider =>
-    getProviderBalance(provider).catch(error => {
-      // Return error as balance object for graceful handling
+    getProviderBalance(provider, tenantId).catch(error => {
+      // Return error as balance object for graceful handling (blocks the provider rather than overspending)
       console.error(`Failed to fetch balance for ${provider}:`, error);
       return {
         provider,
         balance: 0,
         currency: 'USD',
         lastChecked: new Date(),
+        budgeted: true,
+        spent: 0,
+        reserved: 0,
       };
     })
   );
@@ -200,17 +180,26 @@ export function validateWalletBalance(
 ): WalletValidationResult {
   const validations: ProviderValidation[] = [];
 
-  // Create balance lookup map
+  // Create balance lookup map (providers without a budget are unlimited)
   const balanceMap = new Map<ApiProvider, number>();
   for (const balance of providerBalances) {
-    balanceMap.set(balance.provider, balance.balance);
+    if (balance.budgeted) {
+      balanceMap.set(balance.provider, balance.balance);
+    }
   }
+  const unlimited = new Set(providerBalances.filter((b) => !b.budgeted).map((b) => b.provider));
 
   // Validate each provider
   const providers: ApiProvider[] = ['openai', 'anthropic', 'google', 'perplexity'];
 
   for (const provider of providers) {
     const required = providerCosts[provider];
+
+    if (unlimited.has(provider)) {
+      validations.push({ provider, required, available: null, sufficient: true, shortfall: 0 });
+      continue;
+    }
+
     const available = balanceMap.get(provider) || 0;
     const sufficient = available >= required;
     const shortfall = sufficient ? 0 : required - available;
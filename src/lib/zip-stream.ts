@@ -0,0 +1,241 @@
+// Streaming ZIP Writer (Story 2.7, AC#6)
+// Writes uncompressed (stored) ZIP archives entry by entry so exports never hold
+// the whole archive in memory. Videos and images are already compressed, so
+// deflating them again would only cost CPU. Switches to ZIP64 records once the
+// archive passes 4 GB or 65,535 entries.
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+const VERSION_DEFAULT = 20; // 2.0 - stored entries
+const VERSION_ZIP64 = 45; // 4.5 - ZIP64 extensions
+const FLAG_UTF8_NAMES = 0x0800;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * Central directory record kept for each written entry
+ */
+type ZipEntryRecord = {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+};
+
+/**
+ * An encoded entry and the name it was stored under
+ */
+export type ZipFileChunk = {
+  name: string; // Differs from the requested name when that name was already used
+  chunk: Buffer;
+};
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 as required by the ZIP format
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date to MS-DOS time and date fields
+ */
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Streaming ZIP archive writer
+ * Call addFile() for each entry and finish() once; every call returns the bytes to send next
+ */
+export class ZipStreamWriter {
+  private entries: ZipEntryRecord[] = [];
+  private names: Set<string> = new Set();
+  private offset: number = 0;
+  private finished: boolean = false;
+
+  /**
+   * Encodes one file entry (local header followed by the file data)
+   * @param name - Path inside the archive; duplicates get a numeric suffix
+   * @param data - File contents (single entries are limited to 4 GB)
+   * @returns The bytes to send and the name the entry was stored under
+   */
+  addFile(name: string, data: Uint8Array, modifiedAt: Date = new Date()): ZipFileChunk {
+    if (this.finished) {
+      throw new Error('Cannot add files to a finished ZIP archive');
+    }
+    if (data.length >= MAX_UINT32) {
+      throw new Error(`ZIP entry "${name}" exceeds the 4 GB single-file limit`);
+    }
+
+    const finalName = this.uniqueName(name);
+    const entryName = Buffer.from(finalName, 'utf8');
+    const { dosTime, dosDate } = toDosDateTime(modifiedAt);
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION_DEFAULT, 4);
+    header.writeUInt16LE(FLAG_UTF8_NAMES, 6);
+    header.writeUInt16LE(0, 8); // Stored (no compression)
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(data.length, 18); // Compressed size
+    header.writeUInt32LE(data.length, 22); // Uncompressed size
+    header.writeUInt16LE(entryName.length, 26);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    this.entries.push({ name: entryName, crc, size: data.length, offset: this.offset, dosTime, dosDate });
+
+    const chunk = Buffer.concat([header, entryName, data]);
+    this.offset += chunk.length;
+    return { name: finalName, chunk };
+  }
+
+  /**
+   * Encodes the central directory and end-of-archive records
+   */
+  finish(): Buffer {
+    if (this.finished) {
+      throw new Error('ZIP archive already finished');
+    }
+    this.finished = true;
+
+    const centralDirectoryOffset = this.offset;
+    const records = this.entries.map((entry) => this.centralDirectoryRecord(entry));
+    const centralDirectory = Buffer.concat(records);
+    const centralDirectorySize = centralDirectory.length;
+
+    const needsZip64 =
+      this.entries.length >= MAX_UINT16 ||
+      centralDirectoryOffset >= MAX_UINT32 ||
+      centralDirectorySize >= MAX_UINT32;
+
+    const trailer: Buffer[] = [centralDirectory];
+
+    if (needsZip64) {
+      const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+      zip64End.writeBigUInt64LE(BigInt(44), 4); // Size of the remaining record
+      zip64End.writeUInt16LE(VERSION_ZIP64, 12);
+      zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+      zip64End.writeUInt32LE(0, 16); // This disk
+      zip64End.writeUInt32LE(0, 20); // Disk with the central directory
+      zip64End.writeBigUInt64LE(BigInt(this.entries.length), 24);
+      zip64End.writeBigUInt64LE(BigInt(this.entries.length), 32);
+      zip64End.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+      zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+      locator.writeUInt32LE(0, 4);
+      locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+      locator.writeUInt32LE(1, 16); // Total disks
+
+      trailer.push(zip64End, locator);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(0, 4);
+    end.writeUInt16LE(0, 6);
+    end.writeUInt16LE(Math.min(this.entries.length, MAX_UINT16), 8);
+    end.writeUInt16LE(Math.min(this.entries.length, MAX_UINT16), 10);
+    end.writeUInt32LE(Math.min(centralDirectorySize, MAX_UINT32), 12);
+    end.writeUInt32LE(Math.min(centralDirectoryOffset, MAX_UINT32), 16);
+    end.writeUInt16LE(0, 20); // Comment length
+    trailer.push(end);
+
+    return Buffer.concat(trailer);
+  }
+
+  /**
+   * Central directory header; offsets past 4 GB move into a ZIP64 extra field
+   */
+  private centralDirectoryRecord(entry: ZipEntryRecord): Buffer {
+    const zip64Offset = entry.offset >= MAX_UINT32;
+    const extra = Buffer.alloc(zip64Offset ? 12 : 0);
+
+    if (zip64Offset) {
+      extra.writeUInt16LE(0x0001, 0); // ZIP64 extended information
+      extra.writeUInt16LE(8, 2);
+      extra.writeBigUInt64LE(BigInt(entry.offset), 4);
+    }
+
+    const version = zip64Offset ? VERSION_ZIP64 : VERSION_DEFAULT;
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    header.writeUInt16LE(version, 4); // Version made by
+    header.writeUInt16LE(version, 6); // Version needed to extract
+    header.writeUInt16LE(FLAG_UTF8_NAMES, 8);
+    header.writeUInt16LE(0, 10); // Stored
+    header.writeUInt16LE(entry.dosTime, 12);
+    header.writeUInt16LE(entry.dosDate, 14);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(entry.size, 20);
+    header.writeUInt32LE(entry.size, 24);
+    header.writeUInt16LE(entry.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt16LE(0, 32); // Comment length
+    header.writeUInt16LE(0, 34); // Disk number start
+    header.writeUInt16LE(0, 36); // Internal attributes
+    header.writeUInt32LE(0, 38); // External attributes
+    header.writeUInt32LE(zip64Offset ? MAX_UINT32 : entry.offset, 42);
+
+    return Buffer.concat([header, entry.name, extra]);
+  }
+
+  /**
+   * Appends " (2)", " (3)", ... before the extension for duplicate names
+   */
+  private uniqueName(name: string): string {
+    let candidate = name;
+    let counter = 2;
+
+    while (this.names.has(candidate)) {
+      const dot = name.lastIndexOf('.');
+      candidate =
+        dot > name.lastIndexOf('/')
+          ? `${name.slice(0, dot)} (${counter})${name.slice(dot)}`
+          : `${name} (${counter})`;
+      counter++;
+    }
+
+    this.names.add(candidate);
+    return candidate;
+  }
+}
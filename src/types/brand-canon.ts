@@ -9,6 +9,16 @@ export interface BrandCanon {
   icp_profile: string; // Ideal customer profile (Ideal Customer Profile)
   successful_prompts: string[]; // Past successful Sora prompts
   prohibited_content: string[]; // Content restrictions
+  compliance_rules?: BrandComplianceRules; // Structured rules enforced by the compliance validator
+}
+
+// Machine-checkable brand rules (Story 2.1)
+// Free-text prohibited_content lines such as "Max 45 spoken words" or "Banned terms: X, Y" are compiled too
+export interface BrandComplianceRules {
+  max_spoken_words?: number;
+  max_syllables?: number;
+  banned_terms?: string[]; // Competitor names, claims the brand may not make, etc.
+  required_disclaimers?: string[]; // Must be spoken (or appear in the prompt when there is no dialog)
 }
 
 // QDRANT Point structure for Brand Canon
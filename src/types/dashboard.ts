@@ -31,6 +31,7 @@ export type DashboardFormData = {
   ost: boolean;
   soraModel: 'sora-2' | 'sora-2-pro';
   videoDuration: 5 | 10 | 20;
+  aspectRatio: '16:9' | '9:16' | '1:1';
 
   // DEMOGRAPHICS
   ageGeneration: string[]; // Multi-select
@@ -126,6 +127,8 @@ export type CostResult = {
 
   // Warnings
   pricingStale: boolean;
+  driftedProviders: ApiProvider[];
+  rateCardVersion: string;
 };
 
 // Wallet Balance Types (Story 1.5)